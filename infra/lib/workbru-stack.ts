@@ -2,7 +2,10 @@ import * as cdk from 'aws-cdk-lib';
 import { Construct } from 'constructs';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import * as s3 from 'aws-cdk-lib/aws-s3';
+import * as s3n from 'aws-cdk-lib/aws-s3-notifications';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
 import * as apigateway from 'aws-cdk-lib/aws-apigateway';
 import * as iam from 'aws-cdk-lib/aws-iam';
 import * as cognito from 'aws-cdk-lib/aws-cognito';
@@ -44,6 +47,269 @@ export class WorkbruStack extends cdk.Stack {
             projectionType: dynamodb.ProjectionType.ALL
         });
 
+        // DynamoDB table for the place text search index, one item per term per place
+        // bucket is the term's first two characters, id is `${term}#${placeId}`
+        const searchIndexTable = new dynamodb.Table(this, 'SearchIndexTable', {
+            partitionKey: { name: 'bucket', type: dynamodb.AttributeType.STRING },
+            sortKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            removalPolicy: cdk.RemovalPolicy.DESTROY, // rebuilt from places with `bun run reindex-search`
+        });
+
+        // Add GSI for finding a place's terms when it's updated or deleted
+        searchIndexTable.addGlobalSecondaryIndex({
+            indexName: 'place-index',
+            partitionKey: { name: 'placeId', type: dynamodb.AttributeType.STRING },
+            projectionType: dynamodb.ProjectionType.KEYS_ONLY
+        });
+
+        // DynamoDB table for place reviews, id is `${placeId}#${userId}` so each user gets one review per place
+        const reviewsTable = new dynamodb.Table(this, 'ReviewsTable', {
+            partitionKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+        });
+
+        // Add GSI for listing a place's reviews
+        reviewsTable.addGlobalSecondaryIndex({
+            indexName: 'placeId-index',
+            partitionKey: { name: 'placeId', type: dynamodb.AttributeType.STRING },
+            sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+            projectionType: dynamodb.ProjectionType.ALL
+        });
+
+        // DynamoDB table for place photos, the image itself lives in the assets bucket
+        const photosTable = new dynamodb.Table(this, 'PhotosTable', {
+            partitionKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+            timeToLiveAttribute: 'expiresAt', // uploads that are never confirmed
+        });
+
+        // Add GSI for listing a place's photos
+        photosTable.addGlobalSecondaryIndex({
+            indexName: 'placeId-index',
+            partitionKey: { name: 'placeId', type: dynamodb.AttributeType.STRING },
+            sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+            projectionType: dynamodb.ProjectionType.ALL
+        });
+
+        // Add GSI for the photo moderation queue
+        photosTable.addGlobalSecondaryIndex({
+            indexName: 'status-index',
+            partitionKey: { name: 'status', type: dynamodb.AttributeType.STRING },
+            sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+            projectionType: dynamodb.ProjectionType.ALL
+        });
+
+        // DynamoDB tables for live busyness, check-ins and "how busy is it" votes expire after a week
+        const checkInsTable = new dynamodb.Table(this, 'CheckInsTable', {
+            partitionKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+            timeToLiveAttribute: 'expiresAt',
+        });
+
+        // Add GSIs for a place's check-ins and a user's current check-in
+        checkInsTable.addGlobalSecondaryIndex({
+            indexName: 'placeId-index',
+            partitionKey: { name: 'placeId', type: dynamodb.AttributeType.STRING },
+            sortKey: { name: 'checkedInAt', type: dynamodb.AttributeType.STRING },
+            projectionType: dynamodb.ProjectionType.ALL
+        });
+        checkInsTable.addGlobalSecondaryIndex({
+            indexName: 'userId-index',
+            partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+            sortKey: { name: 'checkedInAt', type: dynamodb.AttributeType.STRING },
+            projectionType: dynamodb.ProjectionType.ALL
+        });
+
+        // id is `${placeId}#${userId}` so each user has one current vote per place
+        const busynessVotesTable = new dynamodb.Table(this, 'BusynessVotesTable', {
+            partitionKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+            timeToLiveAttribute: 'expiresAt',
+        });
+
+        busynessVotesTable.addGlobalSecondaryIndex({
+            indexName: 'placeId-index',
+            partitionKey: { name: 'placeId', type: dynamodb.AttributeType.STRING },
+            sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+            projectionType: dynamodb.ProjectionType.ALL
+        });
+
+        // DynamoDB table for popular times, one running histogram per place (id is the place ID)
+        const popularTimesTable = new dynamodb.Table(this, 'PopularTimesTable', {
+            partitionKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+        });
+
+        // DynamoDB table for Wi-Fi speed test reports, id is `${placeId}#${sessionId}` so each session reports once per place
+        const wifiReportsTable = new dynamodb.Table(this, 'WifiReportsTable', {
+            partitionKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+        });
+
+        // Add GSI for a place's reports
+        wifiReportsTable.addGlobalSecondaryIndex({
+            indexName: 'placeId-index',
+            partitionKey: { name: 'placeId', type: dynamodb.AttributeType.STRING },
+            sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+            projectionType: dynamodb.ProjectionType.ALL
+        });
+
+        // DynamoDB table for suggested place edits awaiting moderation
+        const suggestionsTable = new dynamodb.Table(this, 'SuggestionsTable', {
+            partitionKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+        });
+
+        // Add GSI for the moderation queue
+        suggestionsTable.addGlobalSecondaryIndex({
+            indexName: 'status-index',
+            partitionKey: { name: 'status', type: dynamodb.AttributeType.STRING },
+            sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+            projectionType: dynamodb.ProjectionType.ALL
+        });
+
+        // DynamoDB table for place revisions, one immutable record per change
+        const placeRevisionsTable = new dynamodb.Table(this, 'PlaceRevisionsTable', {
+            partitionKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+        });
+
+        // Add GSI for a place's history
+        placeRevisionsTable.addGlobalSecondaryIndex({
+            indexName: 'placeId-index',
+            partitionKey: { name: 'placeId', type: dynamodb.AttributeType.STRING },
+            sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+            projectionType: dynamodb.ProjectionType.ALL
+        });
+
+        // DynamoDB table for favourites, id is `${placeId}#${userId}` so each user favourites a place once
+        const favoritesTable = new dynamodb.Table(this, 'FavoritesTable', {
+            partitionKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+        });
+
+        // Add GSI for a user's favourites
+        favoritesTable.addGlobalSecondaryIndex({
+            indexName: 'userId-index',
+            partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+            sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+            projectionType: dynamodb.ProjectionType.ALL
+        });
+
+        // Add GSI for a place's favourites, they move with it when duplicates are merged
+        favoritesTable.addGlobalSecondaryIndex({
+            indexName: 'placeId-index',
+            partitionKey: { name: 'placeId', type: dynamodb.AttributeType.STRING },
+            projectionType: dynamodb.ProjectionType.ALL
+        });
+
+        // DynamoDB table for named collections of places, the places are kept inside each collection
+        const collectionsTable = new dynamodb.Table(this, 'CollectionsTable', {
+            partitionKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+        });
+
+        // Add GSI for a user's collections
+        collectionsTable.addGlobalSecondaryIndex({
+            indexName: 'userId-index',
+            partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+            sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+            projectionType: dynamodb.ProjectionType.ALL
+        });
+
+        // DynamoDB tables for teams, membership ids are `${teamId}#${userId}` so each user joins a team once
+        const teamsTable = new dynamodb.Table(this, 'TeamsTable', {
+            partitionKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+        });
+
+        const teamMembersTable = new dynamodb.Table(this, 'TeamMembersTable', {
+            partitionKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+        });
+
+        // Add GSIs for a team's members and a user's teams
+        teamMembersTable.addGlobalSecondaryIndex({
+            indexName: 'teamId-index',
+            partitionKey: { name: 'teamId', type: dynamodb.AttributeType.STRING },
+            sortKey: { name: 'joinedAt', type: dynamodb.AttributeType.STRING },
+            projectionType: dynamodb.ProjectionType.ALL
+        });
+        teamMembersTable.addGlobalSecondaryIndex({
+            indexName: 'userId-index',
+            partitionKey: { name: 'userId', type: dynamodb.AttributeType.STRING },
+            sortKey: { name: 'joinedAt', type: dynamodb.AttributeType.STRING },
+            projectionType: dynamodb.ProjectionType.ALL
+        });
+
+        const teamInvitesTable = new dynamodb.Table(this, 'TeamInvitesTable', {
+            partitionKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+            timeToLiveAttribute: 'expiresAt', // invites nobody accepted
+        });
+
+        // Add GSIs for a team's invites and looking an invite up by its token
+        teamInvitesTable.addGlobalSecondaryIndex({
+            indexName: 'teamId-index',
+            partitionKey: { name: 'teamId', type: dynamodb.AttributeType.STRING },
+            sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+            projectionType: dynamodb.ProjectionType.ALL
+        });
+        teamInvitesTable.addGlobalSecondaryIndex({
+            indexName: 'token-index',
+            partitionKey: { name: 'token', type: dynamodb.AttributeType.STRING },
+            projectionType: dynamodb.ProjectionType.ALL
+        });
+
+        // DynamoDB tables for a team's shared favourites and its private notes on places,
+        // favourite ids are `${teamId}#${placeId}` so each place is on the list once
+        const teamFavoritesTable = new dynamodb.Table(this, 'TeamFavoritesTable', {
+            partitionKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+        });
+
+        teamFavoritesTable.addGlobalSecondaryIndex({
+            indexName: 'teamId-index',
+            partitionKey: { name: 'teamId', type: dynamodb.AttributeType.STRING },
+            sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+            projectionType: dynamodb.ProjectionType.ALL
+        });
+
+        // a place's team favourites move with it when duplicates are merged
+        teamFavoritesTable.addGlobalSecondaryIndex({
+            indexName: 'placeId-index',
+            partitionKey: { name: 'placeId', type: dynamodb.AttributeType.STRING },
+            projectionType: dynamodb.ProjectionType.ALL
+        });
+
+        const teamAnnotationsTable = new dynamodb.Table(this, 'TeamAnnotationsTable', {
+            partitionKey: { name: 'id', type: dynamodb.AttributeType.STRING },
+            billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+            removalPolicy: cdk.RemovalPolicy.RETAIN,
+        });
+
+        teamAnnotationsTable.addGlobalSecondaryIndex({
+            indexName: 'teamId-index',
+            partitionKey: { name: 'teamId', type: dynamodb.AttributeType.STRING },
+            sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+            projectionType: dynamodb.ProjectionType.ALL
+        });
+
         // Create a Secret in AWS Secrets Manager for application secrets
         const appSecrets = new secretsmanager.Secret(this, 'WorkbruAppSecrets', {
             secretName: 'WorkbruAppSecrets',
@@ -91,6 +357,26 @@ export class WorkbruStack extends cdk.Stack {
             projectionType: dynamodb.ProjectionType.ALL,
         });
 
+        // Extra precisions so nearby search can match the cell size to the radius
+        // (geohashPrefix above is precision 4). DynamoDB only creates one GSI per table update,
+        // so on an existing table deploy these one at a time, then run `bun run backfill-places`
+        for (const precision of [3, 5, 6]) {
+            placesTable.addGlobalSecondaryIndex({
+                indexName: `geohash-prefix-${precision}-index`,
+                partitionKey: { name: `geohashPrefix${precision}`, type: dynamodb.AttributeType.STRING },
+                sortKey: {name: 'geohash', type: dynamodb.AttributeType.STRING },
+                projectionType: dynamodb.ProjectionType.ALL,
+            });
+        }
+
+        // Sparse GSI over user submitted places, only they have a status
+        placesTable.addGlobalSecondaryIndex({
+            indexName: 'status-index',
+            partitionKey: { name: 'status', type: dynamodb.AttributeType.STRING },
+            sortKey: { name: 'createdAt', type: dynamodb.AttributeType.STRING },
+            projectionType: dynamodb.ProjectionType.ALL,
+        });
+
         // S3 bucket for photos and other assets
         const assetsBucket = new s3.Bucket(this, 'WorkbruAssets', {
             cors: [
@@ -104,6 +390,11 @@ export class WorkbruStack extends cdk.Stack {
                     allowedHeaders: ['*'],
                 },
             ],
+            lifecycleRules: [
+                // place exports are only downloaded once, through a link that expires after an hour
+                { prefix: 'exports/', expiration: cdk.Duration.days(7) },
+                { abortIncompleteMultipartUploadAfter: cdk.Duration.days(1) },
+            ],
             removalPolicy: cdk.RemovalPolicy.RETAIN,
             blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
         });
@@ -307,6 +598,42 @@ export class WorkbruStack extends cdk.Stack {
             code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
             environment: {
                 PLACES_TABLE: placesTable.tableName,
+                CHECKINS_TABLE: checkInsTable.tableName, // live busyness on each result
+                BUSYNESS_VOTES_TABLE: busynessVotesTable.tableName,
+                FAVORITES_TABLE: favoritesTable.tableName, // marks the signed-in user's favourites
+                SESSION_TABLE: sessionsTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const getPlacesWithinFunction = new lambda.Function(this, 'GetPlacesWithinFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.getPlacesWithin',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                PLACES_TABLE: placesTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const getPlaceClustersFunction = new lambda.Function(this, 'GetPlaceClustersFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.getPlaceClusters',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            timeout: cdk.Duration.seconds(10), // large viewports fan out to many geohash queries
+            environment: {
+                PLACES_TABLE: placesTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const searchPlacesFunction = new lambda.Function(this, 'SearchPlacesFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.searchPlaces',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                PLACES_TABLE: placesTable.tableName,
+                SEARCH_INDEX_TABLE: searchIndexTable.tableName,
                 NODE_ENV: 'production'
             }
         });
@@ -317,6 +644,10 @@ export class WorkbruStack extends cdk.Stack {
             code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
             environment: {
                 PLACES_TABLE: placesTable.tableName,
+                POPULAR_TIMES_TABLE: popularTimesTable.tableName,
+                FAVORITES_TABLE: favoritesTable.tableName, // marks the signed-in user's favourites
+                SESSION_TABLE: sessionsTable.tableName,
+                USER_POOL_ID: userPool.userPoolId, // admins can see pending submissions
                 NODE_ENV: 'production'
             }
         });
@@ -327,6 +658,8 @@ export class WorkbruStack extends cdk.Stack {
             code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
             environment: {
                 PLACES_TABLE: placesTable.tableName,
+                SEARCH_INDEX_TABLE: searchIndexTable.tableName,
+                PLACE_REVISIONS_TABLE: placeRevisionsTable.tableName,
                 NODE_ENV: 'production'
             }
         });
@@ -337,6 +670,8 @@ export class WorkbruStack extends cdk.Stack {
             code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
             environment: {
                 PLACES_TABLE: placesTable.tableName,
+                SEARCH_INDEX_TABLE: searchIndexTable.tableName,
+                PLACE_REVISIONS_TABLE: placeRevisionsTable.tableName,
                 NODE_ENV: 'production'
             }
         });
@@ -347,110 +682,1020 @@ export class WorkbruStack extends cdk.Stack {
             code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
             environment: {
                 PLACES_TABLE: placesTable.tableName,
+                SEARCH_INDEX_TABLE: searchIndexTable.tableName,
+                PLACE_REVISIONS_TABLE: placeRevisionsTable.tableName,
                 NODE_ENV: 'production'
             }
         });
 
-        // lambda functions for user management
-        const getUserFunction = new lambda.Function(this, 'GetUserFunction', {
+        // lambda functions for reviews
+        const getReviewsFunction = new lambda.Function(this, 'GetReviewsFunction', {
             runtime: lambda.Runtime.NODEJS_20_X,
-            handler: 'index.getUser',
+            handler: 'index.getReviews',
             code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
             environment: {
-                USER_POOL_ID: userPool.userPoolId,
-                USER_POOL_CLIENT_ID: userPoolClient.userPoolClientId,
+                REVIEWS_TABLE: reviewsTable.tableName,
                 NODE_ENV: 'production'
             }
-        })
+        });
 
-        const updateUserFunction = new lambda.Function(this, 'UpdateUserFunction', {
+        const createReviewFunction = new lambda.Function(this, 'CreateReviewFunction', {
             runtime: lambda.Runtime.NODEJS_20_X,
-            handler: 'index.updateUser',
+            handler: 'index.createReview',
             code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
             environment: {
-                USER_POOL_ID: userPool.userPoolId,
-                USER_POOL_CLIENT_ID: userPoolClient.userPoolClientId,
+                REVIEWS_TABLE: reviewsTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
                 NODE_ENV: 'production'
             }
-        })
+        });
 
-        const setAdminStatusFunction = new lambda.Function(this, 'SetAdminStatusFunction', {
+        const updateReviewFunction = new lambda.Function(this, 'UpdateReviewFunction', {
             runtime: lambda.Runtime.NODEJS_20_X,
-            handler: 'index.setAdminStatus',
+            handler: 'index.updateReview',
             code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
             environment: {
-                USER_POOL_ID: userPool.userPoolId,
-                USER_POOL_CLIENT_ID: userPoolClient.userPoolClientId,
+                REVIEWS_TABLE: reviewsTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
                 NODE_ENV: 'production'
             }
-        })
+        });
 
-        const validateAdminFunction = new lambda.Function(this, 'ValidateAdminFunction', {
+        const deleteReviewFunction = new lambda.Function(this, 'DeleteReviewFunction', {
             runtime: lambda.Runtime.NODEJS_20_X,
-            handler: 'index.validateAdmin',
+            handler: 'index.deleteReview',
             code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
             environment: {
-                USER_POOL_ID: userPool.userPoolId,
-                USER_POOL_CLIENT_ID: userPoolClient.userPoolClientId,
+                REVIEWS_TABLE: reviewsTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                USER_POOL_ID: userPool.userPoolId, // admin check for removing other users' reviews
                 NODE_ENV: 'production'
             }
-        })
+        });
 
-        // Add session extension endpoint
-        const extendSessionFunction = new lambda.Function(this, 'ExtendSessionFunction', {
+        // lambda functions for photos
+        const getPhotosFunction = new lambda.Function(this, 'GetPhotosFunction', {
             runtime: lambda.Runtime.NODEJS_20_X,
-            handler: 'index.extendSession',
+            handler: 'index.getPhotos',
             code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
             environment: {
-                USER_POOL_ID: userPool.userPoolId,
-                USER_POOL_CLIENT_ID: userPoolClient.userPoolClientId,
-                SESSION_TABLE: sessionsTable.tableName,
-                CSRF_SECRET: csrfSecretValue,
+                PHOTOS_TABLE: photosTable.tableName,
+                ASSETS_BUCKET: assetsBucket.bucketName,
+                SESSION_TABLE: sessionsTable.tableName, // uploaders also see their pending photos
                 NODE_ENV: 'production'
             }
         });
 
-        // grant permissions
-        placesTable.grantReadData(getAllPlacesFunction);
-        placesTable.grantReadData(getPlacesNearbyFunction);
-        placesTable.grantReadData(getPlaceFunction);
-        placesTable.grantReadWriteData(updatePlaceFunction);
-        placesTable.grantReadWriteData(deletePlaceFunction);
-        placesTable.grantWriteData(createPlaceFunction);
+        const requestPhotoUploadFunction = new lambda.Function(this, 'RequestPhotoUploadFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.requestPhotoUpload',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                PHOTOS_TABLE: photosTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                ASSETS_BUCKET: assetsBucket.bucketName,
+                NODE_ENV: 'production'
+            }
+        });
 
-        // For the getCurrentSessionFunction
-        userPool.grant(getCurrentSessionFunction, 'cognito-idp:AdminGetUser');
-        userPool.grant(getCurrentSessionFunction, 'cognito-idp:ListUsers');
+        const confirmPhotoUploadFunction = new lambda.Function(this, 'ConfirmPhotoUploadFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.confirmPhotoUpload',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                PHOTOS_TABLE: photosTable.tableName,
+                ASSETS_BUCKET: assetsBucket.bucketName,
+                NODE_ENV: 'production'
+            }
+        });
 
-        // You also need to add it to any other functions that use getUserByIdOrUsername
-        userPool.grant(getUserFunction, 'cognito-idp:AdminGetUser');
-        // Authentication permissions
-        userPool.grant(loginFunction, 'cognito-idp:AdminInitiateAuth');
-        userPool.grant(loginFunction, 'cognito-idp:AdminGetUser');  // Add this for looking up users
-        userPool.grant(loginFunction, 'cognito-idp:ListUsers');     // Add this for searching by sub
-        
-        userPool.grant(registerFunction, 'cognito-idp:SignUp');
-        
-        userPool.grant(confirmRegistrationFunction, 'cognito-idp:ConfirmSignUp');
-        
-        userPool.grant(respondToNewPasswordChallengeFunction, 'cognito-idp:RespondToAuthChallenge');
-        userPool.grant(respondToNewPasswordChallengeFunction, 'cognito-idp:AdminGetUser');  // Add this for looking up users
-        userPool.grant(respondToNewPasswordChallengeFunction, 'cognito-idp:ListUsers');     // Add this for searching by sub
+        const moderatePhotoFunction = new lambda.Function(this, 'ModeratePhotoFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.moderatePhoto',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                PHOTOS_TABLE: photosTable.tableName,
+                USER_POOL_ID: userPool.userPoolId, // admin check
+                NODE_ENV: 'production'
+            }
+        });
 
-        userPool.grant(forgotPasswordFunction, 'cognito-idp:ForgotPassword');
-        userPool.grant(confirmForgotPasswordFunction, 'cognito-idp:ConfirmForgotPassword');
+        const getPendingPhotosFunction = new lambda.Function(this, 'GetPendingPhotosFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.getPendingPhotos',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                PHOTOS_TABLE: photosTable.tableName,
+                ASSETS_BUCKET: assetsBucket.bucketName,
+                USER_POOL_ID: userPool.userPoolId, // admin check
+                NODE_ENV: 'production'
+            }
+        });
 
-        // Authentication permissions
-        userPool.grant(loginFunction, 'cognito-idp:AdminInitiateAuth');
-        userPool.grant(loginFunction, 'cognito-idp:AdminGetUser');  // Add this for looking up users
-        userPool.grant(loginFunction, 'cognito-idp:ListUsers');     // Add this for searching by sub
-        
-        userPool.grant(registerFunction, 'cognito-idp:SignUp');
-        
-        userPool.grant(confirmRegistrationFunction, 'cognito-idp:ConfirmSignUp');
-        
-        userPool.grant(respondToNewPasswordChallengeFunction, 'cognito-idp:RespondToAuthChallenge');
-        userPool.grant(respondToNewPasswordChallengeFunction, 'cognito-idp:AdminGetUser');  // Add this for looking up users
+        // generates resized, metadata free variants when an original is uploaded
+        const processPhotoUploadsFunction = new lambda.Function(this, 'ProcessPhotoUploadsFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.processPhotoUploads',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            memorySize: 1024,
+            timeout: cdk.Duration.seconds(60),
+            environment: {
+                PHOTOS_TABLE: photosTable.tableName,
+                ASSETS_BUCKET: assetsBucket.bucketName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        assetsBucket.addEventNotification(
+            s3.EventType.OBJECT_CREATED,
+            new s3n.LambdaDestination(processPhotoUploadsFunction),
+            { prefix: 'photos/', suffix: '/original' }
+        );
+
+        // lambda functions for check-ins and busyness
+        const busynessEnvironment = {
+            PLACES_TABLE: placesTable.tableName,
+            CHECKINS_TABLE: checkInsTable.tableName,
+            BUSYNESS_VOTES_TABLE: busynessVotesTable.tableName,
+            POPULAR_TIMES_TABLE: popularTimesTable.tableName,
+            NODE_ENV: 'production'
+        };
+
+        const getBusynessFunction = new lambda.Function(this, 'GetBusynessFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.getBusyness',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: busynessEnvironment
+        });
+
+        const checkInFunction = new lambda.Function(this, 'CheckInFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.checkIn',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: busynessEnvironment
+        });
+
+        const checkOutFunction = new lambda.Function(this, 'CheckOutFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.checkOut',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: busynessEnvironment
+        });
+
+        const reportBusynessFunction = new lambda.Function(this, 'ReportBusynessFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.reportBusyness',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: busynessEnvironment
+        });
+
+        // samples the busyness of quiet places, so their quiet hours show up in popular times
+        const samplePopularTimesFunction = new lambda.Function(this, 'SamplePopularTimesFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.samplePopularTimes',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            timeout: cdk.Duration.minutes(5),
+            environment: busynessEnvironment
+        });
+
+        // late in the hour, so places with activity have usually been sampled already
+        new events.Rule(this, 'SamplePopularTimesSchedule', {
+            schedule: events.Schedule.cron({ minute: '45' }),
+            targets: [new targets.LambdaFunction(samplePopularTimesFunction)],
+        });
+
+        const submitWifiReportFunction = new lambda.Function(this, 'SubmitWifiReportFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.submitWifiReport',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                WIFI_REPORTS_TABLE: wifiReportsTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        // lambda functions for reviewing places submitted by non-admins
+        const getPlaceSubmissionsFunction = new lambda.Function(this, 'GetPlaceSubmissionsFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.getPlaceSubmissions',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                PLACES_TABLE: placesTable.tableName,
+                USER_POOL_ID: userPool.userPoolId, // admin check
+                NODE_ENV: 'production'
+            }
+        });
+
+        const reviewPlaceSubmissionFunction = new lambda.Function(this, 'ReviewPlaceSubmissionFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.reviewPlaceSubmission',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                PLACES_TABLE: placesTable.tableName,
+                SEARCH_INDEX_TABLE: searchIndexTable.tableName,
+                PLACE_REVISIONS_TABLE: placeRevisionsTable.tableName,
+                USER_POOL_ID: userPool.userPoolId, // admin check
+                NODE_ENV: 'production'
+            }
+        });
+
+        // lambda functions for finding and merging duplicate places
+        const getDuplicatesFunction = new lambda.Function(this, 'GetDuplicatesFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.getDuplicates',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            timeout: cdk.Duration.seconds(30), // reads the whole places table
+            environment: {
+                PLACES_TABLE: placesTable.tableName,
+                USER_POOL_ID: userPool.userPoolId, // admin check
+                NODE_ENV: 'production'
+            }
+        });
+
+        // moves the duplicate's reviews, photos and check-ins over to the surviving place
+        const mergePlacesFunction = new lambda.Function(this, 'MergePlacesFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.mergePlaces',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            timeout: cdk.Duration.seconds(30),
+            environment: {
+                PLACES_TABLE: placesTable.tableName,
+                SEARCH_INDEX_TABLE: searchIndexTable.tableName,
+                PLACE_REVISIONS_TABLE: placeRevisionsTable.tableName,
+                REVIEWS_TABLE: reviewsTable.tableName,
+                PHOTOS_TABLE: photosTable.tableName,
+                CHECKINS_TABLE: checkInsTable.tableName,
+                FAVORITES_TABLE: favoritesTable.tableName,
+                COLLECTIONS_TABLE: collectionsTable.tableName,
+                TEAM_FAVORITES_TABLE: teamFavoritesTable.tableName,
+                USER_POOL_ID: userPool.userPoolId, // admin check
+                NODE_ENV: 'production'
+            }
+        });
+
+        // lambda functions for place history
+        const getPlaceHistoryFunction = new lambda.Function(this, 'GetPlaceHistoryFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.getPlaceHistory',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                PLACES_TABLE: placesTable.tableName,
+                PLACE_REVISIONS_TABLE: placeRevisionsTable.tableName,
+                USER_POOL_ID: userPool.userPoolId, // admin check
+                NODE_ENV: 'production'
+            }
+        });
+
+        const restorePlaceRevisionFunction = new lambda.Function(this, 'RestorePlaceRevisionFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.restorePlaceRevision',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                PLACES_TABLE: placesTable.tableName,
+                SEARCH_INDEX_TABLE: searchIndexTable.tableName,
+                PLACE_REVISIONS_TABLE: placeRevisionsTable.tableName,
+                USER_POOL_ID: userPool.userPoolId, // admin check
+                NODE_ENV: 'production'
+            }
+        });
+
+        // lambda functions for the trash of deleted places
+        const getDeletedPlacesFunction = new lambda.Function(this, 'GetDeletedPlacesFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.getDeletedPlaces',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            timeout: cdk.Duration.seconds(30), // reads the whole places table
+            environment: {
+                PLACES_TABLE: placesTable.tableName,
+                USER_POOL_ID: userPool.userPoolId, // admin check
+                NODE_ENV: 'production'
+            }
+        });
+
+        const restoreDeletedPlaceFunction = new lambda.Function(this, 'RestoreDeletedPlaceFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.restoreDeletedPlace',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                PLACES_TABLE: placesTable.tableName,
+                SEARCH_INDEX_TABLE: searchIndexTable.tableName,
+                PLACE_REVISIONS_TABLE: placeRevisionsTable.tableName,
+                USER_POOL_ID: userPool.userPoolId, // admin check
+                NODE_ENV: 'production'
+            }
+        });
+
+        const purgeDeletedPlacesFunction = new lambda.Function(this, 'PurgeDeletedPlacesFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.purgeDeletedPlaces',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            timeout: cdk.Duration.minutes(5),
+            environment: {
+                PLACES_TABLE: placesTable.tableName,
+                PLACE_REVISIONS_TABLE: placeRevisionsTable.tableName,
+                PLACE_RETENTION_DAYS: '30',
+                NODE_ENV: 'production'
+            }
+        });
+
+        // bulk import from CSV or GeoJSON
+        const importPlacesFunction = new lambda.Function(this, 'ImportPlacesFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.importPlaces',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            // as long as API Gateway waits. It reads the whole places table, then writes in batches,
+            // so imports are capped at PLACE_IMPORT_MAX_ROWS rows to finish in time
+            timeout: cdk.Duration.seconds(29),
+            environment: {
+                PLACES_TABLE: placesTable.tableName,
+                SEARCH_INDEX_TABLE: searchIndexTable.tableName,
+                PLACE_REVISIONS_TABLE: placeRevisionsTable.tableName,
+                USER_POOL_ID: userPool.userPoolId, // admin check
+                NODE_ENV: 'production'
+            }
+        });
+
+        // bulk export as CSV, GeoJSON or NDJSON, big ones are written to the assets bucket
+        const exportPlacesFunction = new lambda.Function(this, 'ExportPlacesFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.exportPlaces',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            timeout: cdk.Duration.seconds(29), // as long as API Gateway waits
+            memorySize: 512,
+            environment: {
+                PLACES_TABLE: placesTable.tableName,
+                ASSETS_BUCKET: assetsBucket.bucketName,
+                USER_POOL_ID: userPool.userPoolId, // admin check
+                NODE_ENV: 'production'
+            }
+        });
+
+        // purge the trash once a day
+        new events.Rule(this, 'PurgeDeletedPlacesSchedule', {
+            schedule: events.Schedule.cron({ minute: '0', hour: '4' }),
+            targets: [new targets.LambdaFunction(purgeDeletedPlacesFunction)],
+        });
+
+        // lambda functions for favourites
+        const getFavoritesFunction = new lambda.Function(this, 'GetFavoritesFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.getFavorites',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                FAVORITES_TABLE: favoritesTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const favoritePlaceFunction = new lambda.Function(this, 'FavoritePlaceFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.favoritePlace',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                FAVORITES_TABLE: favoritesTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const unfavoritePlaceFunction = new lambda.Function(this, 'UnfavoritePlaceFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.unfavoritePlace',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                FAVORITES_TABLE: favoritesTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        // lambda functions for collections, each place in a collection shows whether the viewer has favourited it
+        const createCollectionFunction = new lambda.Function(this, 'CreateCollectionFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.createCollection',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                COLLECTIONS_TABLE: collectionsTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                FAVORITES_TABLE: favoritesTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const getCollectionsFunction = new lambda.Function(this, 'GetCollectionsFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.getCollections',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                COLLECTIONS_TABLE: collectionsTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                FAVORITES_TABLE: favoritesTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const getUserCollectionsFunction = new lambda.Function(this, 'GetUserCollectionsFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.getUserCollections',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                COLLECTIONS_TABLE: collectionsTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                FAVORITES_TABLE: favoritesTable.tableName,
+                SESSION_TABLE: sessionsTable.tableName, // public route, the owner is recognised by their session
+                NODE_ENV: 'production'
+            }
+        });
+
+        const getCollectionFunction = new lambda.Function(this, 'GetCollectionFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.getCollection',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                COLLECTIONS_TABLE: collectionsTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                FAVORITES_TABLE: favoritesTable.tableName,
+                SESSION_TABLE: sessionsTable.tableName, // public route, the owner is recognised by their session
+                NODE_ENV: 'production'
+            }
+        });
+
+        const updateCollectionFunction = new lambda.Function(this, 'UpdateCollectionFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.updateCollection',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                COLLECTIONS_TABLE: collectionsTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                FAVORITES_TABLE: favoritesTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const deleteCollectionFunction = new lambda.Function(this, 'DeleteCollectionFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.deleteCollection',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                COLLECTIONS_TABLE: collectionsTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                FAVORITES_TABLE: favoritesTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const addCollectionItemFunction = new lambda.Function(this, 'AddCollectionItemFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.addCollectionItem',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                COLLECTIONS_TABLE: collectionsTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                FAVORITES_TABLE: favoritesTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const updateCollectionItemFunction = new lambda.Function(this, 'UpdateCollectionItemFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.updateCollectionItem',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                COLLECTIONS_TABLE: collectionsTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                FAVORITES_TABLE: favoritesTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const removeCollectionItemFunction = new lambda.Function(this, 'RemoveCollectionItemFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.removeCollectionItem',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                COLLECTIONS_TABLE: collectionsTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                FAVORITES_TABLE: favoritesTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        // lambda functions for teams, the members table is where team permissions are checked
+        const createTeamFunction = new lambda.Function(this, 'CreateTeamFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.createTeam',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                TEAMS_TABLE: teamsTable.tableName,
+                TEAM_MEMBERS_TABLE: teamMembersTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const getTeamsFunction = new lambda.Function(this, 'GetTeamsFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.getTeams',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                TEAMS_TABLE: teamsTable.tableName,
+                TEAM_MEMBERS_TABLE: teamMembersTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const getTeamFunction = new lambda.Function(this, 'GetTeamFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.getTeam',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                TEAMS_TABLE: teamsTable.tableName,
+                TEAM_MEMBERS_TABLE: teamMembersTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const updateTeamFunction = new lambda.Function(this, 'UpdateTeamFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.updateTeam',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                TEAMS_TABLE: teamsTable.tableName,
+                TEAM_MEMBERS_TABLE: teamMembersTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const deleteTeamFunction = new lambda.Function(this, 'DeleteTeamFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.deleteTeam',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                TEAMS_TABLE: teamsTable.tableName,
+                TEAM_MEMBERS_TABLE: teamMembersTable.tableName,
+                TEAM_INVITES_TABLE: teamInvitesTable.tableName,
+                TEAM_FAVORITES_TABLE: teamFavoritesTable.tableName,
+                TEAM_ANNOTATIONS_TABLE: teamAnnotationsTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const updateTeamMemberFunction = new lambda.Function(this, 'UpdateTeamMemberFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.updateTeamMember',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                TEAM_MEMBERS_TABLE: teamMembersTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const removeTeamMemberFunction = new lambda.Function(this, 'RemoveTeamMemberFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.removeTeamMember',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                TEAM_MEMBERS_TABLE: teamMembersTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const getTeamInvitesFunction = new lambda.Function(this, 'GetTeamInvitesFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.getTeamInvites',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                TEAM_INVITES_TABLE: teamInvitesTable.tableName,
+                TEAM_MEMBERS_TABLE: teamMembersTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const createTeamInviteFunction = new lambda.Function(this, 'CreateTeamInviteFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.createTeamInvite',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                TEAM_INVITES_TABLE: teamInvitesTable.tableName,
+                TEAM_MEMBERS_TABLE: teamMembersTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const revokeTeamInviteFunction = new lambda.Function(this, 'RevokeTeamInviteFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.revokeTeamInvite',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                TEAM_INVITES_TABLE: teamInvitesTable.tableName,
+                TEAM_MEMBERS_TABLE: teamMembersTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const acceptTeamInviteFunction = new lambda.Function(this, 'AcceptTeamInviteFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.acceptTeamInvite',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                TEAM_INVITES_TABLE: teamInvitesTable.tableName,
+                TEAM_MEMBERS_TABLE: teamMembersTable.tableName,
+                TEAMS_TABLE: teamsTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        // lambda functions for a team's shared favourites and notes
+        const getTeamFavoritesFunction = new lambda.Function(this, 'GetTeamFavoritesFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.getTeamFavorites',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                TEAM_FAVORITES_TABLE: teamFavoritesTable.tableName,
+                TEAM_MEMBERS_TABLE: teamMembersTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const addTeamFavoriteFunction = new lambda.Function(this, 'AddTeamFavoriteFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.addTeamFavorite',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                TEAM_FAVORITES_TABLE: teamFavoritesTable.tableName,
+                TEAM_MEMBERS_TABLE: teamMembersTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const removeTeamFavoriteFunction = new lambda.Function(this, 'RemoveTeamFavoriteFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.removeTeamFavorite',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                TEAM_FAVORITES_TABLE: teamFavoritesTable.tableName,
+                TEAM_MEMBERS_TABLE: teamMembersTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const getTeamAnnotationsFunction = new lambda.Function(this, 'GetTeamAnnotationsFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.getTeamAnnotations',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                TEAM_ANNOTATIONS_TABLE: teamAnnotationsTable.tableName,
+                TEAM_MEMBERS_TABLE: teamMembersTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const createTeamAnnotationFunction = new lambda.Function(this, 'CreateTeamAnnotationFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.createTeamAnnotation',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                TEAM_ANNOTATIONS_TABLE: teamAnnotationsTable.tableName,
+                TEAM_MEMBERS_TABLE: teamMembersTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const updateTeamAnnotationFunction = new lambda.Function(this, 'UpdateTeamAnnotationFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.updateTeamAnnotation',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                TEAM_ANNOTATIONS_TABLE: teamAnnotationsTable.tableName,
+                TEAM_MEMBERS_TABLE: teamMembersTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const deleteTeamAnnotationFunction = new lambda.Function(this, 'DeleteTeamAnnotationFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.deleteTeamAnnotation',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                TEAM_ANNOTATIONS_TABLE: teamAnnotationsTable.tableName,
+                TEAM_MEMBERS_TABLE: teamMembersTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        // lambda functions for suggested edits
+        const createSuggestionFunction = new lambda.Function(this, 'CreateSuggestionFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.createSuggestion',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                SUGGESTIONS_TABLE: suggestionsTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                NODE_ENV: 'production'
+            }
+        });
+
+        const getSuggestionsFunction = new lambda.Function(this, 'GetSuggestionsFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.getSuggestions',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                SUGGESTIONS_TABLE: suggestionsTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                USER_POOL_ID: userPool.userPoolId, // admin check
+                NODE_ENV: 'production'
+            }
+        });
+
+        // approving applies the suggestion like any other place update
+        const reviewSuggestionFunction = new lambda.Function(this, 'ReviewSuggestionFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.reviewSuggestion',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                SUGGESTIONS_TABLE: suggestionsTable.tableName,
+                PLACES_TABLE: placesTable.tableName,
+                SEARCH_INDEX_TABLE: searchIndexTable.tableName,
+                PLACE_REVISIONS_TABLE: placeRevisionsTable.tableName,
+                USER_POOL_ID: userPool.userPoolId, // admin check
+                NODE_ENV: 'production'
+            }
+        });
+
+        // lambda functions for user management
+        const getUserFunction = new lambda.Function(this, 'GetUserFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.getUser',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                USER_POOL_ID: userPool.userPoolId,
+                USER_POOL_CLIENT_ID: userPoolClient.userPoolClientId,
+                NODE_ENV: 'production'
+            }
+        })
+
+        const updateUserFunction = new lambda.Function(this, 'UpdateUserFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.updateUser',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                USER_POOL_ID: userPool.userPoolId,
+                USER_POOL_CLIENT_ID: userPoolClient.userPoolClientId,
+                NODE_ENV: 'production'
+            }
+        })
+
+        const setAdminStatusFunction = new lambda.Function(this, 'SetAdminStatusFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.setAdminStatus',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                USER_POOL_ID: userPool.userPoolId,
+                USER_POOL_CLIENT_ID: userPoolClient.userPoolClientId,
+                NODE_ENV: 'production'
+            }
+        })
+
+        const validateAdminFunction = new lambda.Function(this, 'ValidateAdminFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.validateAdmin',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                USER_POOL_ID: userPool.userPoolId,
+                USER_POOL_CLIENT_ID: userPoolClient.userPoolClientId,
+                NODE_ENV: 'production'
+            }
+        })
+
+        // Add session extension endpoint
+        const extendSessionFunction = new lambda.Function(this, 'ExtendSessionFunction', {
+            runtime: lambda.Runtime.NODEJS_20_X,
+            handler: 'index.extendSession',
+            code: lambda.Code.fromAsset(path.join(__dirname, '../../dist')),
+            environment: {
+                USER_POOL_ID: userPool.userPoolId,
+                USER_POOL_CLIENT_ID: userPoolClient.userPoolClientId,
+                SESSION_TABLE: sessionsTable.tableName,
+                CSRF_SECRET: csrfSecretValue,
+                NODE_ENV: 'production'
+            }
+        });
+
+        // grant permissions
+        placesTable.grantReadData(getAllPlacesFunction);
+        placesTable.grantReadData(getPlacesNearbyFunction);
+        checkInsTable.grantReadData(getPlacesNearbyFunction);
+        busynessVotesTable.grantReadData(getPlacesNearbyFunction);
+        for (const func of [getBusynessFunction, checkInFunction, checkOutFunction, reportBusynessFunction, samplePopularTimesFunction]) {
+            placesTable.grantReadData(func);
+            checkInsTable.grantReadData(func);
+            busynessVotesTable.grantReadData(func);
+        }
+        checkInsTable.grantWriteData(checkInFunction);
+        checkInsTable.grantWriteData(checkOutFunction);
+        busynessVotesTable.grantWriteData(reportBusynessFunction);
+        // each check-in, check-out and vote updates the place's popular times, as does the hourly sample
+        for (const func of [checkInFunction, checkOutFunction, reportBusynessFunction, samplePopularTimesFunction]) {
+            popularTimesTable.grantReadWriteData(func);
+        }
+        popularTimesTable.grantReadData(getPlaceFunction);
+        // reports update the place's median speeds
+        wifiReportsTable.grantReadWriteData(submitWifiReportFunction);
+        placesTable.grantReadWriteData(submitWifiReportFunction);
+        suggestionsTable.grantReadWriteData(createSuggestionFunction);
+        placesTable.grantReadData(createSuggestionFunction);
+        suggestionsTable.grantReadData(getSuggestionsFunction);
+        placesTable.grantReadData(getSuggestionsFunction);
+        suggestionsTable.grantReadWriteData(reviewSuggestionFunction);
+        placesTable.grantReadWriteData(reviewSuggestionFunction);
+        searchIndexTable.grantReadWriteData(reviewSuggestionFunction);
+        for (const func of [getSuggestionsFunction, reviewSuggestionFunction]) {
+            userPool.grant(func, 'cognito-idp:AdminGetUser');
+            userPool.grant(func, 'cognito-idp:ListUsers');
+        }
+        placesTable.grantReadData(getPlacesWithinFunction);
+        placesTable.grantReadData(getPlaceClustersFunction);
+        placesTable.grantReadData(getPlaceFunction);
+        placesTable.grantReadWriteData(updatePlaceFunction);
+        placesTable.grantReadWriteData(deletePlaceFunction);
+        // submissions are checked against nearby places for duplicates
+        placesTable.grantReadWriteData(createPlaceFunction);
+        placesTable.grantReadData(getPlaceSubmissionsFunction);
+        placesTable.grantReadWriteData(reviewPlaceSubmissionFunction);
+        searchIndexTable.grantReadWriteData(reviewPlaceSubmissionFunction);
+        for (const func of [getPlaceFunction, getPlaceSubmissionsFunction, reviewPlaceSubmissionFunction]) {
+            userPool.grant(func, 'cognito-idp:AdminGetUser');
+            userPool.grant(func, 'cognito-idp:ListUsers');
+        }
+        placesTable.grantReadData(getDuplicatesFunction);
+        for (const table of [
+            placesTable, searchIndexTable, reviewsTable, photosTable, checkInsTable,
+            favoritesTable, collectionsTable, teamFavoritesTable,
+        ]) {
+            table.grantReadWriteData(mergePlacesFunction);
+        }
+        for (const func of [getDuplicatesFunction, mergePlacesFunction]) {
+            userPool.grant(func, 'cognito-idp:AdminGetUser');
+            userPool.grant(func, 'cognito-idp:ListUsers');
+        }
+        // every change to a place is recorded in its history
+        for (const func of [
+            createPlaceFunction, updatePlaceFunction, deletePlaceFunction, reviewPlaceSubmissionFunction,
+            mergePlacesFunction, reviewSuggestionFunction, restorePlaceRevisionFunction,
+        ]) {
+            placeRevisionsTable.grantReadWriteData(func);
+        }
+        placesTable.grantReadData(getPlaceHistoryFunction);
+        placesTable.grantReadData(getDeletedPlacesFunction);
+        for (const table of [placesTable, searchIndexTable, placeRevisionsTable]) {
+            table.grantReadWriteData(restoreDeletedPlaceFunction);
+        }
+        for (const func of [getDeletedPlacesFunction, restoreDeletedPlaceFunction]) {
+            userPool.grant(func, 'cognito-idp:AdminGetUser');
+            userPool.grant(func, 'cognito-idp:ListUsers');
+        }
+        placesTable.grantReadWriteData(purgeDeletedPlacesFunction);
+        for (const table of [placesTable, searchIndexTable, placeRevisionsTable]) {
+            table.grantReadWriteData(importPlacesFunction);
+        }
+        userPool.grant(importPlacesFunction, 'cognito-idp:AdminGetUser');
+        userPool.grant(importPlacesFunction, 'cognito-idp:ListUsers');
+        placesTable.grantReadData(exportPlacesFunction);
+        userPool.grant(exportPlacesFunction, 'cognito-idp:AdminGetUser');
+        userPool.grant(exportPlacesFunction, 'cognito-idp:ListUsers');
+        for (const func of [getFavoritesFunction, favoritePlaceFunction, unfavoritePlaceFunction]) {
+            favoritesTable.grantReadWriteData(func);
+            placesTable.grantReadData(func);
+        }
+        favoritesTable.grantReadData(getPlaceFunction);
+        favoritesTable.grantReadData(getPlacesNearbyFunction);
+        for (const func of [
+            createCollectionFunction, getCollectionsFunction, getUserCollectionsFunction, getCollectionFunction,
+            updateCollectionFunction, deleteCollectionFunction, addCollectionItemFunction, updateCollectionItemFunction,
+            removeCollectionItemFunction,
+        ]) {
+            collectionsTable.grantReadWriteData(func);
+            placesTable.grantReadData(func);
+            favoritesTable.grantReadData(func);
+        }
+        for (const func of [
+            createTeamFunction, getTeamsFunction, getTeamFunction, updateTeamFunction, deleteTeamFunction, acceptTeamInviteFunction,
+        ]) {
+            teamsTable.grantReadWriteData(func);
+        }
+        for (const func of [
+            createTeamFunction, getTeamsFunction, getTeamFunction, updateTeamFunction, deleteTeamFunction,
+            updateTeamMemberFunction, removeTeamMemberFunction, getTeamInvitesFunction, createTeamInviteFunction,
+            revokeTeamInviteFunction, acceptTeamInviteFunction,
+            getTeamFavoritesFunction, addTeamFavoriteFunction, removeTeamFavoriteFunction,
+            getTeamAnnotationsFunction, createTeamAnnotationFunction, updateTeamAnnotationFunction, deleteTeamAnnotationFunction,
+        ]) {
+            teamMembersTable.grantReadWriteData(func);
+        }
+        for (const func of [
+            deleteTeamFunction, getTeamInvitesFunction, createTeamInviteFunction, revokeTeamInviteFunction, acceptTeamInviteFunction,
+        ]) {
+            teamInvitesTable.grantReadWriteData(func);
+        }
+        for (const func of [deleteTeamFunction, getTeamFavoritesFunction, addTeamFavoriteFunction, removeTeamFavoriteFunction]) {
+            teamFavoritesTable.grantReadWriteData(func);
+        }
+        for (const func of [
+            deleteTeamFunction, getTeamAnnotationsFunction, createTeamAnnotationFunction, updateTeamAnnotationFunction,
+            deleteTeamAnnotationFunction,
+        ]) {
+            teamAnnotationsTable.grantReadWriteData(func);
+        }
+        for (const func of [
+            getTeamFavoritesFunction, addTeamFavoriteFunction, removeTeamFavoriteFunction,
+            getTeamAnnotationsFunction, createTeamAnnotationFunction, updateTeamAnnotationFunction, deleteTeamAnnotationFunction,
+        ]) {
+            placesTable.grantReadData(func);
+        }
+        placeRevisionsTable.grantReadWriteData(purgeDeletedPlacesFunction);
+        placeRevisionsTable.grantReadData(getPlaceHistoryFunction);
+        placesTable.grantReadWriteData(restorePlaceRevisionFunction);
+        searchIndexTable.grantReadWriteData(restorePlaceRevisionFunction);
+        for (const func of [getPlaceHistoryFunction, restorePlaceRevisionFunction]) {
+            userPool.grant(func, 'cognito-idp:AdminGetUser');
+            userPool.grant(func, 'cognito-idp:ListUsers');
+        }
+        placesTable.grantReadData(searchPlacesFunction);
+        searchIndexTable.grantReadData(searchPlacesFunction);
+        searchIndexTable.grantReadWriteData(createPlaceFunction);
+        searchIndexTable.grantReadWriteData(updatePlaceFunction);
+        searchIndexTable.grantReadWriteData(deletePlaceFunction);
+        reviewsTable.grantReadData(getReviewsFunction);
+        // review changes recompute the place's ratings
+        for (const func of [createReviewFunction, updateReviewFunction, deleteReviewFunction]) {
+            reviewsTable.grantReadWriteData(func);
+            placesTable.grantReadWriteData(func);
+        }
+        userPool.grant(deleteReviewFunction, 'cognito-idp:AdminGetUser');
+        userPool.grant(deleteReviewFunction, 'cognito-idp:ListUsers');
+        photosTable.grantReadData(getPhotosFunction);
+        photosTable.grantReadWriteData(requestPhotoUploadFunction);
+        photosTable.grantReadWriteData(confirmPhotoUploadFunction);
+        photosTable.grantReadWriteData(moderatePhotoFunction);
+        photosTable.grantReadData(getPendingPhotosFunction);
+        placesTable.grantReadData(requestPhotoUploadFunction);
+        // signed URLs only work if the signing function could make the request itself
+        assetsBucket.grantRead(getPhotosFunction);
+        assetsBucket.grantRead(getPendingPhotosFunction);
+        assetsBucket.grantPut(requestPhotoUploadFunction);
+        assetsBucket.grantRead(confirmPhotoUploadFunction);
+        photosTable.grantReadWriteData(processPhotoUploadsFunction);
+        assetsBucket.grantReadWrite(processPhotoUploadsFunction);
+        assetsBucket.grantDelete(processPhotoUploadsFunction);
+        // writes exports, then signs the link to download them
+        assetsBucket.grantPut(exportPlacesFunction, 'exports/*');
+        assetsBucket.grantRead(exportPlacesFunction, 'exports/*');
+        userPool.grant(moderatePhotoFunction, 'cognito-idp:AdminGetUser');
+        userPool.grant(moderatePhotoFunction, 'cognito-idp:ListUsers');
+        userPool.grant(getPendingPhotosFunction, 'cognito-idp:AdminGetUser');
+        userPool.grant(getPendingPhotosFunction, 'cognito-idp:ListUsers');
+
+        // For the getCurrentSessionFunction
+        userPool.grant(getCurrentSessionFunction, 'cognito-idp:AdminGetUser');
+        userPool.grant(getCurrentSessionFunction, 'cognito-idp:ListUsers');
+
+        // You also need to add it to any other functions that use getUserByIdOrUsername
+        userPool.grant(getUserFunction, 'cognito-idp:AdminGetUser');
+        // Authentication permissions
+        userPool.grant(loginFunction, 'cognito-idp:AdminInitiateAuth');
+        userPool.grant(loginFunction, 'cognito-idp:AdminGetUser');  // Add this for looking up users
+        userPool.grant(loginFunction, 'cognito-idp:ListUsers');     // Add this for searching by sub
+        
+        userPool.grant(registerFunction, 'cognito-idp:SignUp');
+        
+        userPool.grant(confirmRegistrationFunction, 'cognito-idp:ConfirmSignUp');
+        
+        userPool.grant(respondToNewPasswordChallengeFunction, 'cognito-idp:RespondToAuthChallenge');
+        userPool.grant(respondToNewPasswordChallengeFunction, 'cognito-idp:AdminGetUser');  // Add this for looking up users
+        userPool.grant(respondToNewPasswordChallengeFunction, 'cognito-idp:ListUsers');     // Add this for searching by sub
+
+        userPool.grant(forgotPasswordFunction, 'cognito-idp:ForgotPassword');
+        userPool.grant(confirmForgotPasswordFunction, 'cognito-idp:ConfirmForgotPassword');
+
+        // Authentication permissions
+        userPool.grant(loginFunction, 'cognito-idp:AdminInitiateAuth');
+        userPool.grant(loginFunction, 'cognito-idp:AdminGetUser');  // Add this for looking up users
+        userPool.grant(loginFunction, 'cognito-idp:ListUsers');     // Add this for searching by sub
+        
+        userPool.grant(registerFunction, 'cognito-idp:SignUp');
+        
+        userPool.grant(confirmRegistrationFunction, 'cognito-idp:ConfirmSignUp');
+        
+        userPool.grant(respondToNewPasswordChallengeFunction, 'cognito-idp:RespondToAuthChallenge');
+        userPool.grant(respondToNewPasswordChallengeFunction, 'cognito-idp:AdminGetUser');  // Add this for looking up users
         userPool.grant(respondToNewPasswordChallengeFunction, 'cognito-idp:ListUsers');     // Add this for searching by sub
 
         // Permissions for new authentication functions
@@ -475,7 +1720,14 @@ export class WorkbruStack extends cdk.Stack {
             loginFunction, registerFunction, confirmRegistrationFunction,
             respondToNewPasswordChallengeFunction, getCurrentSessionFunction,
             requestChallengeFunction, loginWithChallengeFunction, logoutFunction,
-            extendSessionFunction, forgotPasswordFunction, confirmForgotPasswordFunction
+            extendSessionFunction, forgotPasswordFunction, confirmForgotPasswordFunction,
+            // place listings sign their pagination cursors
+            getAllPlacesFunction, getPlacesNearbyFunction, getPlacesWithinFunction, searchPlacesFunction,
+            getReviewsFunction,
+            // so do the moderation queues and every other paged list
+            getPendingPhotosFunction, getSuggestionsFunction, getPlaceSubmissionsFunction,
+            getPlaceHistoryFunction, getDeletedPlacesFunction, getFavoritesFunction,
+            getTeamFavoritesFunction
         ];
         
         // Grant permission to read the secret to all functions that need it
@@ -485,8 +1737,25 @@ export class WorkbruStack extends cdk.Stack {
         
         // Add other session-related permission grants
         const allFunctions = [
-            getAllPlacesFunction, getPlacesNearbyFunction, getPlaceFunction,
+            getAllPlacesFunction, getPlacesNearbyFunction, getPlacesWithinFunction, getPlaceClustersFunction, searchPlacesFunction, getPlaceFunction,
             createPlaceFunction, updatePlaceFunction, deletePlaceFunction,
+            getPlaceSubmissionsFunction, reviewPlaceSubmissionFunction, getDuplicatesFunction, mergePlacesFunction,
+            getPlaceHistoryFunction, restorePlaceRevisionFunction, getDeletedPlacesFunction, restoreDeletedPlaceFunction,
+            importPlacesFunction, exportPlacesFunction,
+            getFavoritesFunction, favoritePlaceFunction, unfavoritePlaceFunction,
+            createCollectionFunction, getCollectionsFunction, getUserCollectionsFunction, getCollectionFunction,
+            updateCollectionFunction, deleteCollectionFunction, addCollectionItemFunction, updateCollectionItemFunction,
+            removeCollectionItemFunction,
+            createTeamFunction, getTeamsFunction, getTeamFunction, updateTeamFunction, deleteTeamFunction,
+            updateTeamMemberFunction, removeTeamMemberFunction, getTeamInvitesFunction, createTeamInviteFunction,
+            revokeTeamInviteFunction, acceptTeamInviteFunction,
+            getTeamFavoritesFunction, addTeamFavoriteFunction, removeTeamFavoriteFunction,
+            getTeamAnnotationsFunction, createTeamAnnotationFunction, updateTeamAnnotationFunction, deleteTeamAnnotationFunction,
+            createReviewFunction, updateReviewFunction, deleteReviewFunction,
+            getPhotosFunction, requestPhotoUploadFunction, confirmPhotoUploadFunction, moderatePhotoFunction,
+            getPendingPhotosFunction,
+            getBusynessFunction, checkInFunction, checkOutFunction, reportBusynessFunction, submitWifiReportFunction,
+            createSuggestionFunction, getSuggestionsFunction, reviewSuggestionFunction,
             getUserFunction, updateUserFunction, setAdminStatusFunction, validateAdminFunction
         ];
         
@@ -528,6 +1797,35 @@ export class WorkbruStack extends cdk.Stack {
         });
         
 
+        // a user's own submitted places, or every submission for admins
+        const placeSubmissionsResource = placesResource.addResource('submissions');
+        placeSubmissionsResource.addMethod('GET', new apigateway.LambdaIntegration(getPlaceSubmissionsFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        // likely duplicate places, for admins to merge
+        placesResource.addResource('duplicates').addMethod('GET', new apigateway.LambdaIntegration(getDuplicatesFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        // the trash, for admins to restore deleted places
+        placesResource.addResource('deleted').addMethod('GET', new apigateway.LambdaIntegration(getDeletedPlacesFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        placesResource.addResource('import').addMethod('POST', new apigateway.LambdaIntegration(importPlacesFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        placesResource.addResource('export').addMethod('GET', new apigateway.LambdaIntegration(exportPlacesFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
         const placeResource = placesResource.addResource('{id}');
         placeResource.addMethod('GET', new apigateway.LambdaIntegration(getPlaceFunction));
         placeResource.addMethod('PUT', new apigateway.LambdaIntegration(updatePlaceFunction), {
@@ -539,12 +1837,272 @@ export class WorkbruStack extends cdk.Stack {
             authorizationType: apigateway.AuthorizationType.COGNITO,
         });
 
+        const placeReviewsResource = placeResource.addResource('reviews');
+        placeReviewsResource.addMethod('GET', new apigateway.LambdaIntegration(getReviewsFunction));
+        placeReviewsResource.addMethod('POST', new apigateway.LambdaIntegration(createReviewFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        const placeReviewResource = placeReviewsResource.addResource('{reviewId}');
+        placeReviewResource.addMethod('PUT', new apigateway.LambdaIntegration(updateReviewFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+        placeReviewResource.addMethod('DELETE', new apigateway.LambdaIntegration(deleteReviewFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        const placePhotosResource = placeResource.addResource('photos');
+        placePhotosResource.addMethod('GET', new apigateway.LambdaIntegration(getPhotosFunction));
+
+        const placePhotoUploadsResource = placePhotosResource.addResource('uploads');
+        placePhotoUploadsResource.addMethod('POST', new apigateway.LambdaIntegration(requestPhotoUploadFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        const placePhotoResource = placePhotosResource.addResource('{photoId}');
+        placePhotoResource.addResource('confirm').addMethod('POST', new apigateway.LambdaIntegration(confirmPhotoUploadFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+        placePhotoResource.addResource('moderation').addMethod('PUT', new apigateway.LambdaIntegration(moderatePhotoFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        const placeCheckInsResource = placeResource.addResource('checkins');
+        placeCheckInsResource.addMethod('POST', new apigateway.LambdaIntegration(checkInFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+        placeCheckInsResource.addMethod('DELETE', new apigateway.LambdaIntegration(checkOutFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        const placeWifiReportsResource = placeResource.addResource('wifi-reports');
+        placeWifiReportsResource.addMethod('POST', new apigateway.LambdaIntegration(submitWifiReportFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        placeResource.addResource('submission').addMethod('PUT', new apigateway.LambdaIntegration(reviewPlaceSubmissionFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        placeResource.addResource('merge').addMethod('POST', new apigateway.LambdaIntegration(mergePlacesFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        placeResource.addResource('history').addMethod('GET', new apigateway.LambdaIntegration(getPlaceHistoryFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+        placeResource.addResource('restore').addMethod('POST', new apigateway.LambdaIntegration(restorePlaceRevisionFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+        const placeFavoriteResource = placeResource.addResource('favorite');
+        placeFavoriteResource.addMethod('PUT', new apigateway.LambdaIntegration(favoritePlaceFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+        placeFavoriteResource.addMethod('DELETE', new apigateway.LambdaIntegration(unfavoritePlaceFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        placeResource.addResource('undelete').addMethod('POST', new apigateway.LambdaIntegration(restoreDeletedPlaceFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        const placeSuggestionsResource = placeResource.addResource('suggestions');
+        placeSuggestionsResource.addMethod('POST', new apigateway.LambdaIntegration(createSuggestionFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        const placeBusynessResource = placeResource.addResource('busyness');
+        placeBusynessResource.addMethod('GET', new apigateway.LambdaIntegration(getBusynessFunction));
+        placeBusynessResource.addMethod('POST', new apigateway.LambdaIntegration(reportBusynessFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
         const placesNearbyResource = placesResource.addResource('nearby')
         placesNearbyResource.addMethod('GET', new apigateway.LambdaIntegration(getPlacesNearbyFunction));
 
+        const placesWithinResource = placesResource.addResource('within')
+        placesWithinResource.addMethod('GET', new apigateway.LambdaIntegration(getPlacesWithinFunction));
+
+        const placeClustersResource = placesResource.addResource('clusters')
+        placeClustersResource.addMethod('GET', new apigateway.LambdaIntegration(getPlaceClustersFunction));
+
+        const placesSearchResource = placesResource.addResource('search')
+        placesSearchResource.addMethod('GET', new apigateway.LambdaIntegration(searchPlacesFunction));
+
         // api endpoints for user management
+        // moderation queue for suggested edits
+        const suggestionsResource = api.root.addResource('suggestions');
+        suggestionsResource.addMethod('GET', new apigateway.LambdaIntegration(getSuggestionsFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+        suggestionsResource.addResource('{suggestionId}').addMethod('PUT', new apigateway.LambdaIntegration(reviewSuggestionFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        // moderation queue for photos
+        const photosResource = api.root.addResource('photos');
+        photosResource.addResource('pending').addMethod('GET', new apigateway.LambdaIntegration(getPendingPhotosFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        // favourites and collections
+        api.root.addResource('favorites').addMethod('GET', new apigateway.LambdaIntegration(getFavoritesFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        const collectionsResource = api.root.addResource('collections');
+        collectionsResource.addMethod('GET', new apigateway.LambdaIntegration(getCollectionsFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+        collectionsResource.addMethod('POST', new apigateway.LambdaIntegration(createCollectionFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        // public, link-shared and private collections are told apart by the handler
+        const collectionResource = collectionsResource.addResource('{collectionId}');
+        collectionResource.addMethod('GET', new apigateway.LambdaIntegration(getCollectionFunction));
+        collectionResource.addMethod('PUT', new apigateway.LambdaIntegration(updateCollectionFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+        collectionResource.addMethod('DELETE', new apigateway.LambdaIntegration(deleteCollectionFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        const collectionPlacesResource = collectionResource.addResource('places');
+        collectionPlacesResource.addMethod('POST', new apigateway.LambdaIntegration(addCollectionItemFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        const collectionPlaceResource = collectionPlacesResource.addResource('{placeId}');
+        collectionPlaceResource.addMethod('PUT', new apigateway.LambdaIntegration(updateCollectionItemFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+        collectionPlaceResource.addMethod('DELETE', new apigateway.LambdaIntegration(removeCollectionItemFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        // teams, who can do what is decided by the member's role on the team
+        const teamsResource = api.root.addResource('teams');
+        teamsResource.addMethod('GET', new apigateway.LambdaIntegration(getTeamsFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+        teamsResource.addMethod('POST', new apigateway.LambdaIntegration(createTeamFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        teamsResource.addResource('invites').addResource('accept').addMethod('POST', new apigateway.LambdaIntegration(acceptTeamInviteFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        const teamResource = teamsResource.addResource('{teamId}');
+        teamResource.addMethod('GET', new apigateway.LambdaIntegration(getTeamFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+        teamResource.addMethod('PUT', new apigateway.LambdaIntegration(updateTeamFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+        teamResource.addMethod('DELETE', new apigateway.LambdaIntegration(deleteTeamFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        const teamMemberResource = teamResource.addResource('members').addResource('{userId}');
+        teamMemberResource.addMethod('PUT', new apigateway.LambdaIntegration(updateTeamMemberFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+        teamMemberResource.addMethod('DELETE', new apigateway.LambdaIntegration(removeTeamMemberFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        const teamInvitesResource = teamResource.addResource('invites');
+        teamInvitesResource.addMethod('GET', new apigateway.LambdaIntegration(getTeamInvitesFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+        teamInvitesResource.addMethod('POST', new apigateway.LambdaIntegration(createTeamInviteFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+        teamInvitesResource.addResource('{inviteId}').addMethod('DELETE', new apigateway.LambdaIntegration(revokeTeamInviteFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        const teamFavoritesResource = teamResource.addResource('favorites');
+        teamFavoritesResource.addMethod('GET', new apigateway.LambdaIntegration(getTeamFavoritesFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        const teamFavoriteResource = teamFavoritesResource.addResource('{placeId}');
+        teamFavoriteResource.addMethod('PUT', new apigateway.LambdaIntegration(addTeamFavoriteFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+        teamFavoriteResource.addMethod('DELETE', new apigateway.LambdaIntegration(removeTeamFavoriteFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        const teamAnnotationsResource = teamResource.addResource('annotations');
+        teamAnnotationsResource.addMethod('GET', new apigateway.LambdaIntegration(getTeamAnnotationsFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+        teamAnnotationsResource.addMethod('POST', new apigateway.LambdaIntegration(createTeamAnnotationFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
+        const teamAnnotationResource = teamAnnotationsResource.addResource('{annotationId}');
+        teamAnnotationResource.addMethod('PUT', new apigateway.LambdaIntegration(updateTeamAnnotationFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+        teamAnnotationResource.addMethod('DELETE', new apigateway.LambdaIntegration(deleteTeamAnnotationFunction), {
+            authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+        });
+
         const usersResource = api.root.addResource('users');
         const userResource = usersResource.addResource('{userId}');
+        userResource.addResource('collections').addMethod('GET', new apigateway.LambdaIntegration(getUserCollectionsFunction));
 
         userResource.addMethod('GET', new apigateway.LambdaIntegration(getUserFunction), {
             authorizer,
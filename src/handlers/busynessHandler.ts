@@ -0,0 +1,155 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, ScheduledEvent } from 'aws-lambda';
+import * as busynessService from '../services/busynessService.js';
+import { BusynessVoteInputSchema } from '../models/busyness.js';
+import * as headerUtils from '../utils/headers.js';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function getBusyness(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        const placeId = event.pathParameters?.id;
+        if (!placeId) {
+            return buildRes(400, 'Missing place ID');
+        }
+
+        const busyness = await busynessService.getLiveBusyness(placeId);
+        if (!busyness) {
+            return buildRes(404, 'Place not found');
+        }
+
+        return buildRes(200, busyness);
+    } catch (error) {
+        console.error('Error fetching busyness: ', error);
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error fetching busyness', error);
+    }
+}
+
+export async function checkIn(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const placeId = event.pathParameters?.id;
+        if (!placeId) {
+            return buildRes(400, 'Missing place ID');
+        }
+
+        const checkIn = await busynessService.checkIn(placeId, userId);
+        if (!checkIn) {
+            return buildRes(404, 'Place not found');
+        }
+
+        return buildRes(201, checkIn);
+    } catch (error) {
+        console.error('Error checking in: ', error);
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error checking in', error);
+    }
+}
+
+export async function checkOut(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const placeId = event.pathParameters?.id;
+        if (!placeId) {
+            return buildRes(400, 'Missing place ID');
+        }
+
+        const checkIn = await busynessService.checkOut(placeId, userId);
+        if (!checkIn) {
+            return buildRes(404, 'Not checked in here');
+        }
+
+        return buildRes(200, checkIn);
+    } catch (error) {
+        console.error('Error checking out: ', error);
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error checking out', error);
+    }
+}
+
+export async function reportBusyness(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const placeId = event.pathParameters?.id;
+        if (!placeId) {
+            return buildRes(400, 'Missing place ID');
+        }
+
+        if (!event.body) {
+            return buildRes(400, 'Missing request body');
+        }
+
+        const input = BusynessVoteInputSchema.parse(JSON.parse(event.body));
+        const vote = await busynessService.reportBusyness(placeId, userId, input);
+        if (!vote) {
+            return buildRes(404, 'Place not found');
+        }
+
+        return buildRes(201, vote);
+    } catch (error) {
+        console.error('Error reporting busyness: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid busyness level', error);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error reporting busyness', error);
+    }
+}
+
+/**
+ * Runs hourly, samples the live busyness of places that had no activity this hour into their popular times
+ */
+export async function samplePopularTimes(event: ScheduledEvent): Promise<void> {
+    const sampled = await busynessService.samplePopularTimes(new Date(event.time));
+    console.log(`[samplePopularTimes] Sampled busyness for ${sampled} places without activity this hour`);
+}
+
+function buildRes(statusCode: number, message: any, error?: any) {
+    let body: Record<string, any> = {};
+
+    if (typeof message === 'string') {
+        body.message = message;
+    } else if (typeof message === 'object') {
+        body = { ...message };
+    } else {
+        body.message = String(message);
+    }
+
+    if (error) {
+        body.error = error.errors || error.message || String(error);
+    }
+
+    return headerUtils.createApiResponse(statusCode, body);
+}
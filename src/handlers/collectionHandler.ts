@@ -0,0 +1,332 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import * as collectionService from '../services/collectionService.js';
+import * as sessionService from '../services/sessionService.js';
+import { CollectionError } from '../services/collectionService.js';
+import {
+    CollectionInputSchema,
+    CollectionUpdateSchema,
+    CollectionItemInputSchema,
+    CollectionItemUpdateSchema,
+} from '../models/collection.js';
+import * as headerUtils from '../utils/headers.js';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function createCollection(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        if (!event.body) {
+            return buildRes(400, 'Missing request body');
+        }
+
+        const input = CollectionInputSchema.parse(JSON.parse(event.body));
+        const collection = await collectionService.createCollection(userId, input);
+
+        return buildRes(201, collection);
+    } catch (error) {
+        console.error('Error creating collection: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid collection data', error);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error creating collection', error);
+    }
+}
+
+// the signed-in user's own collections, including private ones
+export async function getCollections(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const collections = await collectionService.getUserCollections(userId, userId);
+
+        return buildRes(200, { collections });
+    } catch (error) {
+        console.error('Error fetching collections: ', error);
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error fetching collections', error);
+    }
+}
+
+// someone's public collections, public route
+export async function getUserCollections(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        const ownerId = event.pathParameters?.userId;
+        if (!ownerId) {
+            return buildRes(400, 'Missing user ID');
+        }
+
+        const collections = await collectionService.getUserCollections(ownerId, await getViewerId(event));
+
+        return buildRes(200, { collections });
+    } catch (error) {
+        console.error('Error fetching collections: ', error);
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error fetching collections', error);
+    }
+}
+
+// public route, link-shared collections need the ?token= from the share link
+export async function getCollection(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        const collectionId = event.pathParameters?.collectionId;
+        if (!collectionId) {
+            return buildRes(400, 'Missing collection ID');
+        }
+
+        const collection = await collectionService.getCollection(
+            collectionId,
+            await getViewerId(event),
+            event.queryStringParameters?.token
+        );
+        if (!collection) {
+            return buildRes(404, 'Collection not found');
+        }
+
+        return buildRes(200, collection);
+    } catch (error) {
+        console.error('Error fetching collection: ', error);
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error fetching collection', error);
+    }
+}
+
+export async function updateCollection(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const collectionId = event.pathParameters?.collectionId;
+        if (!collectionId) {
+            return buildRes(400, 'Missing collection ID');
+        }
+
+        if (!event.body) {
+            return buildRes(400, 'Missing request body');
+        }
+
+        const update = CollectionUpdateSchema.parse(JSON.parse(event.body));
+        const collection = await collectionService.updateCollection(collectionId, userId, update);
+        if (!collection) {
+            return buildRes(404, 'Collection not found');
+        }
+
+        return buildRes(200, collection);
+    } catch (error) {
+        console.error('Error updating collection: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid collection data', error);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error updating collection', error);
+    }
+}
+
+export async function deleteCollection(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const collectionId = event.pathParameters?.collectionId;
+        if (!collectionId) {
+            return buildRes(400, 'Missing collection ID');
+        }
+
+        const deleted = await collectionService.deleteCollection(collectionId, userId);
+        if (!deleted) {
+            return buildRes(404, 'Collection not found');
+        }
+
+        return buildRes(200, 'Collection deleted successfully');
+    } catch (error) {
+        console.error('Error deleting collection: ', error);
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error deleting collection', error);
+    }
+}
+
+export async function addCollectionItem(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const collectionId = event.pathParameters?.collectionId;
+        if (!collectionId) {
+            return buildRes(400, 'Missing collection ID');
+        }
+
+        if (!event.body) {
+            return buildRes(400, 'Missing request body');
+        }
+
+        const input = CollectionItemInputSchema.parse(JSON.parse(event.body));
+        const collection = await collectionService.addCollectionItem(collectionId, userId, input);
+        if (!collection) {
+            return buildRes(404, 'Collection not found');
+        }
+
+        return buildRes(201, collection);
+    } catch (error) {
+        console.error('Error adding place to collection: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid collection item', error);
+        }
+        if (error instanceof CollectionError) {
+            return buildRes(400, error.message);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error adding place to collection', error);
+    }
+}
+
+// change a place's note or move it within the list
+export async function updateCollectionItem(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const collectionId = event.pathParameters?.collectionId;
+        const placeId = event.pathParameters?.placeId;
+        if (!collectionId || !placeId) {
+            return buildRes(400, 'Missing collection or place ID');
+        }
+
+        if (!event.body) {
+            return buildRes(400, 'Missing request body');
+        }
+
+        const update = CollectionItemUpdateSchema.parse(JSON.parse(event.body));
+        const collection = await collectionService.updateCollectionItem(collectionId, userId, placeId, update);
+        if (!collection) {
+            return buildRes(404, 'Collection not found');
+        }
+
+        return buildRes(200, collection);
+    } catch (error) {
+        console.error('Error updating collection item: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid collection item', error);
+        }
+        if (error instanceof CollectionError) {
+            return buildRes(400, error.message);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error updating collection item', error);
+    }
+}
+
+export async function removeCollectionItem(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const collectionId = event.pathParameters?.collectionId;
+        const placeId = event.pathParameters?.placeId;
+        if (!collectionId || !placeId) {
+            return buildRes(400, 'Missing collection or place ID');
+        }
+
+        const collection = await collectionService.removeCollectionItem(collectionId, userId, placeId);
+        if (!collection) {
+            return buildRes(404, 'Collection not found');
+        }
+
+        return buildRes(200, collection);
+    } catch (error) {
+        console.error('Error removing place from collection: ', error);
+
+        if (error instanceof CollectionError) {
+            return buildRes(400, error.message);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error removing place from collection', error);
+    }
+}
+
+// public routes have no authorizer, so fall back to the session cookie to find who's signed in
+async function getViewerId(event: APIGatewayProxyEvent): Promise<string | null> {
+    return event.requestContext.authorizer?.claims?.sub
+        ?? await sessionService.getSessionUserId(event.headers?.Cookie || event.headers?.cookie);
+}
+
+function buildRes(statusCode: number, message: any, error?: any) {
+    let body: Record<string, any> = {};
+
+    if (typeof message === 'string') {
+        body.message = message;
+    } else if (typeof message === 'object') {
+        body = { ...message };
+    } else {
+        body.message = String(message);
+    }
+
+    if (error) {
+        body.error = error.errors || error.message || String(error);
+    }
+
+    return headerUtils.createApiResponse(statusCode, body);
+}
@@ -0,0 +1,100 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import * as duplicateService from '../services/duplicateService.js';
+import * as permissionService from '../services/permissionService.js';
+import { Permission } from '../services/permissionService.js';
+import { PlaceMergeError } from '../services/duplicateService.js';
+import { PlaceMergeSchema } from '../models/duplicate.js';
+import * as headerUtils from '../utils/headers.js';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function getDuplicates(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const hasPermission = await permissionService.hasPermission(userId, Permission.MODERATE_PLACES);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to merge places');
+        }
+
+        const duplicates = await duplicateService.findDuplicates();
+        return buildRes(200, { duplicates });
+    } catch (error) {
+        console.error('Error finding duplicate places: ', error);
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error finding duplicate places', error);
+    }
+}
+
+export async function mergePlaces(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const id = event.pathParameters?.id;
+        if (!id) {
+            return buildRes(400, 'Missing place ID');
+        }
+
+        const hasPermission = await permissionService.hasPermission(userId, Permission.MODERATE_PLACES);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to merge places');
+        }
+
+        if (!event.body) {
+            return buildRes(400, 'Missing request body');
+        }
+
+        const { duplicateId } = PlaceMergeSchema.parse(JSON.parse(event.body));
+        const result = await duplicateService.mergePlaces(id, duplicateId, userId);
+        if (!result) {
+            return buildRes(404, 'Place not found');
+        }
+
+        return buildRes(200, result);
+    } catch (error) {
+        console.error('Error merging places: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid merge request', error);
+        }
+        if (error instanceof PlaceMergeError) {
+            return buildRes(409, error.message);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error merging places', error);
+    }
+}
+
+function buildRes(statusCode: number, message: any, error?: any) {
+    let body: Record<string, any> = {};
+
+    if (typeof message === 'string') {
+        body.message = message;
+    } else if (typeof message === 'object') {
+        body = { ...message };
+    } else {
+        body.message = String(message);
+    }
+
+    if (error) {
+        body.error = error.errors || error.message || String(error);
+    }
+
+    return headerUtils.createApiResponse(statusCode, body);
+}
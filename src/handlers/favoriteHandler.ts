@@ -0,0 +1,115 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import * as favoriteService from '../services/favoriteService.js';
+import { PaginationSchema } from '../models/pagination.js';
+import * as headerUtils from '../utils/headers.js';
+import { InvalidCursorError } from '../utils/cursor.js';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function getFavorites(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const page = PaginationSchema.parse(event.queryStringParameters || {});
+        const result = await favoriteService.getFavorites(userId, page);
+
+        return buildRes(200, result);
+    } catch (error) {
+        console.error('Error fetching favorites: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid data format', error);
+        }
+        if (error instanceof InvalidCursorError) {
+            return buildRes(400, 'Invalid cursor', error);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error fetching favorites', error);
+    }
+}
+
+export async function favoritePlace(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const placeId = event.pathParameters?.id;
+        if (!placeId) {
+            return buildRes(400, 'Missing place ID');
+        }
+
+        const favorite = await favoriteService.favoritePlace(placeId, userId);
+        if (!favorite) {
+            return buildRes(404, 'Place not found');
+        }
+
+        return buildRes(200, favorite);
+    } catch (error) {
+        console.error('Error favoriting place: ', error);
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error favoriting place', error);
+    }
+}
+
+export async function unfavoritePlace(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const placeId = event.pathParameters?.id;
+        if (!placeId) {
+            return buildRes(400, 'Missing place ID');
+        }
+
+        const removed = await favoriteService.unfavoritePlace(placeId, userId);
+        if (!removed) {
+            return buildRes(404, 'Place is not a favorite');
+        }
+
+        return buildRes(200, 'Removed from favorites');
+    } catch (error) {
+        console.error('Error unfavoriting place: ', error);
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error unfavoriting place', error);
+    }
+}
+
+function buildRes(statusCode: number, message: any, error?: any) {
+    let body: Record<string, any> = {};
+
+    if (typeof message === 'string') {
+        body.message = message;
+    } else if (typeof message === 'object') {
+        body = { ...message };
+    } else {
+        body.message = String(message);
+    }
+
+    if (error) {
+        body.error = error.errors || error.message || String(error);
+    }
+
+    return headerUtils.createApiResponse(statusCode, body);
+}
@@ -0,0 +1,251 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, S3Event } from 'aws-lambda';
+import * as photoService from '../services/photoService.js';
+import * as permissionService from '../services/permissionService.js';
+import * as sessionService from '../services/sessionService.js';
+import { Permission } from '../services/permissionService.js';
+import { PhotoUploadError } from '../services/photoService.js';
+import { PhotoUploadRequestSchema, PhotoConfirmSchema, PhotoModerationSchema } from '../models/photo.js';
+import { PaginationSchema } from '../models/pagination.js';
+import * as headerUtils from '../utils/headers.js';
+import { InvalidCursorError } from '../utils/cursor.js';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function getPhotos(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        const placeId = event.pathParameters?.id;
+        if (!placeId) {
+            return buildRes(400, 'Missing place ID');
+        }
+
+        // signed in uploaders also see their own photos that are waiting for moderation
+        const userId = await getViewerId(event);
+        const photos = await photoService.getPhotosForPlace(placeId, userId ?? undefined);
+
+        return buildRes(200, { photos });
+    } catch (error) {
+        console.error('Error fetching photos: ', error);
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error fetching photos', error);
+    }
+}
+
+export async function requestPhotoUpload(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const placeId = event.pathParameters?.id;
+        if (!placeId) {
+            return buildRes(400, 'Missing place ID');
+        }
+
+        if (!event.body) {
+            return buildRes(400, 'Missing request body');
+        }
+
+        const request = PhotoUploadRequestSchema.parse(JSON.parse(event.body));
+        const upload = await photoService.requestPhotoUpload(placeId, userId, request);
+        if (!upload) {
+            return buildRes(404, 'Place not found');
+        }
+
+        return buildRes(201, upload);
+    } catch (error) {
+        console.error('Error requesting photo upload: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid upload request', error);
+        }
+        if (error instanceof PhotoUploadError) {
+            return buildRes(400, error.message);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error requesting photo upload', error);
+    }
+}
+
+export async function confirmPhotoUpload(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const photoId = event.pathParameters?.photoId;
+        if (!photoId) {
+            return buildRes(400, 'Missing photo ID');
+        }
+
+        const photo = await photoService.getPhotoById(photoId);
+        if (!photo || photo.placeId !== event.pathParameters?.id) {
+            return buildRes(404, 'Photo not found');
+        }
+        if (photo.uploadedBy !== userId) {
+            return buildRes(403, 'You do not have permission to confirm this photo');
+        }
+
+        const details = PhotoConfirmSchema.parse(event.body ? JSON.parse(event.body) : {});
+        const confirmedPhoto = await photoService.confirmPhotoUpload(photoId, details);
+
+        return buildRes(200, confirmedPhoto);
+    } catch (error) {
+        console.error('Error confirming photo upload: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid photo details', error);
+        }
+        if (error instanceof PhotoUploadError) {
+            return buildRes(400, error.message);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error confirming photo upload', error);
+    }
+}
+
+export async function getPendingPhotos(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const hasPermission = await permissionService.hasPermission(userId, Permission.MODERATE_PHOTOS);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to moderate photos');
+        }
+
+        const page = PaginationSchema.parse(event.queryStringParameters || {});
+        const result = await photoService.getPendingPhotos(page);
+
+        return buildRes(200, result);
+    } catch (error) {
+        console.error('Error fetching pending photos: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid data format', error);
+        }
+        if (error instanceof InvalidCursorError) {
+            return buildRes(400, 'Invalid cursor', error);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error fetching pending photos', error);
+    }
+}
+
+export async function moderatePhoto(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const photoId = event.pathParameters?.photoId;
+        if (!photoId) {
+            return buildRes(400, 'Missing photo ID');
+        }
+
+        const hasPermission = await permissionService.hasPermission(userId, Permission.MODERATE_PHOTOS);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to moderate photos');
+        }
+
+        if (!event.body) {
+            return buildRes(400, 'Missing request body');
+        }
+
+        const photo = await photoService.getPhotoById(photoId);
+        if (!photo || photo.placeId !== event.pathParameters?.id) {
+            return buildRes(404, 'Photo not found');
+        }
+
+        const moderation = PhotoModerationSchema.parse(JSON.parse(event.body));
+        const moderatedPhoto = await photoService.moderatePhoto(photoId, userId, moderation);
+
+        return buildRes(200, moderatedPhoto);
+    } catch (error) {
+        console.error('Error moderating photo: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid moderation data', error);
+        }
+        if (error instanceof PhotoUploadError) {
+            return buildRes(400, error.message);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error moderating photo', error);
+    }
+}
+
+/**
+ * Triggered by the assets bucket when an original is uploaded, generates the photo's variants
+ */
+export async function processPhotoUploads(event: S3Event): Promise<void> {
+    for (const record of event.Records) {
+        // keys in S3 notifications are URL encoded, with spaces as +
+        const key = decodeURIComponent(record.s3.object.key.replace(/\+/g, ' '));
+        const photoId = photoService.getPhotoIdFromKey(key);
+        if (!photoId) {
+            console.warn(`Ignoring upload that isn't a photo original: ${key}`);
+            continue;
+        }
+
+        try {
+            await photoService.processPhoto(photoId);
+        } catch (error) {
+            // rethrow so the invocation is retried
+            console.error(`Error processing photo ${photoId}: `, error);
+            throw error;
+        }
+    }
+}
+
+// public routes have no authorizer, so fall back to the session cookie to find who's signed in
+async function getViewerId(event: APIGatewayProxyEvent): Promise<string | null> {
+    return event.requestContext.authorizer?.claims?.sub
+        ?? await sessionService.getSessionUserId(event.headers?.Cookie || event.headers?.cookie);
+}
+
+function buildRes(statusCode: number, message: any, error?: any) {
+    let body: Record<string, any> = {};
+
+    if (typeof message === 'string') {
+        body.message = message;
+    } else if (typeof message === 'object') {
+        body = { ...message };
+    } else {
+        body.message = String(message);
+    }
+
+    if (error) {
+        body.error = error.errors || error.message || String(error);
+    }
+
+    return headerUtils.createApiResponse(statusCode, body);
+}
@@ -0,0 +1,74 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import * as placeExportService from '../services/placeExportService.js';
+import * as permissionService from '../services/permissionService.js';
+import { Permission } from '../services/permissionService.js';
+import { PlaceFiltersSchema } from '../models/place.js';
+import { PlaceExportOptionsSchema } from '../models/placeExport.js';
+import * as headerUtils from '../utils/headers.js';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function exportPlaces(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const hasPermission = await permissionService.hasPermission(userId, Permission.EXPORT_PLACES);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to export places');
+        }
+
+        // ?format=csv|geojson|ndjson plus the usual place filters, e.g. ?wifi=true&noiseLevel=quiet
+        const { format } = PlaceExportOptionsSchema.parse(event.queryStringParameters || {});
+        const filters = PlaceFiltersSchema.parse(event.queryStringParameters || {});
+
+        const result = await placeExportService.exportPlaces(format, filters);
+
+        if (result.body === undefined) {
+            const { format, count, url, expiresAt } = result;
+            return buildRes(200, { format, count, url, expiresAt });
+        }
+
+        return {
+            statusCode: 200,
+            headers: headerUtils.getStandardHeaders({
+                'Content-Type': result.contentType,
+                'Content-Disposition': `attachment; filename="${result.filename}"`,
+            }),
+            body: result.body,
+        };
+    } catch (error) {
+        console.error('Error exporting places: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid data format', error);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error exporting places', error);
+    }
+}
+
+function buildRes(statusCode: number, message: any, error?: any) {
+    let body: Record<string, any> = {};
+
+    if (typeof message === 'string') {
+        body.message = message;
+    } else if (typeof message === 'object') {
+        body = { ...message };
+    } else {
+        body.message = String(message);
+    }
+
+    if (error) {
+        body.error = error.errors || error.message || String(error);
+    }
+
+    return headerUtils.createApiResponse(statusCode, body);
+}
@@ -1,17 +1,40 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import * as placeService from '../services/placeService.js';
+import * as searchService from '../services/searchService.js';
+import * as popularTimesService from '../services/popularTimesService.js';
+import * as placeSubmissionService from '../services/placeSubmissionService.js';
 import * as permissionService from '../services/permissionService.js';
+import * as favoriteService from '../services/favoriteService.js';
+import * as sessionService from '../services/sessionService.js';
 import { Permission } from '../services/permissionService.js';
-import { PlaceSchema } from '../models/place.js';
+import { PlaceSchema, PlaceDeleteSchema, PlaceFiltersSchema, NearbyFiltersSchema, PlaceSortSchema, BoundingBoxSchema, MapZoomSchema } from '../models/place.js';
+import { PaginationSchema } from '../models/pagination.js';
+import { SearchQuerySchema } from '../models/search.js';
 import * as headerUtils from '../utils/headers.js';
+import { InvalidCursorError } from '../utils/cursor.js';
+import { wantsGeoJson, placeToFeature, placesToFeatureCollection, GEOJSON_CONTENT_TYPE } from '../utils/geojson.js';
 import { z } from 'zod';
 import { v4 as uuidv4 } from 'uuid';
 
-export async function getAllPlaces(): Promise<APIGatewayProxyResult> {
+export async function getAllPlaces(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
     try {
-        const places = await placeService.getAllPlaces();
+        // optional filters, e.g. ?openNow=true or ?openAt=2025-04-16T09:00:00Z
+        const filters = PlaceFiltersSchema.parse(event.queryStringParameters || {});
+        // ?limit=20&cursor=<nextCursor from the previous page>
+        const page = PaginationSchema.parse(event.queryStringParameters || {});
+        // ?sort=rating&order=asc
+        const sort = PlaceSortSchema.parse(event.queryStringParameters || {});
+        if (placeService.LOCATION_SORTS.includes(sort.sort)) {
+            return buildRes(400, `Sorting by ${sort.sort} needs a location, use /places/nearby`);
+        }
+        const result = await placeService.getAllPlaces(filters, page, sort);
+
+        if (wantsGeoJson(event.headers, event.queryStringParameters)) {
+            const { places, ...members } = result;
+            return buildGeoJsonRes(200, placesToFeatureCollection(places, members));
+        }
 
-        return buildRes(200, places);
+        return buildRes(200, result);
     } catch (error) {
         console.error('Error fetching places: ', error);
 
@@ -19,6 +42,9 @@ export async function getAllPlaces(): Promise<APIGatewayProxyResult> {
         if (error instanceof z.ZodError) {
             return buildRes(400, 'Invalid data format', error);
         }
+        if (error instanceof InvalidCursorError) {
+            return buildRes(400, 'Invalid cursor', error);
+        }
 
         // log additonal details in prod
         const errorId = uuidv4(); // generate a unique error ID
@@ -42,11 +68,22 @@ export async function getPlacesNearby(event: APIGatewayProxyEvent): Promise<APIG
         if (!radius) {
             return buildRes(400, 'Missing Radius(km)');
         }
+        // amenity / attribute / busyness filters (invalid values throw a ZodError -> 400)
+        const filters = NearbyFiltersSchema.parse(event.queryStringParameters || {});
+        const page = PaginationSchema.parse(event.queryStringParameters || {});
+        const sort = PlaceSortSchema.parse(event.queryStringParameters || {});
         console.log(`Searching for places near lat=${lat}, lng=${lng}, radius=${radius}km`);
 
-        const places = await placeService.getPlacesNearby(lat, lng, radius);
+        const result = await placeService.getPlacesNearby(lat, lng, radius, filters, page, sort);
+        result.places = await favoriteService.withFavorites(result.places, await getViewerId(event));
+
+        // each feature keeps its distance (km) in properties
+        if (wantsGeoJson(event.headers, event.queryStringParameters)) {
+            const { places, ...members } = result;
+            return buildGeoJsonRes(200, placesToFeatureCollection(places, members));
+        }
 
-        return buildRes(200, places);
+        return buildRes(200, result);
     } catch (error) {
         console.error('Error fetching places: ', error);
 
@@ -54,6 +91,50 @@ export async function getPlacesNearby(event: APIGatewayProxyEvent): Promise<APIG
         if (error instanceof z.ZodError) {
             return buildRes(400, 'Invalid data format', error);
         }
+        if (error instanceof InvalidCursorError) {
+            return buildRes(400, 'Invalid cursor', error);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error fetching places', error);
+    }
+}
+
+export async function getPlacesWithin(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // viewport corners (invalid or missing values throw a ZodError -> 400)
+        const boundingBox = BoundingBoxSchema.parse(event.queryStringParameters || {});
+        if (placeService.calculateBoundingBoxArea(boundingBox) > placeService.MAX_VIEWPORT_AREA_KM2) {
+            return buildRes(400, `Bounding box too large, max area is ${placeService.MAX_VIEWPORT_AREA_KM2} km²`);
+        }
+        const filters = PlaceFiltersSchema.parse(event.queryStringParameters || {});
+        const page = PaginationSchema.parse(event.queryStringParameters || {});
+        const sort = PlaceSortSchema.parse(event.queryStringParameters || {});
+        if (placeService.LOCATION_SORTS.includes(sort.sort)) {
+            return buildRes(400, `Sorting by ${sort.sort} needs a location, use /places/nearby`);
+        }
+        console.log(`Searching for places within ${JSON.stringify(boundingBox)}`);
+
+        const result = await placeService.getPlacesWithin(boundingBox, filters, page, sort);
+
+        if (wantsGeoJson(event.headers, event.queryStringParameters)) {
+            const { places, ...members } = result;
+            return buildGeoJsonRes(200, placesToFeatureCollection(places, members));
+        }
+
+        return buildRes(200, result);
+    } catch (error) {
+        console.error('Error fetching places: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid data format', error);
+        }
+        if (error instanceof InvalidCursorError) {
+            return buildRes(400, 'Invalid cursor', error);
+        }
 
         // log additonal details in prod
         const errorId = uuidv4(); // generate a unique error ID
@@ -63,6 +144,66 @@ export async function getPlacesNearby(event: APIGatewayProxyEvent): Promise<APIG
     }
 }
 
+export async function getPlaceClusters(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        const boundingBox = BoundingBoxSchema.parse(event.queryStringParameters || {});
+        if (placeService.calculateBoundingBoxArea(boundingBox) > placeService.MAX_CLUSTER_VIEWPORT_AREA_KM2) {
+            return buildRes(400, `Bounding box too large, max area is ${placeService.MAX_CLUSTER_VIEWPORT_AREA_KM2} km²`);
+        }
+        const { zoom } = MapZoomSchema.parse(event.queryStringParameters || {});
+        const filters = PlaceFiltersSchema.parse(event.queryStringParameters || {});
+        console.log(`Clustering places within ${JSON.stringify(boundingBox)} at zoom ${zoom}`);
+
+        const result = await placeService.getPlaceClusters(boundingBox, zoom, filters);
+
+        return buildRes(200, result);
+    } catch (error) {
+        console.error('Error clustering places: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid data format', error);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error clustering places', error);
+    }
+}
+
+export async function searchPlaces(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // ?q=harrison coffee, optionally &lat=..&lng=.. to prefer places near a point
+        const query = SearchQuerySchema.parse(event.queryStringParameters || {});
+        const page = PaginationSchema.parse(event.queryStringParameters || {});
+
+        const result = await searchService.searchPlaces(query, page);
+
+        if (wantsGeoJson(event.headers, event.queryStringParameters)) {
+            const { places, ...members } = result;
+            return buildGeoJsonRes(200, placesToFeatureCollection(places, members));
+        }
+
+        return buildRes(200, result);
+    } catch (error) {
+        console.error('Error searching places: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid data format', error);
+        }
+        if (error instanceof InvalidCursorError) {
+            return buildRes(400, 'Invalid cursor', error);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error searching places', error);
+    }
+}
+
 export async function getPlace(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
     try {
         const id = event.pathParameters?.id;
@@ -71,12 +212,38 @@ export async function getPlace(event: APIGatewayProxyEvent): Promise<APIGatewayP
             return buildRes(400, 'Missing place ID');
         }
 
-        const place = await placeService.getPlaceById(id);
+        const storedPlace = await placeService.getPlaceById(id);
 
-        if (!place) {
+        if (!storedPlace) {
             return buildRes(404, 'Place not found');
         }
 
+        // merged duplicates redirect to the place they were merged into, the Location is
+        // relative so it resolves against whatever stage prefix the request came in on
+        if (storedPlace.status === 'merged' && storedPlace.mergedInto) {
+            return headerUtils.createApiResponse(
+                301,
+                { message: 'Place has been merged', mergedInto: storedPlace.mergedInto },
+                { Location: storedPlace.mergedInto }
+            );
+        }
+
+        // submissions are only shown to their submitter and admins (when the request is signed in)
+        const userId = await getViewerId(event);
+        if (!placeService.isPlaceLive(storedPlace)) {
+            const canView = userId && (storedPlace.createdBy === userId
+                || await permissionService.hasPermission(userId, Permission.MODERATE_PLACES));
+            if (!canView) {
+                return buildRes(404, 'Place not found');
+            }
+        }
+
+        const [place] = await favoriteService.withFavorites([await popularTimesService.withPopularTimes(storedPlace)], userId);
+
+        if (wantsGeoJson(event.headers, event.queryStringParameters)) {
+            return buildGeoJsonRes(200, placeToFeature(place));
+        }
+
         return buildRes(200, place);
     } catch (error) {
         console.error('Error fetching place:', error);
@@ -102,26 +269,28 @@ export async function createPlace(event: APIGatewayProxyEvent): Promise<APIGatew
             return buildRes(401, 'Authentication required');
         }
 
-        // check if user has permission to create places
+        // anyone can submit a place, it only goes live straight away for users who can create places
         const hasPermission = await permissionService.hasPermission(
             userId,
             Permission.CREATE_PLACE
         )
 
-        if (!hasPermission) {
-            return buildRes(403, 'You do not have permission to create a place');
-        }
-
         if (!event.body) {
             return buildRes(400, 'Missing request body');
         }
         const placeData = JSON.parse(event.body);
 
         try {
-            // validate input data (without id, createdAt, updatedAt)
-            const { id, createdAt, updatedAt, ...inputData } = PlaceSchema.parse(placeData);
+            // validate input data (without id, createdAt, updatedAt), ratings only come from reviews
+            const { id, createdAt, updatedAt, ...parsedData } = PlaceSchema.parse(placeData);
+            const inputData = placeService.withoutComputedFields(parsedData);
 
-            const newPlace = await placeService.createPlace(inputData, userId);
+            if (!hasPermission) {
+                const submission = await placeSubmissionService.submitPlace(inputData, userId);
+                return buildRes(201, submission);
+            }
+
+            const newPlace = await placeService.createPlace(placeService.withoutModerationFields(inputData), userId);
             return buildRes(201, newPlace);
         
         } catch (validationError) {
@@ -187,14 +356,17 @@ export async function updatePlace(event: APIGatewayProxyEvent): Promise<APIGatew
         const updateData = JSON.parse(event.body);
 
         try {
-            // remove immutable fields from the validation
-            const { id: _, createdAt, updatedAt, ...inputData } = updateData;
+            // remove immutable fields from the validation, moderation fields only change through review
+            // and ratings, review counts and Wi-Fi speeds through reviews and speed tests
+            const { id: _, createdAt, updatedAt, ...inputData } = placeService.withoutComputedFields(
+                placeService.withoutModerationFields(updateData)
+            );
 
             // validate the update data
             PlaceSchema.partial().parse(inputData);
 
             // update the place
-            const updatedPlace = await placeService.updatePlace(id, inputData);
+            const updatedPlace = await placeService.updatePlace(id, inputData, userId);
             return buildRes(200, updatedPlace);
         } catch (validationError) {
             if (validationError instanceof z.ZodError) {
@@ -248,7 +420,9 @@ export async function deletePlace(event: APIGatewayProxyEvent): Promise<APIGatew
             return buildRes(404, 'Place not found');
         }
 
-        const success = await placeService.deletePlace(id);
+        // the body is optional, it only carries the reason for the trash
+        const { reason } = PlaceDeleteSchema.parse(event.body ? JSON.parse(event.body) : {});
+        const success = await placeService.deletePlace(id, userId, reason);
 
         if (success) {
             return buildRes(200, { message: 'Place deleted successfully'});
@@ -258,6 +432,10 @@ export async function deletePlace(event: APIGatewayProxyEvent): Promise<APIGatew
     } catch(error) {
         console.error('Error deleting place: ', error);
 
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid data format', error);
+        }
+
         const errorId = uuidv4();
         console.error(`Error ID: ${errorId}`, error);
 
@@ -281,4 +459,15 @@ function buildRes(statusCode: number, message: any, error?: any) {
     }
     
     return headerUtils.createApiResponse(statusCode, body);
-}
\ No newline at end of file
+}
+
+// public routes have no authorizer, so fall back to the session cookie to find who's signed in
+async function getViewerId(event: APIGatewayProxyEvent): Promise<string | null> {
+    return event.requestContext.authorizer?.claims?.sub
+        ?? await sessionService.getSessionUserId(event.headers?.Cookie || event.headers?.cookie);
+}
+
+// GeoJSON bodies are sent as-is with their own content type
+function buildGeoJsonRes(statusCode: number, body: any) {
+    return headerUtils.createApiResponse(statusCode, body, { 'Content-Type': GEOJSON_CONTENT_TYPE });
+}
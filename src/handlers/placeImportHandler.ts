@@ -0,0 +1,93 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import * as placeImportService from '../services/placeImportService.js';
+import * as permissionService from '../services/permissionService.js';
+import { Permission } from '../services/permissionService.js';
+import { PlaceImportError } from '../services/placeImportService.js';
+import { PlaceImportOptionsSchema } from '../models/placeImport.js';
+import * as headerUtils from '../utils/headers.js';
+import { CSV_CONTENT_TYPE } from '../utils/csv.js';
+import { GEOJSON_CONTENT_TYPE } from '../utils/geojson.js';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function importPlaces(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const hasPermission = await permissionService.hasPermission(userId, Permission.IMPORT_PLACES);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to import places');
+        }
+
+        if (!event.body) {
+            return buildRes(400, 'Missing request body');
+        }
+
+        // ?format= wins, otherwise it comes from the Content-Type
+        const query = event.queryStringParameters || {};
+        const { format, dryRun } = PlaceImportOptionsSchema.parse({
+            ...query,
+            format: query.format ?? getFormatFromContentType(event.headers),
+        });
+
+        const body = event.isBase64Encoded ? Buffer.from(event.body, 'base64').toString('utf8') : event.body;
+        const result = await placeImportService.importPlaces(format, body, userId, dryRun);
+
+        // nothing was written if any row was invalid
+        if (result.errors.length > 0) {
+            return buildRes(400, result);
+        }
+        // some batches were written before one failed, the result says which rows made it
+        if (result.partial) {
+            return buildRes(500, result);
+        }
+        return buildRes(200, result);
+    } catch (error) {
+        console.error('Error importing places: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid import options', error);
+        }
+        if (error instanceof PlaceImportError) {
+            return buildRes(400, error.message);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error importing places', error);
+    }
+}
+
+function getFormatFromContentType(headers: Record<string, string | undefined> | null): string | undefined {
+    const contentType = Object.entries(headers || {})
+        .find(([name]) => name.toLowerCase() === 'content-type')?.[1]
+        ?.split(';')[0].trim().toLowerCase();
+
+    if (contentType === CSV_CONTENT_TYPE) return 'csv';
+    if (contentType === GEOJSON_CONTENT_TYPE || contentType === 'application/json') return 'geojson';
+    return undefined;
+}
+
+function buildRes(statusCode: number, message: any, error?: any) {
+    let body: Record<string, any> = {};
+
+    if (typeof message === 'string') {
+        body.message = message;
+    } else if (typeof message === 'object') {
+        body = { ...message };
+    } else {
+        body.message = String(message);
+    }
+
+    if (error) {
+        body.error = error.errors || error.message || String(error);
+    }
+
+    return headerUtils.createApiResponse(statusCode, body);
+}
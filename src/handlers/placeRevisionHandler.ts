@@ -0,0 +1,113 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import * as placeRevisionService from '../services/placeRevisionService.js';
+import * as permissionService from '../services/permissionService.js';
+import { Permission } from '../services/permissionService.js';
+import { PlaceRestoreSchema } from '../models/placeRevision.js';
+import { PaginationSchema } from '../models/pagination.js';
+import * as headerUtils from '../utils/headers.js';
+import { InvalidCursorError } from '../utils/cursor.js';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function getPlaceHistory(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const id = event.pathParameters?.id;
+        if (!id) {
+            return buildRes(400, 'Missing place ID');
+        }
+
+        // whoever can edit a place can see how it changed
+        const hasPermission = await permissionService.hasPermission(userId, Permission.UPDATE_PLACE, id);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to view this place\'s history');
+        }
+
+        const page = PaginationSchema.parse(event.queryStringParameters || {});
+        const result = await placeRevisionService.getPlaceHistory(id, page);
+
+        return buildRes(200, result);
+    } catch (error) {
+        console.error('Error fetching place history: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid data format', error);
+        }
+        if (error instanceof InvalidCursorError) {
+            return buildRes(400, 'Invalid cursor', error);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error fetching place history', error);
+    }
+}
+
+export async function restorePlaceRevision(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const id = event.pathParameters?.id;
+        if (!id) {
+            return buildRes(400, 'Missing place ID');
+        }
+
+        const hasPermission = await permissionService.hasPermission(userId, Permission.RESTORE_PLACE);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to restore places');
+        }
+
+        if (!event.body) {
+            return buildRes(400, 'Missing request body');
+        }
+
+        const { revisionId } = PlaceRestoreSchema.parse(JSON.parse(event.body));
+        const place = await placeRevisionService.restoreRevision(id, revisionId, userId);
+        if (!place) {
+            return buildRes(404, 'Revision not found');
+        }
+
+        return buildRes(200, place);
+    } catch (error) {
+        console.error('Error restoring place revision: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid restore request', error);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error restoring place revision', error);
+    }
+}
+
+function buildRes(statusCode: number, message: any, error?: any) {
+    let body: Record<string, any> = {};
+
+    if (typeof message === 'string') {
+        body.message = message;
+    } else if (typeof message === 'object') {
+        body = { ...message };
+    } else {
+        body.message = String(message);
+    }
+
+    if (error) {
+        body.error = error.errors || error.message || String(error);
+    }
+
+    return headerUtils.createApiResponse(statusCode, body);
+}
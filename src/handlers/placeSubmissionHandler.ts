@@ -0,0 +1,111 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import * as placeSubmissionService from '../services/placeSubmissionService.js';
+import * as permissionService from '../services/permissionService.js';
+import { Permission } from '../services/permissionService.js';
+import { PlaceSubmissionError } from '../services/placeSubmissionService.js';
+import { PlaceStatusSchema, PlaceSubmissionReviewSchema } from '../models/placeSubmission.js';
+import { PaginationSchema } from '../models/pagination.js';
+import * as headerUtils from '../utils/headers.js';
+import { InvalidCursorError } from '../utils/cursor.js';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function getPlaceSubmissions(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const query = event.queryStringParameters || {};
+        const status = PlaceStatusSchema.default('pending').parse(query.status);
+        const page = PaginationSchema.parse(query);
+
+        // admins work through everyone's submissions, other users keep track of their own
+        const isModerator = await permissionService.hasPermission(userId, Permission.MODERATE_PLACES);
+        const result = await placeSubmissionService.getSubmissions(status, isModerator ? undefined : userId, page);
+
+        return buildRes(200, result);
+    } catch (error) {
+        console.error('Error fetching place submissions: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid data format', error);
+        }
+        if (error instanceof InvalidCursorError) {
+            return buildRes(400, 'Invalid cursor', error);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error fetching place submissions', error);
+    }
+}
+
+export async function reviewPlaceSubmission(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const id = event.pathParameters?.id;
+        if (!id) {
+            return buildRes(400, 'Missing place ID');
+        }
+
+        const hasPermission = await permissionService.hasPermission(userId, Permission.MODERATE_PLACES);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to review submitted places');
+        }
+
+        if (!event.body) {
+            return buildRes(400, 'Missing request body');
+        }
+
+        const review = PlaceSubmissionReviewSchema.parse(JSON.parse(event.body));
+        const place = await placeSubmissionService.reviewSubmission(id, userId, review);
+        if (!place) {
+            return buildRes(404, 'Submission not found');
+        }
+
+        return buildRes(200, place);
+    } catch (error) {
+        console.error('Error reviewing place submission: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid review data', error);
+        }
+        if (error instanceof PlaceSubmissionError) {
+            return buildRes(409, error.message);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error reviewing place submission', error);
+    }
+}
+
+function buildRes(statusCode: number, message: any, error?: any) {
+    let body: Record<string, any> = {};
+
+    if (typeof message === 'string') {
+        body.message = message;
+    } else if (typeof message === 'object') {
+        body = { ...message };
+    } else {
+        body.message = String(message);
+    }
+
+    if (error) {
+        body.error = error.errors || error.message || String(error);
+    }
+
+    return headerUtils.createApiResponse(statusCode, body);
+}
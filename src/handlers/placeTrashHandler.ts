@@ -0,0 +1,105 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult, ScheduledEvent } from 'aws-lambda';
+import * as placeService from '../services/placeService.js';
+import * as permissionService from '../services/permissionService.js';
+import { Permission } from '../services/permissionService.js';
+import { PaginationSchema } from '../models/pagination.js';
+import * as headerUtils from '../utils/headers.js';
+import { InvalidCursorError } from '../utils/cursor.js';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function getDeletedPlaces(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const hasPermission = await permissionService.hasPermission(userId, Permission.RESTORE_PLACE);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to view deleted places');
+        }
+
+        const page = PaginationSchema.parse(event.queryStringParameters || {});
+        const result = await placeService.getDeletedPlaces(page);
+
+        return buildRes(200, result);
+    } catch (error) {
+        console.error('Error fetching deleted places: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid data format', error);
+        }
+        if (error instanceof InvalidCursorError) {
+            return buildRes(400, 'Invalid cursor', error);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error fetching deleted places', error);
+    }
+}
+
+export async function restoreDeletedPlace(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const id = event.pathParameters?.id;
+        if (!id) {
+            return buildRes(400, 'Missing place ID');
+        }
+
+        const hasPermission = await permissionService.hasPermission(userId, Permission.RESTORE_PLACE);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to restore places');
+        }
+
+        const place = await placeService.restoreDeletedPlace(id, userId);
+        if (!place) {
+            return buildRes(404, 'Deleted place not found');
+        }
+
+        return buildRes(200, place);
+    } catch (error) {
+        console.error('Error restoring deleted place: ', error);
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error restoring deleted place', error);
+    }
+}
+
+/**
+ * Runs on a schedule, removes places that have been in the trash longer than the retention window
+ */
+export async function purgeDeletedPlaces(event: ScheduledEvent): Promise<void> {
+    const purged = await placeService.purgeDeletedPlaces(placeService.PLACE_RETENTION_DAYS, new Date(event.time));
+    console.log(`[purgeDeletedPlaces] Purged ${purged} places deleted more than ${placeService.PLACE_RETENTION_DAYS} days ago`);
+}
+
+function buildRes(statusCode: number, message: any, error?: any) {
+    let body: Record<string, any> = {};
+
+    if (typeof message === 'string') {
+        body.message = message;
+    } else if (typeof message === 'object') {
+        body = { ...message };
+    } else {
+        body.message = String(message);
+    }
+
+    if (error) {
+        body.error = error.errors || error.message || String(error);
+    }
+
+    return headerUtils.createApiResponse(statusCode, body);
+}
@@ -0,0 +1,205 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import * as reviewService from '../services/reviewService.js';
+import * as permissionService from '../services/permissionService.js';
+import { Permission } from '../services/permissionService.js';
+import { DuplicateReviewError } from '../services/reviewService.js';
+import { ReviewInputSchema } from '../models/review.js';
+import { PaginationSchema } from '../models/pagination.js';
+import * as headerUtils from '../utils/headers.js';
+import { InvalidCursorError } from '../utils/cursor.js';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function getReviews(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        const placeId = event.pathParameters?.id;
+        if (!placeId) {
+            return buildRes(400, 'Missing place ID');
+        }
+
+        const page = PaginationSchema.parse(event.queryStringParameters || {});
+        const result = await reviewService.getReviewsForPlace(placeId, page);
+
+        return buildRes(200, result);
+    } catch (error) {
+        console.error('Error fetching reviews: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid data format', error);
+        }
+        if (error instanceof InvalidCursorError) {
+            return buildRes(400, 'Invalid cursor', error);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error fetching reviews', error);
+    }
+}
+
+export async function createReview(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const placeId = event.pathParameters?.id;
+        if (!placeId) {
+            return buildRes(400, 'Missing place ID');
+        }
+
+        if (!event.body) {
+            return buildRes(400, 'Missing request body');
+        }
+
+        const input = ReviewInputSchema.parse(JSON.parse(event.body));
+        const review = await reviewService.createReview(placeId, userId, input);
+        if (!review) {
+            return buildRes(404, 'Place not found');
+        }
+
+        return buildRes(201, review);
+    } catch (error) {
+        console.error('Error creating review: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid review data', error);
+        }
+        if (error instanceof DuplicateReviewError) {
+            return buildRes(409, error.message);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error creating review', error);
+    }
+}
+
+export async function updateReview(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const reviewId = getReviewIdParam(event);
+        if (!reviewId) {
+            return buildRes(400, 'Missing or invalid review ID');
+        }
+
+        if (!event.body) {
+            return buildRes(400, 'Missing request body');
+        }
+
+        const existingReview = await reviewService.getReviewById(reviewId);
+        if (!existingReview || existingReview.placeId !== event.pathParameters?.id) {
+            return buildRes(404, 'Review not found');
+        }
+        // only the author can change what a review says, admins can only remove it
+        if (existingReview.userId !== userId) {
+            return buildRes(403, 'You do not have permission to update this review');
+        }
+
+        const input = ReviewInputSchema.parse(JSON.parse(event.body));
+        const updatedReview = await reviewService.updateReview(reviewId, input);
+
+        return buildRes(200, updatedReview);
+    } catch (error) {
+        console.error('Error updating review: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid review data', error);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error updating review', error);
+    }
+}
+
+export async function deleteReview(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const reviewId = getReviewIdParam(event);
+        if (!reviewId) {
+            return buildRes(400, 'Missing or invalid review ID');
+        }
+
+        const existingReview = await reviewService.getReviewById(reviewId);
+        if (!existingReview || existingReview.placeId !== event.pathParameters?.id) {
+            return buildRes(404, 'Review not found');
+        }
+
+        // authors can delete their own reviews, admins can remove anyone's
+        const hasPermission = await permissionService.hasPermission(
+            userId,
+            Permission.DELETE_REVIEW,
+            reviewId
+        );
+
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to delete this review');
+        }
+
+        await reviewService.deleteReview(reviewId);
+
+        return buildRes(200, 'Review deleted successfully');
+    } catch (error) {
+        console.error('Error deleting review: ', error);
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error deleting review', error);
+    }
+}
+
+// review IDs contain a '#', so clients send them URL encoded
+function getReviewIdParam(event: APIGatewayProxyEvent): string | undefined {
+    const reviewId = event.pathParameters?.reviewId;
+    if (!reviewId) {
+        return undefined;
+    }
+    try {
+        return decodeURIComponent(reviewId);
+    } catch (error) {
+        // a stray '%' that isn't an escape sequence
+        if (error instanceof URIError) {
+            return undefined;
+        }
+        throw error;
+    }
+}
+
+function buildRes(statusCode: number, message: any, error?: any) {
+    let body: Record<string, any> = {};
+
+    if (typeof message === 'string') {
+        body.message = message;
+    } else if (typeof message === 'object') {
+        body = { ...message };
+    } else {
+        body.message = String(message);
+    }
+
+    if (error) {
+        body.error = error.errors || error.message || String(error);
+    }
+
+    return headerUtils.createApiResponse(statusCode, body);
+}
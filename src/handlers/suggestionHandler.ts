@@ -0,0 +1,155 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import * as suggestionService from '../services/suggestionService.js';
+import * as permissionService from '../services/permissionService.js';
+import { Permission } from '../services/permissionService.js';
+import { SuggestionError } from '../services/suggestionService.js';
+import { SuggestionInputSchema, SuggestionReviewSchema, SuggestionStatusSchema } from '../models/suggestion.js';
+import { PaginationSchema } from '../models/pagination.js';
+import * as headerUtils from '../utils/headers.js';
+import { InvalidCursorError } from '../utils/cursor.js';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function createSuggestion(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const placeId = event.pathParameters?.id;
+        if (!placeId) {
+            return buildRes(400, 'Missing place ID');
+        }
+
+        if (!event.body) {
+            return buildRes(400, 'Missing request body');
+        }
+
+        const input = SuggestionInputSchema.parse(JSON.parse(event.body));
+        const suggestion = await suggestionService.createSuggestion(placeId, userId, input);
+        if (!suggestion) {
+            return buildRes(404, 'Place not found');
+        }
+
+        return buildRes(201, suggestion);
+    } catch (error) {
+        console.error('Error creating suggestion: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid suggestion', error);
+        }
+        if (error instanceof SuggestionError) {
+            return buildRes(400, error.message);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error creating suggestion', error);
+    }
+}
+
+export async function getSuggestions(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const hasPermission = await permissionService.hasPermission(userId, Permission.MODERATE_SUGGESTIONS);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to review suggestions');
+        }
+
+        const query = event.queryStringParameters || {};
+        const status = SuggestionStatusSchema.default('pending').parse(query.status);
+        const page = PaginationSchema.parse(query);
+        const result = await suggestionService.getSuggestions(status, page);
+
+        return buildRes(200, result);
+    } catch (error) {
+        console.error('Error fetching suggestions: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid data format', error);
+        }
+        if (error instanceof InvalidCursorError) {
+            return buildRes(400, 'Invalid cursor', error);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error fetching suggestions', error);
+    }
+}
+
+export async function reviewSuggestion(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const suggestionId = event.pathParameters?.suggestionId;
+        if (!suggestionId) {
+            return buildRes(400, 'Missing suggestion ID');
+        }
+
+        const hasPermission = await permissionService.hasPermission(userId, Permission.MODERATE_SUGGESTIONS);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to review suggestions');
+        }
+
+        if (!event.body) {
+            return buildRes(400, 'Missing request body');
+        }
+
+        const review = SuggestionReviewSchema.parse(JSON.parse(event.body));
+        const suggestion = await suggestionService.reviewSuggestion(suggestionId, userId, review);
+        if (!suggestion) {
+            return buildRes(404, 'Suggestion not found');
+        }
+
+        return buildRes(200, suggestion);
+    } catch (error) {
+        console.error('Error reviewing suggestion: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid review data', error);
+        }
+        if (error instanceof SuggestionError) {
+            return buildRes(409, error.message);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error reviewing suggestion', error);
+    }
+}
+
+function buildRes(statusCode: number, message: any, error?: any) {
+    let body: Record<string, any> = {};
+
+    if (typeof message === 'string') {
+        body.message = message;
+    } else if (typeof message === 'object') {
+        body = { ...message };
+    } else {
+        body.message = String(message);
+    }
+
+    if (error) {
+        body.error = error.errors || error.message || String(error);
+    }
+
+    return headerUtils.createApiResponse(statusCode, body);
+}
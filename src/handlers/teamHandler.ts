@@ -0,0 +1,439 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import * as teamService from '../services/teamService.js';
+import * as permissionService from '../services/permissionService.js';
+import { Permission } from '../services/permissionService.js';
+import { TeamError } from '../services/teamService.js';
+import {
+    TeamInputSchema,
+    TeamUpdateSchema,
+    TeamInviteInputSchema,
+    TeamInviteAcceptSchema,
+    TeamMemberUpdateSchema,
+} from '../models/team.js';
+import * as headerUtils from '../utils/headers.js';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function createTeam(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        if (!event.body) {
+            return buildRes(400, 'Missing request body');
+        }
+
+        const input = TeamInputSchema.parse(JSON.parse(event.body));
+        const team = await teamService.createTeam(userId, input);
+
+        return buildRes(201, team);
+    } catch (error) {
+        console.error('Error creating team: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid team data', error);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error creating team', error);
+    }
+}
+
+// the teams the signed-in user is on, with their role in each
+export async function getTeams(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const teams = await teamService.getUserTeams(userId);
+
+        return buildRes(200, { teams });
+    } catch (error) {
+        console.error('Error fetching teams: ', error);
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error fetching teams', error);
+    }
+}
+
+// a team with its members, for anyone on it
+export async function getTeam(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const teamId = event.pathParameters?.teamId;
+        if (!teamId) {
+            return buildRes(400, 'Missing team ID');
+        }
+
+        const membership = await teamService.getMembership(teamId, userId);
+        const team = membership && await teamService.getTeam(teamId);
+        if (!team) {
+            return buildRes(404, 'Team not found');
+        }
+
+        const members = await teamService.getTeamMembers(teamId);
+
+        return buildRes(200, { ...team, role: membership.role, members });
+    } catch (error) {
+        console.error('Error fetching team: ', error);
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error fetching team', error);
+    }
+}
+
+export async function updateTeam(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const teamId = event.pathParameters?.teamId;
+        if (!teamId) {
+            return buildRes(400, 'Missing team ID');
+        }
+
+        if (!event.body) {
+            return buildRes(400, 'Missing request body');
+        }
+
+        const hasPermission = await permissionService.hasPermission(userId, Permission.MANAGE_TEAM, teamId);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to update this team');
+        }
+
+        const update = TeamUpdateSchema.parse(JSON.parse(event.body));
+        const team = await teamService.updateTeam(teamId, update);
+        if (!team) {
+            return buildRes(404, 'Team not found');
+        }
+
+        return buildRes(200, team);
+    } catch (error) {
+        console.error('Error updating team: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid team data', error);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error updating team', error);
+    }
+}
+
+export async function deleteTeam(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const teamId = event.pathParameters?.teamId;
+        if (!teamId) {
+            return buildRes(400, 'Missing team ID');
+        }
+
+        const hasPermission = await permissionService.hasPermission(userId, Permission.DELETE_TEAM, teamId);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to delete this team');
+        }
+
+        const deleted = await teamService.deleteTeam(teamId);
+        if (!deleted) {
+            return buildRes(404, 'Team not found');
+        }
+
+        return buildRes(200, 'Team deleted successfully');
+    } catch (error) {
+        console.error('Error deleting team: ', error);
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error deleting team', error);
+    }
+}
+
+// change a member's role
+export async function updateTeamMember(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const teamId = event.pathParameters?.teamId;
+        const memberId = event.pathParameters?.userId;
+        if (!teamId || !memberId) {
+            return buildRes(400, 'Missing team or user ID');
+        }
+
+        if (!event.body) {
+            return buildRes(400, 'Missing request body');
+        }
+
+        const hasPermission = await permissionService.hasPermission(userId, Permission.MANAGE_TEAM, teamId);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to manage this team');
+        }
+
+        const { role } = TeamMemberUpdateSchema.parse(JSON.parse(event.body));
+        const member = await teamService.updateMemberRole(teamId, userId, memberId, role);
+        if (!member) {
+            return buildRes(404, 'Member not found');
+        }
+
+        return buildRes(200, member);
+    } catch (error) {
+        console.error('Error updating team member: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid role', error);
+        }
+        if (error instanceof TeamError) {
+            return buildRes(400, error.message);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error updating team member', error);
+    }
+}
+
+// remove someone from the team, anyone can remove themselves to leave it
+export async function removeTeamMember(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const teamId = event.pathParameters?.teamId;
+        const memberId = event.pathParameters?.userId;
+        if (!teamId || !memberId) {
+            return buildRes(400, 'Missing team or user ID');
+        }
+
+        if (memberId !== userId) {
+            const hasPermission = await permissionService.hasPermission(userId, Permission.MANAGE_TEAM, teamId);
+            if (!hasPermission) {
+                return buildRes(403, 'You do not have permission to manage this team');
+            }
+        }
+
+        const removed = await teamService.removeMember(teamId, userId, memberId);
+        if (!removed) {
+            return buildRes(404, 'Member not found');
+        }
+
+        return buildRes(200, memberId === userId ? 'Left the team' : 'Member removed');
+    } catch (error) {
+        console.error('Error removing team member: ', error);
+
+        if (error instanceof TeamError) {
+            return buildRes(400, error.message);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error removing team member', error);
+    }
+}
+
+export async function getTeamInvites(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const teamId = event.pathParameters?.teamId;
+        if (!teamId) {
+            return buildRes(400, 'Missing team ID');
+        }
+
+        const hasPermission = await permissionService.hasPermission(userId, Permission.MANAGE_TEAM, teamId);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to manage this team');
+        }
+
+        const invites = await teamService.getTeamInvites(teamId);
+
+        return buildRes(200, { invites });
+    } catch (error) {
+        console.error('Error fetching team invites: ', error);
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error fetching team invites', error);
+    }
+}
+
+// the response includes the invite's token, which the inviter passes on to whoever they're inviting
+export async function createTeamInvite(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const teamId = event.pathParameters?.teamId;
+        if (!teamId) {
+            return buildRes(400, 'Missing team ID');
+        }
+
+        if (!event.body) {
+            return buildRes(400, 'Missing request body');
+        }
+
+        const hasPermission = await permissionService.hasPermission(userId, Permission.MANAGE_TEAM, teamId);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to manage this team');
+        }
+
+        const input = TeamInviteInputSchema.parse(JSON.parse(event.body));
+        const invite = await teamService.createInvite(teamId, userId, input);
+
+        return buildRes(201, invite);
+    } catch (error) {
+        console.error('Error creating team invite: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid invite data', error);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error creating team invite', error);
+    }
+}
+
+export async function revokeTeamInvite(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const teamId = event.pathParameters?.teamId;
+        const inviteId = event.pathParameters?.inviteId;
+        if (!teamId || !inviteId) {
+            return buildRes(400, 'Missing team or invite ID');
+        }
+
+        const hasPermission = await permissionService.hasPermission(userId, Permission.MANAGE_TEAM, teamId);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to manage this team');
+        }
+
+        const revoked = await teamService.revokeInvite(teamId, inviteId);
+        if (!revoked) {
+            return buildRes(404, 'Invite not found');
+        }
+
+        return buildRes(200, 'Invite revoked');
+    } catch (error) {
+        console.error('Error revoking team invite: ', error);
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error revoking team invite', error);
+    }
+}
+
+export async function acceptTeamInvite(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        if (!event.body) {
+            return buildRes(400, 'Missing request body');
+        }
+
+        const { token } = TeamInviteAcceptSchema.parse(JSON.parse(event.body));
+        // only a verified address counts, anyone could sign up with someone else's
+        const claims = event.requestContext.authorizer?.claims;
+        const email = claims?.email_verified === 'true' ? claims.email : undefined;
+        const member = await teamService.acceptInvite(token, userId, email);
+
+        return buildRes(200, member);
+    } catch (error) {
+        console.error('Error accepting team invite: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid invite data', error);
+        }
+        if (error instanceof TeamError) {
+            return buildRes(400, error.message);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error accepting team invite', error);
+    }
+}
+
+function buildRes(statusCode: number, message: any, error?: any) {
+    let body: Record<string, any> = {};
+
+    if (typeof message === 'string') {
+        body.message = message;
+    } else if (typeof message === 'object') {
+        body = { ...message };
+    } else {
+        body.message = String(message);
+    }
+
+    if (error) {
+        body.error = error.errors || error.message || String(error);
+    }
+
+    return headerUtils.createApiResponse(statusCode, body);
+}
@@ -0,0 +1,302 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import * as teamPlaceService from '../services/teamPlaceService.js';
+import * as permissionService from '../services/permissionService.js';
+import { Permission } from '../services/permissionService.js';
+import { TeamAnnotationInputSchema, TeamAnnotationUpdateSchema } from '../models/teamPlace.js';
+import { PaginationSchema } from '../models/pagination.js';
+import * as headerUtils from '../utils/headers.js';
+import { InvalidCursorError } from '../utils/cursor.js';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function getTeamFavorites(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const teamId = event.pathParameters?.teamId;
+        if (!teamId) {
+            return buildRes(400, 'Missing team ID');
+        }
+
+        const hasPermission = await permissionService.hasPermission(userId, Permission.VIEW_TEAM, teamId);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to view this team');
+        }
+
+        const page = PaginationSchema.parse(event.queryStringParameters || {});
+        const result = await teamPlaceService.getTeamFavorites(teamId, page);
+
+        return buildRes(200, result);
+    } catch (error) {
+        console.error('Error fetching team favorites: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid data format', error);
+        }
+        if (error instanceof InvalidCursorError) {
+            return buildRes(400, 'Invalid cursor', error);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error fetching team favorites', error);
+    }
+}
+
+export async function addTeamFavorite(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const teamId = event.pathParameters?.teamId;
+        const placeId = event.pathParameters?.placeId;
+        if (!teamId || !placeId) {
+            return buildRes(400, 'Missing team or place ID');
+        }
+
+        const hasPermission = await permissionService.hasPermission(userId, Permission.EDIT_TEAM_PLACES, teamId);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to change this team\'s favorites');
+        }
+
+        const favorite = await teamPlaceService.addTeamFavorite(teamId, placeId, userId);
+        if (!favorite) {
+            return buildRes(404, 'Place not found');
+        }
+
+        return buildRes(200, favorite);
+    } catch (error) {
+        console.error('Error adding team favorite: ', error);
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error adding team favorite', error);
+    }
+}
+
+export async function removeTeamFavorite(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const teamId = event.pathParameters?.teamId;
+        const placeId = event.pathParameters?.placeId;
+        if (!teamId || !placeId) {
+            return buildRes(400, 'Missing team or place ID');
+        }
+
+        const hasPermission = await permissionService.hasPermission(userId, Permission.EDIT_TEAM_PLACES, teamId);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to change this team\'s favorites');
+        }
+
+        const removed = await teamPlaceService.removeTeamFavorite(teamId, placeId);
+        if (!removed) {
+            return buildRes(404, 'Place is not a team favorite');
+        }
+
+        return buildRes(200, 'Removed from team favorites');
+    } catch (error) {
+        console.error('Error removing team favorite: ', error);
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error removing team favorite', error);
+    }
+}
+
+// the team's notes, or just those on one place with ?placeId=
+export async function getTeamAnnotations(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const teamId = event.pathParameters?.teamId;
+        if (!teamId) {
+            return buildRes(400, 'Missing team ID');
+        }
+
+        const hasPermission = await permissionService.hasPermission(userId, Permission.VIEW_TEAM, teamId);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to view this team');
+        }
+
+        const annotations = await teamPlaceService.getTeamAnnotations(teamId, event.queryStringParameters?.placeId);
+
+        return buildRes(200, { annotations });
+    } catch (error) {
+        console.error('Error fetching team notes: ', error);
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error fetching team notes', error);
+    }
+}
+
+export async function createTeamAnnotation(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const teamId = event.pathParameters?.teamId;
+        if (!teamId) {
+            return buildRes(400, 'Missing team ID');
+        }
+
+        if (!event.body) {
+            return buildRes(400, 'Missing request body');
+        }
+
+        const hasPermission = await permissionService.hasPermission(userId, Permission.EDIT_TEAM_PLACES, teamId);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to add notes for this team');
+        }
+
+        const input = TeamAnnotationInputSchema.parse(JSON.parse(event.body));
+        const annotation = await teamPlaceService.addTeamAnnotation(teamId, userId, input);
+        if (!annotation) {
+            return buildRes(404, 'Place not found');
+        }
+
+        return buildRes(201, annotation);
+    } catch (error) {
+        console.error('Error creating team note: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid note data', error);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error creating team note', error);
+    }
+}
+
+export async function updateTeamAnnotation(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const teamId = event.pathParameters?.teamId;
+        const annotationId = event.pathParameters?.annotationId;
+        if (!teamId || !annotationId) {
+            return buildRes(400, 'Missing team or note ID');
+        }
+
+        if (!event.body) {
+            return buildRes(400, 'Missing request body');
+        }
+
+        if (!await teamPlaceService.getTeamAnnotation(teamId, annotationId)) {
+            return buildRes(404, 'Note not found');
+        }
+
+        // only the author can edit a note
+        const hasPermission = await permissionService.hasPermission(userId, Permission.UPDATE_TEAM_NOTE, annotationId);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to update this note');
+        }
+
+        const update = TeamAnnotationUpdateSchema.parse(JSON.parse(event.body));
+        const annotation = await teamPlaceService.updateTeamAnnotation(teamId, annotationId, update);
+
+        return buildRes(200, annotation);
+    } catch (error) {
+        console.error('Error updating team note: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid note data', error);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error updating team note', error);
+    }
+}
+
+export async function deleteTeamAnnotation(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        if (!userId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const teamId = event.pathParameters?.teamId;
+        const annotationId = event.pathParameters?.annotationId;
+        if (!teamId || !annotationId) {
+            return buildRes(400, 'Missing team or note ID');
+        }
+
+        if (!await teamPlaceService.getTeamAnnotation(teamId, annotationId)) {
+            return buildRes(404, 'Note not found');
+        }
+
+        // authors can delete their own notes, team admins can remove anyone's
+        const hasPermission = await permissionService.hasPermission(userId, Permission.DELETE_TEAM_NOTE, annotationId);
+        if (!hasPermission) {
+            return buildRes(403, 'You do not have permission to delete this note');
+        }
+
+        await teamPlaceService.deleteTeamAnnotation(teamId, annotationId);
+
+        return buildRes(200, 'Note deleted successfully');
+    } catch (error) {
+        console.error('Error deleting team note: ', error);
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error deleting team note', error);
+    }
+}
+
+function buildRes(statusCode: number, message: any, error?: any) {
+    let body: Record<string, any> = {};
+
+    if (typeof message === 'string') {
+        body.message = message;
+    } else if (typeof message === 'object') {
+        body = { ...message };
+    } else {
+        body.message = String(message);
+    }
+
+    if (error) {
+        body.error = error.errors || error.message || String(error);
+    }
+
+    return headerUtils.createApiResponse(statusCode, body);
+}
@@ -0,0 +1,71 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import * as wifiService from '../services/wifiService.js';
+import { DuplicateWifiReportError, WifiOutlierError } from '../services/wifiService.js';
+import { WifiReportInputSchema } from '../models/wifi.js';
+import * as headerUtils from '../utils/headers.js';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+
+export async function submitWifiReport(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+        // Extract the authenticated user's ID, and the session the session middleware found
+        const userId = event.requestContext.authorizer?.claims?.sub;
+        const sessionId = event.requestContext.authorizer?.sessionId;
+        if (!userId || !sessionId) {
+            return buildRes(401, 'Authentication required');
+        }
+
+        const placeId = event.pathParameters?.id;
+        if (!placeId) {
+            return buildRes(400, 'Missing place ID');
+        }
+
+        if (!event.body) {
+            return buildRes(400, 'Missing request body');
+        }
+
+        const input = WifiReportInputSchema.parse(JSON.parse(event.body));
+        const report = await wifiService.submitWifiReport(placeId, userId, sessionId, input);
+        if (!report) {
+            return buildRes(404, 'Place not found');
+        }
+
+        return buildRes(201, report);
+    } catch (error) {
+        console.error('Error submitting Wi-Fi report: ', error);
+
+        if (error instanceof z.ZodError) {
+            return buildRes(400, 'Invalid Wi-Fi measurements', error);
+        }
+        if (error instanceof WifiOutlierError) {
+            return buildRes(400, error.message);
+        }
+        if (error instanceof DuplicateWifiReportError) {
+            return buildRes(409, error.message);
+        }
+
+        // log additonal details in prod
+        const errorId = uuidv4(); // generate a unique error ID
+        console.error(`Error ID: ${errorId}`, error);
+
+        return buildRes(500, 'Error submitting Wi-Fi report', error);
+    }
+}
+
+function buildRes(statusCode: number, message: any, error?: any) {
+    let body: Record<string, any> = {};
+
+    if (typeof message === 'string') {
+        body.message = message;
+    } else if (typeof message === 'object') {
+        body = { ...message };
+    } else {
+        body.message = String(message);
+    }
+
+    if (error) {
+        body.error = error.errors || error.message || String(error);
+    }
+
+    return headerUtils.createApiResponse(statusCode, body);
+}
@@ -1,5 +1,5 @@
 // get placeHandler (and all the other lambda handlers)
-import {getAllPlaces as rawGetAllPlaces, getPlacesNearby as rawGetPlacesNearby, getPlace as rawGetPlace, createPlace as rawCreatePlace, updatePlace as rawUpdatePlace, deletePlace as rawDeletePlace} from './handlers/placeHandler.js'
+import {getAllPlaces as rawGetAllPlaces, getPlacesNearby as rawGetPlacesNearby, getPlacesWithin as rawGetPlacesWithin, getPlaceClusters as rawGetPlaceClusters, searchPlaces as rawSearchPlaces, getPlace as rawGetPlace, createPlace as rawCreatePlace, updatePlace as rawUpdatePlace, deletePlace as rawDeletePlace} from './handlers/placeHandler.js'
 import { getUser as rawGetUser, updateUser as rawUpdateUser, setAdminStatus as rawSetAdminStatus, validateAdmin as rawValidateAdmin, getCurrentSession as rawGetCurrentSession, extendSession as rawExtendSession } from './handlers/userHandler.js';
 import { 
     login as rawLogin, 
@@ -12,13 +12,50 @@ import {
     forgotPassword as rawForgotPassword,
     confirmForgotPassword as rawConfirmForgotPassword
 } from './handlers/authHandler.js';
+import { getReviews as rawGetReviews, createReview as rawCreateReview, updateReview as rawUpdateReview, deleteReview as rawDeleteReview } from './handlers/reviewHandler.js';
+import { getPhotos as rawGetPhotos, requestPhotoUpload as rawRequestPhotoUpload, confirmPhotoUpload as rawConfirmPhotoUpload, moderatePhoto as rawModeratePhoto, getPendingPhotos as rawGetPendingPhotos, processPhotoUploads as rawProcessPhotoUploads } from './handlers/photoHandler.js';
+import { getBusyness as rawGetBusyness, checkIn as rawCheckIn, checkOut as rawCheckOut, reportBusyness as rawReportBusyness, samplePopularTimes as rawSamplePopularTimes } from './handlers/busynessHandler.js';
+import { submitWifiReport as rawSubmitWifiReport } from './handlers/wifiHandler.js';
+import { getPlaceSubmissions as rawGetPlaceSubmissions, reviewPlaceSubmission as rawReviewPlaceSubmission } from './handlers/placeSubmissionHandler.js';
+import { getDuplicates as rawGetDuplicates, mergePlaces as rawMergePlaces } from './handlers/duplicateHandler.js';
+import { getPlaceHistory as rawGetPlaceHistory, restorePlaceRevision as rawRestorePlaceRevision } from './handlers/placeRevisionHandler.js';
+import { importPlaces as rawImportPlaces } from './handlers/placeImportHandler.js';
+import { exportPlaces as rawExportPlaces } from './handlers/placeExportHandler.js';
+import { getFavorites as rawGetFavorites, favoritePlace as rawFavoritePlace, unfavoritePlace as rawUnfavoritePlace } from './handlers/favoriteHandler.js';
+import {
+    createCollection as rawCreateCollection, getCollections as rawGetCollections, getUserCollections as rawGetUserCollections,
+    getCollection as rawGetCollection, updateCollection as rawUpdateCollection, deleteCollection as rawDeleteCollection,
+    addCollectionItem as rawAddCollectionItem, updateCollectionItem as rawUpdateCollectionItem, removeCollectionItem as rawRemoveCollectionItem,
+} from './handlers/collectionHandler.js';
+import {
+    createTeam as rawCreateTeam, getTeams as rawGetTeams, getTeam as rawGetTeam, updateTeam as rawUpdateTeam, deleteTeam as rawDeleteTeam,
+    updateTeamMember as rawUpdateTeamMember, removeTeamMember as rawRemoveTeamMember,
+    getTeamInvites as rawGetTeamInvites, createTeamInvite as rawCreateTeamInvite, revokeTeamInvite as rawRevokeTeamInvite,
+    acceptTeamInvite as rawAcceptTeamInvite,
+} from './handlers/teamHandler.js';
+import {
+    getTeamFavorites as rawGetTeamFavorites, addTeamFavorite as rawAddTeamFavorite, removeTeamFavorite as rawRemoveTeamFavorite,
+    getTeamAnnotations as rawGetTeamAnnotations, createTeamAnnotation as rawCreateTeamAnnotation,
+    updateTeamAnnotation as rawUpdateTeamAnnotation, deleteTeamAnnotation as rawDeleteTeamAnnotation,
+} from './handlers/teamPlaceHandler.js';
+import { getDeletedPlaces as rawGetDeletedPlaces, restoreDeletedPlace as rawRestoreDeletedPlace, purgeDeletedPlaces as rawPurgeDeletedPlaces } from './handlers/placeTrashHandler.js';
+import { createSuggestion as rawCreateSuggestion, getSuggestions as rawGetSuggestions, reviewSuggestion as rawReviewSuggestion } from './handlers/suggestionHandler.js';
 import { withSession, withSessionAndCsrf, withCors } from './middleware/applyMiddleware.js';
 
 // Apply middleware to handlers
 // Public routes (only need CORS, no session or CSRF needed)
 export const getAllPlaces = withCors(rawGetAllPlaces);
 export const getPlacesNearby = withCors(rawGetPlacesNearby);
+export const getPlacesWithin = withCors(rawGetPlacesWithin);
+export const getPlaceClusters = withCors(rawGetPlaceClusters);
+export const searchPlaces = withCors(rawSearchPlaces);
 export const getPlace = withCors(rawGetPlace);
+export const getReviews = withCors(rawGetReviews);
+export const getPhotos = withCors(rawGetPhotos);
+export const getBusyness = withCors(rawGetBusyness);
+// public and link-shared collections, these look up the session cookie themselves to recognise the owner
+export const getCollection = withCors(rawGetCollection);
+export const getUserCollections = withCors(rawGetUserCollections);
 export const register = withCors(rawRegister);
 export const confirmRegistration = withCors(rawConfirmRegistration);
 export const requestChallenge = withCors(rawRequestChallenge);
@@ -38,9 +75,68 @@ export const getCurrentSession = withSession(rawGetCurrentSession);
 export const createPlace = withSessionAndCsrf(rawCreatePlace);
 export const updatePlace = withSessionAndCsrf(rawUpdatePlace);
 export const deletePlace = withSessionAndCsrf(rawDeletePlace);
+export const createReview = withSessionAndCsrf(rawCreateReview);
+export const updateReview = withSessionAndCsrf(rawUpdateReview);
+export const deleteReview = withSessionAndCsrf(rawDeleteReview);
+export const requestPhotoUpload = withSessionAndCsrf(rawRequestPhotoUpload);
+export const confirmPhotoUpload = withSessionAndCsrf(rawConfirmPhotoUpload);
+export const moderatePhoto = withSessionAndCsrf(rawModeratePhoto);
+export const getPendingPhotos = withSessionAndCsrf(rawGetPendingPhotos);
+export const checkIn = withSessionAndCsrf(rawCheckIn);
+export const checkOut = withSessionAndCsrf(rawCheckOut);
+export const reportBusyness = withSessionAndCsrf(rawReportBusyness);
+export const submitWifiReport = withSessionAndCsrf(rawSubmitWifiReport);
+export const createSuggestion = withSessionAndCsrf(rawCreateSuggestion);
+export const getPlaceSubmissions = withSessionAndCsrf(rawGetPlaceSubmissions);
+export const reviewPlaceSubmission = withSessionAndCsrf(rawReviewPlaceSubmission);
+export const getDuplicates = withSessionAndCsrf(rawGetDuplicates);
+export const mergePlaces = withSessionAndCsrf(rawMergePlaces);
+export const getPlaceHistory = withSessionAndCsrf(rawGetPlaceHistory);
+export const restorePlaceRevision = withSessionAndCsrf(rawRestorePlaceRevision);
+export const getDeletedPlaces = withSessionAndCsrf(rawGetDeletedPlaces);
+export const restoreDeletedPlace = withSessionAndCsrf(rawRestoreDeletedPlace);
+export const importPlaces = withSessionAndCsrf(rawImportPlaces);
+export const exportPlaces = withSessionAndCsrf(rawExportPlaces);
+export const getFavorites = withSessionAndCsrf(rawGetFavorites);
+export const favoritePlace = withSessionAndCsrf(rawFavoritePlace);
+export const unfavoritePlace = withSessionAndCsrf(rawUnfavoritePlace);
+export const createCollection = withSessionAndCsrf(rawCreateCollection);
+export const getCollections = withSessionAndCsrf(rawGetCollections);
+export const updateCollection = withSessionAndCsrf(rawUpdateCollection);
+export const deleteCollection = withSessionAndCsrf(rawDeleteCollection);
+export const addCollectionItem = withSessionAndCsrf(rawAddCollectionItem);
+export const updateCollectionItem = withSessionAndCsrf(rawUpdateCollectionItem);
+export const removeCollectionItem = withSessionAndCsrf(rawRemoveCollectionItem);
+export const createTeam = withSessionAndCsrf(rawCreateTeam);
+export const getTeams = withSessionAndCsrf(rawGetTeams);
+export const getTeam = withSessionAndCsrf(rawGetTeam);
+export const updateTeam = withSessionAndCsrf(rawUpdateTeam);
+export const deleteTeam = withSessionAndCsrf(rawDeleteTeam);
+export const updateTeamMember = withSessionAndCsrf(rawUpdateTeamMember);
+export const removeTeamMember = withSessionAndCsrf(rawRemoveTeamMember);
+export const getTeamInvites = withSessionAndCsrf(rawGetTeamInvites);
+export const createTeamInvite = withSessionAndCsrf(rawCreateTeamInvite);
+export const revokeTeamInvite = withSessionAndCsrf(rawRevokeTeamInvite);
+export const acceptTeamInvite = withSessionAndCsrf(rawAcceptTeamInvite);
+export const getTeamFavorites = withSessionAndCsrf(rawGetTeamFavorites);
+export const addTeamFavorite = withSessionAndCsrf(rawAddTeamFavorite);
+export const removeTeamFavorite = withSessionAndCsrf(rawRemoveTeamFavorite);
+export const getTeamAnnotations = withSessionAndCsrf(rawGetTeamAnnotations);
+export const createTeamAnnotation = withSessionAndCsrf(rawCreateTeamAnnotation);
+export const updateTeamAnnotation = withSessionAndCsrf(rawUpdateTeamAnnotation);
+export const deleteTeamAnnotation = withSessionAndCsrf(rawDeleteTeamAnnotation);
+export const getSuggestions = withSessionAndCsrf(rawGetSuggestions);
+export const reviewSuggestion = withSessionAndCsrf(rawReviewSuggestion);
 export const getUser = withSessionAndCsrf(rawGetUser);
 export const updateUser = withSessionAndCsrf(rawUpdateUser);
 export const setAdminStatus = withSessionAndCsrf(rawSetAdminStatus);
 export const validateAdmin = withSessionAndCsrf(rawValidateAdmin);
 export const logout = withSessionAndCsrf(rawLogout);
-export const extendSession = withSessionAndCsrf(rawExtendSession);
\ No newline at end of file
+export const extendSession = withSessionAndCsrf(rawExtendSession);
+
+// Triggered by S3 rather than API Gateway, so no middleware
+export const processPhotoUploads = rawProcessPhotoUploads;
+
+// Runs on a schedule, so no middleware either
+export const purgeDeletedPlaces = rawPurgeDeletedPlaces;
+export const samplePopularTimes = rawSamplePopularTimes;
\ No newline at end of file
@@ -1,9 +1,46 @@
 import { serve } from "bun";
 import * as placeService from './services/placeService.js';
-import { Place, PlaceSchema } from './models/place.js';
+import * as searchService from './services/searchService.js';
+import * as reviewService from './services/reviewService.js';
+import * as photoService from './services/photoService.js';
+import * as busynessService from './services/busynessService.js';
+import * as popularTimesService from './services/popularTimesService.js';
+import * as wifiService from './services/wifiService.js';
+import * as suggestionService from './services/suggestionService.js';
+import * as placeSubmissionService from './services/placeSubmissionService.js';
+import * as duplicateService from './services/duplicateService.js';
+import * as placeRevisionService from './services/placeRevisionService.js';
+import * as placeImportService from './services/placeImportService.js';
+import * as placeExportService from './services/placeExportService.js';
+import * as favoriteService from './services/favoriteService.js';
+import * as collectionService from './services/collectionService.js';
+import * as teamService from './services/teamService.js';
+import * as teamPlaceService from './services/teamPlaceService.js';
+import * as storage from './utils/storage.js';
+import { Place, PlaceSchema, PlaceFiltersSchema, NearbyFiltersSchema, PlaceSortSchema, BoundingBoxSchema, MapZoomSchema } from './models/place.js';
+import { PaginationSchema } from './models/pagination.js';
+import { SearchQuerySchema } from './models/search.js';
+import { PhotoUploadRequestSchema, PhotoConfirmSchema } from './models/photo.js';
+import { BusynessVoteInputSchema } from './models/busyness.js';
+import { WifiReportInputSchema } from './models/wifi.js';
+import { PlaceStatusSchema, PlaceSubmissionReviewSchema } from './models/placeSubmission.js';
+import { PlaceMergeSchema } from './models/duplicate.js';
+import { PlaceRestoreSchema } from './models/placeRevision.js';
+import { PlaceImportOptionsSchema } from './models/placeImport.js';
+import { PlaceExportOptionsSchema } from './models/placeExport.js';
+import { CollectionInputSchema, CollectionUpdateSchema, CollectionItemInputSchema, CollectionItemUpdateSchema } from './models/collection.js';
+import { TeamInputSchema, TeamUpdateSchema, TeamInviteInputSchema, TeamInviteAcceptSchema, TeamMemberUpdateSchema } from './models/team.js';
+import { TeamAnnotationInputSchema, TeamAnnotationUpdateSchema } from './models/teamPlace.js';
+import { SuggestionInputSchema, SuggestionReviewSchema, SuggestionStatusSchema } from './models/suggestion.js';
+import { InvalidCursorError } from './utils/cursor.js';
+import { wantsGeoJson, placeToFeature, placesToFeatureCollection, GEOJSON_CONTENT_TYPE } from './utils/geojson.js';
 import { z } from 'zod';
 
 const PORT = process.env.PORT || 3000;
+// there's no sign in locally, uploads, check-ins and votes are attributed to this user
+const LOCAL_DEV_USER_ID = 'local-dev-user';
+// Wi-Fi reports are limited to one per session, a restart gives a new one
+const LOCAL_DEV_SESSION_ID = `local-dev-session-${Date.now()}`;
 
 const server = serve({
     port: PORT,
@@ -19,6 +56,11 @@ const server = serve({
             "Content-Type": "application/json",
         });
 
+        // content negotiation for GeoJSON responses
+        const geoJson = wantsGeoJson(Object.fromEntries(req.headers), Object.fromEntries(url.searchParams));
+        const geoJsonHeaders = new Headers(headers);
+        geoJsonHeaders.set("Content-Type", GEOJSON_CONTENT_TYPE);
+
         // Handle OPTIONS preflight request
         if (method === "OPTIONS") {
             return new Response(null, { headers } );
@@ -29,8 +71,26 @@ const server = serve({
             if (path === '/places') {
                 // get all places
                 if (method === 'GET') {
-                    const places = await placeService.getAllPlaces();
-                    return new Response(JSON.stringify(places), { headers });
+                    const filtersResult = PlaceFiltersSchema.merge(PaginationSchema).merge(PlaceSortSchema).safeParse(Object.fromEntries(url.searchParams));
+                    if (!filtersResult.success) {
+                        return new Response(JSON.stringify({
+                            message: 'Invalid filter parameters',
+                            errors: filtersResult.error.errors
+                        }), { status: 400, headers });
+                    }
+
+                    const { limit, cursor, sort, order, ...filters } = filtersResult.data;
+                    if (placeService.LOCATION_SORTS.includes(sort)) {
+                        return new Response(JSON.stringify({
+                            message: `Sorting by ${sort} needs a location, use /places/nearby`
+                        }), { status: 400, headers });
+                    }
+                    const result = await placeService.getAllPlaces(filters, { limit, cursor }, { sort, order });
+                    if (geoJson) {
+                        const { places, ...members } = result;
+                        return new Response(JSON.stringify(placesToFeatureCollection(places, members)), { headers: geoJsonHeaders });
+                    }
+                    return new Response(JSON.stringify(result), { headers });
                 }
 
                 // create a new place
@@ -75,8 +135,19 @@ const server = serve({
                         });
                     }
 
+                    const filtersResult = NearbyFiltersSchema.merge(PaginationSchema).merge(PlaceSortSchema).safeParse(Object.fromEntries(url.searchParams));
+                    if (!filtersResult.success) {
+                        return new Response(JSON.stringify({
+                            message: 'Invalid filter parameters',
+                            errors: filtersResult.error.errors
+                        }), { status: 400, headers });
+                    }
+
                     // get nearby places
-                    const places = await placeService.getPlacesNearby(lat, lng, radiusKm);
+                    const { limit, cursor, sort, order, ...filters } = filtersResult.data;
+                    const result = await placeService.getPlacesNearby(lat, lng, radiusKm, filters, { limit, cursor }, { sort, order });
+                    const { appliedFilters, nextCursor } = result;
+                    const places = await favoriteService.withFavorites(result.places, LOCAL_DEV_USER_ID);
 
                     // Add distance to each place
                     const placesWithDistance = places.map(place => ({
@@ -89,10 +160,848 @@ const server = serve({
                         )
                     }));
 
-                    // sort by distance
-                    placesWithDistance.sort((a, b) => a.distanceKm - b.distanceKm);
+                    // already in the requested order (distance unless ?sort= says otherwise)
+
+                    if (geoJson) {
+                        return new Response(JSON.stringify(placesToFeatureCollection(placesWithDistance, { appliedFilters, nextCursor })), { headers: geoJsonHeaders });
+                    }
+
+                    return new Response(JSON.stringify({ places: placesWithDistance, appliedFilters, nextCursor }), { headers });
+                }
+            }
+
+            // map viewport endpoint
+            if (path === '/places/within') {
+                if (method === 'GET') {
+                    const query = Object.fromEntries(url.searchParams);
+                    const boxResult = BoundingBoxSchema.safeParse(query);
+                    if (!boxResult.success) {
+                        return new Response(JSON.stringify({
+                            message: 'Invalid parameters. Please provide valid minLat, minLng, maxLat and maxLng values.',
+                            errors: boxResult.error.errors
+                        }), { status: 400, headers });
+                    }
+                    if (placeService.calculateBoundingBoxArea(boxResult.data) > placeService.MAX_VIEWPORT_AREA_KM2) {
+                        return new Response(JSON.stringify({
+                            message: `Bounding box too large, max area is ${placeService.MAX_VIEWPORT_AREA_KM2} km²`
+                        }), { status: 400, headers });
+                    }
+
+                    const filtersResult = PlaceFiltersSchema.merge(PaginationSchema).merge(PlaceSortSchema).safeParse(query);
+                    if (!filtersResult.success) {
+                        return new Response(JSON.stringify({
+                            message: 'Invalid filter parameters',
+                            errors: filtersResult.error.errors
+                        }), { status: 400, headers });
+                    }
+
+                    const { limit, cursor, sort, order, ...filters } = filtersResult.data;
+                    if (placeService.LOCATION_SORTS.includes(sort)) {
+                        return new Response(JSON.stringify({
+                            message: `Sorting by ${sort} needs a location, use /places/nearby`
+                        }), { status: 400, headers });
+                    }
+                    const result = await placeService.getPlacesWithin(boxResult.data, filters, { limit, cursor }, { sort, order });
+                    if (geoJson) {
+                        const { places, ...members } = result;
+                        return new Response(JSON.stringify(placesToFeatureCollection(places, members)), { headers: geoJsonHeaders });
+                    }
+
+                    return new Response(JSON.stringify(result), { headers });
+                }
+            }
+
+            // clustered map viewport endpoint
+            if (path === '/places/clusters') {
+                if (method === 'GET') {
+                    const query = Object.fromEntries(url.searchParams);
+                    const boxResult = BoundingBoxSchema.safeParse(query);
+                    const zoomResult = MapZoomSchema.safeParse(query);
+                    if (!boxResult.success || !zoomResult.success) {
+                        return new Response(JSON.stringify({
+                            message: 'Invalid parameters. Please provide valid minLat, minLng, maxLat, maxLng and zoom values.',
+                            errors: [...(boxResult.error?.errors || []), ...(zoomResult.error?.errors || [])]
+                        }), { status: 400, headers });
+                    }
+                    if (placeService.calculateBoundingBoxArea(boxResult.data) > placeService.MAX_CLUSTER_VIEWPORT_AREA_KM2) {
+                        return new Response(JSON.stringify({
+                            message: `Bounding box too large, max area is ${placeService.MAX_CLUSTER_VIEWPORT_AREA_KM2} km²`
+                        }), { status: 400, headers });
+                    }
+
+                    const filtersResult = PlaceFiltersSchema.safeParse(query);
+                    if (!filtersResult.success) {
+                        return new Response(JSON.stringify({
+                            message: 'Invalid filter parameters',
+                            errors: filtersResult.error.errors
+                        }), { status: 400, headers });
+                    }
+
+                    const result = await placeService.getPlaceClusters(boxResult.data, zoomResult.data.zoom, filtersResult.data);
+
+                    return new Response(JSON.stringify(result), { headers });
+                }
+            }
+
+            // full-text search endpoint
+            if (path === '/places/search') {
+                if (method === 'GET') {
+                    const queryResult = SearchQuerySchema.and(PaginationSchema).safeParse(Object.fromEntries(url.searchParams));
+                    if (!queryResult.success) {
+                        return new Response(JSON.stringify({
+                            message: 'Invalid search parameters',
+                            errors: queryResult.error.errors
+                        }), { status: 400, headers });
+                    }
+
+                    const { limit, cursor, ...query } = queryResult.data;
+                    const result = await searchService.searchPlaces(query, { limit, cursor });
+                    if (geoJson) {
+                        const { places, ...members } = result;
+                        return new Response(JSON.stringify(placesToFeatureCollection(places, members)), { headers: geoJsonHeaders });
+                    }
+                    return new Response(JSON.stringify(result), { headers });
+                }
+            }
+
+            // submitted places, there's no admin locally so anyone can review them
+            if (path === '/places/submissions' && method === 'GET') {
+                const params = Object.fromEntries(url.searchParams);
+                const status = PlaceStatusSchema.default('pending').safeParse(params.status);
+                const page = PaginationSchema.safeParse(params);
+                if (!status.success || !page.success) {
+                    return new Response(JSON.stringify({
+                        message: 'Invalid query parameters',
+                        errors: [...(status.error?.errors ?? []), ...(page.error?.errors ?? [])]
+                    }), { status: 400, headers });
+                }
+
+                const result = await placeSubmissionService.getSubmissions(status.data, undefined, page.data);
+                return new Response(JSON.stringify(result), { headers });
+            }
+
+            const submissionMatch = path.match(/^\/places\/([a-zA-Z0-9-]+)\/submission$/);
+            if (submissionMatch && method === 'PUT') {
+                const review = PlaceSubmissionReviewSchema.safeParse(await req.json());
+                if (!review.success) {
+                    return new Response(JSON.stringify({
+                        message: 'Invalid review data',
+                        errors: review.error.errors
+                    }), { status: 400, headers });
+                }
+
+                const place = await placeSubmissionService.reviewSubmission(submissionMatch[1], LOCAL_DEV_USER_ID, review.data);
+                if (!place) {
+                    return new Response(JSON.stringify({ message: "Submission not found" }), { status: 404, headers });
+                }
+                return new Response(JSON.stringify(place), { headers });
+            }
+
+            // likely duplicates and merging them, again open to anyone locally
+            if (path === '/places/duplicates' && method === 'GET') {
+                const duplicates = await duplicateService.findDuplicates();
+                return new Response(JSON.stringify({ duplicates }), { headers });
+            }
+
+            const mergeMatch = path.match(/^\/places\/([a-zA-Z0-9-]+)\/merge$/);
+            if (mergeMatch && method === 'POST') {
+                const merge = PlaceMergeSchema.safeParse(await req.json());
+                if (!merge.success) {
+                    return new Response(JSON.stringify({
+                        message: 'Invalid merge request',
+                        errors: merge.error.errors
+                    }), { status: 400, headers });
+                }
+
+                const result = await duplicateService.mergePlaces(mergeMatch[1], merge.data.duplicateId, LOCAL_DEV_USER_ID);
+                if (!result) {
+                    return new Response(JSON.stringify({ message: "Place not found" }), { status: 404, headers });
+                }
+                return new Response(JSON.stringify(result), { headers });
+            }
+
+            // place history and restoring a revision, again open to anyone locally
+            const historyMatch = path.match(/^\/places\/([a-zA-Z0-9-]+)\/history$/);
+            if (historyMatch && method === 'GET') {
+                const pageResult = PaginationSchema.safeParse(Object.fromEntries(url.searchParams));
+                if (!pageResult.success) {
+                    return new Response(JSON.stringify({
+                        message: 'Invalid pagination parameters',
+                        errors: pageResult.error.errors
+                    }), { status: 400, headers });
+                }
+
+                const result = await placeRevisionService.getPlaceHistory(historyMatch[1], pageResult.data);
+                return new Response(JSON.stringify(result), { headers });
+            }
+
+            const restoreMatch = path.match(/^\/places\/([a-zA-Z0-9-]+)\/restore$/);
+            if (restoreMatch && method === 'POST') {
+                const restore = PlaceRestoreSchema.safeParse(await req.json());
+                if (!restore.success) {
+                    return new Response(JSON.stringify({
+                        message: 'Invalid restore request',
+                        errors: restore.error.errors
+                    }), { status: 400, headers });
+                }
+
+                const place = await placeRevisionService.restoreRevision(restoreMatch[1], restore.data.revisionId, LOCAL_DEV_USER_ID);
+                if (!place) {
+                    return new Response(JSON.stringify({ message: "Revision not found" }), { status: 404, headers });
+                }
+                return new Response(JSON.stringify(place), { headers });
+            }
 
-                    return new Response(JSON.stringify(placesWithDistance), { headers });
+            // bulk import, ?format=csv|geojson&dryRun=true
+            if (path === '/places/import' && method === 'POST') {
+                const options = PlaceImportOptionsSchema.safeParse(Object.fromEntries(url.searchParams));
+                if (!options.success) {
+                    return new Response(JSON.stringify({
+                        message: 'Invalid import options',
+                        errors: options.error.errors
+                    }), { status: 400, headers });
+                }
+
+                const result = await placeImportService.importPlaces(
+                    options.data.format, await req.text(), LOCAL_DEV_USER_ID, options.data.dryRun
+                );
+                const status = result.errors.length > 0 ? 400 : result.partial ? 500 : 200;
+                return new Response(JSON.stringify(result), { status, headers });
+            }
+
+            // bulk export, ?format=csv|geojson|ndjson plus the place filters
+            if (path === '/places/export' && method === 'GET') {
+                const query = Object.fromEntries(url.searchParams);
+                const optionsResult = PlaceExportOptionsSchema.safeParse(query);
+                const filtersResult = PlaceFiltersSchema.safeParse(query);
+                if (!optionsResult.success || !filtersResult.success) {
+                    return new Response(JSON.stringify({
+                        message: 'Invalid export parameters',
+                        errors: [...(optionsResult.error?.errors ?? []), ...(filtersResult.error?.errors ?? [])]
+                    }), { status: 400, headers });
+                }
+
+                // big exports land in .local-assets and come back as a link, like the bucket in production
+                const result = await placeExportService.exportPlaces(optionsResult.data.format, filtersResult.data);
+                if (result.body === undefined) {
+                    const { format, count, url: downloadUrl, expiresAt } = result;
+                    return new Response(JSON.stringify({ format, count, url: downloadUrl, expiresAt }), { headers });
+                }
+
+                const exportHeaders = new Headers(headers);
+                exportHeaders.set("Content-Type", result.contentType);
+                exportHeaders.set("Content-Disposition", `attachment; filename="${result.filename}"`);
+                return new Response(result.body, { headers: exportHeaders });
+            }
+
+            // the trash and taking places back out of it
+            if (path === '/places/deleted' && method === 'GET') {
+                const pageResult = PaginationSchema.safeParse(Object.fromEntries(url.searchParams));
+                if (!pageResult.success) {
+                    return new Response(JSON.stringify({
+                        message: 'Invalid pagination parameters',
+                        errors: pageResult.error.errors
+                    }), { status: 400, headers });
+                }
+
+                const result = await placeService.getDeletedPlaces(pageResult.data);
+                return new Response(JSON.stringify(result), { headers });
+            }
+
+            const undeleteMatch = path.match(/^\/places\/([a-zA-Z0-9-]+)\/undelete$/);
+            if (undeleteMatch && method === 'POST') {
+                const place = await placeService.restoreDeletedPlace(undeleteMatch[1], LOCAL_DEV_USER_ID);
+                if (!place) {
+                    return new Response(JSON.stringify({ message: "Deleted place not found" }), { status: 404, headers });
+                }
+                return new Response(JSON.stringify(place), { headers });
+            }
+
+            // place reviews (read only here, posting a review needs a signed in user)
+            const reviewsMatch = path.match(/^\/places\/([a-zA-Z0-9-]+)\/reviews$/);
+            if (reviewsMatch && method === 'GET') {
+                const pageResult = PaginationSchema.safeParse(Object.fromEntries(url.searchParams));
+                if (!pageResult.success) {
+                    return new Response(JSON.stringify({
+                        message: 'Invalid pagination parameters',
+                        errors: pageResult.error.errors
+                    }), { status: 400, headers });
+                }
+
+                const result = await reviewService.getReviewsForPlace(reviewsMatch[1], pageResult.data);
+                return new Response(JSON.stringify(result), { headers });
+            }
+
+            // place photos, the uploader sees their own photos while they wait for moderation
+            const photosMatch = path.match(/^\/places\/([a-zA-Z0-9-]+)\/photos$/);
+            if (photosMatch && method === 'GET') {
+                const photos = await photoService.getPhotosForPlace(photosMatch[1], LOCAL_DEV_USER_ID);
+                return new Response(JSON.stringify({ photos }), { headers });
+            }
+
+            const photoUploadMatch = path.match(/^\/places\/([a-zA-Z0-9-]+)\/photos\/uploads$/);
+            if (photoUploadMatch && method === 'POST') {
+                try {
+                    const request = PhotoUploadRequestSchema.parse(await req.json());
+                    const upload = await photoService.requestPhotoUpload(photoUploadMatch[1], LOCAL_DEV_USER_ID, request);
+                    if (!upload) {
+                        return new Response(JSON.stringify({ message: "Place not found" }), { status: 404, headers });
+                    }
+                    return new Response(JSON.stringify(upload), { status: 201, headers });
+                } catch (validationError) {
+                    if (validationError instanceof z.ZodError) {
+                        return new Response(JSON.stringify({
+                            message: 'Invalid upload request',
+                            errors: validationError.errors
+                        }), { status: 400, headers });
+                    }
+                    throw validationError;
+                }
+            }
+
+            const photoConfirmMatch = path.match(/^\/places\/([a-zA-Z0-9-]+)\/photos\/([a-zA-Z0-9-]+)\/confirm$/);
+            if (photoConfirmMatch && method === 'POST') {
+                const photo = await photoService.getPhotoById(photoConfirmMatch[2]);
+                if (!photo || photo.placeId !== photoConfirmMatch[1]) {
+                    return new Response(JSON.stringify({ message: "Photo not found" }), { status: 404, headers });
+                }
+
+                const body = await req.text();
+                const details = PhotoConfirmSchema.safeParse(body ? JSON.parse(body) : {});
+                if (!details.success) {
+                    return new Response(JSON.stringify({
+                        message: 'Invalid photo details',
+                        errors: details.error.errors
+                    }), { status: 400, headers });
+                }
+
+                const confirmedPhoto = await photoService.confirmPhotoUpload(photo.id, details.data);
+                return new Response(JSON.stringify(confirmedPhoto), { headers });
+            }
+
+            // photo moderation queue
+            if (path === '/photos/pending' && method === 'GET') {
+                const page = PaginationSchema.safeParse(Object.fromEntries(url.searchParams));
+                if (!page.success) {
+                    return new Response(JSON.stringify({
+                        message: 'Invalid query parameters',
+                        errors: page.error.errors
+                    }), { status: 400, headers });
+                }
+
+                const result = await photoService.getPendingPhotos(page.data);
+                return new Response(JSON.stringify(result), { headers });
+            }
+
+            // check in / check out as the local dev user
+            const checkInsMatch = path.match(/^\/places\/([a-zA-Z0-9-]+)\/checkins$/);
+            if (checkInsMatch && (method === 'POST' || method === 'DELETE')) {
+                if (method === 'POST') {
+                    const checkIn = await busynessService.checkIn(checkInsMatch[1], LOCAL_DEV_USER_ID);
+                    if (!checkIn) {
+                        return new Response(JSON.stringify({ message: "Place not found" }), { status: 404, headers });
+                    }
+                    return new Response(JSON.stringify(checkIn), { status: 201, headers });
+                }
+
+                const checkOut = await busynessService.checkOut(checkInsMatch[1], LOCAL_DEV_USER_ID);
+                if (!checkOut) {
+                    return new Response(JSON.stringify({ message: "Not checked in here" }), { status: 404, headers });
+                }
+                return new Response(JSON.stringify(checkOut), { headers });
+            }
+
+            // live busyness, and "how busy is it" votes
+            const busynessMatch = path.match(/^\/places\/([a-zA-Z0-9-]+)\/busyness$/);
+            if (busynessMatch && method === 'GET') {
+                const busyness = await busynessService.getLiveBusyness(busynessMatch[1]);
+                if (!busyness) {
+                    return new Response(JSON.stringify({ message: "Place not found" }), { status: 404, headers });
+                }
+                return new Response(JSON.stringify(busyness), { headers });
+            }
+            if (busynessMatch && method === 'POST') {
+                const input = BusynessVoteInputSchema.safeParse(await req.json());
+                if (!input.success) {
+                    return new Response(JSON.stringify({
+                        message: 'Invalid busyness level',
+                        errors: input.error.errors
+                    }), { status: 400, headers });
+                }
+
+                const vote = await busynessService.reportBusyness(busynessMatch[1], LOCAL_DEV_USER_ID, input.data);
+                if (!vote) {
+                    return new Response(JSON.stringify({ message: "Place not found" }), { status: 404, headers });
+                }
+                return new Response(JSON.stringify(vote), { status: 201, headers });
+            }
+
+            // Wi-Fi speed test reports
+            const wifiReportsMatch = path.match(/^\/places\/([a-zA-Z0-9-]+)\/wifi-reports$/);
+            if (wifiReportsMatch && method === 'POST') {
+                const input = WifiReportInputSchema.safeParse(await req.json());
+                if (!input.success) {
+                    return new Response(JSON.stringify({
+                        message: 'Invalid Wi-Fi measurements',
+                        errors: input.error.errors
+                    }), { status: 400, headers });
+                }
+
+                try {
+                    const report = await wifiService.submitWifiReport(wifiReportsMatch[1], LOCAL_DEV_USER_ID, LOCAL_DEV_SESSION_ID, input.data);
+                    if (!report) {
+                        return new Response(JSON.stringify({ message: "Place not found" }), { status: 404, headers });
+                    }
+                    return new Response(JSON.stringify(report), { status: 201, headers });
+                } catch (reportError) {
+                    if (reportError instanceof wifiService.DuplicateWifiReportError) {
+                        return new Response(JSON.stringify({ message: reportError.message }), { status: 409, headers });
+                    }
+                    if (reportError instanceof wifiService.WifiOutlierError) {
+                        return new Response(JSON.stringify({ message: reportError.message }), { status: 400, headers });
+                    }
+                    throw reportError;
+                }
+            }
+
+            // suggested edits, there's no admin locally so anyone can work the queue
+            const suggestionsMatch = path.match(/^\/places\/([a-zA-Z0-9-]+)\/suggestions$/);
+            if (suggestionsMatch && method === 'POST') {
+                const input = SuggestionInputSchema.safeParse(await req.json());
+                if (!input.success) {
+                    return new Response(JSON.stringify({
+                        message: 'Invalid suggestion',
+                        errors: input.error.errors
+                    }), { status: 400, headers });
+                }
+
+                const suggestion = await suggestionService.createSuggestion(suggestionsMatch[1], LOCAL_DEV_USER_ID, input.data);
+                if (!suggestion) {
+                    return new Response(JSON.stringify({ message: "Place not found" }), { status: 404, headers });
+                }
+                return new Response(JSON.stringify(suggestion), { status: 201, headers });
+            }
+
+            if (path === '/suggestions' && method === 'GET') {
+                const params = Object.fromEntries(url.searchParams);
+                const status = SuggestionStatusSchema.default('pending').safeParse(params.status);
+                const page = PaginationSchema.safeParse(params);
+                if (!status.success || !page.success) {
+                    return new Response(JSON.stringify({
+                        message: 'Invalid query parameters',
+                        errors: [...(status.error?.errors ?? []), ...(page.error?.errors ?? [])]
+                    }), { status: 400, headers });
+                }
+
+                const result = await suggestionService.getSuggestions(status.data, page.data);
+                return new Response(JSON.stringify(result), { headers });
+            }
+
+            const suggestionMatch = path.match(/^\/suggestions\/([a-zA-Z0-9-]+)$/);
+            if (suggestionMatch && method === 'PUT') {
+                const review = SuggestionReviewSchema.safeParse(await req.json());
+                if (!review.success) {
+                    return new Response(JSON.stringify({
+                        message: 'Invalid review data',
+                        errors: review.error.errors
+                    }), { status: 400, headers });
+                }
+
+                const suggestion = await suggestionService.reviewSuggestion(suggestionMatch[1], LOCAL_DEV_USER_ID, review.data);
+                if (!suggestion) {
+                    return new Response(JSON.stringify({ message: "Suggestion not found" }), { status: 404, headers });
+                }
+                return new Response(JSON.stringify(suggestion), { headers });
+            }
+
+            // favourites and collections, everything belongs to the local dev user
+            if (path === '/favorites' && method === 'GET') {
+                const page = PaginationSchema.safeParse(Object.fromEntries(url.searchParams));
+                if (!page.success) {
+                    return new Response(JSON.stringify({
+                        message: 'Invalid pagination parameters',
+                        errors: page.error.errors
+                    }), { status: 400, headers });
+                }
+
+                const result = await favoriteService.getFavorites(LOCAL_DEV_USER_ID, page.data);
+                return new Response(JSON.stringify(result), { headers });
+            }
+
+            const favoriteMatch = path.match(/^\/places\/([a-zA-Z0-9-]+)\/favorite$/);
+            if (favoriteMatch && method === 'PUT') {
+                const favorite = await favoriteService.favoritePlace(favoriteMatch[1], LOCAL_DEV_USER_ID);
+                if (!favorite) {
+                    return new Response(JSON.stringify({ message: "Place not found" }), { status: 404, headers });
+                }
+                return new Response(JSON.stringify(favorite), { headers });
+            }
+            if (favoriteMatch && method === 'DELETE') {
+                const removed = await favoriteService.unfavoritePlace(favoriteMatch[1], LOCAL_DEV_USER_ID);
+                if (!removed) {
+                    return new Response(JSON.stringify({ message: "Place is not a favorite" }), { status: 404, headers });
+                }
+                return new Response(JSON.stringify({ message: "Removed from favorites" }), { headers });
+            }
+
+            if (path === '/collections') {
+                if (method === 'GET') {
+                    const collections = await collectionService.getUserCollections(LOCAL_DEV_USER_ID, LOCAL_DEV_USER_ID);
+                    return new Response(JSON.stringify({ collections }), { headers });
+                }
+
+                if (method === 'POST') {
+                    const input = CollectionInputSchema.safeParse(await req.json());
+                    if (!input.success) {
+                        return new Response(JSON.stringify({
+                            message: 'Invalid collection data',
+                            errors: input.error.errors
+                        }), { status: 400, headers });
+                    }
+
+                    const collection = await collectionService.createCollection(LOCAL_DEV_USER_ID, input.data);
+                    return new Response(JSON.stringify(collection), { status: 201, headers });
+                }
+            }
+
+            const userCollectionsMatch = path.match(/^\/users\/([^/]+)\/collections$/);
+            if (userCollectionsMatch && method === 'GET') {
+                const collections = await collectionService.getUserCollections(userCollectionsMatch[1], LOCAL_DEV_USER_ID);
+                return new Response(JSON.stringify({ collections }), { headers });
+            }
+
+            const collectionMatch = path.match(/^\/collections\/([a-zA-Z0-9-]+)$/);
+            if (collectionMatch) {
+                const id = collectionMatch[1];
+
+                if (method === 'GET') {
+                    const collection = await collectionService.getCollection(id, LOCAL_DEV_USER_ID, url.searchParams.get('token') ?? undefined);
+                    if (!collection) {
+                        return new Response(JSON.stringify({ message: "Collection not found" }), { status: 404, headers });
+                    }
+                    return new Response(JSON.stringify(collection), { headers });
+                }
+
+                if (method === 'PUT') {
+                    const update = CollectionUpdateSchema.safeParse(await req.json());
+                    if (!update.success) {
+                        return new Response(JSON.stringify({
+                            message: 'Invalid collection data',
+                            errors: update.error.errors
+                        }), { status: 400, headers });
+                    }
+
+                    const collection = await collectionService.updateCollection(id, LOCAL_DEV_USER_ID, update.data);
+                    if (!collection) {
+                        return new Response(JSON.stringify({ message: "Collection not found" }), { status: 404, headers });
+                    }
+                    return new Response(JSON.stringify(collection), { headers });
+                }
+
+                if (method === 'DELETE') {
+                    const deleted = await collectionService.deleteCollection(id, LOCAL_DEV_USER_ID);
+                    if (!deleted) {
+                        return new Response(JSON.stringify({ message: "Collection not found" }), { status: 404, headers });
+                    }
+                    return new Response(JSON.stringify({ message: "Collection deleted successfully" }), { headers });
+                }
+            }
+
+            const collectionPlacesMatch = path.match(/^\/collections\/([a-zA-Z0-9-]+)\/places$/);
+            if (collectionPlacesMatch && method === 'POST') {
+                const input = CollectionItemInputSchema.safeParse(await req.json());
+                if (!input.success) {
+                    return new Response(JSON.stringify({
+                        message: 'Invalid collection item',
+                        errors: input.error.errors
+                    }), { status: 400, headers });
+                }
+
+                const collection = await collectionService.addCollectionItem(collectionPlacesMatch[1], LOCAL_DEV_USER_ID, input.data);
+                if (!collection) {
+                    return new Response(JSON.stringify({ message: "Collection not found" }), { status: 404, headers });
+                }
+                return new Response(JSON.stringify(collection), { status: 201, headers });
+            }
+
+            const collectionPlaceMatch = path.match(/^\/collections\/([a-zA-Z0-9-]+)\/places\/([a-zA-Z0-9-]+)$/);
+            if (collectionPlaceMatch) {
+                const [, id, placeId] = collectionPlaceMatch;
+
+                if (method === 'PUT') {
+                    const update = CollectionItemUpdateSchema.safeParse(await req.json());
+                    if (!update.success) {
+                        return new Response(JSON.stringify({
+                            message: 'Invalid collection item',
+                            errors: update.error.errors
+                        }), { status: 400, headers });
+                    }
+
+                    const collection = await collectionService.updateCollectionItem(id, LOCAL_DEV_USER_ID, placeId, update.data);
+                    if (!collection) {
+                        return new Response(JSON.stringify({ message: "Collection not found" }), { status: 404, headers });
+                    }
+                    return new Response(JSON.stringify(collection), { headers });
+                }
+
+                if (method === 'DELETE') {
+                    const collection = await collectionService.removeCollectionItem(id, LOCAL_DEV_USER_ID, placeId);
+                    if (!collection) {
+                        return new Response(JSON.stringify({ message: "Collection not found" }), { status: 404, headers });
+                    }
+                    return new Response(JSON.stringify(collection), { headers });
+                }
+            }
+
+            // teams, there's only the local dev user, who owns the teams they create, so roles aren't checked
+            if (path === '/teams') {
+                if (method === 'GET') {
+                    const teams = await teamService.getUserTeams(LOCAL_DEV_USER_ID);
+                    return new Response(JSON.stringify({ teams }), { headers });
+                }
+
+                if (method === 'POST') {
+                    const input = TeamInputSchema.safeParse(await req.json());
+                    if (!input.success) {
+                        return new Response(JSON.stringify({
+                            message: 'Invalid team data',
+                            errors: input.error.errors
+                        }), { status: 400, headers });
+                    }
+
+                    const team = await teamService.createTeam(LOCAL_DEV_USER_ID, input.data);
+                    return new Response(JSON.stringify(team), { status: 201, headers });
+                }
+            }
+
+            // before /teams/{teamId}, which would otherwise match
+            if (path === '/teams/invites/accept' && method === 'POST') {
+                const input = TeamInviteAcceptSchema.safeParse(await req.json());
+                if (!input.success) {
+                    return new Response(JSON.stringify({
+                        message: 'Invalid invite data',
+                        errors: input.error.errors
+                    }), { status: 400, headers });
+                }
+
+                // the local dev user has no email address, so only invites without one can be accepted
+                const member = await teamService.acceptInvite(input.data.token, LOCAL_DEV_USER_ID);
+                return new Response(JSON.stringify(member), { headers });
+            }
+
+            const teamMatch = path.match(/^\/teams\/([a-zA-Z0-9-]+)$/);
+            if (teamMatch) {
+                const id = teamMatch[1];
+
+                if (method === 'GET') {
+                    const membership = await teamService.getMembership(id, LOCAL_DEV_USER_ID);
+                    const team = membership && await teamService.getTeam(id);
+                    if (!team) {
+                        return new Response(JSON.stringify({ message: "Team not found" }), { status: 404, headers });
+                    }
+                    const members = await teamService.getTeamMembers(id);
+                    return new Response(JSON.stringify({ ...team, role: membership.role, members }), { headers });
+                }
+
+                if (method === 'PUT') {
+                    const update = TeamUpdateSchema.safeParse(await req.json());
+                    if (!update.success) {
+                        return new Response(JSON.stringify({
+                            message: 'Invalid team data',
+                            errors: update.error.errors
+                        }), { status: 400, headers });
+                    }
+
+                    const team = await teamService.updateTeam(id, update.data);
+                    if (!team) {
+                        return new Response(JSON.stringify({ message: "Team not found" }), { status: 404, headers });
+                    }
+                    return new Response(JSON.stringify(team), { headers });
+                }
+
+                if (method === 'DELETE') {
+                    const deleted = await teamService.deleteTeam(id);
+                    if (!deleted) {
+                        return new Response(JSON.stringify({ message: "Team not found" }), { status: 404, headers });
+                    }
+                    return new Response(JSON.stringify({ message: "Team deleted successfully" }), { headers });
+                }
+            }
+
+            const teamMemberMatch = path.match(/^\/teams\/([a-zA-Z0-9-]+)\/members\/([^/]+)$/);
+            if (teamMemberMatch) {
+                const [, id, memberId] = teamMemberMatch;
+
+                if (method === 'PUT') {
+                    const update = TeamMemberUpdateSchema.safeParse(await req.json());
+                    if (!update.success) {
+                        return new Response(JSON.stringify({
+                            message: 'Invalid role',
+                            errors: update.error.errors
+                        }), { status: 400, headers });
+                    }
+
+                    const member = await teamService.updateMemberRole(id, LOCAL_DEV_USER_ID, memberId, update.data.role);
+                    if (!member) {
+                        return new Response(JSON.stringify({ message: "Member not found" }), { status: 404, headers });
+                    }
+                    return new Response(JSON.stringify(member), { headers });
+                }
+
+                if (method === 'DELETE') {
+                    const removed = await teamService.removeMember(id, LOCAL_DEV_USER_ID, memberId);
+                    if (!removed) {
+                        return new Response(JSON.stringify({ message: "Member not found" }), { status: 404, headers });
+                    }
+                    return new Response(JSON.stringify({ message: "Member removed" }), { headers });
+                }
+            }
+
+            const teamInvitesMatch = path.match(/^\/teams\/([a-zA-Z0-9-]+)\/invites$/);
+            if (teamInvitesMatch) {
+                if (method === 'GET') {
+                    const invites = await teamService.getTeamInvites(teamInvitesMatch[1]);
+                    return new Response(JSON.stringify({ invites }), { headers });
+                }
+
+                if (method === 'POST') {
+                    const input = TeamInviteInputSchema.safeParse(await req.json());
+                    if (!input.success) {
+                        return new Response(JSON.stringify({
+                            message: 'Invalid invite data',
+                            errors: input.error.errors
+                        }), { status: 400, headers });
+                    }
+
+                    const invite = await teamService.createInvite(teamInvitesMatch[1], LOCAL_DEV_USER_ID, input.data);
+                    return new Response(JSON.stringify(invite), { status: 201, headers });
+                }
+            }
+
+            const teamInviteMatch = path.match(/^\/teams\/([a-zA-Z0-9-]+)\/invites\/([a-zA-Z0-9-]+)$/);
+            if (teamInviteMatch && method === 'DELETE') {
+                const revoked = await teamService.revokeInvite(teamInviteMatch[1], teamInviteMatch[2]);
+                if (!revoked) {
+                    return new Response(JSON.stringify({ message: "Invite not found" }), { status: 404, headers });
+                }
+                return new Response(JSON.stringify({ message: "Invite revoked" }), { headers });
+            }
+
+            const teamFavoritesMatch = path.match(/^\/teams\/([a-zA-Z0-9-]+)\/favorites$/);
+            if (teamFavoritesMatch && method === 'GET') {
+                const page = PaginationSchema.safeParse(Object.fromEntries(url.searchParams));
+                if (!page.success) {
+                    return new Response(JSON.stringify({
+                        message: 'Invalid pagination parameters',
+                        errors: page.error.errors
+                    }), { status: 400, headers });
+                }
+
+                const result = await teamPlaceService.getTeamFavorites(teamFavoritesMatch[1], page.data);
+                return new Response(JSON.stringify(result), { headers });
+            }
+
+            const teamFavoriteMatch = path.match(/^\/teams\/([a-zA-Z0-9-]+)\/favorites\/([a-zA-Z0-9-]+)$/);
+            if (teamFavoriteMatch && method === 'PUT') {
+                const favorite = await teamPlaceService.addTeamFavorite(teamFavoriteMatch[1], teamFavoriteMatch[2], LOCAL_DEV_USER_ID);
+                if (!favorite) {
+                    return new Response(JSON.stringify({ message: "Place not found" }), { status: 404, headers });
+                }
+                return new Response(JSON.stringify(favorite), { headers });
+            }
+            if (teamFavoriteMatch && method === 'DELETE') {
+                const removed = await teamPlaceService.removeTeamFavorite(teamFavoriteMatch[1], teamFavoriteMatch[2]);
+                if (!removed) {
+                    return new Response(JSON.stringify({ message: "Place is not a team favorite" }), { status: 404, headers });
+                }
+                return new Response(JSON.stringify({ message: "Removed from team favorites" }), { headers });
+            }
+
+            const teamAnnotationsMatch = path.match(/^\/teams\/([a-zA-Z0-9-]+)\/annotations$/);
+            if (teamAnnotationsMatch) {
+                if (method === 'GET') {
+                    const annotations = await teamPlaceService.getTeamAnnotations(teamAnnotationsMatch[1], url.searchParams.get('placeId') ?? undefined);
+                    return new Response(JSON.stringify({ annotations }), { headers });
+                }
+
+                if (method === 'POST') {
+                    const input = TeamAnnotationInputSchema.safeParse(await req.json());
+                    if (!input.success) {
+                        return new Response(JSON.stringify({
+                            message: 'Invalid note data',
+                            errors: input.error.errors
+                        }), { status: 400, headers });
+                    }
+
+                    const annotation = await teamPlaceService.addTeamAnnotation(teamAnnotationsMatch[1], LOCAL_DEV_USER_ID, input.data);
+                    if (!annotation) {
+                        return new Response(JSON.stringify({ message: "Place not found" }), { status: 404, headers });
+                    }
+                    return new Response(JSON.stringify(annotation), { status: 201, headers });
+                }
+            }
+
+            const teamAnnotationMatch = path.match(/^\/teams\/([a-zA-Z0-9-]+)\/annotations\/([a-zA-Z0-9-]+)$/);
+            if (teamAnnotationMatch) {
+                const [, id, annotationId] = teamAnnotationMatch;
+
+                if (method === 'PUT') {
+                    const update = TeamAnnotationUpdateSchema.safeParse(await req.json());
+                    if (!update.success) {
+                        return new Response(JSON.stringify({
+                            message: 'Invalid note data',
+                            errors: update.error.errors
+                        }), { status: 400, headers });
+                    }
+
+                    const annotation = await teamPlaceService.updateTeamAnnotation(id, annotationId, update.data);
+                    if (!annotation) {
+                        return new Response(JSON.stringify({ message: "Note not found" }), { status: 404, headers });
+                    }
+                    return new Response(JSON.stringify(annotation), { headers });
+                }
+
+                if (method === 'DELETE') {
+                    const deleted = await teamPlaceService.deleteTeamAnnotation(id, annotationId);
+                    if (!deleted) {
+                        return new Response(JSON.stringify({ message: "Note not found" }), { status: 404, headers });
+                    }
+                    return new Response(JSON.stringify({ message: "Note deleted successfully" }), { headers });
+                }
+            }
+
+            // local stand-in for the assets bucket, uploads are checked like a presigned S3 PUT
+            const assetMatch = path.match(/^\/local-assets\/(.+)$/);
+            if (assetMatch) {
+                const key = decodeURIComponent(assetMatch[1]);
+
+                if (method === 'PUT') {
+                    const body = Buffer.from(await req.arrayBuffer());
+                    const uploadError = storage.checkLocalUpload(url.searchParams, req.headers.get('Content-Type'), body.length);
+                    if (uploadError) {
+                        return new Response(JSON.stringify({ message: uploadError }), { status: 403, headers });
+                    }
+
+                    await storage.putObject(key, body, req.headers.get('Content-Type')!);
+
+                    // stands in for the bucket's upload notification
+                    const photoId = photoService.getPhotoIdFromKey(key);
+                    if (photoId) {
+                        await photoService.processPhoto(photoId);
+                    }
+                    return new Response(null, { status: 200, headers });
+                }
+
+                if (method === 'GET') {
+                    const stored = await storage.headObject(key);
+                    const body = await storage.getObject(key);
+                    if (!stored || !body) {
+                        return new Response(JSON.stringify({ message: "Not found" }), { status: 404, headers });
+                    }
+
+                    const assetHeaders = new Headers(headers);
+                    assetHeaders.set("Content-Type", stored.contentType || "application/octet-stream");
+                    return new Response(body, { headers: assetHeaders });
                 }
             }
 
@@ -103,15 +1012,30 @@ const server = serve({
 
                 // get a specific place
                 if (method === 'GET') {
-                    const place = await placeService.getPlaceById(id);
+                    const storedPlace = await placeService.getPlaceById(id);
 
-                    if (!place) {
+                    if (!storedPlace) {
                         return new Response(JSON.stringify({ message: "Place not found" }), {
                             status: 404,
                             headers
                         });
                     }
 
+                    // merged duplicates redirect to the place they were merged into
+                    if (storedPlace.status === 'merged' && storedPlace.mergedInto) {
+                        const redirectHeaders = new Headers(headers);
+                        redirectHeaders.set("Location", storedPlace.mergedInto);
+                        return new Response(JSON.stringify({
+                            message: "Place has been merged",
+                            mergedInto: storedPlace.mergedInto
+                        }), { status: 301, headers: redirectHeaders });
+                    }
+
+                    const [place] = await favoriteService.withFavorites([await popularTimesService.withPopularTimes(storedPlace)], LOCAL_DEV_USER_ID);
+
+                    if (geoJson) {
+                        return new Response(JSON.stringify(placeToFeature(place)), { headers: geoJsonHeaders });
+                    }
                     return new Response(JSON.stringify(place), { headers } );
                 }
             }
@@ -122,6 +1046,22 @@ const server = serve({
                 headers
             });
         } catch (error) {
+            if (
+                error instanceof InvalidCursorError ||
+                error instanceof photoService.PhotoUploadError ||
+                error instanceof suggestionService.SuggestionError ||
+                error instanceof placeSubmissionService.PlaceSubmissionError ||
+                error instanceof duplicateService.PlaceMergeError ||
+                error instanceof placeImportService.PlaceImportError ||
+                error instanceof collectionService.CollectionError ||
+                error instanceof teamService.TeamError
+            ) {
+                return new Response(JSON.stringify({ message: error.message }), {
+                    status: 400,
+                    headers
+                });
+            }
+
             console.error("Server error: ", error);
             return new Response(JSON.stringify({ message: "Internal server error" }), {
                 status: 500,
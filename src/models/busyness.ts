@@ -0,0 +1,69 @@
+import { z } from 'zod';
+
+// how busy a place is, from a user's "how busy is it" vote or the live estimate
+export const BusynessLevelSchema = z.enum(['not-busy', 'somewhat-busy', 'busy', 'very-busy']);
+
+// the estimate is unknown when nobody has checked in or voted recently
+export const BusynessEstimateLevelSchema = z.enum([...BusynessLevelSchema.options, 'unknown']);
+
+export const CheckInSchema = z.object({
+    id: z.string().uuid(),
+    placeId: z.string().uuid(),
+    userId: z.string(),
+    checkedInAt: z.string().datetime(),
+    checkedOutAt: z.string().datetime().optional(), // unset while the user is still there
+    expiresAt: z.number(), // Unix timestamp, old check-ins are cleaned up by TTL
+});
+
+// one vote per user per place, id is `${placeId}#${userId}` so a new vote replaces the old one
+export const BusynessVoteSchema = z.object({
+    id: z.string(),
+    placeId: z.string().uuid(),
+    userId: z.string(),
+    level: BusynessLevelSchema,
+    createdAt: z.string().datetime(),
+    expiresAt: z.number(), // Unix timestamp
+});
+
+export const BusynessVoteInputSchema = z.object({
+    level: BusynessLevelSchema,
+});
+
+// live occupancy estimate (computed at query time, not stored)
+export const LiveBusynessSchema = z.object({
+    level: BusynessEstimateLevelSchema,
+    occupancy: z.number().min(0).max(1).optional(), // estimated share of seats taken, unset when unknown
+    activeCheckIns: z.number().int().min(0),
+    recentVotes: z.number().int().min(0),
+    estimatedAt: z.string().datetime(),
+});
+
+// running average occupancy for each hour of the week (monday 00:00 first, place local time)
+export const PopularTimesRecordSchema = z.object({
+    id: z.string().uuid(), // the place ID
+    averages: z.array(z.number().min(0).max(1)).length(168),
+    samples: z.array(z.number().int().min(0)).length(168),
+    updatedAt: z.string().datetime(),
+    version: z.number().int().optional(), // bumped on every write, so concurrent samples can't overwrite each other
+});
+
+// "popular times" as returned with a place (computed from the record, not stored)
+export const PopularTimesSchema = z.object({
+    // typical occupancy for each hour of each day, null where there isn't enough history
+    days: z.record(z.enum(['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']), z.array(z.number().nullable()).length(24)),
+    quietestToday: z.object({
+        time: z.string(), // e.g. "14:00", place local time
+        occupancy: z.number(),
+        level: BusynessLevelSchema,
+    }).optional(), // the quietest hour left today while the place is open
+    updatedAt: z.string().datetime(),
+});
+
+export type BusynessLevel = z.infer<typeof BusynessLevelSchema>;
+export type BusynessEstimateLevel = z.infer<typeof BusynessEstimateLevelSchema>;
+export type CheckIn = z.infer<typeof CheckInSchema>;
+export type BusynessVote = z.infer<typeof BusynessVoteSchema>;
+export type BusynessVoteInput = z.infer<typeof BusynessVoteInputSchema>;
+export type LiveBusyness = z.infer<typeof LiveBusynessSchema>;
+export type PopularTimesRecord = z.infer<typeof PopularTimesRecordSchema>;
+export type PopularTimes = z.infer<typeof PopularTimesSchema>;
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+
+// private lists are only visible to their owner, link lists to anyone with the share link,
+// public lists to everyone and on the owner's profile
+export const CollectionVisibilitySchema = z.enum(['private', 'link', 'public']);
+
+export const CollectionItemSchema = z.object({
+    placeId: z.string().uuid(),
+    note: z.string().optional(), // e.g. "ask for the table by the window"
+    addedAt: z.string().datetime(),
+});
+
+// a named list of places such as "Quiet spots downtown", the places are kept in the owner's order
+export const CollectionSchema = z.object({
+    id: z.string().uuid(),
+    userId: z.string(), // User ID of the owner
+    name: z.string(),
+    description: z.string().optional(),
+    visibility: CollectionVisibilitySchema,
+    shareToken: z.string().optional(), // set while shared by link, a new one is issued each time it's shared again
+    items: z.array(CollectionItemSchema),
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+});
+
+export const CollectionInputSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    description: z.string().trim().max(500).optional(),
+    visibility: CollectionVisibilitySchema.default('private'),
+});
+
+export const CollectionUpdateSchema = z.object({
+    name: z.string().trim().min(1).max(100).optional(),
+    description: z.string().trim().max(500).nullable().optional(), // null clears it
+    visibility: CollectionVisibilitySchema.optional(),
+});
+
+export const CollectionItemInputSchema = z.object({
+    placeId: z.string().uuid(),
+    note: z.string().trim().max(500).optional(),
+    position: z.number().int().min(0).optional(), // where to insert it, the end of the list by default
+});
+
+export const CollectionItemUpdateSchema = z.object({
+    note: z.string().trim().max(500).nullable().optional(), // null clears it
+    position: z.number().int().min(0).optional(), // move it, 0 is the top of the list
+});
+
+export type CollectionVisibility = z.infer<typeof CollectionVisibilitySchema>;
+export type CollectionItem = z.infer<typeof CollectionItemSchema>;
+export type Collection = z.infer<typeof CollectionSchema>;
+export type CollectionInput = z.output<typeof CollectionInputSchema>;
+export type CollectionUpdate = z.infer<typeof CollectionUpdateSchema>;
+export type CollectionItemInput = z.infer<typeof CollectionItemInputSchema>;
+export type CollectionItemUpdate = z.infer<typeof CollectionItemUpdateSchema>;
@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+// merge a duplicate into the place in the path, the duplicate's ID then redirects to it
+export const PlaceMergeSchema = z.object({
+    duplicateId: z.string().uuid(),
+});
+
+// two places that look like the same place (found by the duplicates job, not stored)
+export const DuplicatePairSchema = z.object({
+    placeIds: z.tuple([z.string().uuid(), z.string().uuid()]),
+    names: z.tuple([z.string(), z.string()]),
+    distanceMeters: z.number().min(0),
+    nameSimilarity: z.number().min(0).max(1),
+    addressSimilarity: z.number().min(0).max(1),
+    sameGooglePlaceId: z.boolean(),
+});
+
+export type PlaceMerge = z.infer<typeof PlaceMergeSchema>;
+export type DuplicatePair = z.infer<typeof DuplicatePairSchema>;
@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+// one per user per place, id is `${placeId}#${userId}` so favouriting a place twice changes nothing
+export const FavoriteSchema = z.object({
+    id: z.string(),
+    placeId: z.string().uuid(),
+    userId: z.string(),
+    createdAt: z.string().datetime(),
+});
+
+export type Favorite = z.infer<typeof FavoriteSchema>;
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+// Schema validation for limit/cursor query parameters
+export const PaginationSchema = z.object({
+    limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+    cursor: z.string().min(1).optional(), // opaque nextCursor from a previous response
+});
+
+export type Pagination = z.infer<typeof PaginationSchema>;
+
+// service level options, no limit means "everything"
+export type PageOptions = Partial<Pagination>;
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+
+// image types we accept for upload
+export const PHOTO_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp'] as const;
+
+// resized copies generated from every upload, clients never get the original
+export const PHOTO_VARIANTS = {
+    thumbnail: { width: 200, height: 200, fit: 'cover' },
+    medium: { width: 800, height: 800, fit: 'inside' },
+    large: { width: 1600, height: 1600, fit: 'inside' },
+} as const;
+
+export type PhotoVariantName = keyof typeof PHOTO_VARIANTS;
+
+export const PhotoVariantSchema = z.object({
+    key: z.string(),
+    contentType: z.string(),
+    width: z.number().int().positive(),
+    height: z.number().int().positive(),
+    sizeBytes: z.number().int().positive(),
+});
+
+// awaiting-upload until the uploader confirms, then pending moderation until an admin approves or rejects it
+export const PhotoStatusSchema = z.enum(['awaiting-upload', 'pending', 'approved', 'rejected']);
+
+export const PhotoSchema = z.object({
+    id: z.string().uuid(),
+    placeId: z.string().uuid(),
+    key: z.string(), // object key of the original upload in the assets bucket
+    contentType: z.enum(PHOTO_CONTENT_TYPES),
+    sizeBytes: z.number().int().positive(),
+    uploadedBy: z.string(), // User ID of the uploader
+    caption: z.string().trim().max(500).optional(),
+    width: z.number().int().positive().optional(),
+    height: z.number().int().positive().optional(),
+    status: PhotoStatusSchema,
+    moderatedBy: z.string().optional(),
+    moderationReason: z.string().optional(), // also set when processing rejects the upload
+    variants: z.record(z.enum(['thumbnail', 'medium', 'large']), PhotoVariantSchema).optional(),
+    processedAt: z.string().datetime().optional(),
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+    confirmedAt: z.string().datetime().optional(),
+    expiresAt: z.number().optional(), // Unix timestamp, unconfirmed uploads are cleaned up by TTL
+    version: z.number().int().optional(), // bumped on every change, so confirming and processing can't overwrite each other
+});
+
+// Asking for an upload URL
+export const PhotoUploadRequestSchema = z.object({
+    contentType: z.enum(PHOTO_CONTENT_TYPES),
+    sizeBytes: z.number().int().positive(),
+});
+
+// Confirming an upload once the file is in the bucket
+export const PhotoConfirmSchema = z.object({
+    caption: z.string().trim().max(500).optional(),
+    width: z.number().int().positive().max(20000).optional(),
+    height: z.number().int().positive().max(20000).optional(),
+});
+
+export const PhotoModerationSchema = z.object({
+    status: z.enum(['approved', 'rejected']),
+    reason: z.string().trim().max(500).optional(),
+});
+
+export type Photo = z.infer<typeof PhotoSchema>;
+export type PhotoVariant = z.infer<typeof PhotoVariantSchema>;
+export type PhotoStatus = z.infer<typeof PhotoStatusSchema>;
+export type PhotoUploadRequest = z.infer<typeof PhotoUploadRequestSchema>;
+export type PhotoConfirm = z.infer<typeof PhotoConfirmSchema>;
+export type PhotoModeration = z.infer<typeof PhotoModerationSchema>;
@@ -1,4 +1,24 @@
 import { z } from 'zod';
+import { isValidTimeZone } from '../utils/timezone.js';
+import { LiveBusynessSchema, BusynessEstimateLevelSchema, PopularTimesSchema } from './busyness.js';
+import { WifiSpeedSchema } from './wifi.js';
+import { PlaceStatusSchema, DuplicateCandidateSchema } from './placeSubmission.js';
+
+// attribute enums, shared between the place schema and the search filters
+export const ParkingSchema = z.enum(['none', 'street', 'lot', 'garage', 'valet']);
+export const CapacitySchema = z.enum(['extra-small', 'small', 'medium', 'large']); //extra small = 1-10, small = 11-20, medium = 21-30, larger = 31+
+export const NoiseLevelSchema = z.enum(['quiet', 'moderate', 'loud']);
+export const DaySchema = z.enum(['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']);
+
+// computed open/closed state for a point in time (not stored)
+export const OpenStatusSchema = z.object({
+    state: z.enum(['open', 'closing-soon', 'closed']),
+    closesAt: z.string().optional(), // e.g., "18:00" when open
+    nextOpen: z.object({
+        day: DaySchema,
+        time: z.string(),
+    }).optional(), // when closed
+});
 
 // Schema validation using Zod
 export const PlaceSchema = z.object({
@@ -10,9 +30,19 @@ export const PlaceSchema = z.object({
         latitude: z.number(),
         longitude: z.number(),
     }),
+    timeZone: z.string().refine(isValidTimeZone, 'Invalid IANA time zone').optional(), // e.g., "America/New_York", derived from location
     geohash: z.string().optional(),
-    geohashPrefix: z.string().optional(),
+    geohashPrefix: z.string().optional(), // 4 characters, the original geohash-prefix-index
+    geohashPrefix3: z.string().optional(), // extra precisions, each backed by its own GSI
+    geohashPrefix5: z.string().optional(),
+    geohashPrefix6: z.string().optional(),
     distance: z.number().optional(), // for storing calculated distance
+    openStatus: OpenStatusSchema.optional(), // computed from openingHours at query time
+    busyness: LiveBusynessSchema.optional(), // computed from recent check-ins and votes, nearby results only
+    popularTimes: PopularTimesSchema.optional(), // typical busyness by hour, single place lookups only
+    isFavorite: z.boolean().optional(), // whether the signed-in user has favourited it, computed per request
+    reviewCount: z.number().int().min(0).optional(), // reviews behind the rating attributes, once a place has any
+    wifiSpeed: WifiSpeedSchema.optional(), // from users' speed test reports, once a place has any
     amenities: z.object({
         wifi: z.boolean().default(false),
         coffee: z.boolean().default(false),
@@ -23,9 +53,9 @@ export const PlaceSchema = z.object({
         
     }),
     attributes: z.object({
-        parking: z.enum(['none', 'street', 'lot', 'garage', 'valet']).default('none'),
-        capacity: z.enum(['extra-small', 'small', 'medium', 'large']).optional(), //extra small = 1-10, small = 11-20, medium = 21-30, larger = 31+
-        noiseLevel: z.enum(['quiet', 'moderate', 'loud']),
+        parking: ParkingSchema.default('none'),
+        capacity: CapacitySchema.optional(),
+        noiseLevel: NoiseLevelSchema,
         seatingComfort: z.number().min(1).max(5).optional(),
         rating: z.number().min(0).max(5).optional(),
         openLate: z.boolean().default(false),
@@ -34,9 +64,9 @@ export const PlaceSchema = z.object({
     }),
     openingHours: z.array(
         z.object({
-            day: z.enum(['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']),
-            open: z.string(), // e.g., "09:00"
-            close: z.string(), // e.g., "17:00"
+            day: DaySchema,
+            open: z.string(), // e.g., "09:00" local time in the place's timeZone
+            close: z.string(), // e.g., "17:00", earlier than open means after midnight
         })
     ).optional(),
     photos: z.array(z.string()).optional(),
@@ -45,7 +75,91 @@ export const PlaceSchema = z.object({
     updatedAt: z.string().datetime().optional(),
     createdBy: z.string().optional(), // User ID of creator
     isPublic: z.boolean().default(true),
+    status: PlaceStatusSchema.optional(), // only set on user submissions, hidden from everyone but the submitter until approved
+    possibleDuplicates: z.array(DuplicateCandidateSchema).optional(), // nearby places with similar names, found on submission
+    mergedInto: z.string().uuid().optional(), // the existing place a submission was merged into
+    reviewedBy: z.string().optional(), // User ID of the admin who approved, rejected or merged a submission
+    reviewedAt: z.string().datetime().optional(),
+    rejectionReason: z.string().optional(),
+    deletedAt: z.string().datetime().optional(), // set when the place is moved to the trash, purged once the retention window passes
+    deletedBy: z.string().optional(), // User ID of whoever deleted it
+    deletionReason: z.string().optional(),
+
+});
+
+export type Place = z.infer<typeof PlaceSchema>;
+export type OpenStatus = z.infer<typeof OpenStatusSchema>;
+
+// set through moderation or deletion, never taken from a request body
+export const PLACE_MODERATION_FIELDS = [
+    'status', 'possibleDuplicates', 'mergedInto', 'reviewedBy', 'reviewedAt', 'rejectionReason',
+    'deletedAt', 'deletedBy', 'deletionReason',
+] as const;
+
+// computed from reviews and speed test reports, never taken from a request body either
+export const PLACE_COMPUTED_FIELDS = ['reviewCount', 'wifiSpeed'] as const;
+export const PLACE_COMPUTED_ATTRIBUTES = ['rating', 'coffeeRating', 'seatingComfort'] as const;
+
+// optional body of a delete, the reason is kept with the deleted place
+export const PlaceDeleteSchema = z.object({
+    reason: z.string().trim().min(1).max(500).optional(),
+});
+
+// Map viewport for bounding box queries, minLng > maxLng means the box crosses the antimeridian
+export const BoundingBoxSchema = z.object({
+    minLat: z.coerce.number().min(-90).max(90),
+    minLng: z.coerce.number().min(-180).max(180),
+    maxLat: z.coerce.number().min(-90).max(90),
+    maxLng: z.coerce.number().min(-180).max(180),
+}).refine(box => box.minLat <= box.maxLat, {
+    message: 'minLat must be less than or equal to maxLat',
+    path: ['minLat'],
+});
+
+// Sort orders for place listings, bestMatch weighs distance against rating
+export const PLACE_SORTS = ['distance', 'rating', 'coffeeRating', 'seatingComfort', 'name', 'newest', 'bestMatch'] as const;
+
+export const PlaceSortSchema = z.object({
+    sort: z.enum(PLACE_SORTS).optional(),
+    order: z.enum(['asc', 'desc']).optional(), // defaults depend on the sort, e.g. rating is highest first
+});
+
+// Map zoom level for clustered views (web map tile zoom levels)
+export const MapZoomSchema = z.object({
+    zoom: z.coerce.number().int().min(0).max(22),
+});
+
+// query string values arrive as strings, so booleans are "true"/"false" and lists are comma separated
+const queryBoolean = z.enum(['true', 'false']).transform(value => value === 'true');
+const queryList = <T extends z.ZodTypeAny>(schema: T) =>
+    z.string().transform(value => value.split(',').map(v => v.trim()).filter(Boolean)).pipe(z.array(schema).min(1));
+
+// Search filters for place listings (amenities, attribute enums and minimum ratings)
+export const PlaceFiltersSchema = z.object({
+    wifi: queryBoolean.optional(),
+    coffee: queryBoolean.optional(),
+    outlets: queryBoolean.optional(),
+    seating: queryBoolean.optional(),
+    food: queryBoolean.optional(),
+    meetingRooms: queryBoolean.optional(),
+    openLate: queryBoolean.optional(),
+    noiseLevel: queryList(NoiseLevelSchema).optional(), // e.g. noiseLevel=quiet,moderate
+    parking: queryList(ParkingSchema).optional(),
+    capacity: queryList(CapacitySchema).optional(),
+    minRating: z.coerce.number().min(0).max(5).optional(),
+    minCoffeeRating: z.coerce.number().min(1).max(5).optional(),
+    minSeatingComfort: z.coerce.number().min(1).max(5).optional(),
+    minDownloadMbps: z.coerce.number().min(0).optional(), // median reported download speed
+    openNow: queryBoolean.optional(),
+    openAt: z.string().datetime({ offset: true }).optional(), // ISO datetime, takes precedence over openNow
+});
 
+// nearby search can also filter on live busyness, e.g. busyness=not-busy,somewhat-busy (unknown matches places without recent data)
+export const NearbyFiltersSchema = PlaceFiltersSchema.extend({
+    busyness: queryList(BusynessEstimateLevelSchema).optional(),
 });
 
-export type Place = z.infer<typeof PlaceSchema>;
\ No newline at end of file
+export type PlaceFilters = z.output<typeof PlaceFiltersSchema>;
+export type NearbyFilters = z.output<typeof NearbyFiltersSchema>;
+export type PlaceSort = z.infer<typeof PlaceSortSchema>;
+export type PlaceDelete = z.infer<typeof PlaceDeleteSchema>;
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+export const PlaceExportFormatSchema = z.enum(['csv', 'geojson', 'ndjson']);
+
+// query string options, the place filters (?wifi=true etc.) are parsed alongside with PlaceFiltersSchema
+export const PlaceExportOptionsSchema = z.object({
+    format: PlaceExportFormatSchema.default('csv'),
+});
+
+// returned instead of the file itself when an export is too big for a response
+export const PlaceExportLinkSchema = z.object({
+    format: PlaceExportFormatSchema,
+    count: z.number().int().min(0), // places in the export
+    url: z.string().url(),
+    expiresAt: z.string().datetime(), // when the download link stops working
+});
+
+export type PlaceExportFormat = z.infer<typeof PlaceExportFormatSchema>;
+export type PlaceExportOptions = z.output<typeof PlaceExportOptionsSchema>;
+export type PlaceExportLink = z.infer<typeof PlaceExportLinkSchema>;
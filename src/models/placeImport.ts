@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+export const PlaceImportFormatSchema = z.enum(['csv', 'geojson']);
+
+// query string options, dryRun=true validates and counts without writing anything
+export const PlaceImportOptionsSchema = z.object({
+    format: PlaceImportFormatSchema,
+    dryRun: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+});
+
+// everything wrong with one row, rows are numbered from 1 after any CSV header
+export const PlaceImportRowErrorSchema = z.object({
+    row: z.number().int().min(1),
+    errors: z.array(z.string()), // e.g. "attributes.noiseLevel: Required"
+});
+
+// nothing is written unless every row is valid, created and updated only count rows that were written
+export const PlaceImportResultSchema = z.object({
+    dryRun: z.boolean(),
+    created: z.number().int().min(0),
+    updated: z.number().int().min(0), // matched by ID or googlePlaceId
+    skipped: z.number().int().min(0), // matched but nothing to change
+    errors: z.array(PlaceImportRowErrorSchema),
+    // set when writing failed part way, places are written in batches and earlier batches aren't undone
+    partial: z.object({
+        committedRows: z.array(z.number().int().min(1)), // rows that were imported, retry the others
+        error: z.string(),
+    }).optional(),
+});
+
+export type PlaceImportFormat = z.infer<typeof PlaceImportFormatSchema>;
+export type PlaceImportOptions = z.output<typeof PlaceImportOptionsSchema>;
+export type PlaceImportRowError = z.infer<typeof PlaceImportRowErrorSchema>;
+export type PlaceImportResult = z.infer<typeof PlaceImportResultSchema>;
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+export const PlaceRevisionActionSchema = z.enum(['create', 'update', 'delete', 'restore', 'purge']);
+
+// one changed field, nested amenities and attributes are compared key by key
+export const PlaceFieldChangeSchema = z.object({
+    field: z.string(), // e.g. "name" or "amenities.wifi"
+    from: z.unknown(),
+    to: z.unknown(),
+});
+
+// an immutable record of one change to a place, written alongside the change and never updated
+export const PlaceRevisionSchema = z.object({
+    id: z.string().uuid(),
+    placeId: z.string().uuid(),
+    action: PlaceRevisionActionSchema,
+    actor: z.string().optional(), // User ID behind the change, unset for scripts and jobs
+    changes: z.array(PlaceFieldChangeSchema),
+    snapshot: z.record(z.string(), z.unknown()), // the place after the change (before it, for purges)
+    restoredFrom: z.string().uuid().optional(), // the revision a restore went back to
+    createdAt: z.string().datetime(),
+});
+
+// roll the place in the path back to one of its revisions
+export const PlaceRestoreSchema = z.object({
+    revisionId: z.string().uuid(),
+});
+
+export type PlaceRevisionAction = z.infer<typeof PlaceRevisionActionSchema>;
+export type PlaceFieldChange = z.infer<typeof PlaceFieldChangeSchema>;
+export type PlaceRevision = z.infer<typeof PlaceRevisionSchema>;
+export type PlaceRestore = z.infer<typeof PlaceRestoreSchema>;
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+// places submitted by non-admins wait for moderation, places without a status are live
+export const PlaceStatusSchema = z.enum(['pending', 'approved', 'rejected', 'merged']);
+
+// an existing place a submission may duplicate, flagged when it's submitted
+export const DuplicateCandidateSchema = z.object({
+    placeId: z.string().uuid(),
+    name: z.string(),
+    distanceMeters: z.number().min(0),
+    nameSimilarity: z.number().min(0).max(1), // 1 means the names match once normalised
+});
+
+export const PlaceSubmissionReviewSchema = z.discriminatedUnion('action', [
+    z.object({ action: z.literal('approve') }),
+    z.object({ action: z.literal('reject'), reason: z.string().trim().min(1).max(500) }),
+    // fold the submission into a place we already have, it fills in whatever the place is missing
+    z.object({ action: z.literal('merge'), targetId: z.string().uuid() }),
+]);
+
+export type PlaceStatus = z.infer<typeof PlaceStatusSchema>;
+export type DuplicateCandidate = z.infer<typeof DuplicateCandidateSchema>;
+export type PlaceSubmissionReview = z.infer<typeof PlaceSubmissionReviewSchema>;
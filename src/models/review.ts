@@ -0,0 +1,30 @@
+import { z } from 'zod';
+
+// Star ratings per dimension, only overall is required
+export const ReviewRatingsSchema = z.object({
+    overall: z.number().int().min(1).max(5),
+    coffee: z.number().int().min(1).max(5).optional(),
+    seatingComfort: z.number().int().min(1).max(5).optional(),
+});
+
+export const ReviewSchema = z.object({
+    id: z.string(), // `${placeId}#${userId}`, so a user can only have one review per place
+    placeId: z.string().uuid(),
+    userId: z.string(),
+    ratings: ReviewRatingsSchema,
+    text: z.string().trim().max(2000).optional(),
+    visitDate: z.string().date().optional(), // YYYY-MM-DD
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+});
+
+// What a user sends when posting or editing a review
+export const ReviewInputSchema = ReviewSchema.pick({ ratings: true, text: true, visitDate: true })
+    .refine(input => !input.visitDate || input.visitDate <= new Date().toISOString().slice(0, 10), {
+        message: 'visitDate cannot be in the future',
+        path: ['visitDate'],
+    });
+
+export type Review = z.infer<typeof ReviewSchema>;
+export type ReviewRatings = z.infer<typeof ReviewRatingsSchema>;
+export type ReviewInput = z.infer<typeof ReviewInputSchema>;
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+// Query string for /places/search, lat/lng are optional and bias results toward that point
+export const SearchQuerySchema = z.object({
+    q: z.string().trim().min(1).max(200),
+    lat: z.coerce.number().min(-90).max(90).optional(),
+    lng: z.coerce.number().min(-180).max(180).optional(),
+}).refine(query => (query.lat === undefined) === (query.lng === undefined), {
+    message: 'lat and lng must be provided together',
+    path: ['lat'],
+});
+
+// One term of a place's text in the search index
+export const SearchPostingSchema = z.object({
+    bucket: z.string(), // first characters of the term, the index partition key
+    id: z.string(), // `${term}#${placeId}`, the sort key
+    term: z.string(),
+    placeId: z.string(),
+    weight: z.number(), // how important the field the term came from is
+});
+
+export type SearchQuery = z.infer<typeof SearchQuerySchema>;
+export type SearchPosting = z.infer<typeof SearchPostingSchema>;
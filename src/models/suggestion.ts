@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { PlaceSchema } from './place.js';
+
+export const SuggestionStatusSchema = z.enum(['pending', 'approved', 'rejected']);
+
+// the parts of a place anyone can suggest a change to, ratings come from reviews so aren't here
+export const SuggestedChangesSchema = PlaceSchema.pick({
+    name: true,
+    description: true,
+    address: true,
+    location: true,
+    amenities: true,
+    attributes: true,
+    openingHours: true,
+}).partial().strict();
+
+export const SuggestionSchema = z.object({
+    id: z.string().uuid(),
+    placeId: z.string().uuid(),
+    userId: z.string(), // User ID of the suggester
+    // only what differs from the place, amenities and attributes hold just the keys being changed
+    changes: z.record(z.string(), z.unknown()),
+    note: z.string().optional(),
+    status: SuggestionStatusSchema,
+    reviewedBy: z.string().optional(),
+    rejectionReason: z.string().optional(),
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+    reviewedAt: z.string().datetime().optional(),
+    version: z.number().int().optional(), // bumped when reviewed, so two moderators can't both review it
+});
+
+export const SuggestionInputSchema = z.object({
+    changes: z.record(z.string(), z.unknown()),
+    note: z.string().trim().max(500).optional(), // e.g. where the new hours came from
+});
+
+export const SuggestionReviewSchema = z.object({
+    status: z.enum(['approved', 'rejected']),
+    reason: z.string().trim().min(1).max(500).optional(),
+}).refine(review => review.status === 'approved' || review.reason, {
+    message: 'A reason is required when rejecting a suggestion',
+    path: ['reason'],
+});
+
+// one changed field, side by side (computed for review, not stored)
+export const SuggestionDiffSchema = z.object({
+    field: z.string(), // e.g. "amenities.outlets"
+    current: z.unknown(),
+    suggested: z.unknown(),
+});
+
+export type SuggestionStatus = z.infer<typeof SuggestionStatusSchema>;
+export type Suggestion = z.infer<typeof SuggestionSchema>;
+export type SuggestionInput = z.infer<typeof SuggestionInputSchema>;
+export type SuggestionReview = z.infer<typeof SuggestionReviewSchema>;
+export type SuggestionDiff = z.infer<typeof SuggestionDiffSchema>;
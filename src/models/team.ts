@@ -0,0 +1,71 @@
+import { z } from 'zod';
+
+// owners can do anything including deleting the team, admins manage members and invites,
+// members use the shared favourites and notes
+export const TeamRoleSchema = z.enum(['owner', 'admin', 'member']);
+
+// a group of users, such as a company, who share favourites and notes on places
+export const TeamSchema = z.object({
+    id: z.string().uuid(),
+    name: z.string(),
+    description: z.string().optional(),
+    createdBy: z.string(), // User ID of whoever created it, its first owner
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+});
+
+// one per user per team, id is `${teamId}#${userId}`
+export const TeamMemberSchema = z.object({
+    id: z.string(),
+    teamId: z.string().uuid(),
+    userId: z.string(),
+    role: TeamRoleSchema,
+    invitedBy: z.string().optional(), // not set for the team's creator
+    joinedAt: z.string().datetime(),
+});
+
+// a single-use invite, accepted with its token. Invites sent to an email address can only be
+// accepted by the account with that address, ones without can be accepted by anyone with the token.
+export const TeamInviteSchema = z.object({
+    id: z.string().uuid(),
+    teamId: z.string().uuid(),
+    email: z.string().email().optional(),
+    role: TeamRoleSchema,
+    token: z.string(),
+    invitedBy: z.string(),
+    createdAt: z.string().datetime(),
+    expiresAt: z.number(), // Unix timestamp, expired invites are cleaned up by TTL
+});
+
+export const TeamInputSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    description: z.string().trim().max(500).optional(),
+});
+
+export const TeamUpdateSchema = z.object({
+    name: z.string().trim().min(1).max(100).optional(),
+    description: z.string().trim().max(500).nullable().optional(), // null clears it
+});
+
+// teams get new owners by promoting a member, not by invite
+export const TeamInviteInputSchema = z.object({
+    email: z.string().trim().toLowerCase().email().optional(),
+    role: TeamRoleSchema.exclude(['owner']).default('member'),
+});
+
+export const TeamInviteAcceptSchema = z.object({
+    token: z.string().min(1),
+});
+
+export const TeamMemberUpdateSchema = z.object({
+    role: TeamRoleSchema,
+});
+
+export type TeamRole = z.infer<typeof TeamRoleSchema>;
+export type Team = z.infer<typeof TeamSchema>;
+export type TeamMember = z.infer<typeof TeamMemberSchema>;
+export type TeamInvite = z.infer<typeof TeamInviteSchema>;
+export type TeamInput = z.infer<typeof TeamInputSchema>;
+export type TeamUpdate = z.infer<typeof TeamUpdateSchema>;
+export type TeamInviteInput = z.output<typeof TeamInviteInputSchema>;
+export type TeamMemberUpdate = z.infer<typeof TeamMemberUpdateSchema>;
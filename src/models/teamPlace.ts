@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+// a place on a team's shared favourites list, id is `${teamId}#${placeId}` so each place is on it once
+export const TeamFavoriteSchema = z.object({
+    id: z.string(),
+    teamId: z.string().uuid(),
+    placeId: z.string().uuid(),
+    addedBy: z.string(), // User ID of the member who added it
+    createdAt: z.string().datetime(),
+});
+
+// a note on a place that only the team can see, e.g. "ask for the corporate discount"
+export const TeamAnnotationSchema = z.object({
+    id: z.string().uuid(),
+    teamId: z.string().uuid(),
+    placeId: z.string().uuid(),
+    userId: z.string(), // User ID of the author
+    text: z.string(),
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+});
+
+export const TeamAnnotationInputSchema = z.object({
+    placeId: z.string().uuid(),
+    text: z.string().trim().min(1).max(1000),
+});
+
+export const TeamAnnotationUpdateSchema = z.object({
+    text: z.string().trim().min(1).max(1000),
+});
+
+export type TeamFavorite = z.infer<typeof TeamFavoriteSchema>;
+export type TeamAnnotation = z.infer<typeof TeamAnnotationSchema>;
+export type TeamAnnotationInput = z.infer<typeof TeamAnnotationInputSchema>;
+export type TeamAnnotationUpdate = z.infer<typeof TeamAnnotationUpdateSchema>;
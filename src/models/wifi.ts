@@ -0,0 +1,30 @@
+import { z } from 'zod';
+
+// a speed test someone ran at a place
+export const WifiReportInputSchema = z.object({
+    downloadMbps: z.number().positive().max(10000),
+    uploadMbps: z.number().positive().max(10000),
+    latencyMs: z.number().positive().max(10000),
+});
+
+// one report per session per place, id is `${placeId}#${sessionId}`
+export const WifiReportSchema = WifiReportInputSchema.extend({
+    id: z.string(),
+    placeId: z.string().uuid(),
+    userId: z.string(),
+    sessionId: z.string(),
+    createdAt: z.string().datetime(),
+});
+
+// rolling medians of a place's recent reports, stored on the place
+export const WifiSpeedSchema = z.object({
+    downloadMbps: z.number(),
+    uploadMbps: z.number(),
+    latencyMs: z.number(),
+    reportCount: z.number().int().min(1), // reports behind the medians
+    measuredAt: z.string().datetime(), // newest report, for judging how fresh the numbers are
+});
+
+export type WifiReportInput = z.infer<typeof WifiReportInputSchema>;
+export type WifiReport = z.infer<typeof WifiReportSchema>;
+export type WifiSpeed = z.infer<typeof WifiSpeedSchema>;
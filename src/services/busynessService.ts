@@ -0,0 +1,275 @@
+import { v4 as uuidv4 } from 'uuid';
+import * as dynamodb from '../utils/dynamodb.js';
+import * as placeService from './placeService.js';
+import * as popularTimesService from './popularTimesService.js';
+import { Place } from '../models/place.js';
+import {
+    CheckIn,
+    BusynessVote,
+    BusynessLevel,
+    LiveBusyness,
+    BusynessVoteInput,
+    BusynessVoteInputSchema
+} from '../models/busyness.js';
+
+const CHECKINS_TABLE = process.env.CHECKINS_TABLE || 'workbru-checkins';
+const BUSYNESS_VOTES_TABLE = process.env.BUSYNESS_VOTES_TABLE || 'workbru-busyness-votes';
+// both tables have a GSI on placeId, check-ins also have one on userId
+const PLACE_INDEX = 'placeId-index';
+const USER_INDEX = 'userId-index';
+
+// people forget to check out, so check-ins stop counting after this long
+export const CHECKIN_MAX_HOURS = Number(process.env.CHECKIN_MAX_HOURS || 4);
+// a vote counts half as much after this many minutes, and not at all after VOTE_MAX_AGE_MINUTES
+export const VOTE_HALF_LIFE_MINUTES = Number(process.env.VOTE_HALF_LIFE_MINUTES || 30);
+export const VOTE_MAX_AGE_MINUTES = Number(process.env.VOTE_MAX_AGE_MINUTES || 180);
+
+// records are kept for a week then dropped by the table TTL
+const RECORD_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// rough seat counts for the capacity attribute, places without one are treated as small
+const CAPACITY_SEATS: Record<string, number> = { 'extra-small': 10, small: 20, medium: 30, large: 40 };
+const DEFAULT_SEATS = CAPACITY_SEATS.small;
+
+// the share of seats taken each vote stands for
+const VOTE_OCCUPANCY: Record<BusynessLevel, number> = {
+    'not-busy': 0.15,
+    'somewhat-busy': 0.45,
+    'busy': 0.75,
+    'very-busy': 0.95,
+};
+
+// upper occupancy bound for each estimate level
+const LEVEL_THRESHOLDS: [number, BusynessLevel][] = [
+    [0.3, 'not-busy'],
+    [0.6, 'somewhat-busy'],
+    [0.85, 'busy'],
+];
+
+export function getVoteId(placeId: string, userId: string): string {
+    return `${placeId}#${userId}`;
+}
+
+/**
+ * Get the user's current check-in, if they haven't checked out or timed out
+ */
+export async function getActiveCheckIn(userId: string, now: Date = new Date()): Promise<CheckIn | null> {
+    const checkIns = await dynamodb.queryItems(
+        CHECKINS_TABLE,
+        'userId = :userId',
+        { ':userId': userId },
+        USER_INDEX
+    ) as CheckIn[];
+
+    return checkIns.find(checkIn => isActive(checkIn, now)) ?? null;
+}
+
+/**
+ * Check the user in to a place. Users can only be in one place at a time,
+ * so any other check-in is closed first.
+ * @returns null if the place doesn't exist
+ */
+export async function checkIn(placeId: string, userId: string): Promise<CheckIn | null> {
+    const place = await placeService.getPlaceById(placeId);
+    if (!place) {
+        return null;
+    }
+
+    const now = new Date();
+    const current = await getActiveCheckIn(userId, now);
+    if (current?.placeId === placeId) {
+        return current;
+    }
+    if (current) {
+        await closeCheckIn(current, now);
+    }
+
+    const newCheckIn: CheckIn = {
+        id: uuidv4(),
+        placeId,
+        userId,
+        checkedInAt: now.toISOString(),
+        expiresAt: Math.floor(now.getTime() / 1000) + RECORD_TTL_SECONDS,
+    };
+
+    await dynamodb.putItem(CHECKINS_TABLE, newCheckIn);
+    await recordPopularTimes(place, now);
+    return newCheckIn;
+}
+
+/**
+ * Check the user out of a place
+ * @returns null if they weren't checked in there
+ */
+export async function checkOut(placeId: string, userId: string): Promise<CheckIn | null> {
+    const now = new Date();
+    const current = await getActiveCheckIn(userId, now);
+    if (!current || current.placeId !== placeId) {
+        return null;
+    }
+
+    const closed = await closeCheckIn(current, now);
+    const place = await placeService.getPlaceById(placeId);
+    if (place) {
+        await recordPopularTimes(place, now);
+    }
+    return closed;
+}
+
+/**
+ * Record a "how busy is it" vote, replacing the user's earlier vote for the place
+ * @returns null if the place doesn't exist
+ */
+export async function reportBusyness(placeId: string, userId: string, input: BusynessVoteInput): Promise<BusynessVote | null> {
+    const { level } = BusynessVoteInputSchema.parse(input);
+
+    const place = await placeService.getPlaceById(placeId);
+    if (!place) {
+        return null;
+    }
+
+    const now = new Date();
+    const vote: BusynessVote = {
+        id: getVoteId(placeId, userId),
+        placeId,
+        userId,
+        level,
+        createdAt: now.toISOString(),
+        expiresAt: Math.floor(now.getTime() / 1000) + RECORD_TTL_SECONDS,
+    };
+
+    await dynamodb.putItem(BUSYNESS_VOTES_TABLE, vote);
+    await recordPopularTimes(place, now);
+    return vote;
+}
+
+/**
+ * Get a place's live busyness estimate
+ * @returns null if the place doesn't exist
+ */
+export async function getLiveBusyness(placeId: string, now: Date = new Date()): Promise<LiveBusyness | null> {
+    const place = await placeService.getPlaceById(placeId);
+    if (!place) {
+        return null;
+    }
+
+    const [busyPlace] = await withLiveBusyness([place], now);
+    return busyPlace.busyness!;
+}
+
+// attach the live busyness estimate to each place
+export async function withLiveBusyness(places: Place[], now: Date = new Date()): Promise<Place[]> {
+    return Promise.all(places.map(async place => {
+        const [checkIns, votes] = await Promise.all([
+            dynamodb.queryItems(CHECKINS_TABLE, 'placeId = :placeId', { ':placeId': place.id }, PLACE_INDEX),
+            dynamodb.queryItems(BUSYNESS_VOTES_TABLE, 'placeId = :placeId', { ':placeId': place.id }, PLACE_INDEX),
+        ]);
+
+        return {
+            ...place,
+            busyness: estimateBusyness(place, checkIns as CheckIn[], votes as BusynessVote[], now),
+        };
+    }));
+}
+
+/**
+ * Move a place's check-ins to another place, e.g. when duplicates are merged
+ * @returns the number of check-ins moved
+ */
+export async function moveCheckIns(fromPlaceId: string, toPlaceId: string): Promise<number> {
+    const checkIns = await dynamodb.queryItems(
+        CHECKINS_TABLE,
+        'placeId = :placeId',
+        { ':placeId': fromPlaceId },
+        PLACE_INDEX
+    ) as CheckIn[];
+
+    await Promise.all(checkIns.map(checkIn => dynamodb.putItem(CHECKINS_TABLE, { ...checkIn, placeId: toPlaceId })));
+    return checkIns.length;
+}
+
+/**
+ * Blend active check-ins with recent votes into an occupancy estimate.
+ * Check-ins give the share of seats taken, each counting as much as a fresh vote.
+ * Votes lose half their weight every VOTE_HALF_LIFE_MINUTES.
+ */
+export function estimateBusyness(place: Place, checkIns: CheckIn[], votes: BusynessVote[], now: Date = new Date()): LiveBusyness {
+    const activeCheckIns = checkIns.filter(checkIn => checkIn.placeId === place.id && isActive(checkIn, now)).length;
+    const recent = votes
+        .filter(vote => vote.placeId === place.id)
+        .map(vote => ({ vote, ageMinutes: (now.getTime() - new Date(vote.createdAt).getTime()) / 60000 }))
+        .filter(({ ageMinutes }) => ageMinutes >= 0 && ageMinutes <= VOTE_MAX_AGE_MINUTES);
+
+    const seats = CAPACITY_SEATS[place.attributes?.capacity ?? ''] ?? DEFAULT_SEATS;
+    let weightedOccupancy = activeCheckIns * Math.min(1, activeCheckIns / seats);
+    let totalWeight = activeCheckIns;
+
+    for (const { vote, ageMinutes } of recent) {
+        const weight = Math.pow(0.5, ageMinutes / VOTE_HALF_LIFE_MINUTES);
+        weightedOccupancy += weight * VOTE_OCCUPANCY[vote.level];
+        totalWeight += weight;
+    }
+
+    const estimate: LiveBusyness = {
+        level: 'unknown',
+        activeCheckIns,
+        recentVotes: recent.length,
+        estimatedAt: now.toISOString(),
+    };
+    if (totalWeight === 0) {
+        return estimate;
+    }
+
+    const occupancy = Math.round(weightedOccupancy / totalWeight * 100) / 100;
+    return { ...estimate, level: getBusynessLevel(occupancy), occupancy };
+}
+
+export function getBusynessLevel(occupancy: number): BusynessLevel {
+    return LEVEL_THRESHOLDS.find(([max]) => occupancy < max)?.[1] ?? 'very-busy';
+}
+
+/**
+ * Runs hourly, adds the live estimate to the popular times of places that had no check-ins, check-outs
+ * or votes this hour. Without it quiet hours would never get samples, and never be suggested as the quietest.
+ * @returns the number of places sampled
+ */
+export async function samplePopularTimes(now: Date = new Date()): Promise<number> {
+    const records = await popularTimesService.getPopularTimesRecords();
+    const recordsById = new Map(records.map(record => [record.id, record]));
+    const places = await placeService.getPlacesByIds(records.map(record => record.id));
+
+    let sampled = 0;
+    for (const place of places) {
+        if (popularTimesService.isSampledThisHour(place, recordsById.get(place.id!)!, now)) {
+            continue;
+        }
+        await recordPopularTimes(place, now);
+        sampled++;
+    }
+    return sampled;
+}
+
+// every check-in, check-out and vote adds the new estimate to the place's popular times, with nobody
+// checked in and no recent votes counting as empty. A failure there shouldn't fail the check-in or vote itself.
+async function recordPopularTimes(place: Place, now: Date): Promise<void> {
+    try {
+        const [busyPlace] = await withLiveBusyness([place], now);
+        await popularTimesService.recordOccupancy(place, busyPlace.busyness?.occupancy ?? 0, now);
+    } catch (err) {
+        console.error(`[PopularTimes] Failed to record busyness for place ${place.id}: `, err);
+    }
+}
+
+// still checked in, and not so long ago that they've probably left without checking out
+function isActive(checkIn: CheckIn, now: Date): boolean {
+    const checkedInAt = new Date(checkIn.checkedInAt).getTime();
+    return !checkIn.checkedOutAt
+        && checkedInAt <= now.getTime()
+        && now.getTime() - checkedInAt < CHECKIN_MAX_HOURS * 60 * 60 * 1000;
+}
+
+async function closeCheckIn(checkIn: CheckIn, now: Date): Promise<CheckIn> {
+    const closed: CheckIn = { ...checkIn, checkedOutAt: now.toISOString() };
+    await dynamodb.putItem(CHECKINS_TABLE, closed);
+    return closed;
+}
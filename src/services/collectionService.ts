@@ -0,0 +1,274 @@
+import { v4 as uuidv4 } from 'uuid';
+import { randomBytes } from 'crypto';
+import * as dynamodb from '../utils/dynamodb.js';
+import * as placeService from './placeService.js';
+import * as favoriteService from './favoriteService.js';
+import { Place } from '../models/place.js';
+import {
+    Collection,
+    CollectionItem,
+    CollectionInput,
+    CollectionInputSchema,
+    CollectionUpdate,
+    CollectionUpdateSchema,
+    CollectionItemInput,
+    CollectionItemInputSchema,
+    CollectionItemUpdate,
+    CollectionItemUpdateSchema,
+} from '../models/collection.js';
+
+const COLLECTIONS_TABLE = process.env.COLLECTIONS_TABLE || 'workbru-collections';
+const COLLECTIONS_USER_INDEX = 'userId-index';
+
+// the places are stored inside the collection, which keeps it well under DynamoDB's 400 KB item limit
+export const MAX_COLLECTION_ITEMS = Number(process.env.MAX_COLLECTION_ITEMS || 200);
+
+// a collection as returned to a viewer, with each live place filled in. Only the owner sees the share token.
+export type CollectionView = Omit<Collection, 'items'> & { items: (CollectionItem & { place: Place })[] };
+
+/**
+ * Thrown when a collection can't be changed as asked, e.g. the place is already in it
+ */
+export class CollectionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CollectionError';
+    }
+}
+
+export async function createCollection(userId: string, input: CollectionInput): Promise<Collection> {
+    const { name, description, visibility } = CollectionInputSchema.parse(input);
+    const now = new Date().toISOString();
+
+    const collection: Collection = {
+        id: uuidv4(),
+        userId,
+        name,
+        description,
+        visibility,
+        shareToken: visibility === 'link' ? createShareToken() : undefined,
+        items: [],
+        createdAt: now,
+        updatedAt: now,
+    };
+
+    await dynamodb.putItem(COLLECTIONS_TABLE, collection);
+    return collection;
+}
+
+/**
+ * A collection with its places, if the viewer is allowed to see it
+ * @param viewerId the signed-in user, if any
+ * @param shareToken the token from a share link, needed for link-shared collections
+ * @returns null if there's no such collection or it isn't visible to the viewer
+ */
+export async function getCollection(id: string, viewerId?: string | null, shareToken?: string): Promise<CollectionView | null> {
+    const collection = await getCollectionById(id);
+    if (!collection || !canView(collection, viewerId, shareToken)) {
+        return null;
+    }
+
+    return toView(collection, viewerId);
+}
+
+/**
+ * A user's collections, newest first. Other people only see the public ones.
+ */
+export async function getUserCollections(ownerId: string, viewerId?: string | null): Promise<Collection[]> {
+    const collections = await dynamodb.queryItems(
+        COLLECTIONS_TABLE,
+        'userId = :userId',
+        { ':userId': ownerId },
+        COLLECTIONS_USER_INDEX
+    ) as Collection[];
+
+    return collections
+        .filter(collection => collection.userId === viewerId || collection.visibility === 'public')
+        .map(collection => collection.userId === viewerId ? collection : withoutShareToken(collection))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Rename a collection or change who can see it. Sharing by link again after making it private
+ * issues a new share token, so the old link stops working.
+ * @returns null if there's no such collection or it isn't the user's
+ */
+export async function updateCollection(id: string, userId: string, update: CollectionUpdate): Promise<CollectionView | null> {
+    const { name, description, visibility } = CollectionUpdateSchema.parse(update);
+    const collection = await getOwnCollection(id, userId);
+    if (!collection) {
+        return null;
+    }
+
+    const newVisibility = visibility ?? collection.visibility;
+    return saveCollection({
+        ...collection,
+        name: name ?? collection.name,
+        description: description === null ? undefined : description ?? collection.description,
+        visibility: newVisibility,
+        shareToken: newVisibility === 'link' ? collection.shareToken ?? createShareToken() : undefined,
+    }, userId);
+}
+
+/**
+ * @returns false if there's no such collection or it isn't the user's
+ */
+export async function deleteCollection(id: string, userId: string): Promise<boolean> {
+    const collection = await getOwnCollection(id, userId);
+    if (!collection) {
+        return false;
+    }
+
+    await dynamodb.deleteItem(COLLECTIONS_TABLE, { id });
+    return true;
+}
+
+/**
+ * Add a place to a collection, at the end unless a position is given
+ * @returns null if there's no such collection or it isn't the user's
+ * @throws CollectionError if the place doesn't exist, is already in the collection or the collection is full
+ */
+export async function addCollectionItem(id: string, userId: string, input: CollectionItemInput): Promise<CollectionView | null> {
+    const { placeId, note, position } = CollectionItemInputSchema.parse(input);
+    const collection = await getOwnCollection(id, userId);
+    if (!collection) {
+        return null;
+    }
+
+    if (collection.items.some(item => item.placeId === placeId)) {
+        throw new CollectionError('Place is already in this collection');
+    }
+    if (collection.items.length >= MAX_COLLECTION_ITEMS) {
+        throw new CollectionError(`Collections can hold up to ${MAX_COLLECTION_ITEMS} places`);
+    }
+
+    const place = await placeService.getPlaceById(placeId);
+    if (!place || !placeService.isPlaceLive(place)) {
+        throw new CollectionError('Place not found');
+    }
+
+    const items = [...collection.items];
+    items.splice(position ?? items.length, 0, { placeId, note, addedAt: new Date().toISOString() });
+    return saveCollection({ ...collection, items }, userId);
+}
+
+/**
+ * Change a place's note or move it within the collection
+ * @returns null if there's no such collection or it isn't the user's
+ * @throws CollectionError if the place isn't in the collection
+ */
+export async function updateCollectionItem(
+    id: string,
+    userId: string,
+    placeId: string,
+    update: CollectionItemUpdate
+): Promise<CollectionView | null> {
+    const { note, position } = CollectionItemUpdateSchema.parse(update);
+    const collection = await getOwnCollection(id, userId);
+    if (!collection) {
+        return null;
+    }
+
+    const index = collection.items.findIndex(item => item.placeId === placeId);
+    if (index === -1) {
+        throw new CollectionError('Place is not in this collection');
+    }
+
+    const items = [...collection.items];
+    const [item] = items.splice(index, 1);
+    const updatedItem = { ...item, note: note === null ? undefined : note ?? item.note };
+    items.splice(position ?? index, 0, updatedItem);
+    return saveCollection({ ...collection, items }, userId);
+}
+
+/**
+ * @returns null if there's no such collection or it isn't the user's
+ * @throws CollectionError if the place isn't in the collection
+ */
+export async function removeCollectionItem(id: string, userId: string, placeId: string): Promise<CollectionView | null> {
+    const collection = await getOwnCollection(id, userId);
+    if (!collection) {
+        return null;
+    }
+
+    const items = collection.items.filter(item => item.placeId !== placeId);
+    if (items.length === collection.items.length) {
+        throw new CollectionError('Place is not in this collection');
+    }
+
+    return saveCollection({ ...collection, items }, userId);
+}
+
+/**
+ * Point every collection holding a place at another place, e.g. when duplicates are merged.
+ * A collection that already holds the other place keeps its own entry for it.
+ * @returns the number of collections changed
+ */
+export async function moveCollectionItems(fromPlaceId: string, toPlaceId: string): Promise<number> {
+    // the places are stored inside the collections, so there's no index to find them by
+    const collections = await dynamodb.scanItems(COLLECTIONS_TABLE) as Collection[];
+    let changed = 0;
+
+    for (const collection of collections) {
+        if (!collection.items.some(item => item.placeId === fromPlaceId)) {
+            continue;
+        }
+
+        const hasTarget = collection.items.some(item => item.placeId === toPlaceId);
+        const items = collection.items
+            .filter(item => !(hasTarget && item.placeId === fromPlaceId))
+            .map(item => item.placeId === fromPlaceId ? { ...item, placeId: toPlaceId } : item);
+        await dynamodb.putItem(COLLECTIONS_TABLE, { ...collection, items, updatedAt: new Date().toISOString() });
+        changed++;
+    }
+
+    return changed;
+}
+
+async function getCollectionById(id: string): Promise<Collection | null> {
+    const item = await dynamodb.getItem(COLLECTIONS_TABLE, { id });
+    return item as Collection | null;
+}
+
+// someone else's collection is treated as missing, so its existence isn't given away
+async function getOwnCollection(id: string, userId: string): Promise<Collection | null> {
+    const collection = await getCollectionById(id);
+    return collection?.userId === userId ? collection : null;
+}
+
+// a full put, so cleared notes, descriptions and share tokens don't linger
+async function saveCollection(collection: Collection, userId: string): Promise<CollectionView> {
+    const saved = { ...collection, updatedAt: new Date().toISOString() };
+    await dynamodb.putItem(COLLECTIONS_TABLE, saved);
+    return toView(saved, userId);
+}
+
+function canView(collection: Collection, viewerId?: string | null, shareToken?: string): boolean {
+    if (collection.userId === viewerId || collection.visibility === 'public') {
+        return true;
+    }
+    return collection.visibility === 'link' && Boolean(shareToken) && shareToken === collection.shareToken;
+}
+
+// places that have since been deleted or are awaiting approval are left out, but stay in the list
+async function toView(collection: Collection, viewerId?: string | null): Promise<CollectionView> {
+    const livePlaces = new Map((await placeService.getPlacesByIds(collection.items.map(item => item.placeId)))
+        .filter(place => placeService.isPlaceLive(place))
+        .map(place => [place.id!, place]));
+    const items: CollectionView['items'] = collection.items
+        .filter(item => livePlaces.has(item.placeId))
+        .map(item => ({ ...item, place: livePlaces.get(item.placeId)! }));
+
+    const places = await favoriteService.withFavorites(items.map(item => item.place), viewerId);
+    const view = { ...collection, items: items.map((item, i) => ({ ...item, place: places[i] })) };
+    return collection.userId === viewerId ? view : withoutShareToken(view);
+}
+
+function withoutShareToken<T extends { shareToken?: string }>(collection: T): T {
+    const { shareToken, ...rest } = collection;
+    return rest as T;
+}
+
+function createShareToken(): string {
+    return randomBytes(16).toString('base64url');
+}
@@ -0,0 +1,242 @@
+import geohash from 'ngeohash';
+import * as dynamodb from '../utils/dynamodb.js';
+import * as placeService from './placeService.js';
+import * as searchService from './searchService.js';
+import * as reviewService from './reviewService.js';
+import * as photoService from './photoService.js';
+import * as busynessService from './busynessService.js';
+import * as favoriteService from './favoriteService.js';
+import * as collectionService from './collectionService.js';
+import * as teamPlaceService from './teamPlaceService.js';
+import { Place } from '../models/place.js';
+import { DuplicateCandidate } from '../models/placeSubmission.js';
+import { DuplicatePair } from '../models/duplicate.js';
+
+// places this close with names this similar are probably the same place
+export const DUPLICATE_RADIUS_KM = Number(process.env.DUPLICATE_RADIUS_KM || 0.2);
+export const DUPLICATE_NAME_SIMILARITY = Number(process.env.DUPLICATE_NAME_SIMILARITY || 0.7);
+
+// a weaker name match still counts when the addresses agree
+export const DUPLICATE_ADDRESS_SIMILARITY = Number(process.env.DUPLICATE_ADDRESS_SIMILARITY || 0.8);
+const WEAK_NAME_SIMILARITY = 0.5;
+
+// precision 6 cells are about 1.2km x 0.6km, so a cell and its neighbours cover the radius
+const DUPLICATE_CELL_PRECISION = 6;
+
+export interface PlaceMergeResult {
+    place: Place;
+    reviewsMoved: number;
+    photosMoved: number;
+    checkInsMoved: number;
+    favoritesMoved: number;
+    collectionsUpdated: number;
+    teamFavoritesMoved: number;
+}
+
+/**
+ * Thrown when two places can't be merged, e.g. one of them was already merged away
+ */
+export class PlaceMergeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PlaceMergeError';
+    }
+}
+
+/**
+ * Live or pending places near a place whose names are similar to its name, most similar first
+ */
+export async function findPossibleDuplicates(place: Pick<Place, 'id' | 'name' | 'location'>): Promise<DuplicateCandidate[]> {
+    const { latitude, longitude } = place.location;
+    const boundingBox = placeService.calculateBoundingBox(latitude, longitude, DUPLICATE_RADIUS_KM);
+    const candidates = await placeService.queryPlacesInBoundingBox(boundingBox);
+
+    return candidates
+        .filter(candidate => candidate.id && candidate.id !== place.id && candidate.location)
+        .filter(candidate => placeService.isPlaceLive(candidate) || candidate.status === 'pending')
+        .map(candidate => ({
+            placeId: candidate.id!,
+            name: candidate.name,
+            distanceMeters: getDistanceMeters(place, candidate),
+            nameSimilarity: roundSimilarity(searchService.nameSimilarity(place.name, candidate.name)),
+        }))
+        .filter(candidate => candidate.distanceMeters <= DUPLICATE_RADIUS_KM * 1000)
+        .filter(candidate => candidate.nameSimilarity >= DUPLICATE_NAME_SIMILARITY)
+        .sort((a, b) => b.nameSimilarity - a.nameSimilarity || a.distanceMeters - b.distanceMeters);
+}
+
+/**
+ * Find pairs of live places that look like the same place: close together with similar names
+ * (or similar addresses), or sharing a Google place ID wherever they are. Most likely first.
+ */
+export async function findDuplicates(): Promise<DuplicatePair[]> {
+    const places = (await dynamodb.scanItems(dynamodb.PLACES_TABLE) as Place[])
+        .filter(place => place.id && place.location && placeService.isPlaceLive(place));
+
+    const cells = new Map<string, Place[]>();
+    const byGooglePlaceId = new Map<string, Place[]>();
+    for (const place of places) {
+        const cell = getCell(place);
+        cells.set(cell, [...(cells.get(cell) || []), place]);
+        if (place.googlePlaceId) {
+            byGooglePlaceId.set(place.googlePlaceId, [...(byGooglePlaceId.get(place.googlePlaceId) || []), place]);
+        }
+    }
+
+    // each place is compared with the places in its own and the neighbouring cells
+    const pairs = new Map<string, DuplicatePair>();
+    const compare = (a: Place, b: Place) => {
+        if (a.id === b.id) return;
+        const [first, second] = a.id! < b.id! ? [a, b] : [b, a];
+        const key = `${first.id}|${second.id}`;
+        if (pairs.has(key)) return;
+
+        const pair = comparePlaces(first, second);
+        if (isLikelyDuplicate(pair)) {
+            pairs.set(key, pair);
+        }
+    };
+
+    for (const place of places) {
+        const cell = getCell(place);
+        for (const nearbyCell of [cell, ...geohash.neighbors(cell)]) {
+            for (const other of cells.get(nearbyCell) || []) {
+                compare(place, other);
+            }
+        }
+    }
+    for (const samePlaces of byGooglePlaceId.values()) {
+        for (const place of samePlaces) {
+            for (const other of samePlaces) {
+                compare(place, other);
+            }
+        }
+    }
+
+    const strength = (pair: DuplicatePair) => pair.nameSimilarity + pair.addressSimilarity;
+    return [...pairs.values()].sort((a, b) =>
+        Number(b.sameGooglePlaceId) - Number(a.sameGooglePlaceId)
+        || strength(b) - strength(a)
+        || a.distanceMeters - b.distanceMeters
+    );
+}
+
+/**
+ * Merge a duplicate into the place that survives. The survivor keeps its own details and gains
+ * whatever it's missing, the duplicate's reviews, photos and check-ins move over, and the
+ * duplicate is kept as a merged record that redirects to the survivor.
+ * @returns null if either place doesn't exist
+ */
+export async function mergePlaces(survivorId: string, duplicateId: string, moderatorId: string): Promise<PlaceMergeResult | null> {
+    if (survivorId === duplicateId) {
+        throw new PlaceMergeError('A place cannot be merged into itself');
+    }
+
+    const [survivor, duplicate] = await Promise.all([
+        placeService.getPlaceById(survivorId),
+        placeService.getPlaceById(duplicateId),
+    ]);
+    if (!survivor || !duplicate) {
+        return null;
+    }
+    if (!placeService.isPlaceLive(survivor) || !placeService.isPlaceLive(duplicate)) {
+        throw new PlaceMergeError('Only live places can be merged');
+    }
+
+    const additions = getMergeAdditions(survivor, duplicate);
+    if (Object.keys(additions).length > 0) {
+        await placeService.updatePlace(survivorId, additions, moderatorId);
+    }
+
+    const reviewsMoved = await reviewService.moveReviews(duplicateId, survivorId);
+    const photosMoved = await photoService.movePhotos(duplicateId, survivorId);
+    const checkInsMoved = await busynessService.moveCheckIns(duplicateId, survivorId);
+    const favoritesMoved = await favoriteService.moveFavorites(duplicateId, survivorId);
+    const collectionsUpdated = await collectionService.moveCollectionItems(duplicateId, survivorId);
+    const teamFavoritesMoved = await teamPlaceService.moveTeamFavorites(duplicateId, survivorId);
+
+    await placeService.updatePlace(duplicateId, {
+        status: 'merged',
+        mergedInto: survivorId,
+        reviewedBy: moderatorId,
+        reviewedAt: new Date().toISOString(),
+    }, moderatorId);
+
+    console.log(`[mergePlaces] Merged ${duplicateId} into ${survivorId}: ${reviewsMoved} reviews, ${photosMoved} photos, `
+        + `${checkInsMoved} check-ins, ${favoritesMoved} favourites, ${collectionsUpdated} collections, `
+        + `${teamFavoritesMoved} team favourites`);
+    return {
+        place: (await placeService.getPlaceById(survivorId))!,
+        reviewsMoved,
+        photosMoved,
+        checkInsMoved,
+        favoritesMoved,
+        collectionsUpdated,
+        teamFavoritesMoved,
+    };
+}
+
+/**
+ * What merging another record into a place adds to it, the place's own values always win
+ */
+export function getMergeAdditions(target: Place, source: Place): Partial<Place> {
+    const additions: Partial<Place> = {};
+
+    for (const field of ['description', 'openingHours', 'googlePlaceId'] as const) {
+        if (!target[field] && source[field]) {
+            Object.assign(additions, { [field]: source[field] });
+        }
+    }
+
+    // amenities either record has are kept, none are taken away
+    const amenities = Object.entries(source.amenities || {})
+        .filter(([amenity, present]) => present && !target.amenities?.[amenity as keyof Place['amenities']]);
+    if (amenities.length > 0) {
+        additions.amenities = { ...target.amenities, ...Object.fromEntries(amenities) };
+    }
+
+    if (!target.attributes?.capacity && source.attributes?.capacity) {
+        additions.attributes = { ...target.attributes, capacity: source.attributes.capacity };
+    }
+
+    const photos = (source.photos || []).filter(photo => !target.photos?.includes(photo));
+    if (photos.length > 0) {
+        additions.photos = [...(target.photos || []), ...photos];
+    }
+
+    return additions;
+}
+
+function comparePlaces(a: Place, b: Place): DuplicatePair {
+    return {
+        placeIds: [a.id!, b.id!],
+        names: [a.name, b.name],
+        distanceMeters: getDistanceMeters(a, b),
+        nameSimilarity: roundSimilarity(searchService.nameSimilarity(a.name, b.name)),
+        addressSimilarity: roundSimilarity(searchService.nameSimilarity(a.address, b.address)),
+        sameGooglePlaceId: Boolean(a.googlePlaceId) && a.googlePlaceId === b.googlePlaceId,
+    };
+}
+
+function isLikelyDuplicate(pair: DuplicatePair): boolean {
+    if (pair.sameGooglePlaceId) return true;
+    if (pair.distanceMeters > DUPLICATE_RADIUS_KM * 1000) return false;
+
+    return pair.nameSimilarity >= DUPLICATE_NAME_SIMILARITY
+        || (pair.nameSimilarity >= WEAK_NAME_SIMILARITY && pair.addressSimilarity >= DUPLICATE_ADDRESS_SIMILARITY);
+}
+
+function getCell(place: Place): string {
+    return place.geohashPrefix6
+        ?? placeService.encodeGeohash(place.location.latitude, place.location.longitude, DUPLICATE_CELL_PRECISION);
+}
+
+function getDistanceMeters(a: Pick<Place, 'location'>, b: Pick<Place, 'location'>): number {
+    return Math.round(placeService.calculateDistance(
+        a.location.latitude, a.location.longitude, b.location.latitude, b.location.longitude
+    ) * 1000);
+}
+
+function roundSimilarity(similarity: number): number {
+    return Math.round(similarity * 100) / 100;
+}
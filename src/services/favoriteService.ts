@@ -0,0 +1,138 @@
+import * as dynamodb from '../utils/dynamodb.js';
+import * as placeService from './placeService.js';
+import { Place } from '../models/place.js';
+import { Favorite } from '../models/favorite.js';
+import { PageOptions } from '../models/pagination.js';
+import { PlacesPage } from './placeService.js';
+import { encodeCursor, decodeCursor, fingerprintQuery, InvalidCursorError } from '../utils/cursor.js';
+
+const FAVORITES_TABLE = process.env.FAVORITES_TABLE || 'workbru-favorites';
+const FAVORITES_USER_INDEX = 'userId-index';
+const FAVORITES_PLACE_INDEX = 'placeId-index';
+
+function getFavoriteId(placeId: string, userId: string): string {
+    return `${placeId}#${userId}`;
+}
+
+/**
+ * Favourite a place, favouriting it again keeps the original
+ * @returns null if the place doesn't exist
+ */
+export async function favoritePlace(placeId: string, userId: string): Promise<Favorite | null> {
+    const place = await placeService.getPlaceById(placeId);
+    if (!place || !placeService.isPlaceLive(place)) {
+        return null;
+    }
+
+    const existing = await dynamodb.getItem(FAVORITES_TABLE, { id: getFavoriteId(placeId, userId) });
+    if (existing) {
+        return existing as Favorite;
+    }
+
+    const favorite: Favorite = {
+        id: getFavoriteId(placeId, userId),
+        placeId,
+        userId,
+        createdAt: new Date().toISOString(),
+    };
+
+    await dynamodb.putItem(FAVORITES_TABLE, favorite);
+    return favorite;
+}
+
+/**
+ * @returns false if the place wasn't a favourite
+ */
+export async function unfavoritePlace(placeId: string, userId: string): Promise<boolean> {
+    const id = getFavoriteId(placeId, userId);
+    if (!await dynamodb.getItem(FAVORITES_TABLE, { id })) {
+        return false;
+    }
+
+    await dynamodb.deleteItem(FAVORITES_TABLE, { id });
+    return true;
+}
+
+export async function isFavorite(placeId: string, userId: string): Promise<boolean> {
+    return Boolean(await dynamodb.getItem(FAVORITES_TABLE, { id: getFavoriteId(placeId, userId) }));
+}
+
+/**
+ * Move a place's favourites to another place, e.g. when duplicates are merged.
+ * A user who favourited both places keeps their favourite of the other place.
+ * @returns the number of favourites moved
+ */
+export async function moveFavorites(fromPlaceId: string, toPlaceId: string): Promise<number> {
+    const favorites = await dynamodb.queryItems(
+        FAVORITES_TABLE,
+        'placeId = :placeId',
+        { ':placeId': fromPlaceId },
+        FAVORITES_PLACE_INDEX
+    ) as Favorite[];
+    let moved = 0;
+
+    for (const favorite of favorites) {
+        const id = getFavoriteId(toPlaceId, favorite.userId);
+        if (await dynamodb.putNewItem(FAVORITES_TABLE, { ...favorite, id, placeId: toPlaceId })) {
+            moved++;
+        }
+        await dynamodb.deleteItem(FAVORITES_TABLE, { id: favorite.id });
+    }
+
+    return moved;
+}
+
+/**
+ * A user's favourite places, most recently favourited first. Places that have since been
+ * deleted are left out but stay favourited, so they come back if the place is restored.
+ */
+export async function getFavorites(userId: string, page: PageOptions = {}): Promise<PlacesPage> {
+    const fingerprint = fingerprintQuery({ route: 'favorites', userId });
+    let offset = 0;
+    if (page.cursor) {
+        const data = await decodeCursor<{ q: string, offset?: number }>(page.cursor);
+        if (data.q !== fingerprint) {
+            throw new InvalidCursorError('Cursor does not belong to this query');
+        }
+        offset = data.offset ?? 0;
+    }
+
+    const favorites = await getUserFavorites(userId);
+    favorites.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    const places = (await placeService.getPlacesByIds(favorites.map(favorite => favorite.placeId)))
+        .filter(place => placeService.isPlaceLive(place))
+        .map(place => ({ ...place, isFavorite: true }));
+
+    const end = page.limit ? offset + page.limit : places.length;
+    return {
+        places: places.slice(offset, end),
+        nextCursor: end < places.length ? await encodeCursor({ q: fingerprint, offset: end }) : undefined,
+    };
+}
+
+/**
+ * Mark which places the user has favourited, places are returned as they are when nobody is signed in
+ */
+export async function withFavorites(places: Place[], userId?: string | null): Promise<Place[]> {
+    if (!userId) {
+        return places;
+    }
+
+    // one lookup per place is cheaper for a single place than reading all of the user's favourites
+    if (places.length === 1) {
+        return [{ ...places[0], isFavorite: await isFavorite(places[0].id!, userId) }];
+    }
+
+    const favoriteIds = new Set((await getUserFavorites(userId)).map(favorite => favorite.placeId));
+    return places.map(place => ({ ...place, isFavorite: favoriteIds.has(place.id!) }));
+}
+
+async function getUserFavorites(userId: string): Promise<Favorite[]> {
+    return await dynamodb.queryItems(
+        FAVORITES_TABLE,
+        'userId = :userId',
+        { ':userId': userId },
+        FAVORITES_USER_INDEX
+    ) as Favorite[];
+}
@@ -0,0 +1,130 @@
+import { Place, OpenStatus } from '../models/place.js';
+import { lookupTimeZone, getZonedTime } from '../utils/timezone.js';
+
+export const DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+export const CLOSING_SOON_MINUTES = 30;
+
+type Day = typeof DAYS[number];
+
+// an opening interval in minutes from monday 00:00, end may spill into the next week
+interface OpenInterval {
+    day: Day;
+    start: number;
+    end: number;
+    open: string;
+    close: string;
+}
+
+/**
+ * Parse an "HH:MM" string into minutes since midnight, null if malformed
+ */
+export function parseTime(time: string): number | null {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(time?.trim() ?? '');
+    if (!match) return null;
+
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    // allow "24:00" as an alias for midnight closing
+    if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+
+    return hours * 60 + minutes;
+}
+
+/**
+ * Minutes since monday 00:00 for the given instant, in the given time zone
+ * (falls back to server local time, which is UTC in Lambda)
+ */
+export function getWeekMinutes(at: Date, timeZone?: string): number {
+    const { day, hours, minutes } = timeZone
+        ? getZonedTime(at, timeZone)
+        : { day: at.getDay(), hours: at.getHours(), minutes: at.getMinutes() };
+
+    const dayIndex = (day + 6) % 7; // getDay() starts the week on sunday
+    return dayIndex * MINUTES_PER_DAY + hours * 60 + minutes;
+}
+
+/**
+ * The zone a place's opening hours are written in.
+ * Places saved before time zones were stored get one derived from their location.
+ */
+export function getPlaceTimeZone(place: Place): string | undefined {
+    if (place.timeZone) return place.timeZone;
+    if (!place.location) return undefined;
+
+    return lookupTimeZone(place.location.latitude, place.location.longitude) ?? undefined;
+}
+
+/**
+ * Convert a place's openingHours into week intervals.
+ * A close time at or before the open time means the place closes after midnight.
+ */
+export function getOpenIntervals(openingHours: Place['openingHours']): OpenInterval[] {
+    const intervals: OpenInterval[] = [];
+
+    for (const entry of openingHours || []) {
+        const dayIndex = DAYS.indexOf(entry.day);
+        const open = parseTime(entry.open);
+        const close = parseTime(entry.close);
+        if (dayIndex === -1 || open === null || close === null) continue;
+
+        const start = dayIndex * MINUTES_PER_DAY + open;
+        let end = dayIndex * MINUTES_PER_DAY + close;
+        if (close <= open) {
+            end += MINUTES_PER_DAY;
+        }
+
+        intervals.push({ day: entry.day, start, end, open: entry.open, close: entry.close });
+    }
+
+    return intervals;
+}
+
+/**
+ * Work out whether a place is open, closing soon or closed at the given time,
+ * evaluated in the place's own time zone.
+ * Returns undefined when the place has no usable opening hours.
+ */
+export function getOpenStatus(place: Place, at: Date = new Date()): OpenStatus | undefined {
+    const intervals = getOpenIntervals(place.openingHours);
+    if (intervals.length === 0) return undefined;
+
+    const now = getWeekMinutes(at, getPlaceTimeZone(place));
+
+    // sunday intervals that close after midnight spill into the start of the week
+    const current = intervals.find(interval =>
+        (now >= interval.start && now < interval.end) ||
+        (now + MINUTES_PER_WEEK >= interval.start && now + MINUTES_PER_WEEK < interval.end)
+    );
+
+    if (current) {
+        const remaining = (current.end - now) % MINUTES_PER_WEEK;
+        return {
+            state: remaining <= CLOSING_SOON_MINUTES ? 'closing-soon' : 'open',
+            closesAt: current.close,
+        };
+    }
+
+    // find the next interval start, wrapping around the end of the week
+    let next: OpenInterval | undefined;
+    let nextDelta = Infinity;
+    for (const interval of intervals) {
+        const delta = (interval.start - now + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+        if (delta < nextDelta) {
+            next = interval;
+            nextDelta = delta;
+        }
+    }
+
+    return {
+        state: 'closed',
+        nextOpen: next ? { day: next.day, time: next.open } : undefined,
+    };
+}
+
+export function isOpenAt(place: Place, at: Date = new Date()): boolean {
+    const status = getOpenStatus(place, at);
+    return status?.state === 'open' || status?.state === 'closing-soon';
+}
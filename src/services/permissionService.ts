@@ -1,12 +1,28 @@
 import * as userService from './userService.js';
 import * as placeService from './placeService.js';
+import * as reviewService from './reviewService.js';
+import * as teamService from './teamService.js';
+import * as teamPlaceService from './teamPlaceService.js';
 
 export enum Permission {
     READ_PLACE = 'READ_PLACE',
     CREATE_PLACE = 'CREATE_PLACE',
     UPDATE_PLACE = 'UPDATE_PLACE',
     DELETE_PLACE = 'DELETE_PLACE',
-    MANAGE_USERS = 'MANAGE_USERS'
+    DELETE_REVIEW = 'DELETE_REVIEW',
+    MODERATE_PHOTOS = 'MODERATE_PHOTOS',
+    MODERATE_SUGGESTIONS = 'MODERATE_SUGGESTIONS',
+    MODERATE_PLACES = 'MODERATE_PLACES',
+    RESTORE_PLACE = 'RESTORE_PLACE',
+    IMPORT_PLACES = 'IMPORT_PLACES',
+    EXPORT_PLACES = 'EXPORT_PLACES',
+    MANAGE_USERS = 'MANAGE_USERS',
+    VIEW_TEAM = 'VIEW_TEAM',
+    EDIT_TEAM_PLACES = 'EDIT_TEAM_PLACES',
+    MANAGE_TEAM = 'MANAGE_TEAM',
+    DELETE_TEAM = 'DELETE_TEAM',
+    UPDATE_TEAM_NOTE = 'UPDATE_TEAM_NOTE',
+    DELETE_TEAM_NOTE = 'DELETE_TEAM_NOTE'
 }
 
 /**
@@ -17,6 +33,39 @@ export async function hasPermission(userId: string, permission: Permission, reso
     if (!userId) return false;
 
     try {
+        // team permissions come from the user's role on the team, site admins aren't on every team
+        // and don't get to read their private notes
+        switch (permission) {
+            case Permission.VIEW_TEAM:
+            case Permission.EDIT_TEAM_PLACES:
+                // any member can see and add to the shared favourites and notes
+                if (!resourceId) return false;
+                return await teamService.hasTeamRole(resourceId, userId, 'member');
+
+            case Permission.MANAGE_TEAM:
+                // admins and owners rename the team and manage its members and invites
+                if (!resourceId) return false;
+                return await teamService.hasTeamRole(resourceId, userId, 'admin');
+
+            case Permission.DELETE_TEAM:
+                if (!resourceId) return false;
+                return await teamService.hasTeamRole(resourceId, userId, 'owner');
+
+            case Permission.UPDATE_TEAM_NOTE:
+            case Permission.DELETE_TEAM_NOTE: {
+                if (!resourceId) return false;
+
+                // authors can change their own notes while they're on the team, team admins can remove any
+                const annotation = await teamPlaceService.getAnnotationById(resourceId);
+                if (!annotation) return false;
+                if (annotation.userId === userId) {
+                    return await teamService.hasTeamRole(annotation.teamId, userId, 'member');
+                }
+                return permission === Permission.DELETE_TEAM_NOTE
+                    && await teamService.hasTeamRole(annotation.teamId, userId, 'admin');
+            }
+        }
+
         // check if user is admin 
         const isAdmin = await isUserAdmin(userId);
         if (isAdmin) return true;
@@ -35,14 +84,47 @@ export async function hasPermission(userId: string, permission: Permission, reso
             case Permission.DELETE_PLACE:
                 if (!resourceId) return false;
 
-                // check if user is the creator of the place
+                // check if user is the creator of the place. Submitters aren't, a place with a status
+                // went through moderation and changing it afterwards would get around the review
                 const place = await placeService.getPlaceById(resourceId);
-                return place?.createdBy === userId;
+                return place?.createdBy === userId && !place.status;
+
+            case Permission.DELETE_REVIEW: {
+                if (!resourceId) return false;
+
+                // authors can delete their own reviews, admins (above) can remove any
+                const review = await reviewService.getReviewById(resourceId);
+                return review?.userId === userId;
+            }
 
             case Permission.MANAGE_USERS: 
                 // only admins can manage users
                 return false;
 
+            case Permission.MODERATE_PHOTOS:
+                // only admins can approve or reject photos
+                return false;
+
+            case Permission.MODERATE_SUGGESTIONS:
+                // only admins can review suggested edits
+                return false;
+
+            case Permission.MODERATE_PLACES:
+                // only admins can approve, reject or merge submitted places
+                return false;
+
+            case Permission.RESTORE_PLACE:
+                // only admins can roll a place back to an earlier revision or take it out of the trash
+                return false;
+
+            case Permission.IMPORT_PLACES:
+                // only admins can create and update places in bulk
+                return false;
+
+            case Permission.EXPORT_PLACES:
+                // only admins can download the whole catalogue
+                return false;
+
             default: 
                 return false;
         }
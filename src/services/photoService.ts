@@ -0,0 +1,382 @@
+import { v4 as uuidv4 } from 'uuid';
+import * as dynamodb from '../utils/dynamodb.js';
+import * as storage from '../utils/storage.js';
+import * as images from '../utils/images.js';
+import * as placeService from './placeService.js';
+import { PageOptions } from '../models/pagination.js';
+import { encodeCursor, decodeCursor, fingerprintQuery, InvalidCursorError } from '../utils/cursor.js';
+import {
+    Photo,
+    PhotoVariant,
+    PhotoVariantName,
+    PHOTO_VARIANTS,
+    PHOTO_CONTENT_TYPES,
+    PhotoConfirm,
+    PhotoModeration,
+    PhotoUploadRequest,
+    PhotoUploadRequestSchema,
+    PhotoConfirmSchema,
+    PhotoModerationSchema
+} from '../models/photo.js';
+
+const PHOTOS_TABLE = process.env.PHOTOS_TABLE || 'workbru-photos';
+const PHOTOS_PLACE_INDEX = 'placeId-index';
+const PHOTOS_STATUS_INDEX = 'status-index';
+
+// largest upload we'll sign a URL for
+export const MAX_PHOTO_BYTES = Number(process.env.MAX_PHOTO_BYTES || 10 * 1024 * 1024);
+
+const UPLOAD_URL_EXPIRY_SECONDS = 15 * 60;
+// unconfirmed photo records are dropped by the table TTL after a day
+const UNCONFIRMED_TTL_SECONDS = 24 * 60 * 60;
+// writes of a photo that lost a race with another write, e.g. confirming while it's processed, are retried this many times
+const WRITE_ATTEMPTS = 5;
+
+export interface PhotoUpload {
+    photo: Photo;
+    uploadUrl: string;
+    expiresIn: number;
+    headers: Record<string, string>; // must be sent with the PUT exactly as given
+}
+
+// a photo as returned to clients, with time limited links to each size
+export type PhotoView = Photo & { urls: Partial<Record<PhotoVariantName, string>> };
+
+export interface PhotosPage {
+    photos: PhotoView[];
+    nextCursor?: string;
+}
+
+/**
+ * Thrown when an upload can't be accepted, e.g. too large or never actually uploaded
+ */
+export class PhotoUploadError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PhotoUploadError';
+    }
+}
+
+export async function getPhotoById(photoId: string): Promise<Photo | null> {
+    const item = await dynamodb.getItem(PHOTOS_TABLE, { id: photoId });
+    return item as Photo | null;
+}
+
+/**
+ * Start an upload: record the photo and sign a URL the client can PUT the image to
+ * @returns null if the place doesn't exist
+ */
+export async function requestPhotoUpload(
+    placeId: string,
+    userId: string,
+    request: PhotoUploadRequest
+): Promise<PhotoUpload | null> {
+    const { contentType, sizeBytes } = PhotoUploadRequestSchema.parse(request);
+    if (sizeBytes > MAX_PHOTO_BYTES) {
+        throw new PhotoUploadError(`Photos can be at most ${MAX_PHOTO_BYTES} bytes`);
+    }
+
+    const place = await placeService.getPlaceById(placeId);
+    if (!place) {
+        return null;
+    }
+
+    const id = uuidv4();
+    const now = new Date();
+    const photo: Photo = {
+        id,
+        placeId,
+        key: `photos/${placeId}/${id}/original`,
+        contentType,
+        sizeBytes,
+        uploadedBy: userId,
+        status: 'awaiting-upload',
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+        expiresAt: Math.floor(now.getTime() / 1000) + UNCONFIRMED_TTL_SECONDS,
+    };
+
+    await dynamodb.putItem(PHOTOS_TABLE, photo);
+    const uploadUrl = await storage.getUploadUrl(photo.key, contentType, sizeBytes, UPLOAD_URL_EXPIRY_SECONDS);
+
+    return {
+        photo,
+        uploadUrl,
+        expiresIn: UPLOAD_URL_EXPIRY_SECONDS,
+        headers: { 'Content-Type': contentType, 'Content-Length': String(sizeBytes) },
+    };
+}
+
+/**
+ * Finish an upload once the image is in the bucket, the photo then waits for moderation
+ * @returns null if the photo doesn't exist
+ */
+export async function confirmPhotoUpload(photoId: string, details: PhotoConfirm = {}): Promise<Photo | null> {
+    const { width, height, ...confirmDetails } = PhotoConfirmSchema.parse(details);
+
+    return savePhoto(photoId, async photo => {
+        if (photo.status === 'rejected') {
+            throw new PhotoUploadError(photo.moderationReason || 'Photo was rejected');
+        }
+        if (photo.status !== 'awaiting-upload') {
+            throw new PhotoUploadError('Photo upload has already been confirmed');
+        }
+
+        // once processed the original is gone, and processing has already checked it
+        if (!photo.processedAt) {
+            const stored = await storage.headObject(photo.key);
+            if (!stored) {
+                throw new PhotoUploadError('Photo has not been uploaded yet');
+            }
+            if (stored.size !== photo.sizeBytes) {
+                throw new PhotoUploadError('Uploaded file does not match the requested size');
+            }
+        }
+
+        const now = new Date().toISOString();
+        // no TTL once confirmed
+        const { expiresAt, ...confirmed } = photo;
+        return {
+            ...confirmed,
+            ...confirmDetails,
+            // the client's dimensions are only a stand-in until processing has measured the image itself
+            ...(photo.processedAt ? {} : { width, height }),
+            status: 'pending',
+            confirmedAt: now,
+            updatedAt: now,
+        };
+    });
+}
+
+/**
+ * Get a place's approved photos, newest first. Photos are only listed once processing has made their variants.
+ * Pass the signed in user's ID to include their own photos that are still in moderation.
+ */
+export async function getPhotosForPlace(placeId: string, userId?: string): Promise<PhotoView[]> {
+    const items = await dynamodb.queryItems(
+        PHOTOS_TABLE,
+        'placeId = :placeId',
+        { ':placeId': placeId },
+        PHOTOS_PLACE_INDEX
+    ) as Photo[];
+
+    const visible = items
+        .filter(photo => photo.variants)
+        .filter(photo => photo.status === 'approved' || (userId && photo.uploadedBy === userId && photo.status === 'pending'))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return Promise.all(visible.map(withUrls));
+}
+
+/**
+ * The photo moderation queue, oldest first. Like place listings, photos only show up once they've been processed.
+ */
+export async function getPendingPhotos(page: PageOptions = {}): Promise<PhotosPage> {
+    const fingerprint = fingerprintQuery({ route: 'pending-photos' });
+    let offset = 0;
+    if (page.cursor) {
+        const data = await decodeCursor<{ q: string, offset?: number }>(page.cursor);
+        if (data.q !== fingerprint) {
+            throw new InvalidCursorError('Cursor does not belong to this query');
+        }
+        offset = data.offset ?? 0;
+    }
+
+    const items = await dynamodb.queryItems(
+        PHOTOS_TABLE,
+        '#status = :status',
+        { ':status': 'pending' },
+        PHOTOS_STATUS_INDEX,
+        { '#status': 'status' }
+    ) as Photo[];
+
+    const pending = items
+        .filter(photo => photo.variants)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    const end = page.limit ? offset + page.limit : pending.length;
+    return {
+        photos: await Promise.all(pending.slice(offset, end).map(withUrls)),
+        nextCursor: end < pending.length ? await encodeCursor({ q: fingerprint, offset: end }) : undefined,
+    };
+}
+
+async function withUrls(photo: Photo): Promise<PhotoView> {
+    const urls: Partial<Record<PhotoVariantName, string>> = {};
+    for (const [name, variant] of Object.entries(photo.variants!)) {
+        urls[name as PhotoVariantName] = await storage.getDownloadUrl(variant.key);
+    }
+    return { ...photo, urls };
+}
+
+/**
+ * Move every photo of a place to another place, e.g. when duplicates are merged.
+ * Object keys keep the old place ID, they're only ever read from the photo record.
+ * @returns the number of photos moved
+ */
+export async function movePhotos(fromPlaceId: string, toPlaceId: string): Promise<number> {
+    const photos = await dynamodb.queryItems(
+        PHOTOS_TABLE,
+        'placeId = :placeId',
+        { ':placeId': fromPlaceId },
+        PHOTOS_PLACE_INDEX
+    ) as Photo[];
+
+    await Promise.all(photos.map(photo => dynamodb.putItem(PHOTOS_TABLE, { ...photo, placeId: toPlaceId })));
+    return photos.length;
+}
+
+/**
+ * Work out which photo an uploaded object belongs to
+ * @returns null if the key isn't a photo original
+ */
+export function getPhotoIdFromKey(key: string): string | null {
+    const match = key.match(/^photos\/[^/]+\/([^/]+)\/original$/);
+    return match ? match[1] : null;
+}
+
+/**
+ * Turn an uploaded original into resized, metadata free variants and delete the original.
+ * Uploads that aren't images, are too large or don't match what was requested are rejected.
+ * Runs from the bucket's upload notification, and from the processPhotos job for anything that was missed.
+ * @returns the updated photo, or null if there's no such photo or nothing has been uploaded yet
+ */
+export async function processPhoto(photoId: string): Promise<Photo | null> {
+    const photo = await getPhotoById(photoId);
+    if (!photo) {
+        return null;
+    }
+    if (photo.processedAt || photo.status === 'rejected') {
+        return photo;
+    }
+
+    const stored = await storage.headObject(photo.key);
+    if (!stored) {
+        return null;
+    }
+    if (stored.size > MAX_PHOTO_BYTES) {
+        return rejectUpload(photo, `Photos can be at most ${MAX_PHOTO_BYTES} bytes`);
+    }
+    if (stored.size !== photo.sizeBytes) {
+        return rejectUpload(photo, 'Uploaded file does not match the requested size');
+    }
+
+    const body = await storage.getObject(photo.key);
+    const info = body && await images.readImageInfo(body);
+    if (!body || !info || !(PHOTO_CONTENT_TYPES as readonly string[]).includes(`image/${info.format}`)) {
+        return rejectUpload(photo, 'Uploaded file is not a supported image');
+    }
+
+    const variants: Partial<Record<PhotoVariantName, PhotoVariant>> = {};
+    for (const [name, size] of Object.entries(PHOTO_VARIANTS)) {
+        const resized = await images.resizeImage(body, size.width, size.height, size.fit);
+        const key = `photos/${photo.placeId}/${photo.id}/${name}.webp`;
+        await storage.putObject(key, resized.body, resized.contentType);
+        variants[name as PhotoVariantName] = {
+            key,
+            contentType: resized.contentType,
+            width: resized.width,
+            height: resized.height,
+            sizeBytes: resized.body.length,
+        };
+    }
+
+    // applied to the photo as it is now, the uploader may have confirmed while we were resizing
+    const processedPhoto = await savePhoto(photoId, async current => {
+        if (current.processedAt || current.status === 'rejected') {
+            return current;
+        }
+        const now = new Date().toISOString();
+        return {
+            ...current,
+            variants,
+            width: info.width,
+            height: info.height,
+            processedAt: now,
+            updatedAt: now,
+        };
+    });
+    // the original still has its EXIF data, so it isn't kept
+    await storage.deleteObject(photo.key);
+
+    console.log(`[Photos] Processed photo ${photo.id}`);
+    return processedPhoto;
+}
+
+/**
+ * Process every uploaded photo that hasn't been processed yet
+ * @returns the number of photos processed or rejected
+ */
+export async function processUnprocessedPhotos(): Promise<number> {
+    const photos = await dynamodb.scanItems(PHOTOS_TABLE) as Photo[];
+    let processed = 0;
+
+    for (const photo of photos) {
+        if (photo.processedAt || photo.status === 'rejected') continue;
+        if (await processPhoto(photo.id)) {
+            processed++;
+        }
+    }
+
+    return processed;
+}
+
+// reject an upload that failed processing and remove the file
+async function rejectUpload(photo: Photo, reason: string): Promise<Photo | null> {
+    const rejectedPhoto = await savePhoto(photo.id, async current => ({
+        ...current,
+        status: 'rejected',
+        moderationReason: reason,
+        updatedAt: new Date().toISOString(),
+    }));
+    await storage.deleteObject(photo.key);
+
+    console.log(`[Photos] Rejected photo ${photo.id}: ${reason}`);
+    return rejectedPhoto;
+}
+
+/**
+ * Approve or reject a confirmed photo
+ * @returns null if the photo doesn't exist
+ */
+export async function moderatePhoto(photoId: string, moderatorId: string, moderation: PhotoModeration): Promise<Photo | null> {
+    const { status, reason } = PhotoModerationSchema.parse(moderation);
+
+    return savePhoto(photoId, async photo => {
+        if (photo.status === 'awaiting-upload') {
+            throw new PhotoUploadError('Photo upload has not been confirmed yet');
+        }
+        return {
+            ...photo,
+            status,
+            moderatedBy: moderatorId,
+            moderationReason: reason,
+            updatedAt: new Date().toISOString(),
+        };
+    });
+}
+
+/**
+ * Apply a change to a photo as it's stored now. The write only goes through if nothing else wrote
+ * the photo since it was read, otherwise the change is made again on a fresh copy.
+ * @param change the photo as it should be saved, or the photo itself to leave it as it is
+ * @returns null if the photo doesn't exist
+ */
+async function savePhoto(photoId: string, change: (photo: Photo) => Promise<Photo>): Promise<Photo | null> {
+    for (let attempt = 0; attempt < WRITE_ATTEMPTS; attempt++) {
+        const photo = await getPhotoById(photoId);
+        if (!photo) {
+            return null;
+        }
+
+        const changed = await change(photo);
+        if (changed === photo) {
+            return photo;
+        }
+        if (await dynamodb.putVersionedItem(PHOTOS_TABLE, changed, photo.version)) {
+            return { ...changed, version: (photo.version ?? 0) + 1 };
+        }
+    }
+
+    throw new Error(`Photo ${photoId} kept changing, gave up after ${WRITE_ATTEMPTS} attempts`);
+}
@@ -0,0 +1,159 @@
+import { v4 as uuidv4 } from 'uuid';
+import * as dynamodb from '../utils/dynamodb.js';
+import * as storage from '../utils/storage.js';
+import * as placeService from './placeService.js';
+import { Place, PlaceFilters } from '../models/place.js';
+import { PlaceExportFormat } from '../models/placeExport.js';
+import { CSV_CONTENT_TYPE, toCsvRow } from '../utils/csv.js';
+import { GEOJSON_CONTENT_TYPE, placeToFeature } from '../utils/geojson.js';
+
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+export const PLACE_EXPORT_CONTENT_TYPES: Record<PlaceExportFormat, string> = {
+    csv: CSV_CONTENT_TYPE,
+    geojson: GEOJSON_CONTENT_TYPE,
+    ndjson: NDJSON_CONTENT_TYPE,
+};
+
+// places read from the table at a time, only one page is held in memory
+export const PLACE_EXPORT_PAGE_SIZE = Number(process.env.PLACE_EXPORT_PAGE_SIZE || 200);
+
+// anything bigger goes to the assets bucket, Lambda responses are capped at 6 MB
+export const PLACE_EXPORT_INLINE_MAX_BYTES = Number(process.env.PLACE_EXPORT_INLINE_MAX_BYTES || 4 * 1024 * 1024);
+
+const EXPORT_LINK_EXPIRY_SECONDS = 3600;
+
+// the columns the importer reads, so an export can be edited and imported again, then read-only ones
+const CSV_COLUMNS = [
+    'id', 'googlePlaceId', 'name', 'description', 'address', 'latitude', 'longitude',
+    'wifi', 'coffee', 'outlets', 'seating', 'food', 'meetingRooms',
+    'parking', 'capacity', 'noiseLevel', 'openLate', 'isPublic', 'openingHours',
+    'rating', 'reviewCount', 'createdAt', 'updatedAt',
+];
+
+export interface PlaceExport {
+    format: PlaceExportFormat;
+    count: number;
+    contentType: string;
+    filename: string;
+    body?: string; // the whole export, when it's small enough to return directly
+    url?: string; // otherwise a download link for it in the assets bucket
+    expiresAt?: string;
+}
+
+/**
+ * Export the live places matching the filters. Small exports come back in full, bigger ones
+ * are written to the assets bucket as they're read and come back as a download link.
+ */
+export async function exportPlaces(
+    format: PlaceExportFormat,
+    filters: PlaceFilters = {},
+    now: Date = new Date()
+): Promise<PlaceExport> {
+    const contentType = PLACE_EXPORT_CONTENT_TYPES[format];
+    const filename = `places-${now.toISOString().slice(0, 10)}.${format}`;
+    const key = `exports/${uuidv4()}/${filename}`;
+
+    // held in memory until it outgrows a response, then moved into an object
+    const chunks: string[] = [];
+    let size = 0;
+    const output: { writer?: storage.ObjectWriter } = {};
+
+    let count: number;
+    try {
+        count = await writePlaces(format, filters, async chunk => {
+            if (output.writer) {
+                return output.writer.write(chunk);
+            }
+
+            chunks.push(chunk);
+            size += Buffer.byteLength(chunk);
+            if (size > PLACE_EXPORT_INLINE_MAX_BYTES) {
+                output.writer = await storage.openObjectWriter(key, contentType);
+                await output.writer.write(chunks.join(''));
+                chunks.length = 0;
+            }
+        });
+    } catch (error) {
+        await output.writer?.abort();
+        throw error;
+    }
+
+    if (!output.writer) {
+        return { format, count, contentType, filename, body: chunks.join('') };
+    }
+
+    const stored = await output.writer.close();
+    console.log(`[exportPlaces] Wrote ${count} places (${stored.size} bytes) to ${key}`);
+
+    return {
+        format,
+        count,
+        contentType,
+        filename,
+        url: await storage.getDownloadUrl(key, EXPORT_LINK_EXPIRY_SECONDS, filename),
+        expiresAt: new Date(now.getTime() + EXPORT_LINK_EXPIRY_SECONDS * 1000).toISOString(),
+    };
+}
+
+/**
+ * Read the places table a page at a time and write the live places matching the filters
+ * @param write called with each chunk of output, in order
+ * @returns how many places were written
+ */
+export async function writePlaces(
+    format: PlaceExportFormat,
+    filters: PlaceFilters,
+    write: (chunk: string) => Promise<void>
+): Promise<number> {
+    const appliedFilters = placeService.getAppliedFilters(filters);
+    const at = placeService.resolveFilterTime(appliedFilters);
+    let count = 0;
+    let startKey: Record<string, any> | undefined;
+
+    if (format === 'csv') {
+        await write(toCsvRow(CSV_COLUMNS));
+    } else if (format === 'geojson') {
+        await write('{"type":"FeatureCollection","features":[');
+    }
+
+    do {
+        const page = await dynamodb.scanPage(dynamodb.PLACES_TABLE, PLACE_EXPORT_PAGE_SIZE, startKey);
+        const places = placeService.applyPlaceFilters(page.items as Place[], appliedFilters, at);
+
+        if (places.length > 0) {
+            // GeoJSON features are comma separated, including across pages
+            const separator = format === 'geojson' && count > 0 ? ',' : '';
+            await write(separator + places.map(place => formatPlace(format, place)).join(format === 'geojson' ? ',' : ''));
+            count += places.length;
+        }
+        startKey = page.lastEvaluatedKey;
+    } while (startKey);
+
+    if (format === 'geojson') {
+        await write(']}');
+    }
+
+    return count;
+}
+
+function formatPlace(format: PlaceExportFormat, place: Place): string {
+    if (format === 'csv') {
+        const values: Record<string, unknown> = {
+            ...place,
+            ...place.amenities,
+            ...place.attributes,
+            latitude: place.location.latitude,
+            longitude: place.location.longitude,
+            // the same "monday 09:00-17:00; ..." form the importer reads
+            openingHours: place.openingHours?.map(hours => `${hours.day} ${hours.open}-${hours.close}`).join('; '),
+        };
+        return toCsvRow(CSV_COLUMNS.map(column => values[column]));
+    }
+
+    if (format === 'geojson') {
+        return JSON.stringify(placeToFeature(place));
+    }
+
+    return JSON.stringify(place) + '\n';
+}
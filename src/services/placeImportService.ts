@@ -0,0 +1,267 @@
+import { z } from 'zod';
+import * as dynamodb from '../utils/dynamodb.js';
+import * as placeService from './placeService.js';
+import * as placeRevisionService from './placeRevisionService.js';
+import { Place, PlaceSchema } from '../models/place.js';
+import { PlaceImportFormat, PlaceImportResult, PlaceImportRowError } from '../models/placeImport.js';
+import { parseCsv } from '../utils/csv.js';
+
+// more rows than this should be split into several imports, an import has to finish within API Gateway's 29s
+export const PLACE_IMPORT_MAX_ROWS = Number(process.env.PLACE_IMPORT_MAX_ROWS || 500);
+
+// columns, or GeoJSON properties, that map onto a place. amenities and attributes can also be
+// nested objects, as in our own GeoJSON. Ratings come from reviews, so they're never imported.
+const TEXT_COLUMNS = ['id', 'name', 'description', 'address', 'googlePlaceId'] as const;
+const AMENITY_COLUMNS = ['wifi', 'coffee', 'outlets', 'seating', 'food', 'meetingRooms'] as const;
+const ATTRIBUTE_TEXT_COLUMNS = ['parking', 'capacity', 'noiseLevel'] as const;
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+// e.g. "monday 09:00-17:00", several separated by semicolons
+const OPENING_HOURS_PATTERN = /^([a-z]+)\s+(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/i;
+
+const NewPlaceSchema = PlaceSchema.omit({ id: true, createdAt: true, updatedAt: true });
+
+type PlaceChange = { row: number, before: Place | null, after: Place };
+
+/**
+ * Thrown when an import can't be read at all, or for a problem with a single row
+ */
+export class PlaceImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PlaceImportError';
+    }
+}
+
+/**
+ * Import places from a CSV or GeoJSON file. Rows matching a place by ID or googlePlaceId update it,
+ * blank columns leave its values alone, other rows create new places.
+ * Every row is validated first. Nothing is written on a dry run, or when any row has errors;
+ * otherwise the places are written in transactional batches. If a batch fails the ones before it
+ * stay written, and the result's partial lists the rows that were imported.
+ * @param userId the admin doing the import, recorded as the creator of new places and in their history
+ * @throws PlaceImportError if the file can't be parsed or has too many rows
+ */
+export async function importPlaces(
+    format: PlaceImportFormat,
+    body: string,
+    userId?: string,
+    dryRun: boolean = false
+): Promise<PlaceImportResult> {
+    const rows = parseImportRows(format, body);
+    if (rows.length > PLACE_IMPORT_MAX_ROWS) {
+        throw new PlaceImportError(`Imports are limited to ${PLACE_IMPORT_MAX_ROWS} rows, this one has ${rows.length}`);
+    }
+
+    // deleted places are included so their IDs aren't reused
+    const stored = await dynamodb.scanItems(dynamodb.PLACES_TABLE) as Place[];
+    const byId = new Map(stored.map(place => [place.id, place]));
+    const byGooglePlaceId = new Map(stored
+        .filter(place => place.googlePlaceId && !place.deletedAt)
+        .map(place => [place.googlePlaceId, place]));
+
+    const changes: PlaceChange[] = [];
+    const errors: PlaceImportRowError[] = [];
+    const matchedRows = new Map<string, number>();
+    let skipped = 0;
+
+    rows.forEach((fields, index) => {
+        const row = index + 1;
+        try {
+            const { id, ...placeData } = mapRow(fields);
+            if (id && !z.string().uuid().safeParse(id).success) {
+                throw new PlaceImportError('id: Invalid uuid');
+            }
+
+            const existing = (id && byId.get(id)) || (placeData.googlePlaceId && byGooglePlaceId.get(placeData.googlePlaceId)) || null;
+            if (existing && id && existing.id !== id) {
+                throw new PlaceImportError(`googlePlaceId: Already belongs to place ${existing.id}`);
+            }
+            if (existing?.deletedAt) {
+                throw new PlaceImportError(`id: Place ${existing.id} has been deleted`);
+            }
+
+            // the same place twice in one file is almost certainly a mistake
+            const key = existing?.id ?? id ?? (placeData.googlePlaceId && `google:${placeData.googlePlaceId}`);
+            if (key) {
+                if (matchedRows.has(key)) {
+                    throw new PlaceImportError(`Same place as row ${matchedRows.get(key)}`);
+                }
+                matchedRows.set(key, row);
+            }
+
+            if (existing) {
+                const updated = placeService.buildUpdatedPlace(existing, placeData);
+                if (placeRevisionService.getFieldChanges(existing, updated).length === 0) {
+                    skipped++;
+                } else {
+                    changes.push({ row, before: existing, after: updated });
+                }
+            } else {
+                // parsing fills in the amenity and attribute defaults a new place needs, and names
+                // missing required ones such as attributes.noiseLevel
+                const newPlace = NewPlaceSchema.parse({
+                    ...placeData,
+                    amenities: placeData.amenities ?? {},
+                    attributes: placeData.attributes ?? {},
+                });
+                changes.push({ row, before: null, after: placeService.buildNewPlace(newPlace, userId, id) });
+            }
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                errors.push({ row, errors: error.issues.map(issue => `${issue.path.join('.') || 'row'}: ${issue.message}`) });
+            } else if (error instanceof PlaceImportError) {
+                errors.push({ row, errors: [error.message] });
+            } else {
+                throw error;
+            }
+        }
+    });
+
+    const result: PlaceImportResult = {
+        dryRun,
+        created: changes.filter(change => !change.before).length,
+        updated: changes.filter(change => change.before).length,
+        skipped,
+        errors,
+    };
+
+    if (!dryRun && errors.length === 0) {
+        try {
+            await placeService.savePlaces(changes, userId);
+        } catch (error) {
+            if (!(error instanceof placeService.PartialSaveError)) {
+                throw error;
+            }
+            const committed = changes.slice(0, error.saved);
+            console.error(`[importPlaces] Import stopped part way: ${error.message}`);
+            return {
+                ...result,
+                created: committed.filter(change => !change.before).length,
+                updated: committed.filter(change => change.before).length,
+                partial: { committedRows: committed.map(change => change.row), error: error.message },
+            };
+        }
+        console.log(`[importPlaces] Imported ${rows.length} rows: ${result.created} created, ${result.updated} updated, ${skipped} skipped`);
+    }
+
+    return result;
+}
+
+/**
+ * Split an import file into one flat record per place, GeoJSON coordinates become latitude and longitude
+ */
+export function parseImportRows(format: PlaceImportFormat, body: string): Record<string, unknown>[] {
+    if (format === 'csv') {
+        try {
+            return parseCsv(body);
+        } catch (error) {
+            throw new PlaceImportError(`Invalid CSV: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    let geoJson: any;
+    try {
+        geoJson = JSON.parse(body);
+    } catch {
+        throw new PlaceImportError('Invalid GeoJSON: not valid JSON');
+    }
+
+    const features = geoJson?.type === 'Feature' ? [geoJson] : geoJson?.features;
+    if (!Array.isArray(features)) {
+        throw new PlaceImportError('Invalid GeoJSON: expected a Feature or FeatureCollection');
+    }
+
+    return features.map(feature => {
+        const fields: Record<string, unknown> = { ...feature?.properties, id: feature?.id ?? feature?.properties?.id };
+        const coordinates = feature?.geometry?.type === 'Point' ? feature.geometry.coordinates : undefined;
+        if (Array.isArray(coordinates)) {
+            // GeoJSON order is [longitude, latitude]
+            fields.longitude = coordinates[0];
+            fields.latitude = coordinates[1];
+        }
+        return fields;
+    });
+}
+
+// the place fields a row sets, values that can't be converted are passed on as they are for validation to reject
+function mapRow(fields: Record<string, unknown>): Partial<Place> {
+    const data: Record<string, unknown> = {};
+    const nested = (group: 'amenities' | 'attributes', key: string) =>
+        fields[key] ?? (fields[group] as Record<string, unknown> | undefined)?.[key];
+
+    for (const column of TEXT_COLUMNS) {
+        const value = toText(fields[column]);
+        if (value !== undefined) data[column] = value;
+    }
+
+    const latitude = toNumber(fields.latitude ?? fields.lat);
+    const longitude = toNumber(fields.longitude ?? fields.lng ?? fields.lon);
+    if (latitude !== undefined || longitude !== undefined) {
+        data.location = { latitude, longitude };
+    }
+
+    const amenities: Record<string, unknown> = {};
+    for (const column of AMENITY_COLUMNS) {
+        const value = toBoolean(nested('amenities', column));
+        if (value !== undefined) amenities[column] = value;
+    }
+    if (Object.keys(amenities).length > 0) data.amenities = amenities;
+
+    const attributes: Record<string, unknown> = {};
+    for (const column of ATTRIBUTE_TEXT_COLUMNS) {
+        const value = toText(nested('attributes', column));
+        if (value !== undefined) attributes[column] = value;
+    }
+    const openLate = toBoolean(nested('attributes', 'openLate'));
+    if (openLate !== undefined) attributes.openLate = openLate;
+    if (Object.keys(attributes).length > 0) data.attributes = attributes;
+
+    const openingHours = toOpeningHours(fields.openingHours);
+    if (openingHours !== undefined) data.openingHours = openingHours;
+
+    const isPublic = toBoolean(fields.isPublic);
+    if (isPublic !== undefined) data.isPublic = isPublic;
+
+    return data as Partial<Place>;
+}
+
+function isBlank(value: unknown): boolean {
+    return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+function toText(value: unknown): unknown {
+    if (isBlank(value)) return undefined;
+    return typeof value === 'string' ? value.trim() : value;
+}
+
+function toNumber(value: unknown): unknown {
+    if (isBlank(value)) return undefined;
+    if (typeof value !== 'string') return value;
+    const number = Number(value.trim());
+    return Number.isFinite(number) ? number : value;
+}
+
+function toBoolean(value: unknown): unknown {
+    if (isBlank(value)) return undefined;
+    if (typeof value !== 'string') return value;
+    const normalised = value.trim().toLowerCase();
+    if (TRUE_VALUES.includes(normalised)) return true;
+    if (FALSE_VALUES.includes(normalised)) return false;
+    return value;
+}
+
+function toOpeningHours(value: unknown): unknown {
+    if (isBlank(value)) return undefined;
+    if (typeof value !== 'string') return value;
+
+    return value.split(';').map(part => part.trim()).filter(Boolean).map(part => {
+        const match = part.match(OPENING_HOURS_PATTERN);
+        if (!match) {
+            throw new PlaceImportError(`openingHours: Can't read "${part}", expected e.g. "monday 09:00-17:00"`);
+        }
+        return { day: match[1].toLowerCase(), open: match[2], close: match[3] };
+    });
+}
@@ -0,0 +1,144 @@
+import { v4 as uuidv4 } from 'uuid';
+import * as dynamodb from '../utils/dynamodb.js';
+import * as placeService from './placeService.js';
+import { Place } from '../models/place.js';
+import { PlaceFieldChange, PlaceRevision, PlaceRevisionAction } from '../models/placeRevision.js';
+import { PageOptions } from '../models/pagination.js';
+import { encodeCursor, decodeCursor, fingerprintQuery, InvalidCursorError } from '../utils/cursor.js';
+
+const PLACE_REVISIONS_TABLE = process.env.PLACE_REVISIONS_TABLE || 'workbru-place-revisions';
+const PLACE_REVISIONS_PLACE_INDEX = 'placeId-index';
+
+// compared key by key, so a diff shows which amenity or attribute changed
+const NESTED_FIELDS = ['amenities', 'attributes'];
+
+// bookkeeping, derived from other fields or computed at query time, so not part of a diff
+const UNTRACKED_FIELDS = [
+    'updatedAt', 'timeZone', 'geohash', 'geohashPrefix', 'geohashPrefix3', 'geohashPrefix5', 'geohashPrefix6',
+    'distance', 'openStatus', 'busyness', 'popularTimes', 'isFavorite',
+];
+
+// computed at query time, never part of a snapshot
+const COMPUTED_FIELDS = ['distance', 'openStatus', 'busyness', 'popularTimes', 'isFavorite'];
+
+export interface PlaceHistoryPage {
+    revisions: PlaceRevision[];
+    nextCursor?: string;
+}
+
+/**
+ * Record a change to a place. Updates that don't change anything aren't recorded.
+ * @param before the place before the change, null when it was created
+ * @param after the place after the change, null when it was purged
+ */
+export async function recordRevision(
+    action: PlaceRevisionAction,
+    placeId: string,
+    before: Place | null,
+    after: Place | null,
+    actor?: string,
+    restoredFrom?: string
+): Promise<PlaceRevision | null> {
+    const changes = getFieldChanges(before, after);
+    if (action === 'update' && changes.length === 0) {
+        return null;
+    }
+
+    const snapshot = { ...(after ?? before) } as Record<string, unknown>;
+    for (const field of COMPUTED_FIELDS) {
+        delete snapshot[field];
+    }
+
+    const revision: PlaceRevision = {
+        id: uuidv4(),
+        placeId,
+        action,
+        actor,
+        changes,
+        snapshot,
+        restoredFrom,
+        createdAt: new Date().toISOString(),
+    };
+
+    await dynamodb.putItem(PLACE_REVISIONS_TABLE, revision);
+    return revision;
+}
+
+export async function getRevisionById(revisionId: string): Promise<PlaceRevision | null> {
+    const item = await dynamodb.getItem(PLACE_REVISIONS_TABLE, { id: revisionId });
+    return item as PlaceRevision | null;
+}
+
+/**
+ * A place's revisions, newest first
+ */
+export async function getPlaceHistory(placeId: string, page: PageOptions = {}): Promise<PlaceHistoryPage> {
+    const fingerprint = fingerprintQuery({ route: 'history', placeId });
+    let offset = 0;
+    if (page.cursor) {
+        const data = await decodeCursor<{ q: string, offset?: number }>(page.cursor);
+        if (data.q !== fingerprint) {
+            throw new InvalidCursorError('Cursor does not belong to this query');
+        }
+        offset = data.offset ?? 0;
+    }
+
+    const revisions = await dynamodb.queryItems(
+        PLACE_REVISIONS_TABLE,
+        'placeId = :placeId',
+        { ':placeId': placeId },
+        PLACE_REVISIONS_PLACE_INDEX
+    ) as PlaceRevision[];
+    revisions.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    const end = page.limit ? offset + page.limit : revisions.length;
+    return {
+        revisions: revisions.slice(offset, end),
+        nextCursor: end < revisions.length ? await encodeCursor({ q: fingerprint, offset: end }) : undefined,
+    };
+}
+
+/**
+ * Put a place back the way it was at one of its revisions. The restore is itself recorded as a revision.
+ * @returns null if the revision doesn't exist or belongs to another place, or the place has been purged
+ */
+export async function restoreRevision(placeId: string, revisionId: string, actor: string): Promise<Place | null> {
+    const revision = await getRevisionById(revisionId);
+    if (!revision || revision.placeId !== placeId) {
+        return null;
+    }
+
+    return placeService.restorePlace(placeId, revision.snapshot as Place, actor, revision.id);
+}
+
+/**
+ * The fields that differ between two versions of a place
+ */
+export function getFieldChanges(before: Place | null, after: Place | null): PlaceFieldChange[] {
+    const from = (before ?? {}) as Record<string, unknown>;
+    const to = (after ?? {}) as Record<string, unknown>;
+    const changes: PlaceFieldChange[] = [];
+
+    const fields = new Set([...Object.keys(from), ...Object.keys(to)]);
+    for (const field of fields) {
+        if (UNTRACKED_FIELDS.includes(field)) continue;
+
+        if (NESTED_FIELDS.includes(field)) {
+            const fromObject = (from[field] ?? {}) as Record<string, unknown>;
+            const toObject = (to[field] ?? {}) as Record<string, unknown>;
+            for (const key of new Set([...Object.keys(fromObject), ...Object.keys(toObject)])) {
+                if (!isEqual(fromObject[key], toObject[key])) {
+                    changes.push({ field: `${field}.${key}`, from: fromObject[key], to: toObject[key] });
+                }
+            }
+        } else if (!isEqual(from[field], to[field])) {
+            changes.push({ field, from: from[field], to: to[field] });
+        }
+    }
+
+    return changes;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
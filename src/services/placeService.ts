@@ -1,17 +1,185 @@
 import { v4 as uuidv4 } from 'uuid';
 import * as dynamodb from '../utils/dynamodb.js';
-import { Place, PlaceSchema } from '../models/place.js';
+import { Place, PlaceSchema, PlaceFilters, NearbyFilters, PlaceSort, PLACE_MODERATION_FIELDS, PLACE_COMPUTED_FIELDS, PLACE_COMPUTED_ATTRIBUTES } from '../models/place.js';
 import geohash from 'ngeohash';
+import * as openingHoursService from './openingHoursService.js';
+import * as searchService from './searchService.js';
+import * as busynessService from './busynessService.js';
+import * as placeRevisionService from './placeRevisionService.js';
+import { lookupTimeZone } from '../utils/timezone.js';
+import { encodeCursor, decodeCursor, fingerprintQuery, InvalidCursorError } from '../utils/cursor.js';
+import { PageOptions } from '../models/pagination.js';
 
 const cache = new Map<string, {data: any, timestamp: number}>();
 const CACHE_TTL = 60 * 1000; // 1 minute
 
-export async function getAllPlaces(): Promise<Place[]> {
-    const items = await dynamodb.scanItems(dynamodb.PLACES_TABLE);
-    return items as Place[];
+// places per transaction when saving many at once, DynamoDB allows 100 items and 4 MB per transaction
+const PLACE_WRITE_BATCH_SIZE = 25;
+
+// how long deleted places stay in the trash before the purge removes them for good
+export const PLACE_RETENTION_DAYS = Number(process.env.PLACE_RETENTION_DAYS || 30);
+
+// geohash GSIs by precision - precision 4 keeps the original geohashPrefix attribute and index
+export const GEOHASH_INDEXES: Record<number, { attribute: string, indexName: string }> = {
+    3: { attribute: 'geohashPrefix3', indexName: 'geohash-prefix-3-index' }, // ~156km cells
+    4: { attribute: 'geohashPrefix', indexName: 'geohash-prefix-index' }, // ~39km x 19.5km cells
+    5: { attribute: 'geohashPrefix5', indexName: 'geohash-prefix-5-index' }, // ~4.9km cells
+    6: { attribute: 'geohashPrefix6', indexName: 'geohash-prefix-6-index' }, // ~1.2km x 0.6km cells
+};
+
+// the most cells (and so parallel queries) we'll use to cover a search area
+const MAX_GEOHASH_CELLS = 24;
+
+// largest map viewport /places/within will search, roughly a 500km x 500km box by default
+export const MAX_VIEWPORT_AREA_KM2 = Number(process.env.MAX_VIEWPORT_AREA_KM2 || 250000);
+
+// clustered views are for zooming out, so they may cover a much bigger area
+export const MAX_CLUSTER_VIEWPORT_AREA_KM2 = Number(process.env.MAX_CLUSTER_VIEWPORT_AREA_KM2 || 2500000);
+
+// how much bestMatch cares about rating vs distance (0 = closest first, 1 = best rated first)
+const BEST_MATCH_RATING_WEIGHT = Number(process.env.BEST_MATCH_RATING_WEIGHT || 0.5);
+// unrated places are ranked as if they were average
+const UNRATED_RATING = 2.5;
+
+// sorts that need a point to measure distance from, only nearby search has one
+export const LOCATION_SORTS: PlaceSort['sort'][] = ['distance', 'bestMatch'];
+
+// direction used when a sort is asked for without an order
+const DEFAULT_SORT_ORDERS: Record<NonNullable<PlaceSort['sort']>, 'asc' | 'desc'> = {
+    distance: 'asc',
+    rating: 'desc',
+    coffeeRating: 'desc',
+    seatingComfort: 'desc',
+    name: 'asc',
+    newest: 'desc',
+    bestMatch: 'desc',
+};
+
+// groups smaller than this come back as individual places
+export const CLUSTER_MIN_SIZE = Number(process.env.CLUSTER_MIN_SIZE || 3);
+
+// amenity flags that can be used as search filters
+const AMENITY_FILTERS = ['wifi', 'coffee', 'outlets', 'seating', 'food', 'meetingRooms'] as const;
+
+export interface PlacesPage {
+    places: Place[];
+    nextCursor?: string; // set when there are more results, pass back as `cursor`
+}
+
+export interface PlaceSearchResult extends PlacesPage {
+    appliedFilters: PlaceFilters; // only the filters that were actually set
+}
+
+export interface PlaceCluster {
+    geohash: string; // the shared geohash prefix of everything in the cluster
+    count: number;
+    centroid: { latitude: number, longitude: number };
+    amenities: Record<typeof AMENITY_FILTERS[number], number>; // how many places in the cluster have each amenity
+}
+
+export interface PlaceClustersResult {
+    clusters: PlaceCluster[];
+    places: Place[]; // places that weren't part of a big enough group
+    precision: number;
+    appliedFilters: PlaceFilters;
 }
 
+/**
+ * Thrown when savePlaces fails part way through, the first `saved` places were written and stay written
+ */
+export class PartialSaveError extends Error {
+    constructor(public readonly saved: number, message: string) {
+        super(message);
+        this.name = 'PartialSaveError';
+    }
+}
+
+/**
+ * Thrown when a conditional update finds the stored place no longer as expected, e.g. a submission already reviewed
+ */
+export class PlaceConflictError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PlaceConflictError';
+    }
+}
+
+// what's inside a signed cursor - q ties it to the query it was issued for
+interface PlacesCursor {
+    q: string;
+    key?: Record<string, any>; // DynamoDB start key when paging a scan
+    offset?: number; // position in the sorted results when paging nearby search
+}
+
+export async function getAllPlaces(
+    filters: PlaceFilters = {},
+    page: PageOptions = {},
+    sort: PlaceSort = {}
+): Promise<PlacesPage> {
+    const appliedFilters = getAppliedFilters(filters);
+    const at = resolveFilterTime(appliedFilters);
+
+    // no limit - read the whole table
+    if (!page.limit) {
+        const items = await dynamodb.scanItems(dynamodb.PLACES_TABLE);
+        const places = withOpenStatus(applyPlaceFilters(items as Place[], appliedFilters, at), at);
+        return { places: sort.sort ? sortPlaces(places, sort) : places };
+    }
+
+    // a sorted page needs every match first, so these cursors hold an offset rather than a scan key
+    if (sort.sort) {
+        const fingerprint = fingerprintQuery({ route: 'places', filters: appliedFilters, sort });
+        const offset = page.cursor ? (await decodePlacesCursor(page.cursor, fingerprint)).offset ?? 0 : 0;
+
+        const items = await dynamodb.scanItems(dynamodb.PLACES_TABLE);
+        const places = sortPlaces(withOpenStatus(applyPlaceFilters(items as Place[], appliedFilters, at), at), sort);
+        return pageByOffset(places, offset, page.limit, fingerprint);
+    }
+
+    const fingerprint = fingerprintQuery({ route: 'places', filters: appliedFilters });
+    let startKey = page.cursor ? (await decodePlacesCursor(page.cursor, fingerprint)).key : undefined;
+    const places: Place[] = [];
+
+    // filters are applied after reading, so keep reading until the page is full or the table runs out
+    do {
+        const result = await dynamodb.scanPage(dynamodb.PLACES_TABLE, page.limit - places.length, startKey);
+        places.push(...applyPlaceFilters(result.items as Place[], appliedFilters, at));
+        startKey = result.lastEvaluatedKey;
+    } while (startKey && places.length < page.limit);
+
+    return {
+        places: withOpenStatus(places, at),
+        nextCursor: startKey ? await encodeCursor({ q: fingerprint, key: startKey }) : undefined,
+    };
+}
+
+// slice a fully sorted result list into a page, the cursor holds where the next page starts
+async function pageByOffset(places: Place[], offset: number, limit: number, fingerprint: string): Promise<PlacesPage> {
+    const end = offset + limit;
+    return {
+        places: places.slice(offset, end),
+        nextCursor: end < places.length ? await encodeCursor({ q: fingerprint, offset: end }) : undefined,
+    };
+}
+
+async function decodePlacesCursor(cursor: string, fingerprint: string): Promise<PlacesCursor> {
+    const data = await decodeCursor<PlacesCursor>(cursor);
+    if (data.q !== fingerprint) {
+        throw new InvalidCursorError('Cursor does not belong to this query');
+    }
+    return data;
+}
+
+/**
+ * A place by ID, deleted places are only reachable through the trash
+ */
 export async function getPlaceById(id: string): Promise<Place | null> {
+    const place = await getStoredPlace(id);
+    return place && !place.deletedAt ? place : null;
+}
+
+// the stored place, deleted or not
+async function getStoredPlace(id: string): Promise<Place | null> {
     // check cache first
     const cacheKey = `place:${id}`;
     const cachedItem = cache.get(cacheKey);
@@ -35,12 +203,55 @@ export async function getPlaceById(id: string): Promise<Place | null> {
     return item as Place | null;
 }
 
+/**
+ * Several places by ID, read from the cache where possible and otherwise in one batch.
+ * Places that don't exist or are deleted are left out, the rest keep the order of the IDs.
+ */
+export async function getPlacesByIds(ids: string[]): Promise<Place[]> {
+    const found = new Map<string, Place>();
+    const missing: string[] = [];
+
+    for (const id of new Set(ids)) {
+        const cachedItem = cache.get(`place:${id}`);
+        if (cachedItem && (Date.now() - cachedItem.timestamp < CACHE_TTL)) {
+            found.set(id, cachedItem.data as Place);
+        } else {
+            missing.push(id);
+        }
+    }
+
+    if (missing.length > 0) {
+        const items = await dynamodb.batchGetItems(dynamodb.PLACES_TABLE, missing.map(id => ({ id }))) as Place[];
+        for (const item of items) {
+            cache.set(`place:${item.id}`, { data: item, timestamp: Date.now() });
+            found.set(item.id!, item);
+        }
+    }
+
+    return ids
+        .map(id => found.get(id))
+        .filter((place): place is Place => Boolean(place) && !place!.deletedAt);
+}
+
 export async function createPlace(placeData: Omit<Place, 'id' | 'createdAt' | 'updatedAt'>, userId?: string): Promise<Place> {
+    const newPlace = buildNewPlace(placeData, userId);
+
+    await dynamodb.putItem(dynamodb.PLACES_TABLE, newPlace);
+    await syncSearchIndex(newPlace.id!, newPlace);
+    await placeRevisionService.recordRevision('create', newPlace.id!, null, newPlace, userId);
+    return newPlace;
+}
+
+/**
+ * A new place ready to store, with its derived fields filled in and validated
+ * @param id keep an existing ID, e.g. one from an import, rather than generating one
+ */
+export function buildNewPlace(placeData: Omit<Place, 'id' | 'createdAt' | 'updatedAt'>, userId?: string, id: string = uuidv4()): Place {
     const now = new Date().toISOString();
 
     const newPlace: Place = {
         ...placeData,
-        id: uuidv4(),
+        id,
         createdAt: now,
         updatedAt: now,
         createdBy: userId // Add the creator's ID
@@ -48,42 +259,85 @@ export async function createPlace(placeData: Omit<Place, 'id' | 'createdAt' | 'u
 
     // calculate geohash for the place
     if (newPlace.location) {
-        newPlace.geohash = encodeGeohash(newPlace.location.latitude, newPlace.location.longitude);
         // store multiple prefix lengths for different query precision
-        newPlace.geohashPrefix = newPlace.geohash.substring(0, 4); // adjust length as needed
+        Object.assign(newPlace, getGeohashFields(newPlace.location.latitude, newPlace.location.longitude));
+        // opening hours are local to the place
+        newPlace.timeZone = lookupTimeZone(newPlace.location.latitude, newPlace.location.longitude) ?? undefined;
     }
 
     //validate the place data
     PlaceSchema.parse(newPlace);
-
-    await dynamodb.putItem(dynamodb.PLACES_TABLE, newPlace);
     return newPlace;
 }
 
-export async function updatePlace(id: string, placeData: Partial<Place>, userId?: string): Promise<Place | null> {
+/**
+ * Update a place, amenities and attributes are merged key by key
+ * @param userId who made the change, recorded in the place's history
+ * @param expected only update while the stored place still has these values, PlaceConflictError otherwise
+ */
+export async function updatePlace(
+    id: string,
+    placeData: Partial<Place>,
+    userId?: string,
+    expected?: Partial<Place>
+): Promise<Place | null> {
     const existingPlace = await getPlaceById(id);
 
     if (!existingPlace) {
         return null;
     }
 
+    const updatedPlace = buildUpdatedPlace(existingPlace, placeData);
+
+    // clear the cache 
+    const cacheKey = `place:${id}`;
+    cache.delete(cacheKey);
+    console.log(`[Cache] Cleared cache for cacheKey: ${cacheKey}`);
+
+    const saved = await dynamodb.updateFields(
+        dynamodb.PLACES_TABLE,
+        { id },
+        updatedPlace,
+        expected
+    )
+    if (expected && !saved) {
+        throw new PlaceConflictError('Place has changed since it was read');
+    }
+
+    const savedPlace = await getPlaceById(id);
+    await syncSearchIndex(id, savedPlace);
+    await placeRevisionService.recordRevision('update', id, existingPlace, savedPlace, userId);
+    return savedPlace;
+}
+
+/**
+ * A place with an update applied, amenities and attributes merged and derived fields recalculated, validated
+ */
+export function buildUpdatedPlace(existingPlace: Place, placeData: Partial<Place>): Place {
     const now = new Date().toISOString();
 
     const updatedPlace: Place = {
         ...existingPlace,
         ...placeData,
         updatedAt: now,
-        createdBy: userId,
+        createdBy: existingPlace.createdBy,
     };
     
     // recalc geohash if location updated
     if (placeData.location) {
-        updatedPlace.geohash = encodeGeohash(
+        // store multiple prefix lengths for different query precision
+        Object.assign(updatedPlace, getGeohashFields(
             placeData.location.latitude,
             placeData.location.longitude
-        );
-        // store multiple prefix lengths for different query precision
-        updatedPlace.geohashPrefix = updatedPlace.geohash.substring(0, 4); // adjust length as needed
+        ));
+    }
+
+    // re-derive the time zone when the place moves (or was saved before zones existed)
+    if (updatedPlace.location && (placeData.location || !updatedPlace.timeZone)) {
+        updatedPlace.timeZone = lookupTimeZone(
+            updatedPlace.location.latitude,
+            updatedPlace.location.longitude
+        ) ?? undefined;
     }
 
     // Merge updated attributes and amenities
@@ -99,69 +353,331 @@ export async function updatePlace(id: string, placeData: Partial<Place>, userId?
 
     // Validate the updated place data
     PlaceSchema.parse(updatedPlace);
+    return updatedPlace;
+}
 
-    // clear the cache 
-    const cacheKey = `place:${id}`;
-    cache.delete(cacheKey);
-    console.log(`[Cache] Cleared cache for cacheKey: ${cacheKey}`);
+/**
+ * Store built places in transactions of up to PLACE_WRITE_BATCH_SIZE, then index and record each one.
+ * A batch is written completely or not at all, but batches already written stay written if a later one fails.
+ * @param changes each place with the stored place it replaces, null for new places
+ * @throws PartialSaveError if a batch fails, saying how many places were written before it
+ */
+export async function savePlaces(changes: { before: Place | null, after: Place }[], userId?: string): Promise<void> {
+    for (let start = 0; start < changes.length; start += PLACE_WRITE_BATCH_SIZE) {
+        const batch = changes.slice(start, start + PLACE_WRITE_BATCH_SIZE);
+        try {
+            await dynamodb.transactPutItems(dynamodb.PLACES_TABLE, batch.map(change => change.after));
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new PartialSaveError(start, `Saved ${start} of ${changes.length} places, then a batch failed: ${reason}`);
+        }
 
-    await dynamodb.updateFields(
-        dynamodb.PLACES_TABLE,
-        { id },
-        updatedPlace
-    )
-
-    return getPlaceById(id);
+        for (const { before, after } of batch) {
+            cache.delete(`place:${after.id}`);
+            await syncSearchIndex(after.id!, after);
+            await placeRevisionService.recordRevision(before ? 'update' : 'create', after.id!, before, after, userId);
+        }
+    }
 }
 
-export async function deletePlace(id: string): Promise<boolean> {
+/**
+ * Move a place to the trash. It drops out of every read path straight away, admins can restore it
+ * until the purge removes it after the retention window.
+ */
+export async function deletePlace(id: string, userId?: string, reason?: string): Promise<boolean> {
+    // delete the stored place, not a possibly stale cached copy
+    cache.delete(`place:${id}`);
     const existingPlace = await getPlaceById(id);
 
     if (!existingPlace) {
         return false;
     }
 
-    await dynamodb.deleteItem(dynamodb.PLACES_TABLE, { id });
+    // only the deletion fields are written, so changes made since the place was read aren't lost
+    const now = new Date().toISOString();
+    const deletedPlace = await dynamodb.updateFields(
+        dynamodb.PLACES_TABLE,
+        { id },
+        { deletedAt: now, deletedBy: userId, deletionReason: reason, updatedAt: now }
+    ) as Place | null;
+    cache.delete(`place:${id}`);
+    if (!deletedPlace) {
+        return false;
+    }
+
+    await syncSearchIndex(id, null);
+    await placeRevisionService.recordRevision('delete', id, existingPlace, deletedPlace, userId);
 
     return true;
 }
 
-export async function getPlacesNearby(lat: number, lng: number, radiusKm: number): Promise<Place[]> {
+/**
+ * Take a place back out of the trash
+ * @returns null if the place doesn't exist or isn't deleted
+ */
+export async function restoreDeletedPlace(id: string, userId: string): Promise<Place | null> {
+    cache.delete(`place:${id}`);
+    const deletedPlace = await getStoredPlace(id);
+    if (!deletedPlace?.deletedAt) {
+        return null;
+    }
+
+    // a full put, updateFields can't remove attributes
+    const { deletedAt, deletedBy, deletionReason, ...restoredPlace } = deletedPlace;
+    restoredPlace.updatedAt = new Date().toISOString();
+
+    await dynamodb.putItem(dynamodb.PLACES_TABLE, restoredPlace);
+    cache.delete(`place:${id}`);
+    await syncSearchIndex(id, restoredPlace);
+    await placeRevisionService.recordRevision('restore', id, deletedPlace, restoredPlace, userId);
+
+    return restoredPlace;
+}
+
+/**
+ * The trash, most recently deleted first
+ */
+export async function getDeletedPlaces(page: PageOptions = {}): Promise<PlacesPage> {
+    const fingerprint = fingerprintQuery({ route: 'trash' });
+    const offset = page.cursor ? (await decodePlacesCursor(page.cursor, fingerprint)).offset ?? 0 : 0;
+
+    const places = (await dynamodb.scanItems(dynamodb.PLACES_TABLE) as Place[])
+        .filter(place => place.deletedAt)
+        .sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!));
+
+    if (!page.limit) {
+        return { places };
+    }
+    return pageByOffset(places, offset, page.limit, fingerprint);
+}
+
+/**
+ * Permanently remove places that have been in the trash longer than the retention window.
+ * Their history is kept.
+ * @returns how many places were removed
+ */
+export async function purgeDeletedPlaces(retentionDays: number = PLACE_RETENTION_DAYS, now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+    const expired = (await dynamodb.scanItems(dynamodb.PLACES_TABLE) as Place[])
+        .filter(place => place.id && place.deletedAt && place.deletedAt < cutoff);
+
+    for (const place of expired) {
+        await dynamodb.deleteItem(dynamodb.PLACES_TABLE, { id: place.id });
+        cache.delete(`place:${place.id}`);
+        await placeRevisionService.recordRevision('purge', place.id!, place, null);
+    }
+
+    return expired.length;
+}
+
+/**
+ * Put a place back the way a snapshot from its history has it. Reviews, speed tests, moderation and
+ * deletion have moved on since, so ratings, counts, review state and the trash are kept from the
+ * place as it is now.
+ * @returns null if the place has been purged
+ */
+export async function restorePlace(id: string, snapshot: Place, userId: string, revisionId: string): Promise<Place | null> {
+    // restore over the stored place, not a possibly stale cached copy
+    cache.delete(`place:${id}`);
+    const kept = await getStoredPlace(id);
+    if (!kept) {
+        return null;
+    }
+
+    const restoredPlace: Place = {
+        ...snapshot,
+        id,
+        createdAt: kept.createdAt,
+        createdBy: kept.createdBy,
+        reviewCount: kept.reviewCount,
+        wifiSpeed: kept.wifiSpeed,
+        attributes: {
+            ...snapshot.attributes,
+            rating: kept.attributes?.rating,
+            coffeeRating: kept.attributes?.coffeeRating,
+            seatingComfort: kept.attributes?.seatingComfort,
+        },
+        updatedAt: new Date().toISOString(),
+    };
+    for (const field of PLACE_MODERATION_FIELDS) {
+        Object.assign(restoredPlace, { [field]: kept[field] });
+    }
+
+    if (restoredPlace.location) {
+        Object.assign(restoredPlace, getGeohashFields(restoredPlace.location.latitude, restoredPlace.location.longitude));
+        restoredPlace.timeZone = lookupTimeZone(restoredPlace.location.latitude, restoredPlace.location.longitude) ?? undefined;
+    }
+
+    PlaceSchema.parse(restoredPlace);
+
+    // a full put, so fields added since the snapshot are dropped again
+    await dynamodb.putItem(dynamodb.PLACES_TABLE, restoredPlace);
+    cache.delete(`place:${id}`);
+    await syncSearchIndex(id, restoredPlace);
+    await placeRevisionService.recordRevision('restore', id, kept, restoredPlace, userId, revisionId);
+
+    return restoredPlace;
+}
+
+/**
+ * Whether a place shows up in listings and search. Submissions are hidden until an admin approves them,
+ * deleted places for good.
+ */
+export function isPlaceLive(place: Place): boolean {
+    return !place.deletedAt && (!place.status || place.status === 'approved');
+}
+
+// drop the moderation fields from user supplied place data
+export function withoutModerationFields<T extends Partial<Place>>(placeData: T): T {
+    const data = { ...placeData };
+    for (const field of PLACE_MODERATION_FIELDS) {
+        delete data[field];
+    }
+    return data;
+}
+
+// drop the ratings, review count and Wi-Fi speeds from user supplied place data,
+// they're only set from reviews and speed tests
+export function withoutComputedFields<T extends Partial<Place>>(placeData: T): T {
+    const data = { ...placeData };
+    for (const field of PLACE_COMPUTED_FIELDS) {
+        delete data[field];
+    }
+    if (data.attributes) {
+        const attributes = { ...data.attributes };
+        for (const field of PLACE_COMPUTED_ATTRIBUTES) {
+            delete attributes[field];
+        }
+        data.attributes = attributes;
+    }
+    return data;
+}
+
+// keep the text search index in step with a place, a failed index write shouldn't fail
+// the place write itself (`bun run reindex-search` repairs the index)
+async function syncSearchIndex(id: string, place: Place | null): Promise<void> {
     try {
-        // In prod, add timing metrics
-        const startTime = Date.now();
-        // step 1. calculate the geohash for the search point
-        const centerGeohash = encodeGeohash(lat, lng);
+        if (place && isPlaceLive(place)) {
+            await searchService.indexPlace(place);
+        } else {
+            await searchService.removePlace(id);
+        }
+    } catch (err) {
+        console.error(`[Search] Failed to update search index for place ${id}: `, err);
+    }
+}
 
-        // step 2. calculate the bounding box for the search radius
-        const boundingBox = calculateBoundingBox(lat, lng, radiusKm);
+/**
+ * Replace a place's rating attributes with the averages from its reviews.
+ * Dimensions nobody has rated (or every rating when the last review goes) are cleared.
+ */
+export async function applyReviewAggregates(
+    id: string,
+    aggregates: { rating?: number, coffeeRating?: number, seatingComfort?: number, reviewCount: number }
+): Promise<Place | null> {
+    // merge into the stored attributes, not a possibly stale cached copy
+    cache.delete(`place:${id}`);
+    const existingPlace = await getPlaceById(id);
+    if (!existingPlace) {
+        return null;
+    }
+
+    const { rating, coffeeRating, seatingComfort, ...otherAttributes } = existingPlace.attributes;
+    const attributes = { ...otherAttributes } as Place['attributes'];
+    if (aggregates.rating !== undefined) attributes.rating = aggregates.rating;
+    if (aggregates.coffeeRating !== undefined) attributes.coffeeRating = aggregates.coffeeRating;
+    if (aggregates.seatingComfort !== undefined) attributes.seatingComfort = aggregates.seatingComfort;
+
+    cache.delete(`place:${id}`);
+    await dynamodb.updateFields(dynamodb.PLACES_TABLE, { id }, {
+        attributes,
+        reviewCount: aggregates.reviewCount,
+        updatedAt: new Date().toISOString(),
+    });
+
+    return getPlaceById(id);
+}
 
-        // step 3. Get relevant geohash prefixes for the area
-        // In production, we need to calculate ACTUAL neighboring cells
-        const geohashPrefixes = calculateNeighborGeohashes(centerGeohash, boundingBox);
+/**
+ * Replace a place's Wi-Fi speeds with the medians from its speed test reports
+ */
+export async function applyWifiSpeed(id: string, wifiSpeed: Place['wifiSpeed']): Promise<Place | null> {
+    cache.delete(`place:${id}`);
+    const existingPlace = await getPlaceById(id);
+    if (!existingPlace) {
+        return null;
+    }
+
+    cache.delete(`place:${id}`);
+    await dynamodb.updateFields(dynamodb.PLACES_TABLE, { id }, {
+        wifiSpeed,
+        updatedAt: new Date().toISOString(),
+    });
+
+    return getPlaceById(id);
+}
+
+/**
+ * Backfill location-derived fields (time zone, geohash prefixes) for places saved before they existed
+ * @returns the number of places updated
+ */
+export async function backfillPlaceFields(): Promise<number> {
+    const items = await dynamodb.scanItems(dynamodb.PLACES_TABLE) as Place[];
+    let updated = 0;
+
+    for (const place of items) {
+        if (!place.location || !place.id) continue;
+
+        const { latitude, longitude } = place.location;
+        const fields: Partial<Place> = {};
+
+        if (!place.timeZone) {
+            const timeZone = lookupTimeZone(latitude, longitude);
+            if (timeZone) fields.timeZone = timeZone;
+        }
+
+        const geohashFields = getGeohashFields(latitude, longitude);
+        for (const [key, value] of Object.entries(geohashFields)) {
+            if (place[key as keyof typeof geohashFields] !== value) {
+                Object.assign(fields, { [key]: value });
+            }
+        }
+
+        if (Object.keys(fields).length === 0) continue;
+
+        await dynamodb.updateFields(dynamodb.PLACES_TABLE, { id: place.id }, fields);
+        cache.delete(`place:${place.id}`);
+        updated++;
+    }
+
+    console.log(`[backfillPlaceFields] Updated ${updated} of ${items.length} places`);
+    return updated;
+}
 
-        // step 4. use the GSI to query places by geohash prefix
-        console.log("[getPlacesNearby].. geohash prefix: ", geohashPrefixes)
+export async function getPlacesNearby(
+    lat: number,
+    lng: number,
+    radiusKm: number,
+    filters: NearbyFilters = {},
+    page: PageOptions = {},
+    sort: PlaceSort = {}
+): Promise<PlaceSearchResult> {
+    // results are sorted after the query, so cursors hold an offset into them
+    const fingerprint = fingerprintQuery({ route: 'nearby', lat, lng, radiusKm, filters: getAppliedFilters(filters), sort });
+    const offset = page.cursor ? (await decodePlacesCursor(page.cursor, fingerprint)).offset ?? 0 : 0;
 
-        //de-deuplicate 4-character prefixes before querying
-        const uniquePrefixes = [...new Set(geohashPrefixes.map(prefix => 
-            prefix.substring(0, 4)
-        ))];
+    try {
+        // In prod, add timing metrics
+        const startTime = Date.now();
 
-        // step 5. In production, we'd use a batch of Promise.all queries for each relevant prefix
-        const prefixQueries = uniquePrefixes.map(prefix => 
-            dynamodb.queryItems(
-                dynamodb.PLACES_TABLE,
-                'geohashPrefix = :prefix',
-                {':prefix': prefix},
-                'geohash-prefix-index'
-            )
-        );
+        // step 1. calculate the bounding box for the search radius
+        const boundingBox = calculateBoundingBox(lat, lng, radiusKm);
 
-        const queryResults = await Promise.all(prefixQueries);
-        const results = queryResults.flat() as Place[];
+        // step 2-5. query every geohash cell covering the box, at the precision that suits the radius
+        const results = await queryPlacesInBoundingBox(boundingBox);
 
-        // // step 6. Second-pass filter - accurate distance calculation on the candidates
+        // step 6. Second-pass filter - accurate distance calculation on the candidates
         const nearbyPlaces = results.filter(place => {
             if(!place.location) return false;
 
@@ -175,15 +691,35 @@ export async function getPlacesNearby(lat: number, lng: number, radiusKm: number
             return distance <= radiusKm;
         })
 
-        // // step 7. Sort by distance
-        nearbyPlaces.sort((a, b) => (a.distance || 0) - (b.distance || 0));
+        // step 7. apply amenity / attribute / opening hours filters before sorting
+        const appliedFilters = getAppliedFilters(filters);
+        const at = resolveFilterTime(appliedFilters);
+        const openPlaces = withOpenStatus(applyPlaceFilters(nearbyPlaces, appliedFilters, at), at);
+
+        // step 7b. live busyness costs two queries per place, so it's only looked up for every
+        // place left when filtering on it, otherwise just for the page that's returned
+        const { busyness } = appliedFilters;
+        const filteredPlaces = busyness
+            ? (await busynessService.withLiveBusyness(openPlaces))
+                .filter(place => busyness.includes(place.busyness?.level ?? 'unknown'))
+            : openPlaces;
+        const withBusyness = async (places: Place[]) => busyness ? places : busynessService.withLiveBusyness(places);
+
+        // step 8. Sort, closest first unless another order was asked for
+        sortPlaces(filteredPlaces, { sort: 'distance', ...sort }, radiusKm);
 
         // Record performance metrics 
         const endTime = Date.now();
         const duration = endTime - startTime;
-        console.log(`Found ${nearbyPlaces.length} places in ${duration}ms`);
+        console.log(`Found ${filteredPlaces.length} places in ${duration}ms`);
+
+        if (!page.limit) {
+            return { places: await withBusyness(filteredPlaces), appliedFilters };
+        }
 
-        return nearbyPlaces;
+        // step 9. slice out the requested page
+        const result = await pageByOffset(filteredPlaces, offset, page.limit, fingerprint);
+        return { ...result, places: await withBusyness(result.places), appliedFilters };
     } catch (err) {
         console.error('Error fetching nearby places: ', err);
         throw new Error(`Failed to fetch nearby places: ${err instanceof Error? err.message: 'Unknown error'}`);
@@ -191,6 +727,208 @@ export async function getPlacesNearby(lat: number, lng: number, radiusKm: number
     
 }
 
+/**
+ * Get the places inside a map viewport.
+ * minLng > maxLng means the box crosses the antimeridian.
+ */
+export async function getPlacesWithin(
+    boundingBox: BoundingBox,
+    filters: PlaceFilters = {},
+    page: PageOptions = {},
+    sort: PlaceSort = {}
+): Promise<PlaceSearchResult> {
+    const appliedFilters = getAppliedFilters(filters);
+    const fingerprint = fingerprintQuery({ route: 'within', boundingBox, filters: appliedFilters, sort });
+    const offset = page.cursor ? (await decodePlacesCursor(page.cursor, fingerprint)).offset ?? 0 : 0;
+
+    try {
+        const candidates = await queryPlacesInBoundingBox(boundingBox);
+        const inside = candidates.filter(place => place.location && isInBoundingBox(
+            place.location.latitude, place.location.longitude, boundingBox
+        ));
+
+        const at = resolveFilterTime(appliedFilters);
+        const places = withOpenStatus(applyPlaceFilters(inside, appliedFilters, at), at);
+
+        // there's no centre to sort by, by default geohash order keeps pages stable and spatially grouped
+        if (sort.sort) {
+            sortPlaces(places, sort);
+        } else {
+            places.sort((a, b) => (a.geohash || '').localeCompare(b.geohash || ''));
+        }
+        console.log(`[getPlacesWithin] Found ${places.length} places in viewport`);
+
+        if (!page.limit) {
+            return { places, appliedFilters };
+        }
+
+        return { ...await pageByOffset(places, offset, page.limit, fingerprint), appliedFilters };
+    } catch (err) {
+        console.error('Error fetching places within bounding box: ', err);
+        throw new Error(`Failed to fetch places within bounding box: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+}
+
+/**
+ * Get the places in a map viewport grouped into clusters for the given zoom level.
+ * Places are grouped by their stored geohash, so no extra indexing is needed.
+ */
+export async function getPlaceClusters(
+    boundingBox: BoundingBox,
+    zoom: number,
+    filters: PlaceFilters = {}
+): Promise<PlaceClustersResult> {
+    const { places, appliedFilters } = await getPlacesWithin(boundingBox, filters);
+    const precision = getClusterPrecision(zoom);
+
+    console.log(`[getPlaceClusters] Clustering ${places.length} places at zoom ${zoom} (precision ${precision})`);
+    return { ...clusterPlaces(places, precision), precision, appliedFilters };
+}
+
+/**
+ * Geohash precision to cluster at for a map zoom level,
+ * so a cluster cell is roughly a map tile or two wide
+ */
+export function getClusterPrecision(zoom: number): number {
+    if (zoom <= 2) return 1;
+    if (zoom <= 4) return 2;
+    if (zoom <= 7) return 3;
+    if (zoom <= 9) return 4;
+    if (zoom <= 12) return 5;
+    if (zoom <= 14) return 6;
+    return 7;
+}
+
+/**
+ * Group places sharing a geohash prefix of the given precision.
+ * Groups below minSize are returned as individual places.
+ */
+export function clusterPlaces(
+    places: Place[],
+    precision: number,
+    minSize: number = CLUSTER_MIN_SIZE
+): { clusters: PlaceCluster[], places: Place[] } {
+    const groups = new Map<string, Place[]>();
+    for (const place of places) {
+        const geohash = place.geohash || encodeGeohash(place.location.latitude, place.location.longitude);
+        const cell = geohash.substring(0, precision);
+        groups.set(cell, [...(groups.get(cell) || []), place]);
+    }
+
+    const clusters: PlaceCluster[] = [];
+    const singles: Place[] = [];
+    for (const [cell, members] of groups) {
+        if (members.length < minSize) {
+            singles.push(...members);
+            continue;
+        }
+
+        const amenities = Object.fromEntries(AMENITY_FILTERS.map(amenity => [
+            amenity, members.filter(place => place.amenities?.[amenity]).length
+        ])) as PlaceCluster['amenities'];
+
+        clusters.push({
+            geohash: cell,
+            count: members.length,
+            centroid: {
+                latitude: members.reduce((sum, place) => sum + place.location.latitude, 0) / members.length,
+                longitude: members.reduce((sum, place) => sum + place.location.longitude, 0) / members.length,
+            },
+            amenities,
+        });
+    }
+
+    // biggest clusters first
+    clusters.sort((a, b) => b.count - a.count);
+    return { clusters, places: singles };
+}
+
+/**
+ * Fetch candidate places for a bounding box from the geohash GSIs.
+ * Candidates can lie outside the box (cells overhang it), callers do the exact filtering.
+ */
+export async function queryPlacesInBoundingBox(boundingBox: BoundingBox): Promise<Place[]> {
+    // step 3. pick the finest indexed precision that still covers the box in a few cells
+    const precision = selectGeohashPrecision(boundingBox);
+    const { attribute, indexName } = GEOHASH_INDEXES[precision];
+    const prefixes = getCoveringGeohashes(boundingBox, precision);
+
+    // step 4. use the GSI to query places by geohash prefix
+    console.log(`[queryPlacesInBoundingBox].. precision ${precision}, ${prefixes.length} cells: `, prefixes);
+
+    // step 5. query each cell in parallel
+    const prefixQueries = prefixes.map(prefix =>
+        dynamodb.queryItems(
+            dynamodb.PLACES_TABLE,
+            `${attribute} = :prefix`,
+            {':prefix': prefix},
+            indexName
+        )
+    );
+
+    const queryResults = await Promise.all(prefixQueries);
+
+    // de-duplicate in case cells overlap (e.g. boxes split at the antimeridian)
+    const byId = new Map<string, Place>();
+    for (const place of queryResults.flat() as Place[]) {
+        byId.set(place.id ?? `${place.location?.latitude},${place.location?.longitude}`, place);
+    }
+    return [...byId.values()];
+}
+
+// strip filters that weren't provided so callers can see what was actually applied
+export function getAppliedFilters<T extends PlaceFilters>(filters: T): T {
+    return Object.fromEntries(
+        Object.entries(filters).filter(([, value]) => value !== undefined)
+    ) as T;
+}
+
+export function applyPlaceFilters(places: Place[], filters: PlaceFilters, at: Date = resolveFilterTime(filters)): Place[] {
+    return places.filter(place => matchesFilters(place, filters, at));
+}
+
+// the moment opening hours are evaluated at - openAt if given, otherwise now
+export function resolveFilterTime(filters: PlaceFilters): Date {
+    return filters.openAt ? new Date(filters.openAt) : new Date();
+}
+
+// attach the computed open/closed status to each place
+export function withOpenStatus(places: Place[], at: Date = new Date()): Place[] {
+    return places.map(place => ({
+        ...place,
+        openStatus: openingHoursService.getOpenStatus(place, at),
+    }));
+}
+
+export function matchesFilters(place: Place, filters: PlaceFilters, at: Date = resolveFilterTime(filters)): boolean {
+    if (!isPlaceLive(place)) return false;
+
+    for (const amenity of AMENITY_FILTERS) {
+        const wanted = filters[amenity];
+        if (wanted !== undefined && Boolean(place.amenities?.[amenity]) !== wanted) return false;
+    }
+
+    const attributes = place.attributes;
+    if (filters.openLate !== undefined && Boolean(attributes?.openLate) !== filters.openLate) return false;
+
+    // enum filters match any of the requested values
+    if (filters.noiseLevel && !filters.noiseLevel.includes(attributes?.noiseLevel)) return false;
+    if (filters.parking && !filters.parking.includes(attributes?.parking ?? 'none')) return false;
+    if (filters.capacity && (!attributes?.capacity || !filters.capacity.includes(attributes.capacity))) return false;
+
+    // places without a rating never satisfy a minimum rating
+    if (filters.minRating !== undefined && (attributes?.rating ?? -1) < filters.minRating) return false;
+    if (filters.minCoffeeRating !== undefined && (attributes?.coffeeRating ?? -1) < filters.minCoffeeRating) return false;
+    if (filters.minSeatingComfort !== undefined && (attributes?.seatingComfort ?? -1) < filters.minSeatingComfort) return false;
+    // same for places nobody has speed tested
+    if (filters.minDownloadMbps !== undefined && (place.wifiSpeed?.downloadMbps ?? -1) < filters.minDownloadMbps) return false;
+
+    // places without opening hours are never considered open
+    if ((filters.openNow || filters.openAt) && !openingHoursService.isOpenAt(place, at)) return false;
+
+    return true;
+}
+
 export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number ): number {
     const R = 6371; // Earth radius in km
     const dLat = (lat2 - lat1) * Math.PI / 180;
@@ -203,8 +941,15 @@ export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2
     return Math.round((R * c) * 100) / 100; // Round to 2 decimal places
 }
 
+export interface BoundingBox {
+    minLat: number;
+    maxLat: number;
+    minLng: number;
+    maxLng: number;
+}
+
 // calculate a bounding box given a center point and radius 
-export function calculateBoundingBox(lat: number, lng: number, radiusKm: number) {
+export function calculateBoundingBox(lat: number, lng: number, radiusKm: number): BoundingBox {
     const latKm = 110.574; // km per degree of latitude
     const lngKm = 111.320 * Math.cos(lat * Math.PI / 180); // km per degree of longitude
 
@@ -274,6 +1019,150 @@ export function encodeGeohash(lat: number, lng: number, precision: number = 9):
     return hash;
 }
 
+/**
+ * Sort places in place by the given field and order.
+ * Places without a value for the field (e.g. unrated) always go last, ties fall back to name.
+ * @param radiusKm search radius, bestMatch uses it to scale distance
+ */
+export function sortPlaces(places: Place[], sort: PlaceSort, radiusKm?: number): Place[] {
+    if (!sort.sort) return places;
+
+    const field = sort.sort;
+    const direction = (sort.order ?? DEFAULT_SORT_ORDERS[field]) === 'asc' ? 1 : -1;
+    const value = (place: Place): number | string | undefined => {
+        switch (field) {
+            case 'distance': return place.distance;
+            case 'rating': return place.attributes?.rating;
+            case 'coffeeRating': return place.attributes?.coffeeRating;
+            case 'seatingComfort': return place.attributes?.seatingComfort;
+            case 'name': return place.name?.toLowerCase();
+            case 'newest': return place.createdAt ? Date.parse(place.createdAt) : undefined;
+            case 'bestMatch': return getBestMatchScore(place, radiusKm);
+        }
+    };
+
+    return places.sort((a, b) => {
+        const aValue = value(a);
+        const bValue = value(b);
+
+        if (aValue === undefined || bValue === undefined) {
+            if (aValue !== bValue) return aValue === undefined ? 1 : -1;
+        } else if (aValue !== bValue) {
+            return (aValue < bValue ? -1 : 1) * direction;
+        }
+        return (a.name || '').localeCompare(b.name || '') || (a.id || '').localeCompare(b.id || '');
+    });
+}
+
+/**
+ * Composite score (0 - 1) for the bestMatch sort, good places nearby beat the merely closest
+ * Unrated places count as average, places without a distance get no proximity credit
+ */
+export function getBestMatchScore(place: Place, radiusKm?: number): number {
+    const ratingScore = (place.attributes?.rating ?? UNRATED_RATING) / 5;
+    const proximity = place.distance !== undefined && radiusKm
+        ? Math.max(0, 1 - place.distance / radiusKm)
+        : 0;
+
+    return BEST_MATCH_RATING_WEIGHT * ratingScore + (1 - BEST_MATCH_RATING_WEIGHT) * proximity;
+}
+
+// whether a point is inside a box, including boxes that cross the antimeridian
+export function isInBoundingBox(lat: number, lng: number, boundingBox: BoundingBox): boolean {
+    return splitAtAntimeridian(boundingBox).some(box =>
+        lat >= box.minLat && lat <= box.maxLat && lng >= box.minLng && lng <= box.maxLng
+    );
+}
+
+// surface area of a lat/lng box in square km
+export function calculateBoundingBoxArea(boundingBox: BoundingBox): number {
+    const R = 6371; // Earth radius in km
+    const toRad = (deg: number) => deg * Math.PI / 180;
+
+    let lngSpan = boundingBox.maxLng - boundingBox.minLng;
+    if (lngSpan < 0) lngSpan += 360; // crosses the antimeridian
+
+    const latBand = Math.abs(Math.sin(toRad(boundingBox.maxLat)) - Math.sin(toRad(boundingBox.minLat)));
+    return R * R * latBand * toRad(Math.min(lngSpan, 360));
+}
+
+// geohash prefixes stored on a place for each indexed precision
+export function getGeohashFields(lat: number, lng: number) {
+    const hash = encodeGeohash(lat, lng);
+    return {
+        geohash: hash,
+        geohashPrefix3: hash.substring(0, 3),
+        geohashPrefix: hash.substring(0, 4),
+        geohashPrefix5: hash.substring(0, 5),
+        geohashPrefix6: hash.substring(0, 6),
+    };
+}
+
+// size of a geohash cell in degrees - odd bits go to longitude, so it gets the extra bit
+export function getGeohashCellSize(precision: number): { lat: number, lng: number } {
+    const bits = precision * 5;
+    return {
+        lat: 180 / Math.pow(2, Math.floor(bits / 2)),
+        lng: 360 / Math.pow(2, Math.ceil(bits / 2)),
+    };
+}
+
+// upper bound on how many cells of a given precision it takes to cover a box
+export function estimateGeohashCellCount(boundingBox: BoundingBox, precision: number): number {
+    const cell = getGeohashCellSize(precision);
+    return splitAtAntimeridian(boundingBox).reduce((total, box) => {
+        const rows = Math.ceil((box.maxLat - box.minLat) / cell.lat) + 1;
+        const cols = Math.ceil((box.maxLng - box.minLng) / cell.lng) + 1;
+        return total + rows * cols;
+    }, 0);
+}
+
+// pick the finest indexed precision whose cells cover the box within MAX_GEOHASH_CELLS queries
+export function selectGeohashPrecision(boundingBox: BoundingBox): number {
+    const precisions = Object.keys(GEOHASH_INDEXES).map(Number).sort((a, b) => b - a);
+
+    for (const precision of precisions) {
+        if (estimateGeohashCellCount(boundingBox, precision) <= MAX_GEOHASH_CELLS) {
+            return precision;
+        }
+    }
+
+    // very large areas - fall back to the coarsest index and accept the extra queries
+    return precisions[precisions.length - 1];
+}
+
+// clamp latitude and split boxes that cross the antimeridian (minLng > maxLng, or beyond +-180)
+export function splitAtAntimeridian(boundingBox: BoundingBox): BoundingBox[] {
+    const minLat = Math.max(boundingBox.minLat, -90);
+    const maxLat = Math.min(boundingBox.maxLat, 90);
+
+    // a box wider than the whole world
+    if (boundingBox.maxLng - boundingBox.minLng >= 360) {
+        return [{ minLat, maxLat, minLng: -180, maxLng: 180 }];
+    }
+
+    const wrap = (lng: number) => ((lng + 180) % 360 + 360) % 360 - 180;
+    const minLng = boundingBox.minLng === 180 ? 180 : wrap(boundingBox.minLng);
+    const maxLng = boundingBox.maxLng === 180 ? 180 : wrap(boundingBox.maxLng);
+
+    if (minLng <= maxLng) {
+        return [{ minLat, maxLat, minLng, maxLng }];
+    }
+
+    return [
+        { minLat, maxLat, minLng, maxLng: 180 },
+        { minLat, maxLat, minLng: -180, maxLng },
+    ];
+}
+
+// every geohash cell at the given precision that intersects the box
+export function getCoveringGeohashes(boundingBox: BoundingBox, precision: number): string[] {
+    const hashes = splitAtAntimeridian(boundingBox).flatMap(box =>
+        geohash.bboxes(box.minLat, box.minLng, box.maxLat, box.maxLng, precision)
+    );
+    return [...new Set(hashes)];
+}
+
 // Production-ready function to calculate neighboring geohashes
 export function calculateNeighborGeohashes(centerGeohash: string, boundingBox: any): string[] {
     
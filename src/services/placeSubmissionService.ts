@@ -0,0 +1,139 @@
+import * as dynamodb from '../utils/dynamodb.js';
+import * as placeService from './placeService.js';
+import * as duplicateService from './duplicateService.js';
+import { Place } from '../models/place.js';
+import { PlaceStatus, PlaceSubmissionReview, PlaceSubmissionReviewSchema } from '../models/placeSubmission.js';
+import { PageOptions } from '../models/pagination.js';
+import { encodeCursor, decodeCursor, fingerprintQuery, InvalidCursorError } from '../utils/cursor.js';
+
+const PLACES_STATUS_INDEX = 'status-index';
+
+export interface PlaceSubmissionsPage {
+    places: Place[];
+    nextCursor?: string;
+}
+
+/**
+ * Thrown when a submission can't be reviewed, e.g. it was already reviewed or the merge target isn't live
+ */
+export class PlaceSubmissionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PlaceSubmissionError';
+    }
+}
+
+/**
+ * Store a place submitted by a non-admin. It stays pending, and out of listings and search,
+ * until an admin reviews it. Likely duplicates of existing places are flagged for the reviewer.
+ */
+export async function submitPlace(placeData: Omit<Place, 'id' | 'createdAt' | 'updatedAt'>, userId: string): Promise<Place> {
+    const submission: Omit<Place, 'id' | 'createdAt' | 'updatedAt'> = {
+        ...placeService.withoutModerationFields(placeData),
+        status: 'pending',
+    };
+
+    const possibleDuplicates = await duplicateService.findPossibleDuplicates(submission);
+    if (possibleDuplicates.length > 0) {
+        submission.possibleDuplicates = possibleDuplicates;
+    }
+
+    return placeService.createPlace(submission, userId);
+}
+
+/**
+ * Submissions with a status, oldest first. Admins see everyone's, anyone else only sees their own.
+ * @param userId only return this user's submissions, all of them when undefined
+ */
+export async function getSubmissions(
+    status: PlaceStatus = 'pending',
+    userId?: string,
+    page: PageOptions = {}
+): Promise<PlaceSubmissionsPage> {
+    const fingerprint = fingerprintQuery({ route: 'submissions', status, userId });
+    let offset = 0;
+    if (page.cursor) {
+        const data = await decodeCursor<{ q: string, offset?: number }>(page.cursor);
+        if (data.q !== fingerprint) {
+            throw new InvalidCursorError('Cursor does not belong to this query');
+        }
+        offset = data.offset ?? 0;
+    }
+
+    const items = await dynamodb.queryItems(
+        dynamodb.PLACES_TABLE,
+        '#status = :status',
+        { ':status': status },
+        PLACES_STATUS_INDEX,
+        { '#status': 'status' }
+    ) as Place[];
+
+    const places = items
+        .filter(place => !place.deletedAt && (!userId || place.createdBy === userId))
+        .sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || ''));
+
+    const end = page.limit ? offset + page.limit : places.length;
+    return {
+        places: places.slice(offset, end),
+        nextCursor: end < places.length ? await encodeCursor({ q: fingerprint, offset: end }) : undefined,
+    };
+}
+
+/**
+ * Approve, reject or merge a pending submission.
+ * Merging fills in whatever the target place is missing from the submission, then hides the submission.
+ * @returns null if the submission doesn't exist
+ */
+export async function reviewSubmission(
+    id: string,
+    moderatorId: string,
+    review: PlaceSubmissionReview
+): Promise<Place | null> {
+    const decision = PlaceSubmissionReviewSchema.parse(review);
+
+    const submission = await placeService.getPlaceById(id);
+    if (!submission || !submission.status) {
+        return null;
+    }
+    if (submission.status !== 'pending') {
+        throw new PlaceSubmissionError(`Submission has already been ${submission.status}`);
+    }
+
+    const reviewed = { reviewedBy: moderatorId, reviewedAt: new Date().toISOString() };
+
+    switch (decision.action) {
+        case 'approve':
+            return saveReview(id, moderatorId, { ...reviewed, status: 'approved' });
+
+        case 'reject':
+            return saveReview(id, moderatorId, { ...reviewed, status: 'rejected', rejectionReason: decision.reason });
+
+        case 'merge': {
+            const target = decision.targetId === id ? null : await placeService.getPlaceById(decision.targetId);
+            if (!target || !placeService.isPlaceLive(target)) {
+                throw new PlaceSubmissionError('Submissions can only be merged into a live place');
+            }
+
+            const merged = await saveReview(id, moderatorId, { ...reviewed, status: 'merged', mergedInto: target.id });
+
+            const additions = duplicateService.getMergeAdditions(target, submission);
+            if (Object.keys(additions).length > 0) {
+                await placeService.updatePlace(target.id!, additions, moderatorId);
+            }
+
+            return merged;
+        }
+    }
+}
+
+// write the review only while the submission is still pending, so two moderators can't both review it
+async function saveReview(id: string, moderatorId: string, review: Partial<Place>): Promise<Place | null> {
+    try {
+        return await placeService.updatePlace(id, review, moderatorId, { status: 'pending' });
+    } catch (error) {
+        if (error instanceof placeService.PlaceConflictError) {
+            throw new PlaceSubmissionError('Submission has already been reviewed');
+        }
+        throw error;
+    }
+}
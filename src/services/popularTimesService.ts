@@ -0,0 +1,146 @@
+import * as dynamodb from '../utils/dynamodb.js';
+import * as openingHoursService from './openingHoursService.js';
+import * as busynessService from './busynessService.js';
+import { DAYS } from './openingHoursService.js';
+import { Place } from '../models/place.js';
+import { PopularTimes, PopularTimesRecord } from '../models/busyness.js';
+
+// one record per place, id is the place ID
+const POPULAR_TIMES_TABLE = process.env.POPULAR_TIMES_TABLE || 'workbru-popular-times';
+
+const HOURS_PER_WEEK = 7 * 24;
+
+// each hour is a running average over about this many of its most recent samples, so it follows changes
+export const POPULAR_TIMES_WINDOW = Number(process.env.POPULAR_TIMES_WINDOW || 50);
+// hours with fewer samples than this aren't shown
+export const POPULAR_TIMES_MIN_SAMPLES = Number(process.env.POPULAR_TIMES_MIN_SAMPLES || 3);
+
+// writes of a popular times record that lost a race with another sample are retried this many times
+const RECORD_ATTEMPTS = 5;
+
+/**
+ * The hour of the week an instant falls in, in the place's own time zone (monday 00:00-00:59 is 0)
+ */
+export function getHourOfWeek(place: Place, at: Date): number {
+    const minutes = openingHoursService.getWeekMinutes(at, openingHoursService.getPlaceTimeZone(place));
+    return Math.floor(minutes / 60);
+}
+
+export async function getPopularTimesRecord(placeId: string): Promise<PopularTimesRecord | null> {
+    const item = await dynamodb.getItem(POPULAR_TIMES_TABLE, { id: placeId });
+    return item as PopularTimesRecord | null;
+}
+
+/**
+ * Every place with some popular times history
+ */
+export async function getPopularTimesRecords(): Promise<PopularTimesRecord[]> {
+    const items = await dynamodb.scanItems(POPULAR_TIMES_TABLE);
+    return items as PopularTimesRecord[];
+}
+
+/**
+ * Fold an occupancy estimate into the running average for the hour it was made in.
+ * Only that one hour changes, so history never has to be re-read.
+ * @throws if the record keeps changing underneath us, e.g. a burst of check-ins at once
+ */
+export async function recordOccupancy(place: Place, occupancy: number, at: Date = new Date()): Promise<PopularTimesRecord> {
+    const hour = getHourOfWeek(place, at);
+
+    // the running average can't be written as an UpdateExpression, so it's a read-modify-write
+    // that starts again if another sample for the place was written in between
+    for (let attempt = 0; attempt < RECORD_ATTEMPTS; attempt++) {
+        const stored = await getPopularTimesRecord(place.id!);
+        const record: PopularTimesRecord = {
+            id: place.id!,
+            averages: stored ? [...stored.averages] : new Array(HOURS_PER_WEEK).fill(0),
+            samples: stored ? [...stored.samples] : new Array(HOURS_PER_WEEK).fill(0),
+            updatedAt: at.toISOString(),
+        };
+
+        const samples = record.samples[hour] + 1;
+        // a plain average until the window fills, then an exponential moving average
+        record.averages[hour] += (occupancy - record.averages[hour]) / Math.min(samples, POPULAR_TIMES_WINDOW);
+        record.samples[hour] = samples;
+
+        if (await dynamodb.putVersionedItem(POPULAR_TIMES_TABLE, record, stored?.version)) {
+            return { ...record, version: (stored?.version ?? 0) + 1 };
+        }
+    }
+
+    throw new Error(`Popular times for place ${place.id} kept changing, gave up after ${RECORD_ATTEMPTS} attempts`);
+}
+
+/**
+ * Whether the record already has a sample from the hour of the week `now` falls in
+ */
+export function isSampledThisHour(place: Place, record: PopularTimesRecord, now: Date = new Date()): boolean {
+    const updatedAt = new Date(record.updatedAt);
+    return now.getTime() - updatedAt.getTime() < 60 * 60 * 1000
+        && getHourOfWeek(place, updatedAt) === getHourOfWeek(place, now);
+}
+
+/**
+ * Build the weekly histogram and today's quietest hour from a popular times record
+ */
+export function buildPopularTimes(place: Place, record: PopularTimesRecord, now: Date = new Date()): PopularTimes {
+    const typical = (hour: number) => record.samples[hour] >= POPULAR_TIMES_MIN_SAMPLES
+        ? Math.round(record.averages[hour] * 100) / 100
+        : null;
+
+    const days = Object.fromEntries(DAYS.map((day, dayIndex) =>
+        [day, Array.from({ length: 24 }, (_, hour) => typical(dayIndex * 24 + hour))]
+    )) as PopularTimes['days'];
+
+    return {
+        days,
+        quietestToday: getQuietestTimeToday(place, days, now),
+        updatedAt: record.updatedAt,
+    };
+}
+
+/**
+ * Attach popular times to a place, left unset until the place has some history
+ */
+export async function withPopularTimes(place: Place, now: Date = new Date()): Promise<Place> {
+    const record = await getPopularTimesRecord(place.id!);
+    if (!record) {
+        return place;
+    }
+
+    return { ...place, popularTimes: buildPopularTimes(place, record, now) };
+}
+
+// the quietest of the hours left today, skipping hours the place is closed if it has opening hours
+function getQuietestTimeToday(place: Place, days: PopularTimes['days'], now: Date): PopularTimes['quietestToday'] {
+    const weekMinutes = openingHoursService.getWeekMinutes(now, openingHoursService.getPlaceTimeZone(place));
+    const today = DAYS[Math.floor(weekMinutes / (24 * 60))];
+    const currentHour = Math.floor(weekMinutes / 60) % 24;
+    const minutesIntoHour = weekMinutes % 60;
+
+    let quietest: { hour: number, occupancy: number } | undefined;
+    for (let hour = currentHour; hour < 24; hour++) {
+        const occupancy = days[today]?.[hour] ?? null;
+        if (occupancy === null) continue;
+
+        if (place.openingHours?.length) {
+            // the current hour is checked from now, later hours from the top of the hour
+            const at = new Date(now.getTime() + ((hour - currentHour) * 60 - (hour > currentHour ? minutesIntoHour : 0)) * 60000);
+            if (!openingHoursService.isOpenAt(place, at)) continue;
+        }
+
+        if (!quietest || occupancy < quietest.occupancy) {
+            quietest = { hour, occupancy };
+        }
+    }
+
+    if (!quietest) {
+        return undefined;
+    }
+
+    return {
+        time: `${String(quietest.hour).padStart(2, '0')}:00`,
+        occupancy: quietest.occupancy,
+        level: busynessService.getBusynessLevel(quietest.occupancy),
+    };
+}
@@ -0,0 +1,180 @@
+import * as dynamodb from '../utils/dynamodb.js';
+import * as placeService from './placeService.js';
+import { Review, ReviewInput, ReviewInputSchema } from '../models/review.js';
+import { PageOptions } from '../models/pagination.js';
+import { encodeCursor, decodeCursor, fingerprintQuery, InvalidCursorError } from '../utils/cursor.js';
+
+const REVIEWS_TABLE = process.env.REVIEWS_TABLE || 'workbru-reviews';
+const REVIEWS_PLACE_INDEX = 'placeId-index';
+
+export interface ReviewsPage {
+    reviews: Review[];
+    nextCursor?: string;
+}
+
+/**
+ * Thrown when a user tries to post a second review for the same place
+ */
+export class DuplicateReviewError extends Error {
+    constructor(message: string = 'You have already reviewed this place') {
+        super(message);
+        this.name = 'DuplicateReviewError';
+    }
+}
+
+// one review per user per place, so the id is derived rather than random
+export function getReviewId(placeId: string, userId: string): string {
+    return `${placeId}#${userId}`;
+}
+
+export async function getReviewById(reviewId: string): Promise<Review | null> {
+    const item = await dynamodb.getItem(REVIEWS_TABLE, { id: reviewId });
+    return item as Review | null;
+}
+
+/**
+ * Get a place's reviews, newest first
+ */
+export async function getReviewsForPlace(placeId: string, page: PageOptions = {}): Promise<ReviewsPage> {
+    const fingerprint = fingerprintQuery({ route: 'reviews', placeId });
+    let offset = 0;
+    if (page.cursor) {
+        const data = await decodeCursor<{ q: string, offset?: number }>(page.cursor);
+        if (data.q !== fingerprint) {
+            throw new InvalidCursorError('Cursor does not belong to this query');
+        }
+        offset = data.offset ?? 0;
+    }
+
+    const reviews = await queryPlaceReviews(placeId);
+    reviews.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    if (!page.limit) {
+        return { reviews };
+    }
+
+    const end = offset + page.limit;
+    return {
+        reviews: reviews.slice(offset, end),
+        nextCursor: end < reviews.length ? await encodeCursor({ q: fingerprint, offset: end }) : undefined,
+    };
+}
+
+/**
+ * Post a review and update the place's ratings
+ * @returns null if the place doesn't exist
+ */
+export async function createReview(placeId: string, userId: string, input: ReviewInput): Promise<Review | null> {
+    const place = await placeService.getPlaceById(placeId);
+    if (!place) {
+        return null;
+    }
+
+    const id = getReviewId(placeId, userId);
+    const now = new Date().toISOString();
+    const review: Review = {
+        ...ReviewInputSchema.parse(input),
+        id,
+        placeId,
+        userId,
+        createdAt: now,
+        updatedAt: now,
+    };
+
+    // conditional, so two requests posting at once can't both write a review
+    if (!await dynamodb.putNewItem(REVIEWS_TABLE, review)) {
+        throw new DuplicateReviewError();
+    }
+    await recalculatePlaceRatings(placeId);
+    return review;
+}
+
+/**
+ * Edit a review's ratings, text or visit date
+ * @returns null if the review doesn't exist
+ */
+export async function updateReview(reviewId: string, input: ReviewInput): Promise<Review | null> {
+    const existingReview = await getReviewById(reviewId);
+    if (!existingReview) {
+        return null;
+    }
+
+    const updatedReview: Review = {
+        ...existingReview,
+        ...ReviewInputSchema.parse(input),
+        updatedAt: new Date().toISOString(),
+    };
+
+    await dynamodb.putItem(REVIEWS_TABLE, updatedReview);
+    await recalculatePlaceRatings(existingReview.placeId);
+    return updatedReview;
+}
+
+export async function deleteReview(reviewId: string): Promise<boolean> {
+    const existingReview = await getReviewById(reviewId);
+    if (!existingReview) {
+        return false;
+    }
+
+    await dynamodb.deleteItem(REVIEWS_TABLE, { id: reviewId });
+    await recalculatePlaceRatings(existingReview.placeId);
+    return true;
+}
+
+/**
+ * Move a place's reviews to another place (when duplicates are merged) and update both places' ratings.
+ * A user who reviewed both places keeps whichever review they wrote last.
+ * @returns the number of reviews moved
+ */
+export async function moveReviews(fromPlaceId: string, toPlaceId: string): Promise<number> {
+    const reviews = await queryPlaceReviews(fromPlaceId);
+    let moved = 0;
+
+    for (const review of reviews) {
+        const id = getReviewId(toPlaceId, review.userId);
+        const existingReview = await getReviewById(id);
+        if (!existingReview || existingReview.updatedAt < review.updatedAt) {
+            await dynamodb.putItem(REVIEWS_TABLE, { ...review, id, placeId: toPlaceId });
+            moved++;
+        }
+        await dynamodb.deleteItem(REVIEWS_TABLE, { id: review.id });
+    }
+
+    if (reviews.length > 0) {
+        await recalculatePlaceRatings(toPlaceId);
+        await recalculatePlaceRatings(fromPlaceId);
+    }
+    return moved;
+}
+
+/**
+ * Recompute a place's rating attributes and review count from all of its reviews.
+ * Reading every review keeps the averages right even if two reviews land at once.
+ */
+export async function recalculatePlaceRatings(placeId: string): Promise<void> {
+    const reviews = await queryPlaceReviews(placeId);
+
+    // average of the reviews that rated a dimension, to 2 decimal places
+    const average = (values: (number | undefined)[]): number | undefined => {
+        const rated = values.filter((value): value is number => value !== undefined);
+        if (rated.length === 0) return undefined;
+        return Math.round(rated.reduce((sum, value) => sum + value, 0) / rated.length * 100) / 100;
+    };
+
+    await placeService.applyReviewAggregates(placeId, {
+        rating: average(reviews.map(review => review.ratings.overall)),
+        coffeeRating: average(reviews.map(review => review.ratings.coffee)),
+        seatingComfort: average(reviews.map(review => review.ratings.seatingComfort)),
+        reviewCount: reviews.length,
+    });
+}
+
+async function queryPlaceReviews(placeId: string): Promise<Review[]> {
+    const items = await dynamodb.queryItems(
+        REVIEWS_TABLE,
+        'placeId = :placeId',
+        { ':placeId': placeId },
+        REVIEWS_PLACE_INDEX
+    );
+    return items as Review[];
+}
@@ -0,0 +1,291 @@
+import * as dynamodb from '../utils/dynamodb.js';
+import * as placeService from './placeService.js';
+import { Place } from '../models/place.js';
+import { SearchQuery, SearchPosting } from '../models/search.js';
+import { PageOptions } from '../models/pagination.js';
+import { encodeCursor, decodeCursor, fingerprintQuery, InvalidCursorError } from '../utils/cursor.js';
+
+// inverted index of place text: partition key bucket (the term's first BUCKET_PREFIX_LENGTH characters),
+// sort key `${term}#${placeId}`
+const SEARCH_INDEX_TABLE = process.env.SEARCH_INDEX_TABLE || 'workbru-search-index';
+const SEARCH_PLACE_INDEX = 'place-index'; // GSI on placeId, used to drop a place's old terms
+
+// matches in the name count for more than matches in the address or description
+const FIELD_WEIGHTS = { name: 3, address: 2, description: 1 } as const;
+const MAX_WEIGHT = FIELD_WEIGHTS.name;
+
+// a longer prefix spreads the index over more partitions and keeps each query's read small,
+// but typos in these first characters aren't forgiven. Changing it needs `npm run reindex-search`.
+const BUCKET_PREFIX_LENGTH = 2;
+
+// distance (km) at which a geo-biased result's score is halved
+const SEARCH_GEO_BIAS_KM = Number(process.env.SEARCH_GEO_BIAS_KM || 10);
+
+// only the best matches are loaded and ranked, everything past this is too weak to be useful
+const MAX_SEARCH_CANDIDATES = 200;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'at', 'by', 'for', 'in', 'of', 'on', 'or', 'the', 'to']);
+
+// the in-memory local DB starts from sample data that never went through indexPlace,
+// so outside production the index is built from the places table on first search
+let indexReady = process.env.NODE_ENV === 'production';
+
+/**
+ * Split text into lowercase search terms, accents and apostrophes removed
+ * e.g. "Joe's Café, 12 Main St." -> ["joes", "cafe", "12", "main", "st"]
+ */
+export function tokenize(text?: string): string[] {
+    if (!text) return [];
+
+    return text
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/['’]/g, '')
+        .split(/[^a-z0-9]+/)
+        .filter(token => token.length > 0);
+}
+
+// terms worth indexing or searching for, stop words only count when there's nothing else
+function getTerms(text?: string): string[] {
+    const tokens = tokenize(text);
+    const terms = tokens.filter(token => !STOP_WORDS.has(token));
+    return terms.length > 0 ? terms : tokens;
+}
+
+// the index partition a term or query token lives in
+function getBucket(term: string): string {
+    return term.slice(0, BUCKET_PREFIX_LENGTH);
+}
+
+// how many typos we forgive, short words have to match exactly
+function maxTypos(token: string): number {
+    if (token.length <= 3) return 0;
+    if (token.length <= 7) return 1;
+    return 2;
+}
+
+/**
+ * Edit distance with adjacent transpositions (optimal string alignment)
+ * Gives up early and returns max + 1 once the distance is known to be over max
+ */
+export function editDistance(a: string, b: string, max: number = Infinity): number {
+    if (Math.abs(a.length - b.length) > max) return max + 1;
+
+    let previousPrevious: number[] = [];
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        let rowMin = i;
+
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                current[j] = Math.min(current[j], previousPrevious[j - 2] + 1);
+            }
+            rowMin = Math.min(rowMin, current[j]);
+        }
+
+        if (rowMin > max) return max + 1;
+        previousPrevious = previous;
+        previous = current;
+    }
+
+    return previous[b.length];
+}
+
+/**
+ * Score how well a query token matches an indexed term, 0 means no match
+ * Exact matches beat prefix matches (search as you type), which beat typos
+ */
+export function matchTerm(token: string, term: string): number {
+    if (term === token) return 1;
+    if (token.length >= 2 && term.startsWith(token)) return 0.8;
+
+    const allowed = maxTypos(token);
+    if (allowed === 0) return 0;
+
+    const distance = editDistance(token, term, allowed);
+    return distance <= allowed ? 1 - distance * 0.25 : 0;
+}
+
+/**
+ * How alike two place names are from 0 to 1, ignoring case, accents, punctuation and stop words
+ * Takes the better of spelling similarity and how many words of the shorter name the longer one has,
+ * so "Starbucks" and "Starbucks Coffee" count as the same name
+ */
+export function nameSimilarity(a: string, b: string): number {
+    const aTerms = getTerms(a);
+    const bTerms = getTerms(b);
+    if (aTerms.length === 0 || bTerms.length === 0) return 0;
+
+    const aText = aTerms.join(' ');
+    const bText = bTerms.join(' ');
+    const spelling = 1 - editDistance(aText, bText) / Math.max(aText.length, bText.length);
+
+    const [shorter, longer] = aTerms.length <= bTerms.length ? [aTerms, bTerms] : [bTerms, aTerms];
+    const shared = shorter.filter(term => longer.some(other => matchTerm(term, other) >= 0.75)).length;
+
+    return Math.max(spelling, shared / shorter.length);
+}
+
+/**
+ * Build the index entries for a place, one per distinct term
+ * A term found in several fields keeps the weight of the most important one
+ */
+export function buildPostings(place: Place): SearchPosting[] {
+    const weights = new Map<string, number>();
+
+    for (const [field, weight] of Object.entries(FIELD_WEIGHTS)) {
+        for (const term of getTerms(place[field as keyof typeof FIELD_WEIGHTS])) {
+            weights.set(term, Math.max(weights.get(term) || 0, weight));
+        }
+    }
+
+    return Array.from(weights, ([term, weight]) => ({
+        bucket: getBucket(term),
+        id: `${term}#${place.id}`,
+        term,
+        placeId: place.id!,
+        weight,
+    }));
+}
+
+/**
+ * Add or replace a place's entries in the search index
+ */
+export async function indexPlace(place: Place): Promise<void> {
+    if (!place.id) return;
+
+    await removePlace(place.id);
+    await Promise.all(buildPostings(place).map(posting => dynamodb.putItem(SEARCH_INDEX_TABLE, posting)));
+}
+
+/**
+ * Remove all of a place's entries from the search index
+ */
+export async function removePlace(placeId: string): Promise<void> {
+    const postings = await dynamodb.queryItems(
+        SEARCH_INDEX_TABLE,
+        'placeId = :placeId',
+        { ':placeId': placeId },
+        SEARCH_PLACE_INDEX
+    );
+
+    await Promise.all(postings.map(posting =>
+        dynamodb.deleteItem(SEARCH_INDEX_TABLE, { bucket: posting.bucket, id: posting.id })
+    ));
+}
+
+/**
+ * Rebuild the index entries for every place
+ * @returns the number of places indexed
+ */
+export async function reindexAllPlaces(): Promise<number> {
+    // submissions waiting for moderation aren't searchable
+    const places = (await dynamodb.scanItems(dynamodb.PLACES_TABLE) as Place[]).filter(placeService.isPlaceLive);
+
+    for (const place of places) {
+        await indexPlace(place);
+    }
+
+    indexReady = true;
+    console.log(`[Search] Indexed ${places.length} places`);
+    return places.length;
+}
+
+/**
+ * Full-text search over place name, address and description.
+ * Ranked by relevance, and by distance too when a lat/lng is given.
+ */
+export async function searchPlaces(query: SearchQuery, page: PageOptions = {}): Promise<placeService.PlacesPage> {
+    const fingerprint = fingerprintQuery({ route: 'search', q: query.q, lat: query.lat, lng: query.lng });
+    let offset = 0;
+    if (page.cursor) {
+        const data = await decodeCursor<{ q: string, offset?: number }>(page.cursor);
+        if (data.q !== fingerprint) {
+            throw new InvalidCursorError('Cursor does not belong to this query');
+        }
+        offset = data.offset ?? 0;
+    }
+
+    const tokens = Array.from(new Set(getTerms(query.q)));
+    if (tokens.length === 0) {
+        return { places: [] };
+    }
+
+    try {
+        if (!indexReady) {
+            await reindexAllPlaces();
+        }
+
+        // typo tolerance assumes the first letters are right, so each token only reads its own bucket.
+        // bucket is a reserved word
+        const buckets = Array.from(new Set(tokens.map(getBucket)));
+        const postings = (await Promise.all(buckets.map(bucket =>
+            dynamodb.queryItems(SEARCH_INDEX_TABLE, '#bucket = :bucket', { ':bucket': bucket }, undefined, { '#bucket': 'bucket' })
+        ))).flat() as SearchPosting[];
+
+        // best score for each query token, per place
+        const tokenScores = new Map<string, number[]>();
+        for (const posting of postings) {
+            tokens.forEach((token, i) => {
+                if (getBucket(token) !== posting.bucket) return;
+
+                const score = matchTerm(token, posting.term) * posting.weight;
+                if (score === 0) return;
+
+                const scores = tokenScores.get(posting.placeId) || new Array(tokens.length).fill(0);
+                scores[i] = Math.max(scores[i], score);
+                tokenScores.set(posting.placeId, scores);
+            });
+        }
+
+        // 1 means every token matched a name term exactly
+        const candidates = Array.from(tokenScores, ([placeId, scores]) => ({
+            placeId,
+            relevance: scores.reduce((sum, score) => sum + score, 0) / (tokens.length * MAX_WEIGHT),
+        }))
+            .sort((a, b) => b.relevance - a.relevance)
+            .slice(0, MAX_SEARCH_CANDIDATES);
+
+        // index entries can outlive their place, and hidden places aren't searchable
+        const stored = (await placeService.getPlacesByIds(candidates.map(candidate => candidate.placeId)))
+            .filter(placeService.isPlaceLive);
+        const relevanceById = new Map(candidates.map(candidate => [candidate.placeId, candidate.relevance]));
+
+        const results: { place: Place, score: number }[] = [];
+        for (const storedPlace of stored) {
+            const relevance = relevanceById.get(storedPlace.id!)!;
+            const place = { ...storedPlace }; // don't write the distance into the cached copy
+            let score = relevance;
+            if (query.lat !== undefined && query.lng !== undefined && place.location) {
+                place.distance = placeService.calculateDistance(
+                    query.lat, query.lng, place.location.latitude, place.location.longitude
+                );
+                score = relevance / (1 + place.distance / SEARCH_GEO_BIAS_KM);
+            }
+            results.push({ place, score });
+        }
+
+        results.sort((a, b) => b.score - a.score || a.place.name.localeCompare(b.place.name));
+        console.log(`[Search] "${query.q}" matched ${results.length} places`);
+
+        const places = results.map(result => result.place);
+        if (!page.limit) {
+            return { places };
+        }
+
+        const end = offset + page.limit;
+        return {
+            places: places.slice(offset, end),
+            nextCursor: end < places.length ? await encodeCursor({ q: fingerprint, offset: end }) : undefined,
+        };
+    } catch (err) {
+        console.error('Error searching places: ', err);
+        throw new Error(`Failed to search places: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+}
@@ -99,6 +99,20 @@ export async function getSessionById(sessionId: string): Promise<Session | null>
     }
 }
 
+/**
+ * The user behind a request's session cookie, for public routes that show signed-in users a bit more
+ * @returns null when there's no session cookie or the session isn't valid any more
+ */
+export async function getSessionUserId(cookieHeader?: string): Promise<string | null> {
+    const sessionId = getSessionIdFromCookie(cookieHeader);
+    if (!sessionId) {
+        return null;
+    }
+
+    const session = await getSessionById(sessionId);
+    return session?.userId ?? null;
+}
+
 /**
  * Get all active sessions for a user
  */
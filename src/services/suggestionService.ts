@@ -0,0 +1,231 @@
+import { v4 as uuidv4 } from 'uuid';
+import * as dynamodb from '../utils/dynamodb.js';
+import * as placeService from './placeService.js';
+import { Place } from '../models/place.js';
+import {
+    Suggestion,
+    SuggestionDiff,
+    SuggestionInput,
+    SuggestionInputSchema,
+    SuggestionReview,
+    SuggestionReviewSchema,
+    SuggestionStatus,
+    SuggestedChangesSchema
+} from '../models/suggestion.js';
+import { PageOptions } from '../models/pagination.js';
+import { encodeCursor, decodeCursor, fingerprintQuery, InvalidCursorError } from '../utils/cursor.js';
+
+const SUGGESTIONS_TABLE = process.env.SUGGESTIONS_TABLE || 'workbru-suggestions';
+const SUGGESTIONS_STATUS_INDEX = 'status-index';
+
+// objects where a suggestion only carries the keys it changes, the rest come from the place
+const NESTED_FIELDS = ['amenities', 'attributes'] as const;
+
+// set from reviews, so not open to suggestions
+const REVIEWED_ATTRIBUTES = ['rating', 'coffeeRating', 'seatingComfort'];
+
+// a suggestion with its side by side diff against the place as it is now
+export type SuggestionView = Suggestion & { placeName?: string, diff: SuggestionDiff[] };
+
+export interface SuggestionsPage {
+    suggestions: SuggestionView[];
+    nextCursor?: string;
+}
+
+/**
+ * Thrown when a suggestion can't be made or reviewed, e.g. it changes nothing or was already reviewed
+ */
+export class SuggestionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SuggestionError';
+    }
+}
+
+export async function getSuggestionById(suggestionId: string): Promise<Suggestion | null> {
+    const item = await dynamodb.getItem(SUGGESTIONS_TABLE, { id: suggestionId });
+    return item as Suggestion | null;
+}
+
+/**
+ * Suggest changes to a place. Only fields that actually differ from the place are kept.
+ * @returns null if the place doesn't exist
+ */
+export async function createSuggestion(placeId: string, userId: string, input: SuggestionInput): Promise<Suggestion | null> {
+    const { changes, note } = SuggestionInputSchema.parse(input);
+
+    const attributeChanges = changes.attributes as Record<string, unknown> | undefined;
+    if (attributeChanges && REVIEWED_ATTRIBUTES.some(key => key in attributeChanges)) {
+        throw new SuggestionError('Ratings come from reviews and cannot be suggested');
+    }
+
+    const place = await placeService.getPlaceById(placeId);
+    if (!place) {
+        return null;
+    }
+
+    // validate partial amenities and attributes as they'd be once merged into the place
+    const merged: Record<string, unknown> = { ...changes };
+    for (const field of NESTED_FIELDS) {
+        if (changes[field] && typeof changes[field] === 'object') {
+            merged[field] = { ...place[field], ...changes[field] as object };
+        }
+    }
+    const suggested = SuggestedChangesSchema.parse(merged);
+
+    const diff = getChangedFields(place, suggested, changes);
+    if (Object.keys(diff).length === 0) {
+        throw new SuggestionError('Suggestion does not change anything');
+    }
+
+    const now = new Date().toISOString();
+    const suggestion: Suggestion = {
+        id: uuidv4(),
+        placeId,
+        userId,
+        changes: diff,
+        note,
+        status: 'pending',
+        createdAt: now,
+        updatedAt: now,
+    };
+
+    await dynamodb.putItem(SUGGESTIONS_TABLE, suggestion);
+    return suggestion;
+}
+
+/**
+ * The moderation queue, oldest first, each suggestion with its diff against the current place
+ */
+export async function getSuggestions(status: SuggestionStatus = 'pending', page: PageOptions = {}): Promise<SuggestionsPage> {
+    const fingerprint = fingerprintQuery({ route: 'suggestions', status });
+    let offset = 0;
+    if (page.cursor) {
+        const data = await decodeCursor<{ q: string, offset?: number }>(page.cursor);
+        if (data.q !== fingerprint) {
+            throw new InvalidCursorError('Cursor does not belong to this query');
+        }
+        offset = data.offset ?? 0;
+    }
+
+    const suggestions = await dynamodb.queryItems(
+        SUGGESTIONS_TABLE,
+        '#status = :status',
+        { ':status': status },
+        SUGGESTIONS_STATUS_INDEX,
+        { '#status': 'status' }
+    ) as Suggestion[];
+    suggestions.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    const end = page.limit ? offset + page.limit : suggestions.length;
+    const views = await Promise.all(suggestions.slice(offset, end).map(async suggestion => {
+        const place = await placeService.getPlaceById(suggestion.placeId);
+        return { ...suggestion, placeName: place?.name, diff: getSuggestionDiff(suggestion, place) };
+    }));
+
+    return {
+        suggestions: views,
+        nextCursor: end < suggestions.length ? await encodeCursor({ q: fingerprint, offset: end }) : undefined,
+    };
+}
+
+/**
+ * Approve or reject a pending suggestion. Approving applies the changes to the place.
+ * @returns null if the suggestion doesn't exist
+ */
+export async function reviewSuggestion(
+    suggestionId: string,
+    moderatorId: string,
+    review: SuggestionReview
+): Promise<Suggestion | null> {
+    const { status, reason } = SuggestionReviewSchema.parse(review);
+
+    const suggestion = await getSuggestionById(suggestionId);
+    if (!suggestion) {
+        return null;
+    }
+    if (suggestion.status !== 'pending') {
+        throw new SuggestionError(`Suggestion has already been ${suggestion.status}`);
+    }
+
+    if (status === 'approved' && !(await placeService.getPlaceById(suggestion.placeId))) {
+        throw new SuggestionError('The place no longer exists');
+    }
+
+    const now = new Date().toISOString();
+    const reviewed: Suggestion = {
+        ...suggestion,
+        status,
+        reviewedBy: moderatorId,
+        rejectionReason: status === 'rejected' ? reason : undefined,
+        reviewedAt: now,
+        updatedAt: now,
+    };
+
+    // claim the suggestion before touching the place, so two moderators can't both apply it
+    if (!(await dynamodb.putVersionedItem(SUGGESTIONS_TABLE, reviewed, suggestion.version))) {
+        throw new SuggestionError('Suggestion has already been reviewed');
+    }
+
+    if (status === 'approved') {
+        try {
+            // updatePlace merges amenities and attributes, so only the suggested keys change
+            await placeService.updatePlace(suggestion.placeId, suggestion.changes as Partial<Place>, moderatorId);
+        } catch (error) {
+            // back in the queue, so it can be reviewed again
+            await dynamodb.putItem(SUGGESTIONS_TABLE, { ...suggestion, version: (suggestion.version ?? 0) + 1 });
+            throw error;
+        }
+    }
+
+    return reviewed;
+}
+
+/**
+ * Side by side diff of a suggestion against a place, amenities and attributes are compared key by key
+ */
+export function getSuggestionDiff(suggestion: Suggestion, place: Place | null): SuggestionDiff[] {
+    const diff: SuggestionDiff[] = [];
+
+    for (const [field, suggested] of Object.entries(suggestion.changes)) {
+        if ((NESTED_FIELDS as readonly string[]).includes(field) && suggested && typeof suggested === 'object') {
+            const current = (place?.[field as typeof NESTED_FIELDS[number]] ?? {}) as Record<string, unknown>;
+            for (const [key, value] of Object.entries(suggested)) {
+                diff.push({ field: `${field}.${key}`, current: current[key], suggested: value });
+            }
+        } else {
+            diff.push({ field, current: place?.[field as keyof Place], suggested });
+        }
+    }
+
+    return diff;
+}
+
+// the suggested values that differ from the place, nested objects reduced to the keys that differ.
+// Only keys the client sent count, so schema defaults (parking 'none', openLate false...) filled in
+// for keys the place is missing don't show up as changes.
+function getChangedFields(place: Place, suggested: Partial<Place>, sent: Record<string, unknown>): Record<string, unknown> {
+    const changed: Record<string, unknown> = {};
+
+    for (const [field, value] of Object.entries(suggested)) {
+        const current = place[field as keyof Place];
+
+        if ((NESTED_FIELDS as readonly string[]).includes(field)) {
+            const currentObject = (current ?? {}) as Record<string, unknown>;
+            const sentKeys = Object.keys(sent[field] as object);
+            const changedKeys = Object.entries(value as Record<string, unknown>)
+                .filter(([key, nestedValue]) => sentKeys.includes(key) && !isEqual(currentObject[key], nestedValue));
+            if (changedKeys.length > 0) {
+                changed[field] = Object.fromEntries(changedKeys);
+            }
+        } else if (!isEqual(current, value)) {
+            changed[field] = value;
+        }
+    }
+
+    return changed;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,210 @@
+import { v4 as uuidv4 } from 'uuid';
+import * as dynamodb from '../utils/dynamodb.js';
+import * as placeService from './placeService.js';
+import { PageOptions } from '../models/pagination.js';
+import { PlacesPage } from './placeService.js';
+import {
+    TeamFavorite,
+    TeamAnnotation,
+    TeamAnnotationInput,
+    TeamAnnotationInputSchema,
+    TeamAnnotationUpdate,
+    TeamAnnotationUpdateSchema,
+} from '../models/teamPlace.js';
+import { encodeCursor, decodeCursor, fingerprintQuery, InvalidCursorError } from '../utils/cursor.js';
+
+const TEAM_FAVORITES_TABLE = process.env.TEAM_FAVORITES_TABLE || 'workbru-team-favorites';
+const TEAM_ANNOTATIONS_TABLE = process.env.TEAM_ANNOTATIONS_TABLE || 'workbru-team-annotations';
+const TEAM_INDEX = 'teamId-index';
+const TEAM_FAVORITES_PLACE_INDEX = 'placeId-index';
+
+// who may see or change these is checked by the caller, see permissionService
+
+function getTeamFavoriteId(teamId: string, placeId: string): string {
+    return `${teamId}#${placeId}`;
+}
+
+/**
+ * The places the team has added, newest first. A place that's been deleted since is skipped
+ * rather than removed from the team's list, so it shows up again if the place is restored.
+ */
+export async function getTeamFavorites(teamId: string, page: PageOptions = {}): Promise<PlacesPage> {
+    const fingerprint = fingerprintQuery({ route: 'team-favorites', teamId });
+    let offset = 0;
+    if (page.cursor) {
+        const data = await decodeCursor<{ q: string, offset?: number }>(page.cursor);
+        if (data.q !== fingerprint) {
+            throw new InvalidCursorError('Cursor does not belong to this query');
+        }
+        offset = data.offset ?? 0;
+    }
+
+    const favorites = await queryTeam(TEAM_FAVORITES_TABLE, teamId) as TeamFavorite[];
+    favorites.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    const places = (await placeService.getPlacesByIds(favorites.map(favorite => favorite.placeId)))
+        .filter(place => placeService.isPlaceLive(place));
+
+    const end = page.limit ? offset + page.limit : places.length;
+    return {
+        places: places.slice(offset, end),
+        nextCursor: end < places.length ? await encodeCursor({ q: fingerprint, offset: end }) : undefined,
+    };
+}
+
+/**
+ * Add a place to the team's favourites, adding it again keeps the original
+ * @returns null if the place doesn't exist
+ */
+export async function addTeamFavorite(teamId: string, placeId: string, userId: string): Promise<TeamFavorite | null> {
+    const place = await placeService.getPlaceById(placeId);
+    if (!place || !placeService.isPlaceLive(place)) {
+        return null;
+    }
+
+    const id = getTeamFavoriteId(teamId, placeId);
+    const existing = await dynamodb.getItem(TEAM_FAVORITES_TABLE, { id });
+    if (existing) {
+        return existing as TeamFavorite;
+    }
+
+    const favorite: TeamFavorite = {
+        id,
+        teamId,
+        placeId,
+        addedBy: userId,
+        createdAt: new Date().toISOString(),
+    };
+
+    await dynamodb.putItem(TEAM_FAVORITES_TABLE, favorite);
+    return favorite;
+}
+
+/**
+ * @returns false if the place wasn't one of the team's favourites
+ */
+export async function removeTeamFavorite(teamId: string, placeId: string): Promise<boolean> {
+    const id = getTeamFavoriteId(teamId, placeId);
+    if (!await dynamodb.getItem(TEAM_FAVORITES_TABLE, { id })) {
+        return false;
+    }
+
+    await dynamodb.deleteItem(TEAM_FAVORITES_TABLE, { id });
+    return true;
+}
+
+/**
+ * Move every team's favourite of a place to another place, e.g. when duplicates are merged.
+ * A team that already has the other place keeps its own entry for it.
+ * @returns the number of team favourites moved
+ */
+export async function moveTeamFavorites(fromPlaceId: string, toPlaceId: string): Promise<number> {
+    const favorites = await dynamodb.queryItems(
+        TEAM_FAVORITES_TABLE,
+        'placeId = :placeId',
+        { ':placeId': fromPlaceId },
+        TEAM_FAVORITES_PLACE_INDEX
+    ) as TeamFavorite[];
+    let moved = 0;
+
+    for (const favorite of favorites) {
+        const id = getTeamFavoriteId(favorite.teamId, toPlaceId);
+        if (await dynamodb.putNewItem(TEAM_FAVORITES_TABLE, { ...favorite, id, placeId: toPlaceId })) {
+            moved++;
+        }
+        await dynamodb.deleteItem(TEAM_FAVORITES_TABLE, { id: favorite.id });
+    }
+
+    return moved;
+}
+
+/**
+ * The team's notes, newest first, optionally only those on one place
+ */
+export async function getTeamAnnotations(teamId: string, placeId?: string): Promise<TeamAnnotation[]> {
+    const annotations = await queryTeam(TEAM_ANNOTATIONS_TABLE, teamId) as TeamAnnotation[];
+
+    return annotations
+        .filter(annotation => !placeId || annotation.placeId === placeId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getAnnotationById(id: string): Promise<TeamAnnotation | null> {
+    const item = await dynamodb.getItem(TEAM_ANNOTATIONS_TABLE, { id });
+    return item as TeamAnnotation | null;
+}
+
+/**
+ * @returns null if there's no such note on this team
+ */
+export async function getTeamAnnotation(teamId: string, id: string): Promise<TeamAnnotation | null> {
+    const annotation = await getAnnotationById(id);
+    return annotation?.teamId === teamId ? annotation : null;
+}
+
+/**
+ * @returns null if the place doesn't exist
+ */
+export async function addTeamAnnotation(teamId: string, userId: string, input: TeamAnnotationInput): Promise<TeamAnnotation | null> {
+    const { placeId, text } = TeamAnnotationInputSchema.parse(input);
+    const place = await placeService.getPlaceById(placeId);
+    if (!place || !placeService.isPlaceLive(place)) {
+        return null;
+    }
+
+    const now = new Date().toISOString();
+    const annotation: TeamAnnotation = {
+        id: uuidv4(),
+        teamId,
+        placeId,
+        userId,
+        text,
+        createdAt: now,
+        updatedAt: now,
+    };
+
+    await dynamodb.putItem(TEAM_ANNOTATIONS_TABLE, annotation);
+    return annotation;
+}
+
+/**
+ * @returns null if there's no such note on this team
+ */
+export async function updateTeamAnnotation(teamId: string, id: string, update: TeamAnnotationUpdate): Promise<TeamAnnotation | null> {
+    const { text } = TeamAnnotationUpdateSchema.parse(update);
+    const annotation = await getTeamAnnotation(teamId, id);
+    if (!annotation) {
+        return null;
+    }
+
+    const updated = { ...annotation, text, updatedAt: new Date().toISOString() };
+    await dynamodb.putItem(TEAM_ANNOTATIONS_TABLE, updated);
+    return updated;
+}
+
+/**
+ * @returns false if there's no such note on this team
+ */
+export async function deleteTeamAnnotation(teamId: string, id: string): Promise<boolean> {
+    if (!await getTeamAnnotation(teamId, id)) {
+        return false;
+    }
+
+    await dynamodb.deleteItem(TEAM_ANNOTATIONS_TABLE, { id });
+    return true;
+}
+
+/**
+ * Remove all of a team's favourites and notes, when the team is deleted
+ */
+export async function deleteTeamPlaces(teamId: string): Promise<void> {
+    for (const table of [TEAM_FAVORITES_TABLE, TEAM_ANNOTATIONS_TABLE]) {
+        for (const item of await queryTeam(table, teamId)) {
+            await dynamodb.deleteItem(table, { id: item.id });
+        }
+    }
+}
+
+async function queryTeam(table: string, teamId: string): Promise<Record<string, any>[]> {
+    return await dynamodb.queryItems(table, 'teamId = :teamId', { ':teamId': teamId }, TEAM_INDEX);
+}
@@ -0,0 +1,331 @@
+import { v4 as uuidv4 } from 'uuid';
+import { randomBytes } from 'crypto';
+import * as dynamodb from '../utils/dynamodb.js';
+import * as teamPlaceService from './teamPlaceService.js';
+import {
+    Team,
+    TeamRole,
+    TeamMember,
+    TeamInvite,
+    TeamInput,
+    TeamInputSchema,
+    TeamUpdate,
+    TeamUpdateSchema,
+    TeamInviteInput,
+    TeamInviteInputSchema,
+} from '../models/team.js';
+
+const TEAMS_TABLE = process.env.TEAMS_TABLE || 'workbru-teams';
+const TEAM_MEMBERS_TABLE = process.env.TEAM_MEMBERS_TABLE || 'workbru-team-members';
+const TEAM_INVITES_TABLE = process.env.TEAM_INVITES_TABLE || 'workbru-team-invites';
+const TEAM_INDEX = 'teamId-index';
+const USER_INDEX = 'userId-index';
+const TOKEN_INDEX = 'token-index';
+
+const INVITE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// a role can do everything the roles below it can
+const ROLE_RANK: Record<TeamRole, number> = { member: 0, admin: 1, owner: 2 };
+
+export type UserTeam = Team & { role: TeamRole };
+
+/**
+ * Thrown when a team or its membership can't be changed as asked, e.g. removing its last owner
+ */
+export class TeamError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TeamError';
+    }
+}
+
+function getMemberId(teamId: string, userId: string): string {
+    return `${teamId}#${userId}`;
+}
+
+/**
+ * Create a team, its creator becomes its owner
+ */
+export async function createTeam(userId: string, input: TeamInput): Promise<UserTeam> {
+    const { name, description } = TeamInputSchema.parse(input);
+    const now = new Date().toISOString();
+
+    const team: Team = {
+        id: uuidv4(),
+        name,
+        description,
+        createdBy: userId,
+        createdAt: now,
+        updatedAt: now,
+    };
+
+    await dynamodb.putItem(TEAMS_TABLE, team);
+    await dynamodb.putItem(TEAM_MEMBERS_TABLE, {
+        id: getMemberId(team.id, userId),
+        teamId: team.id,
+        userId,
+        role: 'owner',
+        joinedAt: now,
+    } satisfies TeamMember);
+
+    return { ...team, role: 'owner' };
+}
+
+export async function getTeam(id: string): Promise<Team | null> {
+    const item = await dynamodb.getItem(TEAMS_TABLE, { id });
+    return item as Team | null;
+}
+
+/**
+ * The teams a user belongs to, with their role in each, oldest membership first
+ */
+export async function getUserTeams(userId: string): Promise<UserTeam[]> {
+    const memberships = await dynamodb.queryItems(
+        TEAM_MEMBERS_TABLE,
+        'userId = :userId',
+        { ':userId': userId },
+        USER_INDEX
+    ) as TeamMember[];
+    memberships.sort((a, b) => a.joinedAt.localeCompare(b.joinedAt));
+
+    const teams: UserTeam[] = [];
+    for (const membership of memberships) {
+        const team = await getTeam(membership.teamId);
+        if (team) {
+            teams.push({ ...team, role: membership.role });
+        }
+    }
+    return teams;
+}
+
+/**
+ * @returns null if there's no such team
+ */
+export async function updateTeam(id: string, update: TeamUpdate): Promise<Team | null> {
+    const { name, description } = TeamUpdateSchema.parse(update);
+    const team = await getTeam(id);
+    if (!team) {
+        return null;
+    }
+
+    // a full put, so a cleared description doesn't linger
+    const updated: Team = {
+        ...team,
+        name: name ?? team.name,
+        description: description === null ? undefined : description ?? team.description,
+        updatedAt: new Date().toISOString(),
+    };
+    await dynamodb.putItem(TEAMS_TABLE, updated);
+    return updated;
+}
+
+/**
+ * Delete a team along with its memberships, invites, shared favourites and notes
+ * @returns false if there's no such team
+ */
+export async function deleteTeam(id: string): Promise<boolean> {
+    if (!await getTeam(id)) {
+        return false;
+    }
+
+    for (const table of [TEAM_MEMBERS_TABLE, TEAM_INVITES_TABLE]) {
+        const items = await dynamodb.queryItems(table, 'teamId = :teamId', { ':teamId': id }, TEAM_INDEX);
+        for (const item of items) {
+            await dynamodb.deleteItem(table, { id: item.id });
+        }
+    }
+    await teamPlaceService.deleteTeamPlaces(id);
+    await dynamodb.deleteItem(TEAMS_TABLE, { id });
+    return true;
+}
+
+/**
+ * @returns null if the user isn't on the team
+ */
+export async function getMembership(teamId: string, userId: string): Promise<TeamMember | null> {
+    const item = await dynamodb.getItem(TEAM_MEMBERS_TABLE, { id: getMemberId(teamId, userId) });
+    return item as TeamMember | null;
+}
+
+/**
+ * Whether the user is on the team with at least the given role
+ */
+export async function hasTeamRole(teamId: string, userId: string, role: TeamRole): Promise<boolean> {
+    const membership = await getMembership(teamId, userId);
+    return Boolean(membership) && ROLE_RANK[membership!.role] >= ROLE_RANK[role];
+}
+
+/**
+ * A team's members, in the order they joined
+ */
+export async function getTeamMembers(teamId: string): Promise<TeamMember[]> {
+    const members = await dynamodb.queryItems(
+        TEAM_MEMBERS_TABLE,
+        'teamId = :teamId',
+        { ':teamId': teamId },
+        TEAM_INDEX
+    ) as TeamMember[];
+
+    return members.sort((a, b) => a.joinedAt.localeCompare(b.joinedAt));
+}
+
+/**
+ * Change a member's role. Only owners can make someone an owner or change another owner's role.
+ * @param actorId the user making the change, already allowed to manage the team
+ * @returns null if the user isn't on the team
+ * @throws TeamError if the actor can't make this change or it would leave the team without an owner
+ */
+export async function updateMemberRole(teamId: string, actorId: string, userId: string, role: TeamRole): Promise<TeamMember | null> {
+    const member = await getMembership(teamId, userId);
+    if (!member) {
+        return null;
+    }
+
+    if ((role === 'owner' || member.role === 'owner') && !await hasTeamRole(teamId, actorId, 'owner')) {
+        throw new TeamError('Only owners can change who owns the team');
+    }
+    if (member.role === 'owner' && role !== 'owner') {
+        await assertAnotherOwner(teamId, userId);
+    }
+
+    const updated: TeamMember = { ...member, role };
+    await dynamodb.putItem(TEAM_MEMBERS_TABLE, updated);
+    return updated;
+}
+
+/**
+ * Take someone off the team, or leave it when the actor is the member
+ * @param actorId the user making the change, already allowed to manage the team unless they're leaving
+ * @returns false if the user isn't on the team
+ * @throws TeamError if the actor can't remove this member or it would leave the team without an owner
+ */
+export async function removeMember(teamId: string, actorId: string, userId: string): Promise<boolean> {
+    const member = await getMembership(teamId, userId);
+    if (!member) {
+        return false;
+    }
+
+    if (member.role === 'owner') {
+        if (actorId !== userId && !await hasTeamRole(teamId, actorId, 'owner')) {
+            throw new TeamError('Only owners can remove an owner');
+        }
+        await assertAnotherOwner(teamId, userId);
+    }
+
+    await dynamodb.deleteItem(TEAM_MEMBERS_TABLE, { id: member.id });
+    return true;
+}
+
+/**
+ * Invite someone to the team. Inviting the same email address again replaces its earlier invite.
+ * The token is only returned here and to the team's admins, it's up to them to pass it on.
+ * @param invitedBy the user sending it, already allowed to manage the team
+ */
+export async function createInvite(teamId: string, invitedBy: string, input: TeamInviteInput): Promise<TeamInvite> {
+    const { email, role } = TeamInviteInputSchema.parse(input);
+
+    if (email) {
+        for (const invite of await getTeamInvites(teamId)) {
+            if (invite.email === email) {
+                await dynamodb.deleteItem(TEAM_INVITES_TABLE, { id: invite.id });
+            }
+        }
+    }
+
+    const now = new Date();
+    const invite: TeamInvite = {
+        id: uuidv4(),
+        teamId,
+        email,
+        role,
+        token: randomBytes(24).toString('base64url'),
+        invitedBy,
+        createdAt: now.toISOString(),
+        expiresAt: Math.floor(now.getTime() / 1000) + INVITE_TTL_SECONDS,
+    };
+
+    await dynamodb.putItem(TEAM_INVITES_TABLE, invite);
+    return invite;
+}
+
+/**
+ * A team's invites that haven't been accepted or expired, newest first
+ */
+export async function getTeamInvites(teamId: string): Promise<TeamInvite[]> {
+    const invites = await dynamodb.queryItems(
+        TEAM_INVITES_TABLE,
+        'teamId = :teamId',
+        { ':teamId': teamId },
+        TEAM_INDEX
+    ) as TeamInvite[];
+
+    // TTL deletes can lag by a day or more
+    return invites
+        .filter(invite => !isExpired(invite))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * @returns false if there's no such invite for this team
+ */
+export async function revokeInvite(teamId: string, id: string): Promise<boolean> {
+    const invite = await dynamodb.getItem(TEAM_INVITES_TABLE, { id }) as TeamInvite | null;
+    if (invite?.teamId !== teamId) {
+        return false;
+    }
+
+    await dynamodb.deleteItem(TEAM_INVITES_TABLE, { id });
+    return true;
+}
+
+/**
+ * Join a team with an invite's token. The invite is used up, and someone already on
+ * the team keeps the role they have.
+ * @param email the accepting user's verified email address, needed for invites sent to an address
+ * @throws TeamError if the invite doesn't exist, has expired or was sent to someone else
+ */
+export async function acceptInvite(token: string, userId: string, email?: string): Promise<TeamMember> {
+    const [invite] = await dynamodb.queryItems(
+        TEAM_INVITES_TABLE,
+        'token = :token',
+        { ':token': token },
+        TOKEN_INDEX
+    ) as TeamInvite[];
+
+    if (!invite || isExpired(invite) || !await getTeam(invite.teamId)) {
+        throw new TeamError('Invite not found or expired');
+    }
+    if (invite.email && invite.email !== email?.toLowerCase()) {
+        throw new TeamError('This invite was sent to a different email address');
+    }
+
+    await dynamodb.deleteItem(TEAM_INVITES_TABLE, { id: invite.id });
+
+    const existing = await getMembership(invite.teamId, userId);
+    if (existing) {
+        return existing;
+    }
+
+    const member: TeamMember = {
+        id: getMemberId(invite.teamId, userId),
+        teamId: invite.teamId,
+        userId,
+        role: invite.role,
+        invitedBy: invite.invitedBy,
+        joinedAt: new Date().toISOString(),
+    };
+    await dynamodb.putItem(TEAM_MEMBERS_TABLE, member);
+    return member;
+}
+
+function isExpired(invite: TeamInvite): boolean {
+    return invite.expiresAt * 1000 <= Date.now();
+}
+
+// every team keeps at least one owner, so someone can always manage it
+async function assertAnotherOwner(teamId: string, userId: string): Promise<void> {
+    const members = await getTeamMembers(teamId);
+    if (!members.some(member => member.role === 'owner' && member.userId !== userId)) {
+        throw new TeamError('A team needs an owner, make someone else an owner first');
+    }
+}
@@ -0,0 +1,136 @@
+import * as dynamodb from '../utils/dynamodb.js';
+import * as placeService from './placeService.js';
+import { WifiReport, WifiReportInput, WifiReportInputSchema, WifiSpeed } from '../models/wifi.js';
+
+const WIFI_REPORTS_TABLE = process.env.WIFI_REPORTS_TABLE || 'workbru-wifi-reports';
+const WIFI_REPORTS_PLACE_INDEX = 'placeId-index';
+
+// the medians cover a place's most recent reports within the max age
+export const WIFI_MEDIAN_WINDOW = Number(process.env.WIFI_MEDIAN_WINDOW || 20);
+export const WIFI_REPORT_MAX_AGE_DAYS = Number(process.env.WIFI_REPORT_MAX_AGE_DAYS || 90);
+
+// once a place has this many recent reports, anything this many times off the median is rejected
+export const WIFI_OUTLIER_MIN_REPORTS = Number(process.env.WIFI_OUTLIER_MIN_REPORTS || 5);
+export const WIFI_OUTLIER_FACTOR = Number(process.env.WIFI_OUTLIER_FACTOR || 5);
+
+/**
+ * Thrown when a session reports speeds for the same place twice
+ */
+export class DuplicateWifiReportError extends Error {
+    constructor(message: string = 'You have already reported Wi-Fi speeds for this place') {
+        super(message);
+        this.name = 'DuplicateWifiReportError';
+    }
+}
+
+/**
+ * Thrown when a report is too far off the place's other reports to be believable
+ */
+export class WifiOutlierError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WifiOutlierError';
+    }
+}
+
+// one report per session per place, so the id is derived rather than random
+export function getWifiReportId(placeId: string, sessionId: string): string {
+    return `${placeId}#${sessionId}`;
+}
+
+/**
+ * Record a speed test and update the place's median speeds
+ * @returns null if the place doesn't exist
+ */
+export async function submitWifiReport(
+    placeId: string,
+    userId: string,
+    sessionId: string,
+    input: WifiReportInput
+): Promise<WifiReport | null> {
+    const measurements = WifiReportInputSchema.parse(input);
+
+    const place = await placeService.getPlaceById(placeId);
+    if (!place) {
+        return null;
+    }
+
+    const id = getWifiReportId(placeId, sessionId);
+    const now = new Date();
+    const recent = await getRecentReports(placeId, now);
+    if (recent.length >= WIFI_OUTLIER_MIN_REPORTS) {
+        checkOutliers(measurements, summarizeReports(recent)!);
+    }
+
+    const report: WifiReport = {
+        ...measurements,
+        id,
+        placeId,
+        userId,
+        sessionId,
+        createdAt: now.toISOString(),
+    };
+
+    // conditional, so two requests reporting at once can't both write a report
+    if (!await dynamodb.putNewItem(WIFI_REPORTS_TABLE, report)) {
+        throw new DuplicateWifiReportError();
+    }
+    await placeService.applyWifiSpeed(placeId, summarizeReports([report, ...recent]));
+    return report;
+}
+
+/**
+ * Median download, upload and latency of the newest WIFI_MEDIAN_WINDOW reports
+ * @returns undefined if there are no reports
+ */
+export function summarizeReports(reports: WifiReport[]): WifiSpeed | undefined {
+    if (reports.length === 0) {
+        return undefined;
+    }
+
+    const window = [...reports]
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(0, WIFI_MEDIAN_WINDOW);
+
+    return {
+        downloadMbps: median(window.map(report => report.downloadMbps)),
+        uploadMbps: median(window.map(report => report.uploadMbps)),
+        latencyMs: median(window.map(report => report.latencyMs)),
+        reportCount: window.length,
+        measuredAt: window[0].createdAt,
+    };
+}
+
+export function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    const value = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+    return Math.round(value * 10) / 10;
+}
+
+async function getRecentReports(placeId: string, now: Date): Promise<WifiReport[]> {
+    const reports = await dynamodb.queryItems(
+        WIFI_REPORTS_TABLE,
+        'placeId = :placeId',
+        { ':placeId': placeId },
+        WIFI_REPORTS_PLACE_INDEX
+    ) as WifiReport[];
+
+    const oldest = now.getTime() - WIFI_REPORT_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+    return reports.filter(report => new Date(report.createdAt).getTime() >= oldest);
+}
+
+// reject measurements more than WIFI_OUTLIER_FACTOR times above or below the current medians
+function checkOutliers(measurements: WifiReportInput, medians: WifiSpeed): void {
+    const checks = [
+        ['download', measurements.downloadMbps, medians.downloadMbps],
+        ['upload', measurements.uploadMbps, medians.uploadMbps],
+        ['latency', measurements.latencyMs, medians.latencyMs],
+    ] as const;
+
+    for (const [name, value, typical] of checks) {
+        if (value > typical * WIFI_OUTLIER_FACTOR || value < typical / WIFI_OUTLIER_FACTOR) {
+            throw new WifiOutlierError(`Reported ${name} is too far from other reports for this place`);
+        }
+    }
+}
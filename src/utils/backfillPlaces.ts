@@ -0,0 +1,23 @@
+/**
+ * Place field backfill
+ * Places created before per-place time zones and multi-precision geohash indexes existed are
+ * missing those fields, so their opening hours can't be evaluated correctly and the finer
+ * geohash GSIs can't find them. This derives the fields from each place's location and saves them.
+ *
+ * Run against the deployed table with PLACES_TABLE and NODE_ENV=production set, e.g.
+ * NODE_ENV=production PLACES_TABLE=workbru-places bun run src/utils/backfillPlaces.ts
+ */
+import 'dotenv/config';
+import * as placeService from '../services/placeService.js';
+
+async function backfillPlaces() {
+    try {
+        const updated = await placeService.backfillPlaceFields();
+        console.log(`✅ Backfilled time zones and geohash prefixes for ${updated} places`);
+    } catch (error) {
+        console.error('Error backfilling places: ', error);
+        process.exit(1);
+    }
+}
+
+backfillPlaces();
@@ -0,0 +1,101 @@
+/**
+ * CSV (RFC 4180) for place imports and exports
+ * Fields can be quoted, quoted fields can hold commas, line breaks and doubled "" quotes
+ */
+
+export const CSV_CONTENT_TYPE = 'text/csv';
+
+// spreadsheets run text starting with these as a formula, so exported text gets a leading ' to keep it text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Parse CSV text into one record per row, keyed by the header row. Blank lines are ignored,
+ * as is the ' toCsvRow puts in front of formula-like text.
+ * @throws Error if a quoted field is never closed
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+    const rows = parseCsvRows(text.replace(/^\uFEFF/, '')); // spreadsheet exports often start with a BOM
+    if (rows.length === 0) {
+        return [];
+    }
+
+    const header = rows[0].map(name => name.trim());
+    return rows.slice(1).map(row => Object.fromEntries(header.map((name, i) => [name, unescapeFormula(row[i] ?? '')])));
+}
+
+/**
+ * Format one row, ending in a line break. Fields are only quoted when they need to be,
+ * null and undefined become empty fields and objects are written as JSON.
+ * Text that a spreadsheet would run as a formula (=, +, -, @) is prefixed with ', numbers are left alone.
+ */
+export function toCsvRow(fields: unknown[]): string {
+    return fields.map(formatCsvField).join(',') + '\r\n';
+}
+
+function formatCsvField(value: unknown): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+
+    let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// undo the ' formatCsvField adds, so an export reads back as it was written
+function unescapeFormula(field: string): string {
+    return field.startsWith("'") && FORMULA_PREFIX.test(field.slice(1)) ? field.slice(1) : field;
+}
+
+function parseCsvRows(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    const endRow = () => {
+        row.push(field);
+        // a blank line parses as a single empty field
+        if (row.length > 1 || row[0] !== '') {
+            rows.push(row);
+        }
+        row = [];
+        field = '';
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            endRow();
+        } else {
+            field += char;
+        }
+    }
+
+    if (quoted) {
+        throw new Error('Unterminated quoted field');
+    }
+    if (field !== '' || row.length > 0) {
+        endRow();
+    }
+
+    return rows;
+}
@@ -0,0 +1,61 @@
+/**
+ * Opaque pagination cursors
+ * A cursor is a base64url JSON payload plus an HMAC signature, so clients can pass it back
+ * but can't read meaningful internals from it or forge a DynamoDB start key.
+ */
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import * as secretsUtil from './secrets.js';
+
+/**
+ * Thrown when a cursor is malformed, tampered with, or used with a different query
+ */
+export class InvalidCursorError extends Error {
+    constructor(message: string = 'Invalid pagination cursor') {
+        super(message);
+        this.name = 'InvalidCursorError';
+    }
+}
+
+async function sign(payload: string): Promise<string> {
+    const secret = await secretsUtil.getCursorSecret();
+    return createHmac('sha256', secret).update(`cursor:${payload}`).digest('base64url');
+}
+
+/**
+ * Encode and sign a cursor payload
+ */
+export async function encodeCursor(data: Record<string, any>): Promise<string> {
+    const payload = Buffer.from(JSON.stringify(data)).toString('base64url');
+    const signature = await sign(payload);
+    return `${payload}.${signature}`;
+}
+
+/**
+ * Verify and decode a cursor
+ * @throws InvalidCursorError if the cursor is malformed or the signature doesn't match
+ */
+export async function decodeCursor<T extends Record<string, any> = Record<string, any>>(cursor: string): Promise<T> {
+    const [payload, signature, ...rest] = cursor.split('.');
+    if (!payload || !signature || rest.length > 0) {
+        throw new InvalidCursorError();
+    }
+
+    const expected = Buffer.from(await sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        throw new InvalidCursorError();
+    }
+
+    try {
+        return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as T;
+    } catch {
+        throw new InvalidCursorError();
+    }
+}
+
+/**
+ * Short fingerprint of the query a cursor belongs to, so a cursor can't be replayed against other parameters
+ */
+export function fingerprintQuery(query: Record<string, any>): string {
+    return createHash('sha256').update(JSON.stringify(query)).digest('base64url').substring(0, 16);
+}
@@ -6,10 +6,13 @@ import {
     QueryCommand,
     ScanCommand,
     DeleteCommand,
-    UpdateCommand
+    UpdateCommand,
+    TransactWriteCommand,
+    BatchGetCommand,
+    BatchGetCommandOutput
 } from '@aws-sdk/lib-dynamodb';
 import { localDb } from './localdb.js';
-import { ReturnValue } from '@aws-sdk/client-dynamodb';
+import { ReturnValue, ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
 import { APIGatewayProxyResult } from 'aws-lambda';
 
 export const PLACES_TABLE = process.env.PLACES_TABLE || 'workbru-places';
@@ -113,6 +116,66 @@ export async function putItem(tablename: string, item: Record<string, any>): Pro
 }
 
 
+/**
+ * Put an item only if there isn't already one with its id, as a single conditional write
+ * so two requests racing to create the same item can't both succeed
+ * @returns false if the item already exists
+ */
+export async function putNewItem(tableName: string, item: Record<string, any>): Promise<boolean> {
+    if (useLocalDb) {
+        return localDb.putNewItem(tableName, item);
+    }
+    try {
+        await docClientInstance!.send(
+            new PutCommand({
+                TableName: tableName,
+                Item: item,
+                ConditionExpression: 'attribute_not_exists(id)',
+            })
+        );
+        return true;
+    } catch (error) {
+        if (error instanceof ConditionalCheckFailedException) {
+            return false;
+        }
+        console.error(`Error putting item in ${tableName}:`, error);
+        throw new Error(`DynamoDB put failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+/**
+ * Put an item only if it hasn't changed since it was read, for read-modify-write updates that
+ * can't be written as an UpdateExpression. The stored version is bumped on every write.
+ * @param expectedVersion the version that was read, undefined for a new item (or one saved before it was versioned)
+ * @returns false if someone else wrote the item first, read it again and retry
+ */
+export async function putVersionedItem(
+    tableName: string,
+    item: Record<string, any>,
+    expectedVersion?: number
+): Promise<boolean> {
+    if (useLocalDb) {
+        return localDb.putVersionedItem(tableName, item, expectedVersion);
+    }
+    try {
+        await docClientInstance!.send(
+            new PutCommand({
+                TableName: tableName,
+                Item: { ...item, version: (expectedVersion ?? 0) + 1 },
+                ...(expectedVersion === undefined
+                    ? { ConditionExpression: 'attribute_not_exists(version)' }
+                    : { ConditionExpression: 'version = :version', ExpressionAttributeValues: { ':version': expectedVersion } }),
+            })
+        );
+        return true;
+    } catch (error) {
+        if (error instanceof ConditionalCheckFailedException) {
+            return false;
+        }
+        console.error(`Error putting item in ${tableName}:`, error);
+        throw new Error(`DynamoDB put failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
 
 export async function updateItem(
     tableName: string, 
@@ -120,7 +183,8 @@ export async function updateItem(
     updateExpression: string, 
     expressionAttributeNames: Record<string, any> | null, 
     expressionAttributeValues: Record<string, any>,
-    returnValues: ReturnValue = 'ALL_NEW'
+    returnValues: ReturnValue = 'ALL_NEW',
+    conditionExpression?: string
 ): Promise<Record<string, any> | null> {
     if (useLocalDb) {
         // return localDb.updateItem(tableName, key, updateExpression, expressionAttributeNames, expressionAttributeValues);
@@ -135,6 +199,9 @@ export async function updateItem(
             ExpressionAttributeValues: expressionAttributeValues,
             ReturnValues: returnValues,
         };
+        if (conditionExpression) {
+            params.ConditionExpression = conditionExpression;
+        }
         
         // Only add ExpressionAttributeNames if provided and not empty
         if (expressionAttributeNames && Object.keys(expressionAttributeNames).length > 0) {
@@ -147,6 +214,10 @@ export async function updateItem(
 
         return response.Attributes || null;
     } catch (error) {
+        // only thrown when there's a condition, the item wasn't as expected so nothing changed
+        if (error instanceof ConditionalCheckFailedException) {
+            return null;
+        }
         console.error(`Error updating item in ${tableName}:`, error); 
         throw new Error(`DynamoDB update failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -171,48 +242,131 @@ export async function getItem(tableName: string, key: Record<string, any>): Prom
     }
 }
 
+// the most keys DynamoDB accepts in one batch get
+const MAX_BATCH_GET_KEYS = 100;
+
+/**
+ * Get several items by key, in as few requests as DynamoDB allows. Missing items are left out
+ * and the rest come back in no particular order.
+ */
+export async function batchGetItems(tableName: string, keys: Record<string, any>[]): Promise<Record<string, any>[]> {
+    if (useLocalDb) {
+        const items = await Promise.all(keys.map(key => localDb.getItem(tableName, key)));
+        return items.filter((item): item is Record<string, any> => item !== null);
+    }
+
+    try {
+        const items: Record<string, any>[] = [];
+        for (let i = 0; i < keys.length; i += MAX_BATCH_GET_KEYS) {
+            let pending: Record<string, any>[] | undefined = keys.slice(i, i + MAX_BATCH_GET_KEYS);
+
+            // keys DynamoDB didn't get to (throttling, the 16 MB limit) are handed back to retry
+            while (pending && pending.length > 0) {
+                const response: BatchGetCommandOutput = await docClientInstance!.send(
+                    new BatchGetCommand({ RequestItems: { [tableName]: { Keys: pending } } })
+                );
+                items.push(...(response.Responses?.[tableName] || []));
+                pending = response.UnprocessedKeys?.[tableName]?.Keys;
+            }
+        }
+        return items;
+    } catch (error) {
+        console.error(`Error batch getting items from ${tableName}:`, error);
+        throw new Error(`DynamoDB batch get failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+/**
+ * A single page of results, lastEvaluatedKey is set when there are more items to read
+ */
+export interface ItemPage {
+    items: Record<string, any>[];
+    lastEvaluatedKey?: Record<string, any>;
+}
+
 export async function queryItems(
     tablename: string,
     keyConditionExpression: string,
     expressionAttributeValues: Record<string, any>,
-    indexName?: string
+    indexName?: string,
+    expressionAttributeNames?: Record<string, string> // for keys that are reserved words, e.g. { '#status': 'status' }
 ): Promise<Record<string, any>[]> {
     if (useLocalDb) {
-        return localDb.queryItems(tablename, keyConditionExpression, expressionAttributeValues);
+        return localDb.queryItems(tablename, keyConditionExpression, expressionAttributeValues, expressionAttributeNames);
     }
     try {
-        const response = await docClientInstance!.send(
-            new QueryCommand({
-                TableName: tablename,
-                KeyConditionExpression: keyConditionExpression,
-                ExpressionAttributeValues: expressionAttributeValues,
-                IndexName: indexName,
-            })
-        );
-        return response.Items || [];
+        // a single query response is capped at 1 MB, keep reading until there are no more pages
+        const items: Record<string, any>[] = [];
+        let exclusiveStartKey: Record<string, any> | undefined;
+
+        do {
+            const response = await docClientInstance!.send(
+                new QueryCommand({
+                    TableName: tablename,
+                    KeyConditionExpression: keyConditionExpression,
+                    ExpressionAttributeValues: expressionAttributeValues,
+                    ExpressionAttributeNames: expressionAttributeNames,
+                    IndexName: indexName,
+                    ExclusiveStartKey: exclusiveStartKey,
+                })
+            );
+            items.push(...(response.Items || []));
+            exclusiveStartKey = response.LastEvaluatedKey;
+        } while (exclusiveStartKey);
+
+        return items;
     } catch (error) {
         console.error(`Error querying items from ${tablename}:`, error);
         throw new Error(`DynamoDB query failed: ${error instanceof Error ? error.message: 'Unknown error'}`)
     }
 }
 
+/**
+ * Scan a whole table, following LastEvaluatedKey across pages
+ */
 export async function scanItems(tableName: string): Promise<Record<string, any>[]> {
+    const items: Record<string, any>[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+        const page = await scanPage(tableName, undefined, exclusiveStartKey);
+        items.push(...page.items);
+        exclusiveStartKey = page.lastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items;
+}
+
+/**
+ * Scan a single page of a table
+ * @param limit maximum number of items to evaluate (DynamoDB also stops at 1 MB)
+ * @param exclusiveStartKey the lastEvaluatedKey of the previous page
+ */
+export async function scanPage(
+    tableName: string,
+    limit?: number,
+    exclusiveStartKey?: Record<string, any>
+): Promise<ItemPage> {
     if (useLocalDb) {
-        return localDb.scanItems(tableName)
+        return localDb.scanPage(tableName, limit, exclusiveStartKey);
     }
     try {
         const response = await docClientInstance!.send(
             new ScanCommand({
                 TableName: tableName,
+                Limit: limit,
+                ExclusiveStartKey: exclusiveStartKey,
             })
         );
 
-        return response.Items || [];
+        return {
+            items: response.Items || [],
+            lastEvaluatedKey: response.LastEvaluatedKey,
+        };
     } catch (error) {
         console.error(`Error scanning items from ${tableName}:`, error);
         throw new Error(`DynamoDB scan failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-
 }
 
 export async function deleteItem(tableName: string, key: Record<string, any>): Promise<void> {
@@ -233,17 +387,48 @@ export async function deleteItem(tableName: string, key: Record<string, any>): P
     }
 }
 
+// the most items DynamoDB accepts in one transaction
+export const MAX_TRANSACTION_ITEMS = 100;
+
+/**
+ * Put several items in one transaction, either all of them are written or none are
+ */
+export async function transactPutItems(tableName: string, items: Record<string, any>[]): Promise<void> {
+    if (items.length > MAX_TRANSACTION_ITEMS) {
+        throw new Error(`A transaction can write at most ${MAX_TRANSACTION_ITEMS} items`);
+    }
+    if (useLocalDb) {
+        for (const item of items) {
+            await localDb.putItem(tableName, item);
+        }
+        return;
+    }
+
+    try {
+        await docClientInstance!.send(
+            new TransactWriteCommand({
+                TransactItems: items.map(item => ({ Put: { TableName: tableName, Item: item } })),
+            })
+        );
+    } catch (error) {
+        console.error(`Error writing items to ${tableName}:`, error);
+        throw new Error(`DynamoDB transaction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
 /**
  * Helper function to update an item with a set of fields
+ * @param expected only update while the item's fields still hold these values, null is returned otherwise
  */
 export async function updateFields(
     tableName: string,
     key: Record<string, any>,
-    fields: Record<string, any>
+    fields: Record<string, any>,
+    expected?: Record<string, any>
 ): Promise<Record<string, any> | null> {
     // For the local DB case, it's simpler to just get the item, update it, and put it back
     if (useLocalDb) {
-        return localDb.updateItem(tableName, key, fields);
+        return localDb.updateItem(tableName, key, fields, expected);
     }
     
     // Build the update expression dynamically based on the fields object
@@ -266,13 +451,21 @@ export async function updateFields(
     if (updateExpressions.length === 0) {
         return null;
     }
+
+    const conditions = Object.entries(expected ?? {}).map(([key, value]) => {
+        expressionAttributeNames[`#${key}`] = key;
+        expressionAttributeValues[`:expected_${key}`] = value;
+        return `#${key} = :expected_${key}`;
+    });
     
     return updateItem(
         tableName,
         key,
         `SET ${updateExpressions.join(', ')}`,
         expressionAttributeNames,
-        expressionAttributeValues
+        expressionAttributeValues,
+        'ALL_NEW',
+        conditions.length > 0 ? conditions.join(' AND ') : undefined
     );
 }
 
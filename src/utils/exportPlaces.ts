@@ -0,0 +1,42 @@
+/**
+ * Bulk place export
+ * Writes every live place to a CSV, GeoJSON or NDJSON file, picked by the file's extension,
+ * reading the places table a page at a time. The CSV can be edited and imported again with
+ * import-places.
+ *
+ * Run against the deployed table with PLACES_TABLE and NODE_ENV=production set, e.g.
+ * NODE_ENV=production PLACES_TABLE=workbru-places bun run src/utils/exportPlaces.ts places.ndjson
+ */
+import 'dotenv/config';
+import { createWriteStream } from 'fs';
+import { once } from 'events';
+import * as placeExportService from '../services/placeExportService.js';
+import { PlaceExportFormatSchema } from '../models/placeExport.js';
+
+async function exportPlaces() {
+    const file = process.argv[2];
+    const format = PlaceExportFormatSchema.safeParse(file?.split('.').pop()?.toLowerCase());
+    if (!file || !format.success) {
+        console.error('Usage: bun run src/utils/exportPlaces.ts <file.csv|file.geojson|file.ndjson>');
+        process.exit(1);
+    }
+
+    try {
+        const output = createWriteStream(file);
+        const count = await placeExportService.writePlaces(format.data, {}, async chunk => {
+            // wait for the file to catch up rather than buffering the whole table
+            if (!output.write(chunk)) {
+                await once(output, 'drain');
+            }
+        });
+        output.end();
+        await once(output, 'finish');
+
+        console.log(`✅ Exported ${count} places to ${file}`);
+    } catch (error) {
+        console.error('Error exporting places: ', error);
+        process.exit(1);
+    }
+}
+
+exportPlaces();
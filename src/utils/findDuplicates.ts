@@ -0,0 +1,35 @@
+/**
+ * Duplicate place report
+ * Lists pairs of places that look like the same place: close together with similar names or
+ * addresses, or sharing a Google place ID. Nothing is changed, merge the real duplicates with
+ * POST /places/{id}/merge.
+ *
+ * Run against the deployed table with PLACES_TABLE and NODE_ENV=production set, e.g.
+ * NODE_ENV=production PLACES_TABLE=workbru-places bun run src/utils/findDuplicates.ts
+ * Locally it checks the sample data.
+ */
+import 'dotenv/config';
+import * as duplicateService from '../services/duplicateService.js';
+
+async function findDuplicates() {
+    try {
+        const duplicates = await duplicateService.findDuplicates();
+
+        for (const pair of duplicates) {
+            const reasons = [
+                pair.sameGooglePlaceId && 'same Google place ID',
+                `${pair.distanceMeters}m apart`,
+                `name ${pair.nameSimilarity}`,
+                `address ${pair.addressSimilarity}`,
+            ].filter(Boolean).join(', ');
+            console.log(`${pair.placeIds[0]} "${pair.names[0]}" <-> ${pair.placeIds[1]} "${pair.names[1]}" (${reasons})`);
+        }
+
+        console.log(`✅ Found ${duplicates.length} likely duplicates`);
+    } catch (error) {
+        console.error('Error finding duplicates: ', error);
+        process.exit(1);
+    }
+}
+
+findDuplicates();
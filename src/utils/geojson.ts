@@ -0,0 +1,74 @@
+/**
+ * GeoJSON (RFC 7946) output for places
+ * Used when a client asks for `Accept: application/geo+json` or `?format=geojson`
+ */
+import { Place } from '../models/place.js';
+
+export const GEOJSON_CONTENT_TYPE = 'application/geo+json';
+
+export interface PointFeature {
+    type: 'Feature';
+    id?: string;
+    geometry: {
+        type: 'Point';
+        coordinates: [number, number]; // GeoJSON order is [longitude, latitude]
+    };
+    properties: Record<string, any>;
+}
+
+export interface FeatureCollection {
+    type: 'FeatureCollection';
+    features: PointFeature[];
+    [member: string]: any; // foreign members like nextCursor and appliedFilters
+}
+
+/**
+ * Work out whether a request wants GeoJSON back
+ * An explicit ?format= wins over the Accept header
+ * @param headers request headers (any casing)
+ * @param query query string parameters
+ */
+export function wantsGeoJson(
+    headers?: Record<string, string | undefined> | null,
+    query?: Record<string, string | undefined> | null
+): boolean {
+    const format = query?.format?.toLowerCase();
+    if (format) {
+        return format === 'geojson';
+    }
+
+    const accept = Object.entries(headers || {})
+        .find(([name]) => name.toLowerCase() === 'accept')?.[1];
+
+    return (accept || '').split(',')
+        .some(mediaRange => mediaRange.split(';')[0].trim().toLowerCase() === GEOJSON_CONTENT_TYPE);
+}
+
+/**
+ * Convert a place into a Point feature, everything except the location goes into properties
+ */
+export function placeToFeature(place: Place): PointFeature {
+    const { location, ...properties } = place;
+
+    return {
+        type: 'Feature',
+        id: place.id,
+        geometry: {
+            type: 'Point',
+            coordinates: [location.longitude, location.latitude],
+        },
+        properties,
+    };
+}
+
+/**
+ * Convert a list of places into a FeatureCollection
+ * @param members extra top level members to keep, e.g. nextCursor for pagination
+ */
+export function placesToFeatureCollection(places: Place[], members: Record<string, any> = {}): FeatureCollection {
+    return {
+        ...members,
+        type: 'FeatureCollection',
+        features: places.map(placeToFeature),
+    };
+}
@@ -0,0 +1,68 @@
+/**
+ * Image decoding and resizing for uploaded photos
+ * Output never carries the source's EXIF, XMP or ICC metadata (sharp drops it unless asked to keep it),
+ * so GPS coordinates and camera details in an upload don't make it into anything we serve.
+ */
+import sharp from 'sharp';
+
+// formats we'll decode, whatever the upload claimed to be
+const SUPPORTED_FORMATS = ['jpeg', 'png', 'webp'];
+
+// refuse to decode anything bigger than this, guards against decompression bombs
+const MAX_INPUT_PIXELS = 50_000_000;
+
+export interface ImageInfo {
+    format: string;
+    width: number;
+    height: number;
+}
+
+export interface ResizedImage {
+    body: Buffer;
+    contentType: string;
+    width: number;
+    height: number;
+}
+
+/**
+ * Work out what an uploaded file actually is
+ * @returns null if it isn't an image we support
+ */
+export async function readImageInfo(body: Buffer): Promise<ImageInfo | null> {
+    try {
+        const metadata = await sharp(body, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+        if (!metadata.format || !SUPPORTED_FORMATS.includes(metadata.format) || !metadata.width || !metadata.height) {
+            return null;
+        }
+
+        // orientations 5-8 are rotated a quarter turn
+        const rotated = (metadata.orientation ?? 1) >= 5;
+        return {
+            format: metadata.format,
+            width: rotated ? metadata.height : metadata.width,
+            height: rotated ? metadata.width : metadata.height,
+        };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Resize an image to fit a box and re-encode it as WebP.
+ * The EXIF orientation is applied to the pixels first since the tag itself is dropped.
+ * @param fit 'cover' crops to fill the box exactly, 'inside' keeps the whole image
+ */
+export async function resizeImage(
+    body: Buffer,
+    width: number,
+    height: number,
+    fit: 'cover' | 'inside'
+): Promise<ResizedImage> {
+    const { data, info } = await sharp(body, { limitInputPixels: MAX_INPUT_PIXELS })
+        .rotate()
+        .resize({ width, height, fit, withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer({ resolveWithObject: true });
+
+    return { body: data, contentType: 'image/webp', width: info.width, height: info.height };
+}
@@ -0,0 +1,50 @@
+/**
+ * Bulk place import
+ * Creates and updates places from a CSV or GeoJSON file, the same as POST /places/import.
+ * Rows matching a place by ID or googlePlaceId update it, the rest create new places. Nothing
+ * is written if any row is invalid, pass --dry-run to just check the file.
+ *
+ * CSV columns: id, googlePlaceId, name, description, address, latitude, longitude, wifi, coffee,
+ * outlets, seating, food, meetingRooms, parking, capacity, noiseLevel, openLate, isPublic and
+ * openingHours (e.g. "monday 09:00-17:00; tuesday 09:00-17:00")
+ *
+ * Run against the deployed tables with PLACES_TABLE, SEARCH_INDEX_TABLE, PLACE_REVISIONS_TABLE and
+ * NODE_ENV=production set, e.g.
+ * NODE_ENV=production PLACES_TABLE=workbru-places bun run src/utils/importPlaces.ts places.csv --dry-run
+ * IMPORT_USER_ID sets who the new places are created by.
+ */
+import 'dotenv/config';
+import { readFile } from 'fs/promises';
+import * as placeImportService from '../services/placeImportService.js';
+
+async function importPlaces() {
+    const args = process.argv.slice(2);
+    const file = args.find(arg => !arg.startsWith('--'));
+    const dryRun = args.includes('--dry-run');
+    if (!file) {
+        console.error('Usage: bun run src/utils/importPlaces.ts <file.csv|file.geojson> [--dry-run]');
+        process.exit(1);
+    }
+
+    try {
+        const format = file.toLowerCase().endsWith('.csv') ? 'csv' : 'geojson';
+        const body = await readFile(file, 'utf8');
+        const result = await placeImportService.importPlaces(format, body, process.env.IMPORT_USER_ID, dryRun);
+
+        for (const { row, errors } of result.errors) {
+            console.error(`Row ${row}: ${errors.join('; ')}`);
+        }
+        if (result.errors.length > 0) {
+            console.error(`❌ ${result.errors.length} rows have errors, nothing was imported`);
+            process.exit(1);
+        }
+
+        const verb = dryRun ? 'Would import' : 'Imported';
+        console.log(`✅ ${verb} ${file}: ${result.created} created, ${result.updated} updated, ${result.skipped} skipped`);
+    } catch (error) {
+        console.error('Error importing places: ', error);
+        process.exit(1);
+    }
+}
+
+importPlaces();
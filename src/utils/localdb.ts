@@ -1,7 +1,8 @@
 // Simple in-memory database for local development
 import { v4 as uuidv4 } from 'uuid';
 import localdata from './local-data.json' with { type: "json" };
-import { encodeGeohash } from '../services/placeService.js';
+import { getGeohashFields } from '../services/placeService.js';
+import { lookupTimeZone } from './timezone.js';
 
 class LocalDatabase {
     private storage: Map<string, Map<string, any>> = new Map();
@@ -31,23 +32,50 @@ class LocalDatabase {
             item.location?.longitude !== undefined) {
             
             // Only generate if not already provided
-            if (!item.geohash) {
-                item.geohash = encodeGeohash(item.location.latitude, item.location.longitude);
+            const geohashFields = getGeohashFields(item.location.latitude, item.location.longitude);
+            for (const [field, value] of Object.entries(geohashFields)) {
+                if (!item[field]) {
+                    item[field] = value;
+                }
             }
-            
+
             // Only generate if not already provided
-            if (!item.geohashPrefix) {
-                item.geohashPrefix = item.geohash.substring(0, 4);
+            if (!item.timeZone) {
+                item.timeZone = lookupTimeZone(item.location.latitude, item.location.longitude) ?? undefined;
             }
         }
         table.set(item.id, { ...item });
         console.log(`[LocalDB] Added item to ${tableName}:`, item.id);
     }
 
+    // put an item unless one with the same id exists, returns whether it was written
+    async putNewItem(tableName: string, item: Record<string, any>): Promise<boolean> {
+        if (this.ensureTable(tableName).has(item.id)) {
+            return false;
+        }
+        await this.putItem(tableName, item);
+        return true;
+    }
+
+    // put an item if its stored version is still the expected one and bump it, returns whether it was written
+    async putVersionedItem(tableName: string, item: Record<string, any>, expectedVersion?: number): Promise<boolean> {
+        if (this.ensureTable(tableName).get(item.id)?.version !== expectedVersion) {
+            return false;
+        }
+        await this.putItem(tableName, { ...item, version: (expectedVersion ?? 0) + 1 });
+        return true;
+    }
+
     // You could also add an updateItem method that preserves geohashes
-    async updateItem(tableName: string, key: Record<string, any>, updates: Record<string, any>): Promise<Record<string, any> | null> {
-        const item = await this.getItem(tableName, key);
-        if (!item) {
+    async updateItem(
+        tableName: string,
+        key: Record<string, any>,
+        updates: Record<string, any>,
+        expected: Record<string, any> = {}
+    ): Promise<Record<string, any> | null> {
+        // checked and written without an await in between, so the condition holds like it does in DynamoDB
+        const item = this.ensureTable(tableName).get(key.id);
+        if (!item || Object.entries(expected).some(([field, value]) => item[field] !== value)) {
             return null;
         }
         
@@ -59,8 +87,8 @@ class LocalDatabase {
             (updates.location.latitude !== item.location?.latitude || 
              updates.location.longitude !== item.location?.longitude)) {
             
-            updatedItem.geohash = encodeGeohash(updatedItem.location.latitude, updatedItem.location.longitude);
-            updatedItem.geohashPrefix = updatedItem.geohash.substring(0, 4);
+            Object.assign(updatedItem, getGeohashFields(updatedItem.location.latitude, updatedItem.location.longitude));
+            updatedItem.timeZone = lookupTimeZone(updatedItem.location.latitude, updatedItem.location.longitude) ?? undefined;
         }
         
         // Save updated item
@@ -80,13 +108,23 @@ class LocalDatabase {
         return item ? { ...item } : null;
     }
 
-    // query items (simplified - just returns all items that match a basic filter) 
+    // query items (simplified - supports a single "attribute = :value" condition, anything else returns all items)
     async queryItems(
         tableName: string,
         keyConditionExpression: string,
-        expressionAttributeValues: Record<string, any>
+        expressionAttributeValues: Record<string, any>,
+        expressionAttributeNames: Record<string, string> = {}
     ): Promise<Record<string, any>[]> {
-        return this.scanItems(tableName);
+        const items = await this.scanItems(tableName);
+
+        const match = /^\s*(#?\w+)\s*=\s*(:\w+)\s*$/.exec(keyConditionExpression);
+        if (!match) {
+            return items;
+        }
+
+        const [, name, placeholder] = match;
+        const attribute = expressionAttributeNames[name] ?? name;
+        return items.filter(item => item[attribute] === expressionAttributeValues[placeholder]);
     }
 
     // scan all items in a table
@@ -97,6 +135,28 @@ class LocalDatabase {
         return items;
     }
 
+    // scan one page of a table, ordered by id so cursors survive deletes like DynamoDB keys do
+    async scanPage(
+        tableName: string,
+        limit?: number,
+        exclusiveStartKey?: Record<string, any>
+    ): Promise<{ items: Record<string, any>[], lastEvaluatedKey?: Record<string, any> }> {
+        const table = this.ensureTable(tableName);
+        const ids = Array.from(table.keys()).sort();
+
+        const startId = exclusiveStartKey?.id;
+        const remaining = startId ? ids.filter(id => id > startId) : ids;
+        const pageIds = limit ? remaining.slice(0, limit) : remaining;
+        const items = pageIds.map(id => ({ ...table.get(id) }));
+
+        const hasMore = pageIds.length < remaining.length;
+        console.log(`[LocalDB] Scanned page of ${tableName}, found ${items.length} items`);
+        return {
+            items,
+            lastEvaluatedKey: hasMore ? { id: pageIds[pageIds.length - 1] } : undefined,
+        };
+    }
+
     // delete an item 
     async deleteItem(tableName: string, key: Record<string, any>): Promise<void> {
         const table = this.ensureTable(tableName);
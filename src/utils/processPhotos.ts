@@ -0,0 +1,23 @@
+/**
+ * Photo processing job
+ * Uploads are normally processed by the assets bucket's upload notification. This picks up any
+ * that were missed (or failed), generating their variants and rejecting anything that isn't an image.
+ *
+ * Run against the deployed table and bucket with PHOTOS_TABLE, ASSETS_BUCKET and NODE_ENV=production set, e.g.
+ * NODE_ENV=production PHOTOS_TABLE=workbru-photos ASSETS_BUCKET=workbru-assets bun run src/utils/processPhotos.ts
+ * Locally it processes uploads in the .local-assets directory.
+ */
+import 'dotenv/config';
+import * as photoService from '../services/photoService.js';
+
+async function processPhotos() {
+    try {
+        const processed = await photoService.processUnprocessedPhotos();
+        console.log(`✅ Processed ${processed} photos`);
+    } catch (error) {
+        console.error('Error processing photos: ', error);
+        process.exit(1);
+    }
+}
+
+processPhotos();
@@ -0,0 +1,22 @@
+/**
+ * Search index rebuild
+ * Places created before full-text search existed (or whose index write failed) can't be found
+ * by /places/search. This rebuilds the index entries for every place.
+ *
+ * Run against the deployed tables with PLACES_TABLE, SEARCH_INDEX_TABLE and NODE_ENV=production set, e.g.
+ * NODE_ENV=production PLACES_TABLE=workbru-places SEARCH_INDEX_TABLE=workbru-search-index bun run src/utils/reindexSearch.ts
+ */
+import 'dotenv/config';
+import * as searchService from '../services/searchService.js';
+
+async function reindexSearch() {
+    try {
+        const indexed = await searchService.reindexAllPlaces();
+        console.log(`✅ Rebuilt the search index for ${indexed} places`);
+    } catch (error) {
+        console.error('Error rebuilding search index: ', error);
+        process.exit(1);
+    }
+}
+
+reindexSearch();
@@ -104,6 +104,26 @@ export async function getCsrfSecret() {
     }
 }
 
+/**
+ * Gets the secret used to sign pagination cursors
+ * Falls back to the CSRF secret when no dedicated cursor secret has been configured
+ * @returns {Promise<string>} - The cursor signing secret
+ */
+export async function getCursorSecret() {
+    const secretName = 'WorkbruAppSecrets';
+    const secretKey = 'CURSOR_SECRET';
+
+    try {
+        const secret = await getSecret(secretName, secretKey);
+        if (secret) {
+            return secret;
+        }
+    } catch (error) {
+        console.warn('Failed to load cursor secret, falling back to CSRF secret:', error);
+    }
+    return getCsrfSecret();
+}
+
 /**
  * Clear the secrets cache
  * This is useful for testing or when you need to force a refresh
@@ -0,0 +1,289 @@
+/**
+ * Object storage for photos and other assets
+ * Uses the WorkbruAssets S3 bucket in production. In local development objects live in a
+ * directory on disk and the local server serves them under /local-assets, so upload and
+ * download URL flows work the same way without AWS.
+ */
+import {
+    S3Client, PutObjectCommand, GetObjectCommand, HeadObjectCommand, DeleteObjectCommand,
+    CreateMultipartUploadCommand, UploadPartCommand, CompleteMultipartUploadCommand, AbortMultipartUploadCommand, CompletedPart,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export const ASSETS_BUCKET = process.env.ASSETS_BUCKET || 'workbru-assets';
+
+const useLocalStorage = process.env.NODE_ENV !== 'production';
+const LOCAL_ASSETS_DIR = process.env.LOCAL_ASSETS_DIR || path.join(process.cwd(), '.local-assets');
+const LOCAL_ASSETS_URL = process.env.LOCAL_ASSETS_URL || `http://localhost:${process.env.PORT || 3000}/local-assets`;
+
+// every part of a multipart upload except the last has to be at least 5 MB
+const MULTIPART_PART_SIZE = 5 * 1024 * 1024;
+
+export interface StoredObject {
+    key: string;
+    size: number;
+    contentType?: string;
+}
+
+/**
+ * An object being written a chunk at a time, see openObjectWriter
+ */
+export interface ObjectWriter {
+    write(chunk: string | Buffer): Promise<void>;
+    close(): Promise<StoredObject>;
+    abort(): Promise<void>; // discard everything written so far
+}
+
+let s3Client: S3Client | null = null;
+
+function getS3Client(): S3Client {
+    if (!s3Client) {
+        s3Client = new S3Client({ region: process.env.AWS_REGION || 'us-east-1' });
+    }
+    return s3Client;
+}
+
+/**
+ * Get a URL the client can PUT an object to directly.
+ * The content type and length are part of the signature, so the upload has to match them.
+ * @param expiresIn seconds until the URL stops working
+ */
+export async function getUploadUrl(
+    key: string,
+    contentType: string,
+    contentLength: number,
+    expiresIn: number = 900
+): Promise<string> {
+    if (useLocalStorage) {
+        const expires = Date.now() + expiresIn * 1000;
+        const params = new URLSearchParams({ expires: String(expires), contentType, contentLength: String(contentLength) });
+        return `${LOCAL_ASSETS_URL}/${key}?${params}`;
+    }
+
+    return getSignedUrl(getS3Client(), new PutObjectCommand({
+        Bucket: ASSETS_BUCKET,
+        Key: key,
+        ContentType: contentType,
+        ContentLength: contentLength,
+    }), { expiresIn });
+}
+
+/**
+ * Get a time limited URL for reading an object (the bucket itself is private)
+ * @param filename if set, browsers save the object under this name rather than showing it
+ */
+export async function getDownloadUrl(key: string, expiresIn: number = 3600, filename?: string): Promise<string> {
+    if (useLocalStorage) {
+        return `${LOCAL_ASSETS_URL}/${key}`;
+    }
+
+    return getSignedUrl(getS3Client(), new GetObjectCommand({
+        Bucket: ASSETS_BUCKET,
+        Key: key,
+        ResponseContentDisposition: filename ? `attachment; filename="${filename}"` : undefined,
+    }), { expiresIn });
+}
+
+/**
+ * Get an object's size and content type without reading it
+ * @returns null if there's no such object
+ */
+export async function headObject(key: string): Promise<StoredObject | null> {
+    if (useLocalStorage) {
+        try {
+            const stats = await fs.stat(getLocalPath(key));
+            const meta = await readLocalMeta(key);
+            return { key, size: stats.size, contentType: meta.contentType };
+        } catch {
+            return null;
+        }
+    }
+
+    try {
+        const response = await getS3Client().send(new HeadObjectCommand({ Bucket: ASSETS_BUCKET, Key: key }));
+        return { key, size: response.ContentLength ?? 0, contentType: response.ContentType };
+    } catch (error: any) {
+        if (error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404) {
+            return null;
+        }
+        console.error(`Error checking object ${key}:`, error);
+        throw new Error(`Storage head failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+/**
+ * Read a whole object into memory
+ * @returns null if there's no such object
+ */
+export async function getObject(key: string): Promise<Buffer | null> {
+    if (useLocalStorage) {
+        try {
+            return await fs.readFile(getLocalPath(key));
+        } catch {
+            return null;
+        }
+    }
+
+    try {
+        const response = await getS3Client().send(new GetObjectCommand({ Bucket: ASSETS_BUCKET, Key: key }));
+        if (!response.Body) return null;
+        return Buffer.from(await response.Body.transformToByteArray());
+    } catch (error: any) {
+        if (error?.name === 'NoSuchKey') {
+            return null;
+        }
+        console.error(`Error reading object ${key}:`, error);
+        throw new Error(`Storage get failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+export async function putObject(key: string, body: Buffer, contentType: string): Promise<void> {
+    if (useLocalStorage) {
+        const filePath = getLocalPath(key);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, body);
+        await fs.writeFile(`${filePath}.meta.json`, JSON.stringify({ contentType }));
+        return;
+    }
+
+    await getS3Client().send(new PutObjectCommand({
+        Bucket: ASSETS_BUCKET,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+    }));
+}
+
+export async function deleteObject(key: string): Promise<void> {
+    if (useLocalStorage) {
+        const filePath = getLocalPath(key);
+        await fs.rm(filePath, { force: true });
+        await fs.rm(`${filePath}.meta.json`, { force: true });
+        return;
+    }
+
+    await getS3Client().send(new DeleteObjectCommand({ Bucket: ASSETS_BUCKET, Key: key }));
+}
+
+/**
+ * Write an object in chunks without holding all of it in memory, for output that's produced a
+ * page at a time. Chunks are sent as multipart upload parts in production and appended to the
+ * file locally. Nothing is readable until close(), call abort() if writing fails part way.
+ */
+export async function openObjectWriter(key: string, contentType: string): Promise<ObjectWriter> {
+    if (useLocalStorage) {
+        const filePath = getLocalPath(key);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(`${filePath}.meta.json`, JSON.stringify({ contentType }));
+        const file = await fs.open(filePath, 'w');
+        let size = 0;
+
+        return {
+            async write(chunk) {
+                const data = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+                await file.write(data);
+                size += data.length;
+            },
+            async close() {
+                await file.close();
+                return { key, size, contentType };
+            },
+            async abort() {
+                await file.close();
+                await deleteObject(key);
+            },
+        };
+    }
+
+    const client = getS3Client();
+    const { UploadId } = await client.send(new CreateMultipartUploadCommand({
+        Bucket: ASSETS_BUCKET,
+        Key: key,
+        ContentType: contentType,
+    }));
+
+    const parts: CompletedPart[] = [];
+    let buffered: Buffer[] = [];
+    let bufferedSize = 0;
+    let size = 0;
+
+    const uploadPart = async () => {
+        const PartNumber = parts.length + 1;
+        const { ETag } = await client.send(new UploadPartCommand({
+            Bucket: ASSETS_BUCKET,
+            Key: key,
+            UploadId,
+            PartNumber,
+            Body: Buffer.concat(buffered),
+        }));
+        parts.push({ ETag, PartNumber });
+        buffered = [];
+        bufferedSize = 0;
+    };
+
+    return {
+        async write(chunk) {
+            const data = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+            buffered.push(data);
+            bufferedSize += data.length;
+            size += data.length;
+            if (bufferedSize >= MULTIPART_PART_SIZE) {
+                await uploadPart();
+            }
+        },
+        async close() {
+            // an upload needs at least one part, even if it's empty
+            if (bufferedSize > 0 || parts.length === 0) {
+                await uploadPart();
+            }
+            await client.send(new CompleteMultipartUploadCommand({
+                Bucket: ASSETS_BUCKET,
+                Key: key,
+                UploadId,
+                MultipartUpload: { Parts: parts },
+            }));
+            return { key, size, contentType };
+        },
+        async abort() {
+            await client.send(new AbortMultipartUploadCommand({ Bucket: ASSETS_BUCKET, Key: key, UploadId }));
+        },
+    };
+}
+
+/**
+ * Check a local upload against the parameters its upload URL was issued with,
+ * the way S3 checks a presigned PUT against its signed headers
+ * @returns an error message, or null if the upload is allowed
+ */
+export function checkLocalUpload(query: URLSearchParams, contentType: string | null, contentLength: number): string | null {
+    const expires = Number(query.get('expires'));
+    if (!expires || Date.now() > expires) {
+        return 'Upload URL has expired';
+    }
+    if (query.get('contentType') !== contentType) {
+        return 'Content-Type does not match the upload URL';
+    }
+    if (Number(query.get('contentLength')) !== contentLength) {
+        return 'Content-Length does not match the upload URL';
+    }
+    return null;
+}
+
+// map a key to a file under the local assets directory, refusing keys that escape it
+function getLocalPath(key: string): string {
+    const filePath = path.resolve(LOCAL_ASSETS_DIR, key);
+    if (!filePath.startsWith(path.resolve(LOCAL_ASSETS_DIR) + path.sep)) {
+        throw new Error(`Invalid object key: ${key}`);
+    }
+    return filePath;
+}
+
+async function readLocalMeta(key: string): Promise<{ contentType?: string }> {
+    try {
+        return JSON.parse(await fs.readFile(`${getLocalPath(key)}.meta.json`, 'utf8'));
+    } catch {
+        return {};
+    }
+}
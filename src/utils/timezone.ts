@@ -0,0 +1,53 @@
+/**
+ * Offline time zone lookup for place coordinates
+ * Uses the zone boundary data bundled with @photostructure/tz-lookup, so no network calls are needed
+ */
+import tzlookup from '@photostructure/tz-lookup';
+
+/**
+ * Get the IANA time zone (e.g. "America/New_York") for a coordinate
+ * @returns the zone name, or null if the coordinate is invalid
+ */
+export function lookupTimeZone(lat: number, lng: number): string | null {
+    try {
+        return tzlookup(lat, lng);
+    } catch (error) {
+        console.error(`[TimeZone] Lookup failed for ${lat},${lng}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Check whether a string is a time zone the runtime knows about
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Get the wall clock time for an instant in a given time zone
+ * @returns day of week (0 = sunday, like Date.getDay), hours and minutes
+ */
+export function getZonedTime(at: Date, timeZone: string): { day: number, hours: number, minutes: number } {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+    }).formatToParts(at);
+
+    const get = (type: string) => parts.find(part => part.type === type)?.value || '';
+    const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+    return {
+        day: weekdays.indexOf(get('weekday')),
+        hours: Number(get('hour')),
+        minutes: Number(get('minute')),
+    };
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeAll, beforeEach, mock } from "bun:test";
+import {
+    checkIn,
+    checkOut,
+    getActiveCheckIn,
+    reportBusyness,
+    getLiveBusyness,
+    estimateBusyness
+} from "../src/services/busynessService.js";
+import { getPlacesNearby, getGeohashFields } from "../src/services/placeService.js";
+import { localDb } from "../src/utils/localdb.js";
+import { Place } from "../src/models/place.js";
+import { BusynessVote, CheckIn } from "../src/models/busyness.js";
+
+describe("Busyness Service Tests", () => {
+    const placeId = "5c8a1e2f-3d4b-4c6a-9e7f-0a1b2c3d4e5f";
+    const otherPlaceId = "6d9b2f3a-4e5c-4d7b-8f0a-1b2c3d4e5f6a";
+    const place: Place = {
+        id: placeId,
+        name: "Busy Test Place",
+        address: "1 Busy St",
+        location: { latitude: 39.24, longitude: -84.67 },
+        ...getGeohashFields(39.24, -84.67),
+        amenities: { wifi: true, coffee: true, outlets: true, seating: true, food: false, meetingRooms: false },
+        attributes: { noiseLevel: "quiet", parking: "none", openLate: false, capacity: "extra-small" },
+        isPublic: true
+    };
+    const otherPlace: Place = {
+        ...place,
+        id: otherPlaceId,
+        name: "Quiet Test Place",
+        location: { latitude: 39.241, longitude: -84.671 },
+        ...getGeohashFields(39.241, -84.671)
+    };
+
+    const vote = (level: BusynessVote["level"], minutesAgo: number, userId = "user-1"): BusynessVote => ({
+        id: `${placeId}#${userId}`,
+        placeId,
+        userId,
+        level,
+        createdAt: new Date(Date.now() - minutesAgo * 60000).toISOString(),
+        expiresAt: 0
+    });
+
+    beforeAll(() => {
+        // back the services with the in-memory local DB
+        mock.module("../src/utils/dynamodb.js", () => ({
+            putItem: (table, item) => localDb.putItem(table, item),
+            putVersionedItem: (table, item, expectedVersion) => localDb.putVersionedItem(table, item, expectedVersion),
+            getItem: (table, key) => localDb.getItem(table, key),
+            queryItems: (table, keyConditionExpression, expressionValues) =>
+                localDb.queryItems(table, keyConditionExpression, expressionValues),
+            scanItems: (table) => localDb.scanItems(table),
+            deleteItem: (table, key) => localDb.deleteItem(table, key),
+            updateFields: (table, key, fields) => localDb.updateItem(table, key, fields),
+            PLACES_TABLE: "workbru-places"
+        }));
+    });
+
+    beforeEach(async () => {
+        await localDb.clearAll();
+        await localDb.putItem("workbru-places", { ...place });
+        await localDb.putItem("workbru-places", { ...otherPlace });
+    });
+
+    it("should be unknown without recent check-ins or votes", () => {
+        const estimate = estimateBusyness(place, [], [vote("very-busy", 240)]);
+        expect(estimate.level).toBe("unknown");
+        expect(estimate.occupancy).toBeUndefined();
+        expect(estimate.recentVotes).toBe(0);
+    });
+
+    it("should weigh fresh votes over old ones", () => {
+        const estimate = estimateBusyness(place, [], [
+            vote("very-busy", 0, "user-1"),
+            vote("not-busy", 120, "user-2")
+        ]);
+        // the two hour old vote has decayed to a sixteenth
+        expect(estimate.level).toBe("very-busy");
+        expect(estimate.recentVotes).toBe(2);
+    });
+
+    it("should fill seats with check-ins", () => {
+        const checkIns: CheckIn[] = Array.from({ length: 8 }, (_, i) => ({
+            id: `checkin-${i}`,
+            placeId,
+            userId: `user-${i}`,
+            checkedInAt: new Date(Date.now() - 10 * 60000).toISOString(),
+            expiresAt: 0
+        }));
+        // 8 of the 10 seats at an extra-small place
+        const estimate = estimateBusyness(place, checkIns, []);
+        expect(estimate.occupancy).toBe(0.8);
+        expect(estimate.level).toBe("busy");
+
+        // people who checked in hours ago have probably left
+        const stale = checkIns.map(c => ({ ...c, checkedInAt: new Date(Date.now() - 5 * 3600000).toISOString() }));
+        expect(estimateBusyness(place, stale, []).activeCheckIns).toBe(0);
+    });
+
+    it("should keep users checked in to one place at a time", async () => {
+        const first = await checkIn(placeId, "user-1");
+        // checking in again is a no-op
+        expect((await checkIn(placeId, "user-1"))?.id).toBe(first!.id);
+
+        const second = await checkIn(otherPlaceId, "user-1");
+        expect((await getActiveCheckIn("user-1"))?.id).toBe(second!.id);
+        expect((await getLiveBusyness(placeId))?.activeCheckIns).toBe(0);
+        expect((await getLiveBusyness(otherPlaceId))?.activeCheckIns).toBe(1);
+
+        // can only check out of where you are
+        expect(await checkOut(placeId, "user-1")).toBeNull();
+        expect((await checkOut(otherPlaceId, "user-1"))?.checkedOutAt).toBeDefined();
+        expect(await getActiveCheckIn("user-1")).toBeNull();
+    });
+
+    it("should replace a user's earlier vote", async () => {
+        await reportBusyness(placeId, "user-1", { level: "not-busy" });
+        await reportBusyness(placeId, "user-1", { level: "very-busy" });
+
+        const busyness = await getLiveBusyness(placeId);
+        expect(busyness?.recentVotes).toBe(1);
+        expect(busyness?.level).toBe("very-busy");
+    });
+
+    it("should include and filter on busyness in nearby results", async () => {
+        await reportBusyness(placeId, "user-1", { level: "very-busy" });
+        await reportBusyness(otherPlaceId, "user-1", { level: "not-busy" });
+
+        const all = await getPlacesNearby(39.24, -84.67, 1);
+        expect(all.places.map(p => p.busyness?.level).sort()).toEqual(["not-busy", "very-busy"]);
+
+        // without a busyness filter it's only looked up for the page returned
+        const firstPage = await getPlacesNearby(39.24, -84.67, 1, {}, { limit: 1 });
+        expect(firstPage.places[0].busyness?.level).toBe("very-busy");
+        expect(firstPage.nextCursor).toBeDefined();
+
+        const quiet = await getPlacesNearby(39.24, -84.67, 1, { busyness: ["not-busy", "unknown"] });
+        expect(quiet.places.map(p => p.id)).toEqual([otherPlaceId]);
+        expect(quiet.appliedFilters.busyness).toEqual(["not-busy", "unknown"]);
+    });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeAll, beforeEach, mock } from "bun:test";
+import * as favoriteService from "../src/services/favoriteService.js";
+import * as collectionService from "../src/services/collectionService.js";
+import { CollectionError } from "../src/services/collectionService.js";
+import { deletePlace } from "../src/services/placeService.js";
+import { localDb } from "../src/utils/localdb.js";
+import { Place } from "../src/models/place.js";
+
+describe("Favorite and Collection Service Tests", () => {
+    const basePlace = {
+        address: "1 List St",
+        location: { latitude: 51.5, longitude: -0.12 },
+        amenities: { wifi: true, coffee: true, outlets: true, seating: true, food: false, meetingRooms: false },
+        attributes: { noiseLevel: "quiet" as const, parking: "none" as const, openLate: false },
+        isPublic: true
+    };
+    let places: Place[];
+
+    beforeAll(() => {
+        // back the services with the in-memory local DB
+        mock.module("../src/utils/dynamodb.js", () => ({
+            putItem: (table, item) => localDb.putItem(table, item),
+            getItem: (table, key) => localDb.getItem(table, key),
+            queryItems: (table, keyConditionExpression, expressionValues, indexName, expressionNames) =>
+                localDb.queryItems(table, keyConditionExpression, expressionValues, expressionNames),
+            scanItems: (table) => localDb.scanItems(table),
+            batchGetItems: async (table, keys) =>
+                (await Promise.all(keys.map(key => localDb.getItem(table, key)))).filter(Boolean),
+            deleteItem: (table, key) => localDb.deleteItem(table, key),
+            updateFields: (table, key, fields) => localDb.updateItem(table, key, fields),
+            PLACES_TABLE: "workbru-places"
+        }));
+        // the session tests swap uuid for a fixed string for the rest of the run, and collections are keyed by it
+        mock.module("uuid", () => ({ v4: () => crypto.randomUUID() }));
+    });
+
+    // favourites are ordered by time, so keep them from landing in the same millisecond
+    const tick = () => new Promise(resolve => setTimeout(resolve, 2));
+
+    beforeEach(async () => {
+        await localDb.clearAll();
+
+        // fresh IDs each time, so nothing is served from the place cache
+        places = ["Cafe One", "Cafe Two", "Cafe Three"].map(name => ({ ...basePlace, id: crypto.randomUUID(), name }));
+        for (const place of places) {
+            await localDb.putItem("workbru-places", place);
+        }
+    });
+
+    it("should favourite places once and mark them for that user only", async () => {
+        const [one, two, three] = places;
+        const favorite = await favoriteService.favoritePlace(one.id!, "user-1");
+        await tick();
+        expect(await favoriteService.favoritePlace(one.id!, "user-1")).toEqual(favorite);
+        await tick();
+        await favoriteService.favoritePlace(two.id!, "user-1");
+        expect(await favoriteService.favoritePlace(crypto.randomUUID(), "user-1")).toBeNull();
+
+        const marked = await favoriteService.withFavorites(places, "user-1");
+        expect(marked.map(place => place.isFavorite)).toEqual([true, true, false]);
+        expect((await favoriteService.withFavorites([three], "user-2"))[0].isFavorite).toBe(false);
+        // nobody signed in, nothing to mark
+        expect((await favoriteService.withFavorites(places, null))[0].isFavorite).toBeUndefined();
+
+        // newest first, and deleted places drop out
+        expect((await favoriteService.getFavorites("user-1")).places.map(place => place.name)).toEqual(["Cafe Two", "Cafe One"]);
+        await deletePlace(two.id!, "admin-1");
+        expect((await favoriteService.getFavorites("user-1")).places.map(place => place.name)).toEqual(["Cafe One"]);
+
+        expect(await favoriteService.unfavoritePlace(one.id!, "user-1")).toBe(true);
+        expect(await favoriteService.unfavoritePlace(one.id!, "user-1")).toBe(false);
+    });
+
+    it("should only show collections to the people they're shared with", async () => {
+        const collection = await collectionService.createCollection("owner-1", { name: "Quiet spots downtown", visibility: "private" });
+        expect(await collectionService.getCollection(collection.id, "owner-1")).not.toBeNull();
+        expect(await collectionService.getCollection(collection.id, "someone-else")).toBeNull();
+
+        const shared = await collectionService.updateCollection(collection.id, "owner-1", { visibility: "link" });
+        const token = shared!.shareToken!;
+        expect(token).toBeDefined();
+        expect(await collectionService.getCollection(collection.id, null)).toBeNull();
+        const viaLink = await collectionService.getCollection(collection.id, null, token);
+        expect(viaLink?.name).toBe("Quiet spots downtown");
+        expect(viaLink?.shareToken).toBeUndefined();
+
+        // sharing again after making it private issues a new link
+        await collectionService.updateCollection(collection.id, "owner-1", { visibility: "private" });
+        const reshared = await collectionService.updateCollection(collection.id, "owner-1", { visibility: "link" });
+        expect(reshared!.shareToken).not.toBe(token);
+        expect(await collectionService.getCollection(collection.id, null, token)).toBeNull();
+
+        await collectionService.updateCollection(collection.id, "owner-1", { visibility: "public" });
+        await collectionService.createCollection("owner-1", { name: "Good for calls", visibility: "private" });
+        expect((await collectionService.getUserCollections("owner-1", "someone-else")).map(c => c.name)).toEqual(["Quiet spots downtown"]);
+        expect(await collectionService.getUserCollections("owner-1", "owner-1")).toHaveLength(2);
+
+        // only the owner can change it
+        expect(await collectionService.updateCollection(collection.id, "someone-else", { name: "Mine now" })).toBeNull();
+        expect(await collectionService.deleteCollection(collection.id, "someone-else")).toBe(false);
+        expect(await collectionService.deleteCollection(collection.id, "owner-1")).toBe(true);
+    });
+
+    it("should keep places in order with their notes", async () => {
+        const [one, two, three] = places;
+        const { id } = await collectionService.createCollection("owner-1", { name: "Good for calls", visibility: "private" });
+
+        await collectionService.addCollectionItem(id, "owner-1", { placeId: one.id!, note: "Booths at the back" });
+        await collectionService.addCollectionItem(id, "owner-1", { placeId: two.id! });
+        let collection = await collectionService.addCollectionItem(id, "owner-1", { placeId: three.id!, position: 0 });
+        expect(collection!.items.map(item => item.place.name)).toEqual(["Cafe Three", "Cafe One", "Cafe Two"]);
+
+        await expect(collectionService.addCollectionItem(id, "owner-1", { placeId: one.id! })).rejects.toThrow(CollectionError);
+        await expect(collectionService.addCollectionItem(id, "owner-1", { placeId: crypto.randomUUID() })).rejects.toThrow("Place not found");
+        expect(await collectionService.addCollectionItem(id, "someone-else", { placeId: one.id! })).toBeNull();
+
+        collection = await collectionService.updateCollectionItem(id, "owner-1", one.id!, { position: 2, note: null });
+        expect(collection!.items.map(item => item.place.name)).toEqual(["Cafe Three", "Cafe Two", "Cafe One"]);
+        expect(collection!.items[2].note).toBeUndefined();
+
+        // each place shows whether the viewer has favourited it
+        await favoriteService.favoritePlace(two.id!, "owner-1");
+        collection = await collectionService.removeCollectionItem(id, "owner-1", three.id!);
+        expect(collection!.items.map(item => [item.place.name, item.place.isFavorite])).toEqual([["Cafe Two", true], ["Cafe One", false]]);
+        await expect(collectionService.removeCollectionItem(id, "owner-1", three.id!)).rejects.toThrow(CollectionError);
+    });
+});
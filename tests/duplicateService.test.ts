@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeAll, beforeEach, mock } from "bun:test";
+import { findDuplicates, mergePlaces, PlaceMergeError } from "../src/services/duplicateService.js";
+import { getPlaceById, getAllPlaces, getGeohashFields } from "../src/services/placeService.js";
+import { createReview, getReviewsForPlace } from "../src/services/reviewService.js";
+import { checkIn, getLiveBusyness } from "../src/services/busynessService.js";
+import { favoritePlace, isFavorite } from "../src/services/favoriteService.js";
+import { createCollection, addCollectionItem, getCollection } from "../src/services/collectionService.js";
+import { addTeamFavorite, getTeamFavorites } from "../src/services/teamPlaceService.js";
+import { localDb } from "../src/utils/localdb.js";
+import { Place } from "../src/models/place.js";
+
+describe("Duplicate Service Tests", () => {
+    // fresh IDs for every test, placeService caches places for a minute whatever happens to the DB
+    let survivorId: string;
+    let duplicateId: string;
+    let elsewhereId: string;
+
+    const at = (latitude: number, longitude: number) => ({
+        location: { latitude, longitude },
+        ...getGeohashFields(latitude, longitude),
+    });
+    const survivor: Place = {
+        name: "Starbucks",
+        address: "10894 New Haven Rd., Harrison, OH",
+        ...at(39.2590744, -84.8019858),
+        amenities: { wifi: true, coffee: true, outlets: false, seating: true, food: false, meetingRooms: false },
+        attributes: { noiseLevel: "moderate", parking: "lot", openLate: false },
+        isPublic: true,
+        createdBy: "admin-1"
+    };
+    const duplicate: Place = {
+        ...survivor,
+        name: "Starbucks Coffee",
+        address: "10894 New Haven Road, Harrison, OH",
+        ...at(39.2592, -84.8021),
+        amenities: { ...survivor.amenities, outlets: true },
+        openingHours: [{ day: "monday", open: "05:30", close: "21:00" }],
+        googlePlaceId: "ChIJ-starbucks-harrison",
+        createdBy: "admin-2"
+    };
+    // same Google place ID but entered with the wrong coordinates
+    const elsewhere: Place = {
+        ...survivor,
+        name: "Harrison Starbucks",
+        ...at(39.1, -84.5),
+        googlePlaceId: "ChIJ-starbucks-harrison"
+    };
+
+    beforeAll(() => {
+        // back the services with the in-memory local DB
+        mock.module("../src/utils/dynamodb.js", () => ({
+            putItem: (table, item) => localDb.putItem(table, item),
+            putNewItem: (table, item) => localDb.putNewItem(table, item),
+            putVersionedItem: (table, item, expectedVersion) => localDb.putVersionedItem(table, item, expectedVersion),
+            getItem: (table, key) => localDb.getItem(table, key),
+            queryItems: (table, keyConditionExpression, expressionValues, indexName, expressionNames) =>
+                localDb.queryItems(table, keyConditionExpression, expressionValues, expressionNames),
+            scanItems: (table) => localDb.scanItems(table),
+            batchGetItems: async (table, keys) =>
+                (await Promise.all(keys.map(key => localDb.getItem(table, key)))).filter(Boolean),
+            deleteItem: (table, key) => localDb.deleteItem(table, key),
+            updateFields: (table, key, fields) => localDb.updateItem(table, key, fields),
+            PLACES_TABLE: "workbru-places"
+        }));
+        // the session tests swap uuid for a fixed string for the rest of the run, and collections are keyed by it
+        mock.module("uuid", () => ({ v4: () => crypto.randomUUID() }));
+    });
+
+    beforeEach(async () => {
+        await localDb.clearAll();
+        [survivorId, duplicateId, elsewhereId] = [crypto.randomUUID(), crypto.randomUUID(), crypto.randomUUID()];
+        await localDb.putItem("workbru-places", { ...survivor, id: survivorId });
+        await localDb.putItem("workbru-places", { ...duplicate, id: duplicateId });
+        await localDb.putItem("workbru-places", { ...elsewhere, id: elsewhereId });
+        // a nearby place that isn't a duplicate
+        await localDb.putItem("workbru-places", {
+            ...survivor,
+            id: crypto.randomUUID(),
+            name: "The Coffee Peddlar",
+            address: "112 Harrison Ave, Harrison, OH",
+            ...at(39.2591, -84.8020)
+        });
+    });
+
+    it("should find nearby places with similar names and shared Google place IDs", async () => {
+        const duplicates = await findDuplicates();
+
+        expect(duplicates).toHaveLength(2);
+        const pairs = duplicates.map(pair => [...pair.placeIds].sort());
+        expect(pairs).toContainEqual([duplicateId, elsewhereId].sort());
+        expect(pairs).toContainEqual([survivorId, duplicateId].sort());
+
+        // Google place ID matches come first, wherever they are
+        expect(duplicates[0].sameGooglePlaceId).toBe(true);
+        const nearby = duplicates[1];
+        expect(nearby.distanceMeters).toBeLessThan(50);
+        expect(nearby.nameSimilarity).toBe(1);
+        expect(nearby.addressSimilarity).toBeGreaterThan(0.8);
+    });
+
+    it("should combine the duplicate into the survivor", async () => {
+        await localDb.putItem("workbru-photos", {
+            id: "6a9e1c3d-5f7b-4d8c-8ec0-0b4d6f8a0c2e",
+            placeId: duplicateId,
+            status: "approved"
+        });
+        await checkIn(duplicateId, "user-3");
+
+        const result = await mergePlaces(survivorId, duplicateId, "admin-1");
+        expect(result?.photosMoved).toBe(1);
+        expect(result?.checkInsMoved).toBe(1);
+
+        const merged = await getPlaceById(survivorId);
+        expect(merged?.name).toBe("Starbucks");
+        expect(merged?.amenities.outlets).toBe(true);
+        expect(merged?.openingHours).toEqual(duplicate.openingHours);
+        expect(merged?.googlePlaceId).toBe(duplicate.googlePlaceId);
+        expect(merged?.createdBy).toBe("admin-1");
+        expect((await localDb.getItem("workbru-photos", { id: "6a9e1c3d-5f7b-4d8c-8ec0-0b4d6f8a0c2e" }))?.placeId).toBe(survivorId);
+        expect((await getLiveBusyness(survivorId))?.activeCheckIns).toBe(1);
+
+        // the duplicate now points at the survivor and drops out of listings
+        const tombstone = await getPlaceById(duplicateId);
+        expect(tombstone?.status).toBe("merged");
+        expect(tombstone?.mergedInto).toBe(survivorId);
+        expect((await getAllPlaces()).places.map(place => place.id)).not.toContain(duplicateId);
+    });
+
+    it("should move favourites, collection entries and team favourites to the survivor", async () => {
+        await favoritePlace(duplicateId, "user-1");
+        await favoritePlace(survivorId, "user-2");
+        await favoritePlace(duplicateId, "user-2");
+        const collection = await createCollection("user-1", { name: "Coffee", visibility: "private" });
+        await addCollectionItem(collection.id, "user-1", { placeId: duplicateId, note: "by the window" });
+        const both = await createCollection("user-1", { name: "Both", visibility: "private" });
+        await addCollectionItem(both.id, "user-1", { placeId: survivorId });
+        await addCollectionItem(both.id, "user-1", { placeId: duplicateId });
+        const teamId = crypto.randomUUID();
+        await addTeamFavorite(teamId, duplicateId, "user-1");
+
+        const result = await mergePlaces(survivorId, duplicateId, "admin-1");
+        expect(result?.favoritesMoved).toBe(1);
+        expect(result?.collectionsUpdated).toBe(2);
+        expect(result?.teamFavoritesMoved).toBe(1);
+        expect((await getTeamFavorites(teamId)).places.map(place => place.id)).toEqual([survivorId]);
+
+        expect(await isFavorite(survivorId, "user-1")).toBe(true);
+        expect(await isFavorite(survivorId, "user-2")).toBe(true);
+        expect(await isFavorite(duplicateId, "user-1")).toBe(false);
+        expect((await getCollection(collection.id, "user-1"))?.items.map(item => [item.placeId, item.note]))
+            .toEqual([[survivorId, "by the window"]]);
+        expect((await getCollection(both.id, "user-1"))?.items.map(item => item.placeId)).toEqual([survivorId]);
+    });
+
+    it("should move reviews, keeping the latest when someone reviewed both", async () => {
+        await createReview(survivorId, "user-1", { ratings: { overall: 2 } });
+        await createReview(duplicateId, "user-2", { ratings: { overall: 4 } });
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await createReview(duplicateId, "user-1", { ratings: { overall: 5 } });
+
+        const result = await mergePlaces(survivorId, duplicateId, "admin-1");
+        expect(result?.reviewsMoved).toBe(2);
+
+        const { reviews } = await getReviewsForPlace(survivorId);
+        expect(reviews).toHaveLength(2);
+        expect(reviews.find(review => review.userId === "user-1")?.ratings.overall).toBe(5);
+        expect(result?.place.attributes.rating).toBe(4.5);
+        expect(result?.place.reviewCount).toBe(2);
+        expect((await getReviewsForPlace(duplicateId)).reviews).toHaveLength(0);
+    });
+
+    it("should refuse merges that don't make sense", async () => {
+        await expect(mergePlaces(survivorId, survivorId, "admin-1")).rejects.toThrow(PlaceMergeError);
+
+        await mergePlaces(survivorId, duplicateId, "admin-1");
+        await expect(mergePlaces(duplicateId, elsewhereId, "admin-1")).rejects.toThrow(PlaceMergeError);
+        expect(await mergePlaces(survivorId, "00000000-0000-4000-8000-000000000000", "admin-1")).toBeNull();
+    });
+});
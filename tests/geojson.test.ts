@@ -0,0 +1,48 @@
+import { describe, it, expect } from "bun:test";
+import { wantsGeoJson, placeToFeature, placesToFeatureCollection } from "../src/utils/geojson.js";
+import { Place } from "../src/models/place.js";
+
+const place: Place = {
+    id: "123e4567-e89b-12d3-a456-426614174000",
+    name: "Test Place",
+    address: "123 Test St",
+    location: { latitude: 39.24, longitude: -84.67 },
+    amenities: { wifi: true, coffee: true, outlets: true, seating: true, food: false, meetingRooms: false },
+    attributes: { noiseLevel: "quiet", parking: "none", openLate: false },
+    isPublic: true,
+    distance: 1.5
+};
+
+describe("GeoJSON Tests", () => {
+    it("should negotiate GeoJSON from the Accept header", () => {
+        expect(wantsGeoJson({ Accept: "application/geo+json" })).toBe(true);
+        expect(wantsGeoJson({ accept: "application/json;q=0.9, application/geo+json" })).toBe(true);
+        expect(wantsGeoJson({ accept: "application/json" })).toBe(false);
+        expect(wantsGeoJson(null, null)).toBe(false);
+    });
+
+    it("should let ?format= override the Accept header", () => {
+        expect(wantsGeoJson({}, { format: "geojson" })).toBe(true);
+        expect(wantsGeoJson({ accept: "application/geo+json" }, { format: "json" })).toBe(false);
+    });
+
+    it("should convert a place into a Point feature", () => {
+        const feature = placeToFeature(place);
+
+        expect(feature.type).toBe("Feature");
+        expect(feature.id).toBe(place.id);
+        // longitude first
+        expect(feature.geometry).toEqual({ type: "Point", coordinates: [-84.67, 39.24] });
+        expect(feature.properties.name).toBe("Test Place");
+        expect(feature.properties.distance).toBe(1.5);
+        expect(feature.properties.location).toBeUndefined();
+    });
+
+    it("should build a FeatureCollection and keep pagination members", () => {
+        const collection = placesToFeatureCollection([place, place], { nextCursor: "abc" });
+
+        expect(collection.type).toBe("FeatureCollection");
+        expect(collection.features.length).toBe(2);
+        expect(collection.nextCursor).toBe("abc");
+    });
+});
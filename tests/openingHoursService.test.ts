@@ -0,0 +1,107 @@
+import { describe, it, expect } from "bun:test";
+import {
+    parseTime,
+    getOpenStatus,
+    isOpenAt,
+    getWeekMinutes,
+    getPlaceTimeZone
+} from "../src/services/openingHoursService.js";
+import { Place } from "../src/models/place.js";
+
+// wall clock time in New York (EDT in april), 2025-04-14 is a monday
+const newYork = (date: string, hours: number, minutes: number = 0) =>
+    new Date(`${date}T${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:00-04:00`);
+const monday = (hours: number, minutes: number = 0) => newYork("2025-04-14", hours, minutes);
+const tuesday = (hours: number, minutes: number = 0) => newYork("2025-04-15", hours, minutes);
+const sunday = (hours: number, minutes: number = 0) => newYork("2025-04-20", hours, minutes);
+
+const buildPlace = (openingHours: Place['openingHours']): Place => ({
+    name: "Hours Test",
+    address: "1 Clock St",
+    location: { latitude: 39.24, longitude: -84.67 },
+    amenities: { wifi: true, coffee: true, outlets: true, seating: true, food: false, meetingRooms: false },
+    attributes: { noiseLevel: "quiet", parking: "none", openLate: false },
+    timeZone: "America/New_York",
+    openingHours,
+    isPublic: true
+});
+
+describe("Opening Hours Service Tests", () => {
+    const dayPlace = buildPlace([
+        { day: "monday", open: "07:00", close: "18:00" },
+        { day: "wednesday", open: "07:00", close: "18:00" }
+    ]);
+
+    it("should parse HH:MM strings", () => {
+        expect(parseTime("07:30")).toBe(450);
+        expect(parseTime("24:00")).toBe(1440);
+        expect(parseTime("7am")).toBeNull();
+        expect(parseTime("25:00")).toBeNull();
+    });
+
+    it("should count week minutes from monday in the given zone", () => {
+        expect(getWeekMinutes(monday(0), "America/New_York")).toBe(0);
+        expect(getWeekMinutes(sunday(23, 59), "America/New_York")).toBe(7 * 1440 - 1);
+        // 00:00 in New York is 04:00 UTC
+        expect(getWeekMinutes(monday(0), "UTC")).toBe(240);
+    });
+
+    it("should report open and closing soon states", () => {
+        expect(getOpenStatus(dayPlace, monday(9))).toEqual({ state: "open", closesAt: "18:00" });
+        expect(getOpenStatus(dayPlace, monday(17, 45))?.state).toBe("closing-soon");
+        expect(isOpenAt(dayPlace, monday(17, 45))).toBe(true);
+    });
+
+    it("should report when a closed place next opens", () => {
+        // closed after hours on monday, next open wednesday because tuesday has no entry
+        const status = getOpenStatus(dayPlace, monday(19));
+        expect(status?.state).toBe("closed");
+        expect(status?.nextOpen).toEqual({ day: "wednesday", time: "07:00" });
+
+        // before opening on the same day
+        expect(getOpenStatus(dayPlace, monday(6))?.nextOpen).toEqual({ day: "monday", time: "07:00" });
+    });
+
+    it("should wrap to next week when looking for the next opening", () => {
+        const status = getOpenStatus(dayPlace, sunday(12));
+        expect(status?.nextOpen).toEqual({ day: "monday", time: "07:00" });
+    });
+
+    it("should handle closing times after midnight", () => {
+        const latePlace = buildPlace([
+            { day: "monday", open: "18:00", close: "02:00" },
+            { day: "sunday", open: "20:00", close: "01:00" }
+        ]);
+
+        expect(isOpenAt(latePlace, monday(23))).toBe(true);
+        expect(isOpenAt(latePlace, tuesday(1, 30))).toBe(true); // tuesday 01:30
+        expect(isOpenAt(latePlace, tuesday(2, 30))).toBe(false);
+
+        // sunday night spills over into monday morning
+        expect(isOpenAt(latePlace, monday(0, 30))).toBe(true);
+        expect(getOpenStatus(latePlace, monday(0, 45))?.state).toBe("closing-soon");
+    });
+
+    it("should evaluate hours in the place's time zone, not the server's", () => {
+        // 13:00 UTC is 09:00 in New York and 06:00 in Los Angeles
+        const at = new Date("2025-04-14T13:00:00Z");
+        const laPlace = { ...dayPlace, timeZone: "America/Los_Angeles" };
+
+        expect(isOpenAt(dayPlace, at)).toBe(true);
+        expect(isOpenAt(laPlace, at)).toBe(false);
+    });
+
+    it("should derive a time zone from the location when none is stored", () => {
+        const { timeZone, ...legacyPlace } = dayPlace;
+
+        expect(getPlaceTimeZone(legacyPlace)).toBe("America/New_York");
+        expect(isOpenAt(legacyPlace, monday(9))).toBe(true);
+    });
+
+    it("should treat places without hours as never open", () => {
+        const noHours = buildPlace(undefined);
+
+        expect(getOpenStatus(noHours, monday(9))).toBeUndefined();
+        expect(isOpenAt(noHours, monday(9))).toBe(false);
+    });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, mock, spyOn } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import sharp from "sharp";
+import { localDb } from "../src/utils/localdb.js";
+import { Place } from "../src/models/place.js";
+
+describe("Photo Service Tests", () => {
+    const placeId = "7d3e9c1a-2b4f-4a6e-8c5d-9f0a1b2c3d4e";
+    const place: Place = {
+        id: placeId,
+        name: "Photo Test Place",
+        address: "1 Photo St",
+        location: { latitude: 39.24, longitude: -84.67 },
+        amenities: { wifi: true, coffee: true, outlets: true, seating: true, food: false, meetingRooms: false },
+        attributes: { noiseLevel: "quiet", parking: "none", openLate: false },
+        isPublic: true
+    };
+    let image: Buffer;
+
+    let assetsDir: string;
+    let photoService: typeof import("../src/services/photoService.js");
+    let storage: typeof import("../src/utils/storage.js");
+
+    beforeAll(async () => {
+        // keep uploads out of the working tree, storage reads this when it's first imported
+        assetsDir = await mkdtemp(path.join(tmpdir(), "workbru-assets-"));
+        process.env.LOCAL_ASSETS_DIR = assetsDir;
+
+        // back the services with the in-memory local DB
+        mock.module("../src/utils/dynamodb.js", () => ({
+            putItem: (table, item) => localDb.putItem(table, item),
+            putVersionedItem: (table, item, expectedVersion) => localDb.putVersionedItem(table, item, expectedVersion),
+            getItem: (table, key) => localDb.getItem(table, key),
+            queryItems: (table, keyConditionExpression, expressionValues, indexName, expressionNames) =>
+                localDb.queryItems(table, keyConditionExpression, expressionValues, expressionNames),
+            scanItems: (table) => localDb.scanItems(table),
+            deleteItem: (table, key) => localDb.deleteItem(table, key),
+            updateFields: (table, key, fields) => localDb.updateItem(table, key, fields),
+            PLACES_TABLE: "workbru-places"
+        }));
+
+        // a photo with the sort of EXIF data a phone camera writes
+        image = await sharp({ create: { width: 1200, height: 900, channels: 3, background: "#6f4e37" } })
+            .withExif({ IFD0: { Make: "Phone", Copyright: "Contributor" }, IFD3: { GPSLatitudeRef: "N", GPSLatitude: "39/1 14/1 0/1" } })
+            .jpeg()
+            .toBuffer();
+
+        photoService = await import("../src/services/photoService.js");
+        storage = await import("../src/utils/storage.js");
+    });
+
+    afterAll(async () => {
+        await rm(assetsDir, { recursive: true, force: true });
+    });
+
+    beforeEach(async () => {
+        await localDb.clearAll();
+        await localDb.putItem("workbru-places", { ...place });
+    });
+
+    it("should take a photo from upload through moderation", async () => {
+        const upload = await photoService.requestPhotoUpload(placeId, "user-1", { contentType: "image/jpeg", sizeBytes: image.length });
+        expect(upload?.photo.status).toBe("awaiting-upload");
+        expect(upload?.headers["Content-Type"]).toBe("image/jpeg");
+
+        // the client PUTs straight to storage, which triggers processing
+        await storage.putObject(upload!.photo.key, image, "image/jpeg");
+        await photoService.processPhoto(upload!.photo.id);
+
+        const confirmed = await photoService.confirmPhotoUpload(upload!.photo.id, { caption: "Window seats", width: 10, height: 10 });
+        expect(confirmed?.status).toBe("pending");
+        expect(confirmed?.caption).toBe("Window seats");
+        // processing already measured it
+        expect([confirmed?.width, confirmed?.height]).toEqual([1200, 900]);
+        expect(confirmed?.expiresAt).toBeUndefined();
+
+        // pending photos are only shown to their uploader
+        expect(await photoService.getPhotosForPlace(placeId)).toHaveLength(0);
+        expect(await photoService.getPhotosForPlace(placeId, "user-1")).toHaveLength(1);
+        // and to moderators, in their queue
+        expect((await photoService.getPendingPhotos()).photos.map(photo => photo.id)).toEqual([upload!.photo.id]);
+
+        await photoService.moderatePhoto(upload!.photo.id, "admin-1", { status: "approved" });
+        const photos = await photoService.getPhotosForPlace(placeId);
+        expect(photos).toHaveLength(1);
+        expect(photos[0].moderatedBy).toBe("admin-1");
+        expect((await photoService.getPendingPhotos()).photos).toHaveLength(0);
+        expect(photos[0].urls.thumbnail).toContain(photos[0].variants!.thumbnail.key);
+        expect(Object.keys(photos[0].urls)).toEqual(["thumbnail", "medium", "large"]);
+    });
+
+    it("should make metadata free variants and drop the original", async () => {
+        const upload = await photoService.requestPhotoUpload(placeId, "user-1", { contentType: "image/jpeg", sizeBytes: image.length });
+        await storage.putObject(upload!.photo.key, image, "image/jpeg");
+
+        const processed = await photoService.processPhoto(upload!.photo.id);
+        expect(processed?.width).toBe(1200);
+        expect(processed?.height).toBe(900);
+        expect(processed?.variants?.thumbnail).toMatchObject({ width: 200, height: 200, contentType: "image/webp" });
+        expect(processed?.variants?.medium).toMatchObject({ width: 800, height: 600 });
+        // never upscaled
+        expect(processed?.variants?.large).toMatchObject({ width: 1200, height: 900 });
+
+        for (const variant of Object.values(processed!.variants!)) {
+            const metadata = await sharp((await storage.getObject(variant.key))!).metadata();
+            expect(metadata.exif).toBeUndefined();
+        }
+        expect(await storage.headObject(upload!.photo.key)).toBeNull();
+
+        // already processed, so confirming doesn't need the original
+        expect((await photoService.confirmPhotoUpload(upload!.photo.id))?.status).toBe("pending");
+    });
+
+    it("should keep the variants when processing finishes while the upload is confirmed", async () => {
+        const upload = await photoService.requestPhotoUpload(placeId, "user-1", { contentType: "image/jpeg", sizeBytes: image.length });
+        await storage.putObject(upload!.photo.key, image, "image/jpeg");
+
+        // processing writes the photo while confirming is checking the upload
+        const headObject = storage.headObject;
+        const spy = spyOn(storage, "headObject").mockImplementationOnce(async key => {
+            const stored = await headObject(key);
+            await photoService.processPhoto(upload!.photo.id);
+            return stored;
+        });
+        const confirmed = await photoService.confirmPhotoUpload(upload!.photo.id, { caption: "Window seats" });
+        spy.mockRestore();
+
+        const photo = await photoService.getPhotoById(upload!.photo.id);
+        expect(photo?.status).toBe("pending");
+        expect(photo?.caption).toBe("Window seats");
+        expect(photo?.variants).toBeDefined();
+        expect(photo?.expiresAt).toBeUndefined();
+        expect(confirmed).toEqual(photo);
+    });
+
+    it("should reject uploads that aren't images", async () => {
+        const notAnImage = Buffer.from("#!/bin/sh\necho definitely a photo\n");
+        const upload = await photoService.requestPhotoUpload(placeId, "user-1", { contentType: "image/png", sizeBytes: notAnImage.length });
+        await storage.putObject(upload!.photo.key, notAnImage, "image/png");
+
+        const processed = await photoService.processPhoto(upload!.photo.id);
+        expect(processed?.status).toBe("rejected");
+        expect(processed?.moderationReason).toContain("not a supported image");
+        expect(await storage.headObject(upload!.photo.key)).toBeNull();
+        await expect(photoService.confirmPhotoUpload(upload!.photo.id)).rejects.toThrow("not a supported image");
+    });
+
+    it("should pick up missed uploads in the processing job", async () => {
+        const uploaded = await photoService.requestPhotoUpload(placeId, "user-1", { contentType: "image/jpeg", sizeBytes: image.length });
+        await storage.putObject(uploaded!.photo.key, image, "image/jpeg");
+        // never uploaded, so there's nothing to do yet
+        await photoService.requestPhotoUpload(placeId, "user-2", { contentType: "image/jpeg", sizeBytes: image.length });
+
+        expect(await photoService.processUnprocessedPhotos()).toBe(1);
+        expect((await photoService.getPhotoById(uploaded!.photo.id))?.processedAt).toBeDefined();
+    });
+
+    it("should refuse to confirm a photo that was never uploaded", async () => {
+        const upload = await photoService.requestPhotoUpload(placeId, "user-1", { contentType: "image/png", sizeBytes: 1024 });
+        await expect(photoService.confirmPhotoUpload(upload!.photo.id)).rejects.toThrow(photoService.PhotoUploadError);
+    });
+
+    it("should refuse an upload of a different size", async () => {
+        const upload = await photoService.requestPhotoUpload(placeId, "user-1", { contentType: "image/jpeg", sizeBytes: image.length + 10 });
+        await storage.putObject(upload!.photo.key, image, "image/jpeg");
+
+        await expect(photoService.confirmPhotoUpload(upload!.photo.id)).rejects.toThrow("does not match");
+        expect((await photoService.processPhoto(upload!.photo.id))?.status).toBe("rejected");
+    });
+
+    it("should reject oversized uploads and unsupported types", async () => {
+        await expect(photoService.requestPhotoUpload(placeId, "user-1", {
+            contentType: "image/jpeg",
+            sizeBytes: photoService.MAX_PHOTO_BYTES + 1
+        })).rejects.toThrow(photoService.PhotoUploadError);
+
+        await expect(photoService.requestPhotoUpload(placeId, "user-1", {
+            contentType: "image/gif" as any,
+            sizeBytes: 100
+        })).rejects.toThrow();
+    });
+
+    it("should not start uploads for places that don't exist", async () => {
+        expect(await photoService.requestPhotoUpload("00000000-0000-4000-8000-000000000000", "user-1", {
+            contentType: "image/jpeg",
+            sizeBytes: 100
+        })).toBeNull();
+    });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll, mock } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { localDb } from "../src/utils/localdb.js";
+import { parseCsv } from "../src/utils/csv.js";
+import { Place } from "../src/models/place.js";
+
+describe("Place Export Service Tests", () => {
+    const basePlace = {
+        address: "1 Export St",
+        location: { latitude: 51.5, longitude: -0.12 },
+        amenities: { wifi: true, coffee: true, outlets: false, seating: true, food: false, meetingRooms: false },
+        attributes: { noiseLevel: "quiet" as const, parking: "none" as const, openLate: false },
+        isPublic: true
+    };
+
+    let assetsDir: string;
+    let placeExportService: typeof import("../src/services/placeExportService.js");
+    let placeImportService: typeof import("../src/services/placeImportService.js");
+    let storage: typeof import("../src/utils/storage.js");
+
+    // stored straight into the table, so each test starts from exactly these places
+    const addPlace = (fields: Partial<Place>) => localDb.putItem("workbru-places", {
+        ...basePlace,
+        id: crypto.randomUUID(),
+        name: "Export Cafe",
+        createdAt: "2025-01-01T00:00:00.000Z",
+        updatedAt: "2025-01-01T00:00:00.000Z",
+        ...fields,
+    });
+
+    beforeAll(async () => {
+        // keep exports out of the working tree, storage reads this when it's first imported
+        assetsDir = await mkdtemp(path.join(tmpdir(), "workbru-assets-"));
+        process.env.LOCAL_ASSETS_DIR = assetsDir;
+        // small pages and a small inline limit, so a handful of places covers paging and spilling to storage
+        process.env.PLACE_EXPORT_PAGE_SIZE = "2";
+        process.env.PLACE_EXPORT_INLINE_MAX_BYTES = "4000";
+
+        // back the services with the in-memory local DB
+        mock.module("../src/utils/dynamodb.js", () => ({
+            putItem: (table, item) => localDb.putItem(table, item),
+            getItem: (table, key) => localDb.getItem(table, key),
+            queryItems: (table, keyConditionExpression, expressionValues, indexName, expressionNames) =>
+                localDb.queryItems(table, keyConditionExpression, expressionValues, expressionNames),
+            scanItems: (table) => localDb.scanItems(table),
+            scanPage: (table, limit, startKey) => localDb.scanPage(table, limit, startKey),
+            deleteItem: (table, key) => localDb.deleteItem(table, key),
+            updateFields: (table, key, fields) => localDb.updateItem(table, key, fields),
+            transactPutItems: async (table, items) => {
+                for (const item of items) await localDb.putItem(table, item);
+            },
+            PLACES_TABLE: "workbru-places"
+        }));
+
+        placeExportService = await import("../src/services/placeExportService.js");
+        placeImportService = await import("../src/services/placeImportService.js");
+        storage = await import("../src/utils/storage.js");
+    });
+
+    afterAll(async () => {
+        await rm(assetsDir, { recursive: true, force: true });
+    });
+
+    beforeEach(async () => {
+        await localDb.clearAll();
+    });
+
+    it("should export filtered places as CSV the importer can read back", async () => {
+        await addPlace({ name: "Quiet Cafe, Upstairs", openingHours: [{ day: "monday", open: "09:00", close: "17:00" }] });
+        await addPlace({ name: "No Wifi Cafe", amenities: { ...basePlace.amenities, wifi: false } });
+        await addPlace({ name: "=HYPERLINK(\"http://example.com\")", description: "@home from home" });
+        await addPlace({ name: "Deleted Cafe", deletedAt: "2025-02-01T00:00:00.000Z" });
+
+        const result = await placeExportService.exportPlaces("csv", { wifi: true }, new Date("2025-03-01T12:00:00Z"));
+        expect(result.count).toBe(2);
+        expect(result.contentType).toBe("text/csv");
+        expect(result.filename).toBe("places-2025-03-01.csv");
+
+        // text a spreadsheet would run as a formula is kept as text, coordinates stay numbers
+        expect(result.body).toContain(`"'=HYPERLINK(""http://example.com"")"`);
+        expect(result.body).toContain(",'@home from home,");
+        expect(result.body).toContain(",-0.12,");
+
+        const rows = parseCsv(result.body!);
+        expect(rows.map(row => row.name).sort()).toEqual(["=HYPERLINK(\"http://example.com\")", "Quiet Cafe, Upstairs"]);
+        const row = rows.find(row => row.name === "Quiet Cafe, Upstairs")!;
+        expect(row.wifi).toBe("true");
+        expect(row.noiseLevel).toBe("quiet");
+        expect(row.openingHours).toBe("monday 09:00-17:00");
+
+        // importing an unedited export changes nothing
+        const reimport = await placeImportService.importPlaces("csv", result.body!, undefined, true);
+        expect(reimport).toEqual({ dryRun: true, created: 0, updated: 0, skipped: 2, errors: [] });
+    });
+
+    it("should write GeoJSON and NDJSON across pages", async () => {
+        for (let i = 0; i < 5; i++) {
+            await addPlace({ name: `Paged Cafe ${i}`, location: { latitude: 51 + i / 10, longitude: -0.1 } });
+        }
+
+        const geoJson = await placeExportService.exportPlaces("geojson");
+        const collection = JSON.parse(geoJson.body!);
+        expect(collection.type).toBe("FeatureCollection");
+        expect(collection.features).toHaveLength(5);
+        expect(collection.features[0].geometry.type).toBe("Point");
+
+        const ndjson = await placeExportService.exportPlaces("ndjson");
+        const lines = ndjson.body!.trim().split("\n").map(line => JSON.parse(line));
+        expect(ndjson.count).toBe(5);
+        expect(lines.map(place => place.name).sort()).toEqual(["Paged Cafe 0", "Paged Cafe 1", "Paged Cafe 2", "Paged Cafe 3", "Paged Cafe 4"]);
+    });
+
+    it("should move exports too big for a response into storage", async () => {
+        for (let i = 0; i < 12; i++) {
+            await addPlace({ name: `Big Export Cafe ${i}`, description: "A long description ".repeat(20) });
+        }
+
+        const result = await placeExportService.exportPlaces("ndjson");
+        expect(result.body).toBeUndefined();
+        expect(result.count).toBe(12);
+        expect(result.url).toContain("/exports/");
+        expect(result.expiresAt).toBeDefined();
+
+        const key = result.url!.slice(result.url!.indexOf("exports/"));
+        const stored = await storage.getObject(key);
+        expect(stored!.toString().trim().split("\n")).toHaveLength(12);
+        expect((await storage.headObject(key))?.contentType).toBe("application/x-ndjson");
+
+        await storage.deleteObject(key);
+    });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeAll, beforeEach, mock } from "bun:test";
+import { importPlaces, parseImportRows, PlaceImportError } from "../src/services/placeImportService.js";
+import { createPlace, getPlaceById } from "../src/services/placeService.js";
+import { getPlaceHistory } from "../src/services/placeRevisionService.js";
+import { localDb } from "../src/utils/localdb.js";
+import { Place } from "../src/models/place.js";
+
+describe("Place Import Service Tests", () => {
+    const header = "id,googlePlaceId,name,address,latitude,longitude,wifi,coffee,noiseLevel,parking,openingHours";
+    // how many more transactions go through before the next one fails
+    let transactionsLeft = Infinity;
+
+    beforeAll(() => {
+        // back the services with the in-memory local DB
+        mock.module("../src/utils/dynamodb.js", () => ({
+            putItem: (table, item) => localDb.putItem(table, item),
+            getItem: (table, key) => localDb.getItem(table, key),
+            queryItems: (table, keyConditionExpression, expressionValues, indexName, expressionNames) =>
+                localDb.queryItems(table, keyConditionExpression, expressionValues, expressionNames),
+            scanItems: (table) => localDb.scanItems(table),
+            deleteItem: (table, key) => localDb.deleteItem(table, key),
+            updateFields: (table, key, fields) => localDb.updateItem(table, key, fields),
+            transactPutItems: async (table, items) => {
+                if (transactionsLeft-- <= 0) throw new Error("Transaction cancelled");
+                for (const item of items) await localDb.putItem(table, item);
+            },
+            PLACES_TABLE: "workbru-places"
+        }));
+        // the session tests swap uuid for a fixed string for the rest of the run, and imported places are keyed by it
+        mock.module("uuid", () => ({ v4: () => crypto.randomUUID() }));
+    });
+
+    beforeEach(async () => {
+        await localDb.clearAll();
+        transactionsLeft = Infinity;
+    });
+
+    it("should create places from CSV, and only check them on a dry run", async () => {
+        const csv = [
+            header,
+            ',g-import-1,Import Cafe,"1 High St, London",51.5,-0.12,yes,no,quiet,street,"monday 09:00-17:00; tuesday 09:00-17:00"',
+            ",g-import-2,Import Library,2 Low St,51.6,-0.13,true,false,moderate,,",
+        ].join("\n");
+
+        const dryRun = await importPlaces("csv", csv, "admin-1", true);
+        expect(dryRun).toEqual({ dryRun: true, created: 2, updated: 0, skipped: 0, errors: [] });
+        expect(await localDb.scanItems("workbru-places")).toHaveLength(0);
+
+        const result = await importPlaces("csv", csv, "admin-1");
+        expect(result).toEqual({ dryRun: false, created: 2, updated: 0, skipped: 0, errors: [] });
+
+        const places = await localDb.scanItems("workbru-places") as Place[];
+        const cafe = places.find(place => place.googlePlaceId === "g-import-1")!;
+        expect(cafe.address).toBe("1 High St, London");
+        expect(cafe.location).toEqual({ latitude: 51.5, longitude: -0.12 });
+        expect(cafe.amenities.wifi).toBe(true);
+        expect(cafe.amenities.coffee).toBe(false);
+        expect(cafe.attributes.noiseLevel).toBe("quiet");
+        expect(cafe.openingHours).toHaveLength(2);
+        expect(cafe.createdBy).toBe("admin-1");
+
+        const { revisions } = await getPlaceHistory(cafe.id!);
+        expect(revisions.map(revision => revision.action)).toEqual(["create"]);
+    });
+
+    it("should update places matched by ID or googlePlaceId and skip unchanged ones", async () => {
+        const byId = await createPlace({
+            name: "Old Name",
+            address: "3 Side St",
+            location: { latitude: 51.5, longitude: -0.12 },
+            amenities: { wifi: true, coffee: true, outlets: false, seating: true, food: false, meetingRooms: false },
+            attributes: { noiseLevel: "moderate", parking: "none", openLate: false },
+        }, "owner-1");
+        const byGoogleId = await createPlace({
+            name: "Unchanged Cafe",
+            address: "4 Side St",
+            googlePlaceId: "g-existing",
+            location: { latitude: 51.6, longitude: -0.13 },
+            amenities: { wifi: true, coffee: true, outlets: false, seating: true, food: false, meetingRooms: false },
+            attributes: { noiseLevel: "moderate", parking: "none", openLate: false },
+        }, "owner-1");
+
+        const csv = [
+            header,
+            `${byId.id},,New Name,,,,,,,,`,
+            ",g-existing,Unchanged Cafe,,,,,,,,",
+        ].join("\n");
+
+        const result = await importPlaces("csv", csv, "admin-1");
+        expect(result).toEqual({ dryRun: false, created: 0, updated: 1, skipped: 1, errors: [] });
+
+        const updated = await getPlaceById(byId.id!);
+        expect(updated?.name).toBe("New Name");
+        // blank columns leave the stored values alone
+        expect(updated?.address).toBe("3 Side St");
+        expect(updated?.createdBy).toBe("owner-1");
+        expect((await getPlaceById(byGoogleId.id!))?.name).toBe("Unchanged Cafe");
+    });
+
+    it("should report every invalid row and write nothing", async () => {
+        const csv = [
+            header,
+            ",g-valid,Valid Cafe,5 Good St,51.5,-0.12,yes,yes,quiet,,",
+            ",g-bad,,6 Bad St,north,-0.12,maybe,yes,,,",
+            ",g-valid,Valid Cafe Again,5 Good St,51.5,-0.12,yes,yes,quiet,,",
+            "not-a-uuid,,Bad ID,7 Bad St,51.5,-0.12,yes,yes,quiet,,",
+            ",,Bad Hours,8 Bad St,51.5,-0.12,yes,yes,quiet,,all day",
+        ].join("\n");
+
+        const result = await importPlaces("csv", csv, "admin-1");
+        expect(result.created).toBe(1);
+        expect(result.errors.map(error => error.row)).toEqual([2, 3, 4, 5]);
+        expect(result.errors[0].errors).toEqual(expect.arrayContaining([
+            expect.stringMatching(/^name:/),
+            expect.stringMatching(/^location\.latitude:/),
+            expect.stringMatching(/^amenities\.wifi:/),
+            "attributes.noiseLevel: Required",
+        ]));
+        expect(result.errors[1].errors).toEqual(["Same place as row 1"]);
+        expect(result.errors[2].errors).toEqual(["id: Invalid uuid"]);
+        expect(result.errors[3].errors[0]).toMatch(/^openingHours:/);
+
+        expect(await localDb.scanItems("workbru-places")).toHaveLength(0);
+    });
+
+    it("should say which rows were imported when a later batch fails", async () => {
+        const csv = [
+            header,
+            ...Array.from({ length: 30 }, (_, i) => `,g-batch-${i},Batch Cafe ${i},${i} Batch St,51.5,-0.12,yes,yes,quiet,,`),
+        ].join("\n");
+        transactionsLeft = 1;
+
+        const result = await importPlaces("csv", csv, "admin-1");
+        expect(result.created).toBe(25);
+        expect(result.partial?.committedRows).toEqual(Array.from({ length: 25 }, (_, i) => i + 1));
+        expect(result.partial?.error).toContain("Transaction cancelled");
+        expect(await localDb.scanItems("workbru-places")).toHaveLength(25);
+    });
+
+    it("should read GeoJSON features and reject files it can't parse", async () => {
+        const rows = parseImportRows("geojson", JSON.stringify({
+            type: "FeatureCollection",
+            features: [{
+                type: "Feature",
+                geometry: { type: "Point", coordinates: [-0.12, 51.5] },
+                properties: { name: "Geo Cafe", address: "9 Map St", amenities: { wifi: true } },
+            }],
+        }));
+        expect(rows).toEqual([{ name: "Geo Cafe", address: "9 Map St", amenities: { wifi: true }, id: undefined, longitude: -0.12, latitude: 51.5 }]);
+
+        expect(() => parseImportRows("geojson", "{")).toThrow(PlaceImportError);
+        expect(() => parseImportRows("geojson", JSON.stringify({ type: "Point" }))).toThrow(PlaceImportError);
+        expect(() => parseImportRows("csv", 'name\n"unterminated')).toThrow(PlaceImportError);
+    });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeAll, beforeEach, mock } from "bun:test";
+import { getPlaceHistory, restoreRevision, getFieldChanges } from "../src/services/placeRevisionService.js";
+import { createPlace, updatePlace, deletePlace, getPlaceById, applyReviewAggregates } from "../src/services/placeService.js";
+import { localDb } from "../src/utils/localdb.js";
+import { Place } from "../src/models/place.js";
+
+describe("Place Revision Service Tests", () => {
+    const placeData = {
+        name: "History Test Cafe",
+        address: "1 Past Lane",
+        location: { latitude: 51.5072, longitude: -0.1276 },
+        amenities: { wifi: true, coffee: true, outlets: false, seating: true, food: false, meetingRooms: false },
+        attributes: { noiseLevel: "moderate" as const, parking: "none" as const, openLate: false },
+        isPublic: true
+    };
+
+    beforeAll(() => {
+        // back the services with the in-memory local DB
+        mock.module("../src/utils/dynamodb.js", () => ({
+            putItem: (table, item) => localDb.putItem(table, item),
+            getItem: (table, key) => localDb.getItem(table, key),
+            queryItems: (table, keyConditionExpression, expressionValues, indexName, expressionNames) =>
+                localDb.queryItems(table, keyConditionExpression, expressionValues, expressionNames),
+            scanItems: (table) => localDb.scanItems(table),
+            deleteItem: (table, key) => localDb.deleteItem(table, key),
+            updateFields: (table, key, fields) => localDb.updateItem(table, key, fields),
+            PLACES_TABLE: "workbru-places"
+        }));
+        // the session tests swap uuid for a fixed string for the rest of the run, and revisions are keyed by it
+        mock.module("uuid", () => ({ v4: () => crypto.randomUUID() }));
+    });
+
+    // history is ordered by time, so keep changes from landing in the same millisecond
+    const tick = () => new Promise(resolve => setTimeout(resolve, 2));
+
+    beforeEach(async () => {
+        await localDb.clearAll();
+    });
+
+    it("should record every change with its actor and a field level diff", async () => {
+        const place = await createPlace(placeData, "owner-1");
+        await tick();
+        await updatePlace(place.id!, { name: "History Test Coffee", amenities: { outlets: true } as Place["amenities"] }, "editor-1");
+        // saving the same values again isn't a change
+        await updatePlace(place.id!, { name: "History Test Coffee" }, "editor-1");
+
+        const { revisions } = await getPlaceHistory(place.id!);
+        expect(revisions.map(revision => revision.action)).toEqual(["update", "create"]);
+
+        const [update, create] = revisions;
+        expect(create.actor).toBe("owner-1");
+        expect(update.actor).toBe("editor-1");
+        expect(update.changes).toEqual([
+            { field: "name", from: "History Test Cafe", to: "History Test Coffee" },
+            { field: "amenities.outlets", from: false, to: true },
+        ]);
+        expect(update.snapshot.name).toBe("History Test Coffee");
+
+        // the original creator survives someone else's edit
+        expect((await getPlaceById(place.id!))?.createdBy).toBe("owner-1");
+    });
+
+    it("should record deletes and keep restores from undoing them", async () => {
+        const place = await createPlace(placeData, "owner-1");
+        await tick();
+        await deletePlace(place.id!, "admin-1", "Closed down");
+
+        const { revisions } = await getPlaceHistory(place.id!);
+        expect(revisions[0].action).toBe("delete");
+        expect(revisions[0].actor).toBe("admin-1");
+        expect(revisions[0].snapshot.name).toBe("History Test Cafe");
+        expect(revisions[0].changes).toContainEqual({ field: "deletionReason", from: undefined, to: "Closed down" });
+
+        // going back to a revision doesn't take the place out of the trash
+        await tick();
+        expect((await restoreRevision(place.id!, revisions[1].id, "admin-1"))?.deletedAt).toBeDefined();
+        expect(await getPlaceById(place.id!)).toBeNull();
+    });
+
+    it("should restore a place to an earlier revision", async () => {
+        const place = await createPlace(placeData, "owner-1");
+        await tick();
+        await updatePlace(place.id!, { name: "Vandalised", description: "Closed forever" }, "vandal-1");
+        await applyReviewAggregates(place.id!, { rating: 4, reviewCount: 1 });
+
+        const created = (await getPlaceHistory(place.id!)).revisions.find(revision => revision.action === "create")!;
+        await tick();
+        const restored = await restoreRevision(place.id!, created.id, "admin-1");
+
+        expect(restored?.name).toBe("History Test Cafe");
+        expect(restored?.description).toBeUndefined();
+        expect(restored?.createdBy).toBe("owner-1");
+        // ratings come from reviews, which haven't gone anywhere
+        expect(restored?.attributes.rating).toBe(4);
+        expect(restored?.reviewCount).toBe(1);
+        expect((await getPlaceById(place.id!))?.name).toBe("History Test Cafe");
+
+        const [restore] = (await getPlaceHistory(place.id!)).revisions;
+        expect(restore.action).toBe("restore");
+        expect(restore.actor).toBe("admin-1");
+        expect(restore.restoredFrom).toBe(created.id);
+
+        // revisions only restore onto their own place
+        const other = await createPlace(placeData, "owner-1");
+        expect(await restoreRevision(other.id!, created.id, "admin-1")).toBeNull();
+    });
+
+    it("should page through history newest first", async () => {
+        const place = await createPlace(placeData, "owner-1");
+        for (const name of ["One", "Two", "Three"]) {
+            await tick();
+            await updatePlace(place.id!, { name }, "editor-1");
+        }
+
+        const first = await getPlaceHistory(place.id!, { limit: 3 });
+        expect(first.revisions.map(revision => revision.snapshot.name)).toEqual(["Three", "Two", "One"]);
+        const second = await getPlaceHistory(place.id!, { limit: 3, cursor: first.nextCursor });
+        expect(second.revisions.map(revision => revision.action)).toEqual(["create"]);
+        expect(second.nextCursor).toBeUndefined();
+    });
+
+    it("should leave derived fields out of diffs", () => {
+        const before = { ...placeData, geohash: "gcpvj0", updatedAt: "2025-01-01T00:00:00.000Z" } as Place;
+        const after = { ...placeData, geohash: "gcpvj1", updatedAt: "2025-01-02T00:00:00.000Z" } as Place;
+
+        expect(getFieldChanges(before, after)).toEqual([]);
+    });
+});
@@ -9,12 +9,33 @@ import {
     createPlace,
     getPlaceById,
     updatePlace,
-    deletePlace
+    withoutComputedFields,
+    deletePlace,
+    restoreDeletedPlace,
+    getDeletedPlaces,
+    purgeDeletedPlaces,
+    getAppliedFilters,
+    matchesFilters,
+    getAllPlaces,
+    selectGeohashPrecision,
+    getCoveringGeohashes,
+    splitAtAntimeridian,
+    getGeohashFields,
+    getPlacesWithin,
+    isInBoundingBox,
+    calculateBoundingBoxArea,
+    MAX_VIEWPORT_AREA_KM2,
+    getPlaceClusters,
+    getClusterPrecision,
+    clusterPlaces,
+    sortPlaces,
+    getBestMatchScore
 } from "../src/services/placeService.js";
 import * as dynamodb from "../src/utils/dynamodb.js";
 import localData from "../src/utils/local-data.json" with { type: "json"};
 import { localDb } from "../src/utils/localdb.js";
-import { Place } from "../src/models/place.js";
+import { Place, PlaceFiltersSchema } from "../src/models/place.js";
+import { InvalidCursorError } from "../src/utils/cursor.js";
 
 
 
@@ -97,6 +118,7 @@ describe("PlaceService Tests", () => {
                 return localDb.queryItems(tableName, keyConditionExpression, expressionValues);
             },
             scanItems: (tableName) => localDb.scanItems(tableName),
+            scanPage: (tableName, limit, exclusiveStartKey) => localDb.scanPage(tableName, limit, exclusiveStartKey),
             deleteItem: (tableName, key) => localDb.deleteItem(tableName, key)
                 .then(() => true)
                 .catch(() => false),
@@ -149,7 +171,7 @@ describe("PlaceService Tests", () => {
             const lng = -122.4194;
             const radiusKm = 10;
     
-            const places = await getPlacesNearby(lat, lng, radiusKm);
+            const { places } = await getPlacesNearby(lat, lng, radiusKm);
     
             expect(places.every(place => place.distance! <= radiusKm)).toBe(true); // All places within radius
             expect(places).toBeInstanceOf(Array); // Should return an array
@@ -289,6 +311,8 @@ describe("PlaceService Tests", () => {
             expect(newPlace.createdAt).toBeDefined();
             expect(newPlace.updatedAt).toBeDefined();
             expect(newPlace.createdBy).toBe(userId);
+            // offshore coordinates resolve to a nautical zone
+            expect(newPlace.timeZone).toBe("Etc/GMT+9");
         });
 
         it("should query places by geohash prefix", async () => {
@@ -348,7 +372,8 @@ describe("PlaceService Tests", () => {
             expect(updated).not.toBeNull();
             expect(updated?.name).toBe(updateData.name);
             expect(updated?.amenities.wifi).toBe(false);
-            expect(updated?.createdBy).toBe(userId);
+            // editing a place doesn't make the editor its creator
+            expect(updated?.createdBy).toBeUndefined();
             // original data should be preserved
             expect(updated?.address).toBe("123 Test St");
         })
@@ -366,6 +391,8 @@ describe("PlaceService Tests", () => {
             // Verify geohash was recalculated
             expect(updated?.geohash).toBe(encodeGeohash(newLocation.latitude, newLocation.longitude));
             expect(updated?.geohashPrefix).toBe(encodeGeohash(newLocation.latitude, newLocation.longitude).substring(0, 4));
+            // time zone should follow the new location
+            expect(updated?.timeZone).toBe("America/New_York");
         });
     
         it("should properly merge nested objects like attributes", async () => {
@@ -383,6 +410,20 @@ describe("PlaceService Tests", () => {
             expect(updated?.attributes.openLate).toBe(true);
             expect(updated?.attributes.rating).toBe(3.0);
         });
+
+        it("should drop ratings, review counts and Wi-Fi speeds from user supplied data", () => {
+            const input = withoutComputedFields({
+                name: "Rated By Me",
+                reviewCount: 500,
+                wifiSpeed: { downloadMbps: 900, uploadMbps: 900, latencyMs: 5, reportCount: 50, measuredAt: new Date().toISOString() },
+                attributes: { noiseLevel: "quiet", parking: "none", openLate: true, rating: 5, coffeeRating: 5, seatingComfort: 5 },
+            } as Partial<Place>);
+
+            expect(input).toEqual({
+                name: "Rated By Me",
+                attributes: { noiseLevel: "quiet", parking: "none", openLate: true },
+            });
+        });
     
         it("should return null when updating non-existent place", async () => {
             const updateData = {
@@ -458,12 +499,50 @@ describe("PlaceService Tests", () => {
             expect(result2).toBe(false);
         });
 
+        it("should keep deleted places in the trash until they're purged", async () => {
+            const place = await createPlace({
+                name: "Trash Test Cafe",
+                address: "1 Bin St",
+                location: { latitude: 38.7749, longitude: -132.4194 },
+                amenities: { wifi: true, coffee: true, outlets: true, seating: true, food: false, meetingRooms: false },
+                attributes: { noiseLevel: "moderate", parking: "street", openLate: false },
+                isPublic: true
+            }, "owner-1");
+            // cache it, deleting has to clear it and keep changes made since
+            await getPlaceById(place.id!);
+            await localDb.updateItem("workbru-places", { id: place.id }, { reviewCount: 3 });
+
+            expect(await deletePlace(place.id!, "admin-1", "Closed down")).toBe(true);
+            expect(await getPlaceById(place.id!)).toBeNull();
+            expect((await getAllPlaces()).places.map(p => p.id)).not.toContain(place.id);
+            expect(await deletePlace(place.id!, "admin-1")).toBe(false);
+
+            const { places: trash } = await getDeletedPlaces();
+            const deleted = trash.find(p => p.id === place.id);
+            expect(deleted?.deletedBy).toBe("admin-1");
+            expect(deleted?.deletionReason).toBe("Closed down");
+            expect(deleted?.reviewCount).toBe(3);
+
+            const restored = await restoreDeletedPlace(place.id!, "admin-1");
+            expect(restored?.deletedAt).toBeUndefined();
+            expect((await getPlaceById(place.id!))?.name).toBe("Trash Test Cafe");
+            expect(await restoreDeletedPlace(place.id!, "admin-1")).toBeNull();
+
+            // only places deleted before the retention window are purged
+            await deletePlace(place.id!, "admin-1");
+            expect(await purgeDeletedPlaces(30)).toBe(0);
+            const later = new Date(Date.now() + 31 * 24 * 60 * 60 * 1000);
+            expect(await purgeDeletedPlaces(30, later)).toBeGreaterThanOrEqual(1);
+            expect((await getDeletedPlaces()).places.map(p => p.id)).not.toContain(place.id);
+            expect(await restoreDeletedPlace(place.id!, "admin-1")).toBeNull();
+        });
+
         it("should find places near Cincinnati", async () => {
             const lat = 39.24;
             const lng = -84.67;
             const radiusKm = 20;
     
-            const places = await getPlacesNearby(lat, lng, radiusKm);
+            const { places } = await getPlacesNearby(lat, lng, radiusKm);
     
             // should find multiple places (most of our ohio locations)
             expect(places.length).toBeGreaterThan(3);
@@ -515,7 +594,7 @@ describe("PlaceService Tests", () => {
             const lng = -122.4194;
             const radiusKm = 5;
             
-            const places = await getPlacesNearby(lat, lng, radiusKm);
+            const { places } = await getPlacesNearby(lat, lng, radiusKm);
             
             // should find the san fran coffee shop
             expect(places.length).toBe(1);
@@ -527,6 +606,328 @@ describe("PlaceService Tests", () => {
         });
     });
 
+    describe("Search filters", () => {
+        // Cincinnati search area from the sample data
+        const lat = 39.24;
+        const lng = -84.67;
+        const radiusKm = 20;
+
+        it("should filter nearby places by attribute enums", async () => {
+            const { places, appliedFilters } = await getPlacesNearby(lat, lng, radiusKm, { noiseLevel: ["quiet"] });
+
+            expect(places.length).toBeGreaterThan(0);
+            expect(places.every(place => place.attributes.noiseLevel === "quiet")).toBe(true);
+            expect(appliedFilters).toEqual({ noiseLevel: ["quiet"] });
+        });
+
+        it("should filter nearby places by minimum rating and amenities", async () => {
+            const { places } = await getPlacesNearby(lat, lng, radiusKm, { minRating: 4.5, wifi: true });
+
+            expect(places.length).toBeGreaterThan(0);
+            places.forEach(place => {
+                expect(place.attributes.rating).toBeGreaterThanOrEqual(4.5);
+                expect(place.amenities.wifi).toBe(true);
+            });
+
+            // still sorted by distance after filtering
+            for (let i = 1; i < places.length; i++) {
+                expect(places[i-1].distance).toBeLessThanOrEqual(places[i].distance!);
+            }
+        });
+
+        it("should only report filters that were set", () => {
+            expect(getAppliedFilters({ wifi: true, minRating: undefined })).toEqual({ wifi: true });
+        });
+
+        it("should parse query string filters", () => {
+            const filters = PlaceFiltersSchema.parse({
+                lat: "39.24",
+                wifi: "true",
+                meetingRooms: "false",
+                noiseLevel: "quiet, moderate",
+                minCoffeeRating: "4"
+            });
+
+            expect(filters).toEqual({
+                wifi: true,
+                meetingRooms: false,
+                noiseLevel: ["quiet", "moderate"],
+                minCoffeeRating: 4
+            });
+            expect(() => PlaceFiltersSchema.parse({ noiseLevel: "silent" })).toThrow();
+        });
+
+        it("should only return places open at the requested time", async () => {
+            // sunday 10:00 in Cincinnati - the Coffee Peddlar has no sunday hours
+            const openAt = "2025-04-20T10:00:00-04:00";
+            const { places } = await getPlacesNearby(lat, lng, radiusKm, { openAt });
+
+            expect(places.length).toBeGreaterThan(0);
+            expect(places.some(place => place.name === "The Coffee Peddlar")).toBe(false);
+            places.forEach(place => {
+                expect(["open", "closing-soon"]).toContain(place.openStatus?.state);
+            });
+        });
+
+        it("should exclude places missing a rating when a minimum is requested", () => {
+            const place = {
+                name: "Unrated",
+                address: "1 Main St",
+                location: { latitude: 0, longitude: 0 },
+                amenities: { wifi: true },
+                attributes: { noiseLevel: "quiet" }
+            } as Place;
+
+            expect(matchesFilters(place, { minCoffeeRating: 1 })).toBe(false);
+            expect(matchesFilters(place, { wifi: true, noiseLevel: ["quiet"] })).toBe(true);
+        });
+    });
+
+    describe("Multi-precision geohash indexes", () => {
+        it("should pick the index precision that matches the search radius", () => {
+            expect(selectGeohashPrecision(calculateBoundingBox(39.24, -84.67, 1))).toBe(6);
+            expect(selectGeohashPrecision(calculateBoundingBox(39.24, -84.67, 5))).toBe(5);
+            expect(selectGeohashPrecision(calculateBoundingBox(39.24, -84.67, 10))).toBe(4);
+            expect(selectGeohashPrecision(calculateBoundingBox(39.24, -84.67, 200))).toBe(3);
+        });
+
+        it("should cover the whole bounding box, not just the centre cell", () => {
+            const box = calculateBoundingBox(39.24, -84.67, 200);
+            const cells = getCoveringGeohashes(box, 3);
+
+            // every corner of the box must fall in one of the cells
+            const corners = [
+                [box.minLat, box.minLng], [box.minLat, box.maxLng],
+                [box.maxLat, box.minLng], [box.maxLat, box.maxLng]
+            ];
+            corners.forEach(([cornerLat, cornerLng]) => {
+                expect(cells).toContain(encodeGeohash(cornerLat, cornerLng, 3));
+            });
+        });
+
+        it("should store a prefix for every indexed precision", () => {
+            const fields = getGeohashFields(37.7749, -122.4194);
+
+            expect(fields.geohash).toBe(encodeGeohash(37.7749, -122.4194));
+            expect(fields.geohashPrefix3).toBe("9q8");
+            expect(fields.geohashPrefix).toBe("9q8y");
+            expect(fields.geohashPrefix5).toBe("9q8yy");
+            expect(fields.geohashPrefix6).toBe("9q8yyk");
+        });
+
+        it("should split boxes that cross the antimeridian", () => {
+            const boxes = splitAtAntimeridian({ minLat: -10, maxLat: 10, minLng: 179, maxLng: 181 });
+
+            expect(boxes).toEqual([
+                { minLat: -10, maxLat: 10, minLng: 179, maxLng: 180 },
+                { minLat: -10, maxLat: 10, minLng: -180, maxLng: -179 }
+            ]);
+        });
+
+        it("should query the fine grained index for small searches", async () => {
+            const spy = spyOn(dynamodb, "queryItems");
+
+            // Square Mile Coffee Company
+            const { places } = await getPlacesNearby(39.2631942, -84.6258022, 1);
+
+            expect(spy.mock.calls[0][1]).toBe("geohashPrefix6 = :prefix");
+            expect(spy.mock.calls[0][3]).toBe("geohash-prefix-6-index");
+            expect(places.map(place => place.name)).toContain("Square Mile Coffee Company");
+        });
+
+        it("should find every place in a large search area", async () => {
+            const { places } = await getPlacesNearby(39.24, -84.67, 200);
+
+            expect(places.length).toBe(localData.length);
+        });
+    });
+
+    describe("Viewport search", () => {
+        // covers the Cincinnati sample data but not the San Francisco test place
+        const cincinnati = { minLat: 39.0, minLng: -85.0, maxLat: 39.5, maxLng: -84.3 };
+
+        it("should return only places inside the box", async () => {
+            const { places } = await getPlacesWithin(cincinnati);
+
+            expect(places.length).toBe(enrichedData.length);
+            places.forEach(place => {
+                expect(isInBoundingBox(place.location.latitude, place.location.longitude, cincinnati)).toBe(true);
+            });
+        });
+
+        it("should apply filters and paginate within the box", async () => {
+            const { places: wifiPlaces } = await getPlacesWithin(cincinnati, { wifi: true });
+            wifiPlaces.forEach(place => expect(place.amenities.wifi).toBe(true));
+
+            const first = await getPlacesWithin(cincinnati, {}, { limit: 4 });
+            expect(first.places.length).toBe(4);
+            const second = await getPlacesWithin(cincinnati, {}, { limit: 4, cursor: first.nextCursor });
+            const ids = [...first.places, ...second.places].map(place => place.id);
+            expect(new Set(ids).size).toBe(enrichedData.length);
+        });
+
+        it("should handle boxes that cross the antimeridian", () => {
+            const pacific = { minLat: -20, minLng: 170, maxLat: -10, maxLng: -170 };
+
+            expect(isInBoundingBox(-15, 175, pacific)).toBe(true);
+            expect(isInBoundingBox(-15, -175, pacific)).toBe(true);
+            expect(isInBoundingBox(-15, 0, pacific)).toBe(false);
+            // 20 degrees of longitude, not 340
+            expect(calculateBoundingBoxArea(pacific)).toBeCloseTo(
+                calculateBoundingBoxArea({ minLat: -20, minLng: 0, maxLat: -10, maxLng: 20 })
+            );
+        });
+
+        it("should measure box area for the size limit", () => {
+            // one degree square at the equator is roughly 111km x 111km
+            expect(calculateBoundingBoxArea({ minLat: 0, minLng: 0, maxLat: 1, maxLng: 1 })).toBeCloseTo(12364, -2);
+            expect(calculateBoundingBoxArea(cincinnati)).toBeLessThan(MAX_VIEWPORT_AREA_KM2);
+            expect(calculateBoundingBoxArea({ minLat: 20, minLng: -130, maxLat: 50, maxLng: -60 })).toBeGreaterThan(MAX_VIEWPORT_AREA_KM2);
+        });
+    });
+
+    describe("Map clustering", () => {
+        const cincinnati = { minLat: 39.0, minLng: -85.0, maxLat: 39.5, maxLng: -84.3 };
+
+        it("should use coarser geohash cells when zoomed out", () => {
+            expect(getClusterPrecision(2)).toBe(1);
+            expect(getClusterPrecision(8)).toBe(4);
+            expect(getClusterPrecision(16)).toBe(7);
+            expect(getClusterPrecision(5)).toBeLessThan(getClusterPrecision(11));
+        });
+
+        it("should group a metro area into one cluster when zoomed out", async () => {
+            const { clusters, places, precision } = await getPlaceClusters(cincinnati, 5);
+
+            expect(precision).toBe(3);
+            expect(places.length).toBe(0);
+            expect(clusters.length).toBe(1);
+
+            const [cluster] = clusters;
+            expect(cluster.count).toBe(enrichedData.length);
+            expect(cluster.centroid.latitude).toBeGreaterThan(cincinnati.minLat);
+            expect(cluster.centroid.latitude).toBeLessThan(cincinnati.maxLat);
+            expect(cluster.amenities.wifi).toBe(enrichedData.filter(place => place.amenities.wifi).length);
+        });
+
+        it("should return small groups as individual places", () => {
+            const [first, second] = enrichedData as Place[];
+            const { clusters, places } = clusterPlaces([first, second], 3, 3);
+
+            expect(clusters).toEqual([]);
+            expect(places.map(place => place.id)).toEqual([first.id, second.id]);
+        });
+
+        it("should apply filters before clustering", async () => {
+            const { clusters, places, appliedFilters } = await getPlaceClusters(cincinnati, 5, { food: true });
+            const total = clusters.reduce((sum, cluster) => sum + cluster.count, places.length);
+
+            expect(appliedFilters).toEqual({ food: true });
+            expect(total).toBe(enrichedData.filter(place => place.amenities.food).length);
+        });
+    });
+
+    describe("Sorting", () => {
+        const ratings = (places: Place[]) => places.map(place => place.attributes.rating);
+
+        it("should sort by rating, highest first unless asked otherwise", async () => {
+            const { places } = await getAllPlaces({}, {}, { sort: "rating" });
+            const expected = ratings(places).slice().sort((a, b) => b! - a!);
+            expect(ratings(places)).toEqual(expected);
+
+            const { places: ascending } = await getAllPlaces({}, {}, { sort: "rating", order: "asc" });
+            expect(ratings(ascending)).toEqual(expected.slice().sort((a, b) => a! - b!));
+        });
+
+        it("should sort by name and put missing values last", () => {
+            const unrated = { ...enrichedData[0], id: "unrated", name: "Aardvark Cafe", attributes: { ...enrichedData[0].attributes, rating: undefined } } as Place;
+            const sorted = sortPlaces([unrated, ...enrichedData as Place[]], { sort: "rating", order: "asc" });
+            expect(sorted[sorted.length - 1].id).toBe("unrated");
+
+            const byName = sortPlaces([...enrichedData as Place[]], { sort: "name" });
+            expect(byName[0].name).toBe("Shepherd's Ground Coffee Shop");
+            expect(byName[byName.length - 1].name).toBe("White Oak Coffee House");
+        });
+
+        it("should sort newest first", () => {
+            const older = { ...enrichedData[0], createdAt: "2024-01-01T00:00:00.000Z" } as Place;
+            const newer = { ...enrichedData[1], createdAt: "2025-01-01T00:00:00.000Z" } as Place;
+
+            expect(sortPlaces([older, newer], { sort: "newest" })[0]).toBe(newer);
+        });
+
+        it("should page sorted listings with offset cursors", async () => {
+            const { places: everything } = await getAllPlaces({}, {}, { sort: "coffeeRating" });
+            const first = await getAllPlaces({}, { limit: 3 }, { sort: "coffeeRating" });
+            const second = await getAllPlaces({}, { limit: 3, cursor: first.nextCursor }, { sort: "coffeeRating" });
+
+            expect([...first.places, ...second.places].map(place => place.id)).toEqual(everything.slice(0, 6).map(place => place.id));
+            // a cursor from one order can't be used with another
+            await expect(getAllPlaces({}, { limit: 3, cursor: first.nextCursor }, { sort: "name" })).rejects.toThrow(InvalidCursorError);
+        });
+
+        it("should weigh rating against distance for best match", async () => {
+            const close = { ...enrichedData[0], distance: 1, attributes: { ...enrichedData[0].attributes, rating: 3 } } as Place;
+            const further = { ...enrichedData[1], distance: 3, attributes: { ...enrichedData[1].attributes, rating: 5 } } as Place;
+            const radiusKm = 10;
+
+            // a much better place a little further away wins
+            expect(getBestMatchScore(further, radiusKm)).toBeGreaterThan(getBestMatchScore(close, radiusKm));
+            expect(sortPlaces([close, further], { sort: "bestMatch" }, radiusKm)[0]).toBe(further);
+
+            const { places } = await getPlacesNearby(39.24, -84.67, 20, {}, {}, { sort: "bestMatch" });
+            const scores = places.map(place => getBestMatchScore(place, 20));
+            expect(scores).toEqual(scores.slice().sort((a, b) => b - a));
+        });
+    });
+
+    describe("Pagination", () => {
+        it("should page through all places with cursors", async () => {
+            const { places: everything } = await getAllPlaces();
+
+            const seen: string[] = [];
+            let cursor: string | undefined;
+            do {
+                const page = await getAllPlaces({}, { limit: 2, cursor });
+                expect(page.places.length).toBeLessThanOrEqual(2);
+                seen.push(...page.places.map(place => place.id!));
+                cursor = page.nextCursor;
+            } while (cursor);
+
+            expect(seen.length).toBe(everything.length);
+            expect(new Set(seen).size).toBe(everything.length); // no duplicates across pages
+        });
+
+        it("should page nearby results in distance order", async () => {
+            const lat = 39.24;
+            const lng = -84.67;
+            const radiusKm = 20;
+            const { places: everything } = await getPlacesNearby(lat, lng, radiusKm);
+
+            const first = await getPlacesNearby(lat, lng, radiusKm, {}, { limit: 4 });
+            expect(first.places.length).toBe(4);
+            expect(first.nextCursor).toBeDefined();
+
+            const second = await getPlacesNearby(lat, lng, radiusKm, {}, { limit: 4, cursor: first.nextCursor });
+            expect(second.places.map(place => place.id)).toEqual(everything.slice(4, 8).map(place => place.id));
+            expect(second.nextCursor).toBeUndefined();
+        });
+
+        it("should reject tampered or mismatched cursors", async () => {
+            const { nextCursor } = await getAllPlaces({}, { limit: 1 });
+            expect(nextCursor).toBeDefined();
+
+            const [payload, signature] = nextCursor!.split(".");
+            const forged = Buffer.from(JSON.stringify({ q: "x", key: { id: "a" } })).toString("base64url");
+
+            await expect(getAllPlaces({}, { limit: 1, cursor: `${forged}.${signature}` })).rejects.toThrow(InvalidCursorError);
+            await expect(getAllPlaces({}, { limit: 1, cursor: "not-a-cursor" })).rejects.toThrow(InvalidCursorError);
+            // valid signature, but issued for a different query
+            await expect(getAllPlaces({ wifi: true }, { limit: 1, cursor: `${payload}.${signature}` })).rejects.toThrow(InvalidCursorError);
+            await expect(getPlacesNearby(39.24, -84.67, 20, {}, { limit: 1, cursor: nextCursor })).rejects.toThrow(InvalidCursorError);
+        });
+    });
+
     describe("Error handling", () => {
         // error handling tests
         it("should handle errors in getPlacesNearby gracefully", async () => {
@@ -575,7 +976,7 @@ describe("PlaceService Tests", () => {
             const lng = 0;
             const radiusKm = 10;
     
-            const places = await getPlacesNearby(lat, lng, radiusKm);
+            const { places } = await getPlacesNearby(lat, lng, radiusKm);
     
             // should return empty array, not null
             expect(places).toBeInstanceOf(Array);
@@ -591,7 +992,7 @@ describe("PlaceService Tests", () => {
             const lng = -84.8019858;
             const radiusKm = 5;
             
-            const places = await getPlacesNearby(lat, lng, radiusKm).then((places)=> {
+            const places = await getPlacesNearby(lat, lng, radiusKm).then(({ places })=> {
                 for (var place of places) {
                     console.log("PLACE NEAR : ")
                     console.log(place.name);
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll, beforeEach, mock } from "bun:test";
+import {
+    submitPlace,
+    getSubmissions,
+    reviewSubmission,
+    PlaceSubmissionError
+} from "../src/services/placeSubmissionService.js";
+import { getPlaceById, getAllPlaces, getGeohashFields } from "../src/services/placeService.js";
+import { nameSimilarity } from "../src/services/searchService.js";
+import { localDb } from "../src/utils/localdb.js";
+import { Place } from "../src/models/place.js";
+
+describe("Place Submission Service Tests", () => {
+    const placeId = "1b4f6d8e-0a2c-4e3d-9f7b-5c9e1a3b5d7f";
+    const location = { latitude: 47.6097, longitude: -122.3422 };
+    const place: Place = {
+        id: placeId,
+        name: "Starbucks Reserve",
+        address: "1 Pike St",
+        location,
+        ...getGeohashFields(location.latitude, location.longitude),
+        amenities: { wifi: true, coffee: true, outlets: false, seating: true, food: false, meetingRooms: false },
+        attributes: { noiseLevel: "moderate", parking: "none", openLate: false },
+        isPublic: true,
+        createdBy: "admin-1"
+    };
+    const submission = (name: string, latitude = location.latitude + 0.0005) => ({
+        name,
+        address: "1 Pike St",
+        location: { latitude, longitude: location.longitude },
+        amenities: { wifi: true, coffee: true, outlets: true, seating: true, food: false, meetingRooms: false },
+        attributes: { noiseLevel: "moderate" as const, parking: "none" as const, openLate: false, capacity: "medium" as const },
+        openingHours: [{ day: "monday" as const, open: "06:00", close: "20:00" }],
+        isPublic: true
+    });
+
+    beforeAll(() => {
+        // back the services with the in-memory local DB
+        mock.module("../src/utils/dynamodb.js", () => ({
+            putItem: (table, item) => localDb.putItem(table, item),
+            getItem: (table, key) => localDb.getItem(table, key),
+            queryItems: (table, keyConditionExpression, expressionValues, indexName, expressionNames) =>
+                localDb.queryItems(table, keyConditionExpression, expressionValues, expressionNames),
+            scanItems: (table) => localDb.scanItems(table),
+            deleteItem: (table, key) => localDb.deleteItem(table, key),
+            updateFields: (table, key, fields, expected) => localDb.updateItem(table, key, fields, expected),
+            PLACES_TABLE: "workbru-places"
+        }));
+        // the session tests swap uuid for a fixed string for the rest of the run, and createPlace validates the id
+        mock.module("uuid", () => ({ v4: () => crypto.randomUUID() }));
+    });
+
+    beforeEach(async () => {
+        await localDb.clearAll();
+        await localDb.putItem("workbru-places", { ...place });
+    });
+
+    it("should keep submissions pending and out of listings", async () => {
+        const submitted = await submitPlace({ ...submission("Corner Desk Cafe"), status: "approved" }, "user-1");
+
+        expect(submitted.status).toBe("pending");
+        expect(submitted.createdBy).toBe("user-1");
+        expect(submitted.possibleDuplicates).toBeUndefined();
+
+        const { places } = await getAllPlaces();
+        expect(places.map(p => p.id)).toEqual([placeId]);
+    });
+
+    it("should flag nearby places with similar names", async () => {
+        const submitted = await submitPlace(submission("Starbucks"), "user-1");
+        expect(submitted.possibleDuplicates).toEqual([
+            { placeId, name: "Starbucks Reserve", distanceMeters: expect.any(Number), nameSimilarity: 1 }
+        ]);
+        expect(submitted.possibleDuplicates![0].distanceMeters).toBeLessThan(100);
+
+        // same name but a few kilometres away
+        expect((await submitPlace(submission("Starbucks", location.latitude + 0.05), "user-1")).possibleDuplicates).toBeUndefined();
+
+        expect(nameSimilarity("Joe's Café", "Joes Cafe")).toBe(1);
+        expect(nameSimilarity("Blue Bottle", "Red Door")).toBeLessThan(0.5);
+    });
+
+    it("should only list a user's own submissions unless they moderate", async () => {
+        await submitPlace(submission("Corner Desk Cafe"), "user-1");
+        await submitPlace(submission("Window Seat"), "user-2");
+
+        expect((await getSubmissions("pending", "user-1")).places.map(p => p.name)).toEqual(["Corner Desk Cafe"]);
+        expect((await getSubmissions("pending")).places).toHaveLength(2);
+    });
+
+    it("should make approved submissions live", async () => {
+        const submitted = await submitPlace(submission("Corner Desk Cafe"), "user-1");
+
+        const approved = await reviewSubmission(submitted.id!, "admin-1", { action: "approve" });
+        expect(approved?.status).toBe("approved");
+        expect(approved?.reviewedBy).toBe("admin-1");
+        expect(approved?.createdBy).toBe("user-1");
+
+        const { places } = await getAllPlaces();
+        expect(places.map(p => p.id)).toContain(submitted.id);
+        await expect(reviewSubmission(submitted.id!, "admin-1", { action: "reject", reason: "Oops" }))
+            .rejects.toThrow(PlaceSubmissionError);
+    });
+
+    it("should only let one moderator review a submission", async () => {
+        const submitted = await submitPlace(submission("Corner Desk Cafe"), "user-1");
+
+        const results = await Promise.allSettled([
+            reviewSubmission(submitted.id!, "admin-1", { action: "approve" }),
+            reviewSubmission(submitted.id!, "admin-2", { action: "reject", reason: "Closed down" }),
+        ]);
+
+        expect(results.filter(result => result.status === "fulfilled")).toHaveLength(1);
+        expect((results.find(result => result.status === "rejected") as PromiseRejectedResult).reason)
+            .toBeInstanceOf(PlaceSubmissionError);
+    });
+
+    it("should keep rejected submissions hidden with a reason", async () => {
+        const submitted = await submitPlace(submission("Corner Desk Cafe"), "user-1");
+
+        const rejected = await reviewSubmission(submitted.id!, "admin-1", { action: "reject", reason: "Closed down" });
+        expect(rejected?.rejectionReason).toBe("Closed down");
+        expect((await getAllPlaces()).places).toHaveLength(1);
+        expect((await getSubmissions("rejected", "user-1")).places).toHaveLength(1);
+    });
+
+    it("should fill in what the existing place is missing when merging", async () => {
+        const submitted = await submitPlace(submission("Starbucks"), "user-1");
+
+        const merged = await reviewSubmission(submitted.id!, "admin-1", { action: "merge", targetId: placeId });
+        expect(merged?.status).toBe("merged");
+        expect(merged?.mergedInto).toBe(placeId);
+
+        const target = await getPlaceById(placeId);
+        expect(target?.amenities.outlets).toBe(true);
+        expect(target?.attributes.capacity).toBe("medium");
+        expect(target?.openingHours).toEqual(submission("Starbucks").openingHours);
+        // the existing place keeps its own details
+        expect(target?.name).toBe("Starbucks Reserve");
+        expect(target?.createdBy).toBe("admin-1");
+
+        const other = await submitPlace(submission("Window Seat"), "user-2");
+        await expect(reviewSubmission(other.id!, "admin-1", { action: "merge", targetId: submitted.id! }))
+            .rejects.toThrow(PlaceSubmissionError);
+    });
+});
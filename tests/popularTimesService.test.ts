@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeAll, beforeEach, mock } from "bun:test";
+import {
+    recordOccupancy,
+    getPopularTimesRecord,
+    withPopularTimes,
+    getHourOfWeek
+} from "../src/services/popularTimesService.js";
+import { reportBusyness, samplePopularTimes } from "../src/services/busynessService.js";
+import { localDb } from "../src/utils/localdb.js";
+import { Place } from "../src/models/place.js";
+
+describe("Popular Times Service Tests", () => {
+    const placeId = "8e1c3a5b-7d9f-4b2a-8c4e-6f8a0b2c4d6e";
+    const place: Place = {
+        id: placeId,
+        name: "Popular Test Place",
+        address: "1 Popular St",
+        location: { latitude: 51.5, longitude: -0.12 },
+        timeZone: "UTC",
+        amenities: { wifi: true, coffee: true, outlets: true, seating: true, food: false, meetingRooms: false },
+        attributes: { noiseLevel: "quiet", parking: "none", openLate: false },
+        openingHours: [{ day: "monday", open: "09:00", close: "17:00" }],
+        isPublic: true
+    };
+    // a monday morning
+    const now = new Date("2025-06-02T10:30:00Z");
+    const mondayAt = (hour: number) => new Date(Date.UTC(2025, 5, 2, hour, 15));
+
+    const record = async (hour: number, occupancy: number, times = 3) => {
+        for (let i = 0; i < times; i++) {
+            await recordOccupancy(place, occupancy, mondayAt(hour));
+        }
+    };
+
+    beforeAll(() => {
+        // back the services with the in-memory local DB
+        mock.module("../src/utils/dynamodb.js", () => ({
+            putItem: (table, item) => localDb.putItem(table, item),
+            putVersionedItem: (table, item, expectedVersion) => localDb.putVersionedItem(table, item, expectedVersion),
+            getItem: (table, key) => localDb.getItem(table, key),
+            queryItems: (table, keyConditionExpression, expressionValues) =>
+                localDb.queryItems(table, keyConditionExpression, expressionValues),
+            scanItems: (table) => localDb.scanItems(table),
+            batchGetItems: async (table, keys) =>
+                (await Promise.all(keys.map(key => localDb.getItem(table, key)))).filter(Boolean),
+            deleteItem: (table, key) => localDb.deleteItem(table, key),
+            updateFields: (table, key, fields) => localDb.updateItem(table, key, fields),
+            PLACES_TABLE: "workbru-places"
+        }));
+    });
+
+    beforeEach(async () => {
+        await localDb.clearAll();
+        await localDb.putItem("workbru-places", { ...place });
+    });
+
+    it("should keep a running average for each hour of the week", async () => {
+        await recordOccupancy(place, 0.2, mondayAt(11));
+        await recordOccupancy(place, 0.6, mondayAt(11));
+        await recordOccupancy(place, 0.7, mondayAt(11));
+
+        const stored = await getPopularTimesRecord(placeId);
+        const hour = getHourOfWeek(place, mondayAt(11));
+        expect(hour).toBe(11);
+        expect(stored?.samples[hour]).toBe(3);
+        expect(stored?.averages[hour]).toBeCloseTo(0.5);
+        // nothing else was touched
+        expect(stored?.samples.reduce((a, b) => a + b, 0)).toBe(3);
+    });
+
+    it("should only show hours with enough history", async () => {
+        await record(11, 0.5);
+        await record(12, 0.5, 1);
+
+        const { popularTimes } = await withPopularTimes(place, now);
+        expect(popularTimes?.days.monday?.[11]).toBe(0.5);
+        expect(popularTimes?.days.monday?.[12]).toBeNull();
+        expect(popularTimes?.days.tuesday?.every(value => value === null)).toBe(true);
+    });
+
+    it("should suggest the quietest open hour left today", async () => {
+        await record(9, 0.05); // already gone
+        await record(11, 0.8);
+        await record(14, 0.2);
+        await record(20, 0.1); // after closing
+
+        const { popularTimes } = await withPopularTimes(place, now);
+        expect(popularTimes?.quietestToday).toEqual({ time: "14:00", occupancy: 0.2, level: "not-busy" });
+    });
+
+    it("should leave places without history alone", async () => {
+        expect((await withPopularTimes(place, now)).popularTimes).toBeUndefined();
+    });
+
+    it("should record busyness votes as they come in", async () => {
+        await reportBusyness(placeId, "user-1", { level: "busy" });
+
+        const stored = await getPopularTimesRecord(placeId);
+        const hour = getHourOfWeek(place, new Date());
+        expect(stored?.samples[hour]).toBe(1);
+        expect(stored?.averages[hour]).toBe(0.75);
+    });
+
+    it("should not lose samples recorded at the same time", async () => {
+        await Promise.all([0.2, 0.4, 0.6].map(occupancy => recordOccupancy(place, occupancy, mondayAt(11))));
+
+        const stored = await getPopularTimesRecord(placeId);
+        expect(stored?.samples[11]).toBe(3);
+        expect(stored?.averages[11]).toBeCloseTo(0.4);
+    });
+
+    it("should sample quiet hours so they can be suggested", async () => {
+        await record(11, 0.8);
+        // nobody around at 14:00 for three weeks running
+        for (const week of [0, 1, 2]) {
+            const at = new Date(mondayAt(14).getTime() + week * 7 * 24 * 60 * 60 * 1000);
+            expect(await samplePopularTimes(at)).toBe(1);
+        }
+        // hours that already have a sample are left alone
+        await recordOccupancy(place, 0.5, mondayAt(15));
+        expect(await samplePopularTimes(new Date(Date.UTC(2025, 5, 2, 15, 45)))).toBe(0);
+
+        const { popularTimes } = await withPopularTimes(place, now);
+        expect(popularTimes?.days.monday?.[14]).toBe(0);
+        expect(popularTimes?.quietestToday).toEqual({ time: "14:00", occupancy: 0, level: "not-busy" });
+    });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeAll, beforeEach, mock } from "bun:test";
+import {
+    createReview,
+    updateReview,
+    deleteReview,
+    getReviewsForPlace,
+    getReviewId,
+    DuplicateReviewError
+} from "../src/services/reviewService.js";
+import { getPlaceById } from "../src/services/placeService.js";
+import { localDb } from "../src/utils/localdb.js";
+import { Place } from "../src/models/place.js";
+
+describe("Review Service Tests", () => {
+    const placeId = "2b1f5a8e-6c4d-4e3b-9a7f-1d2c3b4a5e6f";
+    const place: Place = {
+        id: placeId,
+        name: "Review Test Place",
+        address: "1 Review St",
+        location: { latitude: 39.24, longitude: -84.67 },
+        amenities: { wifi: true, coffee: true, outlets: true, seating: true, food: false, meetingRooms: false },
+        attributes: { noiseLevel: "quiet", parking: "none", openLate: false, rating: 1, coffeeRating: 1 },
+        isPublic: true
+    };
+
+    beforeAll(() => {
+        // back the services with the in-memory local DB
+        mock.module("../src/utils/dynamodb.js", () => ({
+            putItem: (table, item) => localDb.putItem(table, item),
+            putNewItem: (table, item) => localDb.putNewItem(table, item),
+            getItem: (table, key) => localDb.getItem(table, key),
+            queryItems: (table, keyConditionExpression, expressionValues) =>
+                localDb.queryItems(table, keyConditionExpression, expressionValues),
+            scanItems: (table) => localDb.scanItems(table),
+            deleteItem: (table, key) => localDb.deleteItem(table, key),
+            updateFields: (table, key, fields) => localDb.updateItem(table, key, fields),
+            PLACES_TABLE: "workbru-places"
+        }));
+    });
+
+    beforeEach(async () => {
+        await localDb.clearAll();
+        await localDb.putItem("workbru-places", { ...place });
+    });
+
+    it("should replace typed-in ratings with review averages", async () => {
+        await createReview(placeId, "user-1", { ratings: { overall: 5, coffee: 4 }, text: "Great spot" });
+        await createReview(placeId, "user-2", { ratings: { overall: 4, seatingComfort: 3 }, visitDate: "2025-04-01" });
+
+        const updated = await getPlaceById(placeId);
+        expect(updated?.attributes.rating).toBe(4.5);
+        expect(updated?.attributes.coffeeRating).toBe(4);
+        expect(updated?.attributes.seatingComfort).toBe(3);
+        expect(updated?.reviewCount).toBe(2);
+        // other attributes are left alone
+        expect(updated?.attributes.noiseLevel).toBe("quiet");
+    });
+
+    it("should allow one review per user per place", async () => {
+        const review = await createReview(placeId, "user-1", { ratings: { overall: 5 } });
+        expect(review?.id).toBe(getReviewId(placeId, "user-1"));
+
+        await expect(createReview(placeId, "user-1", { ratings: { overall: 1 } })).rejects.toThrow(DuplicateReviewError);
+
+        // posting twice at once still only writes one
+        const results = await Promise.allSettled([
+            createReview(placeId, "user-2", { ratings: { overall: 4 } }),
+            createReview(placeId, "user-2", { ratings: { overall: 2 } }),
+        ]);
+        expect(results.map(result => result.status).sort()).toEqual(["fulfilled", "rejected"]);
+        expect((await getReviewsForPlace(placeId)).reviews).toHaveLength(2);
+    });
+
+    it("should not review places that don't exist", async () => {
+        expect(await createReview("00000000-0000-4000-8000-000000000000", "user-1", { ratings: { overall: 5 } })).toBeNull();
+    });
+
+    it("should validate ratings and visit dates", async () => {
+        await expect(createReview(placeId, "user-1", { ratings: { overall: 6 } })).rejects.toThrow();
+        await expect(createReview(placeId, "user-1", { ratings: { overall: 3 }, visitDate: "2999-01-01" })).rejects.toThrow();
+    });
+
+    it("should recompute ratings when a review is edited or deleted", async () => {
+        const first = await createReview(placeId, "user-1", { ratings: { overall: 5, coffee: 5 } });
+        const second = await createReview(placeId, "user-2", { ratings: { overall: 3 } });
+
+        await updateReview(second!.id, { ratings: { overall: 1 }, text: "Went downhill" });
+        expect((await getPlaceById(placeId))?.attributes.rating).toBe(3);
+
+        await deleteReview(first!.id);
+        const afterDelete = await getPlaceById(placeId);
+        expect(afterDelete?.attributes.rating).toBe(1);
+        expect(afterDelete?.attributes.coffeeRating).toBeUndefined(); // nobody left has rated the coffee
+        expect(afterDelete?.reviewCount).toBe(1);
+
+        await deleteReview(second!.id);
+        expect((await getPlaceById(placeId))?.reviewCount).toBe(0);
+    });
+
+    it("should list reviews newest first with pagination", async () => {
+        await createReview(placeId, "user-1", { ratings: { overall: 5 } });
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await createReview(placeId, "user-2", { ratings: { overall: 4 } });
+
+        const first = await getReviewsForPlace(placeId, { limit: 1 });
+        expect(first.reviews.map(review => review.userId)).toEqual(["user-2"]);
+
+        const second = await getReviewsForPlace(placeId, { limit: 1, cursor: first.nextCursor });
+        expect(second.reviews.map(review => review.userId)).toEqual(["user-1"]);
+        expect(second.nextCursor).toBeUndefined();
+    });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeAll, mock } from "bun:test";
+import {
+    tokenize,
+    editDistance,
+    matchTerm,
+    buildPostings,
+    indexPlace,
+    removePlace,
+    reindexAllPlaces,
+    searchPlaces
+} from "../src/services/searchService.js";
+import localData from "../src/utils/local-data.json" with { type: "json" };
+import { localDb } from "../src/utils/localdb.js";
+import { Place } from "../src/models/place.js";
+import { InvalidCursorError } from "../src/utils/cursor.js";
+
+describe("Search Service Tests", () => {
+    const places = localData.map(place => ({ ...place, id: crypto.randomUUID() })) as Place[];
+
+    beforeAll(async () => {
+        // back the index with the in-memory local DB
+        mock.module("../src/utils/dynamodb.js", () => ({
+            putItem: (table, item) => localDb.putItem(table, item),
+            getItem: (table, key) => localDb.getItem(table, key),
+            queryItems: (table, keyConditionExpression, expressionValues, indexName, expressionNames) =>
+                localDb.queryItems(table, keyConditionExpression, expressionValues, expressionNames),
+            batchGetItems: async (table, keys) =>
+                (await Promise.all(keys.map(key => localDb.getItem(table, key)))).filter(Boolean),
+            scanItems: (table) => localDb.scanItems(table),
+            deleteItem: (table, key) => localDb.deleteItem(table, key),
+            PLACES_TABLE: "workbru-places"
+        }));
+
+        await localDb.clearAll();
+        for (const place of places) {
+            await localDb.putItem("workbru-places", place);
+        }
+        await reindexAllPlaces();
+    });
+
+    describe("Text matching", () => {
+        it("should tokenise text into lowercase terms", () => {
+            expect(tokenize("Joe's Café, 12 Main St.")).toEqual(["joes", "cafe", "12", "main", "st"]);
+            expect(tokenize(undefined)).toEqual([]);
+        });
+
+        it("should count transpositions as a single edit", () => {
+            expect(editDistance("harrison", "harrison")).toBe(0);
+            expect(editDistance("harisson", "harrison")).toBe(2);
+            expect(editDistance("cofefe", "coffee")).toBe(1);
+            // gives up once over the limit
+            expect(editDistance("starbucks", "square", 1)).toBe(2);
+        });
+
+        it("should prefer exact matches over prefixes over typos", () => {
+            const exact = matchTerm("coffee", "coffee");
+            const prefix = matchTerm("cof", "coffee");
+            const typo = matchTerm("cofee", "coffee");
+
+            expect(exact).toBeGreaterThan(prefix);
+            expect(prefix).toBeGreaterThan(typo);
+            expect(typo).toBeGreaterThan(0);
+            // short words have to be exact
+            expect(matchTerm("ave", "axe")).toBe(0);
+        });
+
+        it("should weight name terms above address and description terms", () => {
+            const postings = buildPostings(places[0]);
+            const weight = (term: string) => postings.find(posting => posting.term === term)?.weight;
+
+            expect(weight("peddlar")).toBe(3);
+            expect(weight("harrison")).toBe(2);
+            expect(weight("historic")).toBe(1);
+            // stop words are left out of the index
+            expect(weight("the")).toBeUndefined();
+            // partitioned on the first two characters
+            expect(postings.find(posting => posting.term === "peddlar")?.bucket).toBe("pe");
+        });
+    });
+
+    describe("Searching", () => {
+        it("should find a place by name and street", async () => {
+            const { places: results } = await searchPlaces({ q: "coffee place on Harrison Ave" });
+
+            expect(results[0].name).toBe("The Coffee Peddlar");
+        });
+
+        it("should tolerate typos and partial words", async () => {
+            const { places: typo } = await searchPlaces({ q: "peddler" });
+            expect(typo[0]?.name).toBe("The Coffee Peddlar");
+
+            const { places: prefix } = await searchPlaces({ q: "shephe" });
+            expect(prefix[0]?.name).toBe("Shepherd's Ground Coffee Shop");
+        });
+
+        it("should rank the nearest match first when biased to a location", async () => {
+            const colerain = places.find(place => place.address.includes("Colerain"))!;
+            const { places: results } = await searchPlaces({
+                q: "starbucks",
+                lat: colerain.location.latitude,
+                lng: colerain.location.longitude
+            });
+
+            expect(results.length).toBe(2);
+            expect(results[0].id).toBe(colerain.id);
+            expect(results[0].distance).toBeCloseTo(0);
+        });
+
+        it("should page through results with cursors", async () => {
+            const { places: everything } = await searchPlaces({ q: "coffee" });
+
+            const first = await searchPlaces({ q: "coffee" }, { limit: 2 });
+            const second = await searchPlaces({ q: "coffee" }, { limit: 2, cursor: first.nextCursor });
+            expect(second.places.map(place => place.id)).toEqual(everything.slice(2, 4).map(place => place.id));
+
+            await expect(searchPlaces({ q: "tea" }, { limit: 2, cursor: first.nextCursor })).rejects.toThrow(InvalidCursorError);
+        });
+
+        it("should keep the index in step with place changes", async () => {
+            const place = { ...places[3], name: "Zephyr Roasters" };
+            await localDb.putItem("workbru-places", place);
+            await indexPlace(place);
+
+            expect((await searchPlaces({ q: "zephyr" })).places.map(result => result.id)).toEqual([place.id]);
+            // the old name is gone from the index
+            expect((await searchPlaces({ q: "white oak" })).places.map(result => result.id)).not.toContain(place.id);
+
+            await removePlace(place.id!);
+            expect((await searchPlaces({ q: "zephyr" })).places).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeAll, beforeEach, mock } from "bun:test";
+import {
+    createSuggestion,
+    getSuggestions,
+    reviewSuggestion,
+    SuggestionError
+} from "../src/services/suggestionService.js";
+import { getPlaceById } from "../src/services/placeService.js";
+import { localDb } from "../src/utils/localdb.js";
+import { Place } from "../src/models/place.js";
+
+describe("Suggestion Service Tests", () => {
+    const placeId = "0a3e5c7d-9f1b-4d2c-8e6a-4b8d0f2a4c6e";
+    const place: Place = {
+        id: placeId,
+        name: "Suggestion Test Place",
+        address: "1 Edit St",
+        location: { latitude: 40.71, longitude: -74.0 },
+        amenities: { wifi: true, coffee: true, outlets: false, seating: true, food: false, meetingRooms: false },
+        attributes: { noiseLevel: "quiet", parking: "none", openLate: false },
+        isPublic: true,
+        createdBy: "owner-1"
+    };
+
+    beforeAll(() => {
+        // back the services with the in-memory local DB
+        mock.module("../src/utils/dynamodb.js", () => ({
+            putItem: (table, item) => localDb.putItem(table, item),
+            putVersionedItem: (table, item, expectedVersion) => localDb.putVersionedItem(table, item, expectedVersion),
+            getItem: (table, key) => localDb.getItem(table, key),
+            queryItems: (table, keyConditionExpression, expressionValues, indexName, expressionNames) =>
+                localDb.queryItems(table, keyConditionExpression, expressionValues, expressionNames),
+            scanItems: (table) => localDb.scanItems(table),
+            deleteItem: (table, key) => localDb.deleteItem(table, key),
+            updateFields: (table, key, fields) => localDb.updateItem(table, key, fields),
+            PLACES_TABLE: "workbru-places"
+        }));
+    });
+
+    beforeEach(async () => {
+        await localDb.clearAll();
+        await localDb.putItem("workbru-places", { ...place });
+    });
+
+    it("should only keep what the suggestion changes", async () => {
+        const suggestion = await createSuggestion(placeId, "user-1", {
+            changes: { name: "Suggestion Test Place", address: "2 Edit St", amenities: { outlets: true, wifi: true } },
+            note: "They moved next door"
+        });
+
+        expect(suggestion?.status).toBe("pending");
+        expect(suggestion?.changes).toEqual({ address: "2 Edit St", amenities: { outlets: true } });
+
+        await expect(createSuggestion(placeId, "user-1", { changes: { name: "Suggestion Test Place" } }))
+            .rejects.toThrow(SuggestionError);
+        expect(await createSuggestion("00000000-0000-4000-8000-000000000000", "user-1", { changes: { name: "Elsewhere" } }))
+            .toBeNull();
+    });
+
+    it("should not count defaults for attributes the place is missing as changes", async () => {
+        // saved before parking and openLate had defaults, with its own ID as places are cached
+        const { parking, openLate, ...attributes } = place.attributes;
+        const oldPlace = { ...place, id: crypto.randomUUID(), attributes };
+        await localDb.putItem("workbru-places", oldPlace);
+
+        const suggestion = await createSuggestion(oldPlace.id, "user-1", { changes: { attributes: { noiseLevel: "moderate" } } });
+        expect(suggestion?.changes).toEqual({ attributes: { noiseLevel: "moderate" } });
+    });
+
+    it("should validate suggested changes", async () => {
+        await expect(createSuggestion(placeId, "user-1", { changes: { isPublic: false } })).rejects.toThrow();
+        await expect(createSuggestion(placeId, "user-1", { changes: { attributes: { noiseLevel: "deafening" } } })).rejects.toThrow();
+        await expect(createSuggestion(placeId, "user-1", { changes: { attributes: { rating: 5 } } })).rejects.toThrow(SuggestionError);
+    });
+
+    it("should queue pending suggestions oldest first with a diff", async () => {
+        const first = await createSuggestion(placeId, "user-1", { changes: { amenities: { outlets: true } } });
+        await createSuggestion(placeId, "user-2", { changes: { name: "Renamed Place" } });
+
+        const { suggestions, nextCursor } = await getSuggestions("pending", { limit: 1 });
+        expect(suggestions).toHaveLength(1);
+        expect(suggestions[0].id).toBe(first!.id);
+        expect(suggestions[0].placeName).toBe("Suggestion Test Place");
+        expect(suggestions[0].diff).toEqual([{ field: "amenities.outlets", current: false, suggested: true }]);
+
+        const next = await getSuggestions("pending", { limit: 1, cursor: nextCursor });
+        expect(next.suggestions[0].diff).toEqual([{ field: "name", current: "Suggestion Test Place", suggested: "Renamed Place" }]);
+        expect(next.nextCursor).toBeUndefined();
+    });
+
+    it("should apply approved suggestions to the place", async () => {
+        const suggestion = await createSuggestion(placeId, "user-1", { changes: { amenities: { outlets: true } } });
+
+        const approved = await reviewSuggestion(suggestion!.id, "admin-1", { status: "approved" });
+        expect(approved?.status).toBe("approved");
+        expect(approved?.reviewedBy).toBe("admin-1");
+
+        const updated = await getPlaceById(placeId);
+        expect(updated?.amenities).toEqual({ ...place.amenities, outlets: true });
+        expect(updated?.createdBy).toBe("owner-1");
+
+        // nothing left in the queue, and it can't be reviewed twice
+        expect((await getSuggestions()).suggestions).toHaveLength(0);
+        await expect(reviewSuggestion(suggestion!.id, "admin-1", { status: "rejected", reason: "Oops" }))
+            .rejects.toThrow(SuggestionError);
+    });
+
+    it("should only let one moderator review a suggestion", async () => {
+        const suggestion = await createSuggestion(placeId, "user-1", { changes: { name: "Renamed Once" } });
+
+        const results = await Promise.allSettled([
+            reviewSuggestion(suggestion!.id, "admin-1", { status: "approved" }),
+            reviewSuggestion(suggestion!.id, "admin-2", { status: "rejected", reason: "Not the real name" }),
+        ]);
+
+        expect(results.filter(result => result.status === "fulfilled")).toHaveLength(1);
+        expect((results.find(result => result.status === "rejected") as PromiseRejectedResult).reason)
+            .toBeInstanceOf(SuggestionError);
+    });
+
+    it("should require a reason to reject", async () => {
+        const suggestion = await createSuggestion(placeId, "user-1", { changes: { name: "Wrong Name" } });
+
+        await expect(reviewSuggestion(suggestion!.id, "admin-1", { status: "rejected" })).rejects.toThrow();
+
+        const rejected = await reviewSuggestion(suggestion!.id, "admin-1", { status: "rejected", reason: "Not the real name" });
+        expect(rejected?.rejectionReason).toBe("Not the real name");
+        expect((await getPlaceById(placeId))?.name).toBe("Suggestion Test Place");
+        expect((await getSuggestions("rejected")).suggestions).toHaveLength(1);
+    });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeAll, beforeEach, mock } from "bun:test";
+import * as teamService from "../src/services/teamService.js";
+import * as teamPlaceService from "../src/services/teamPlaceService.js";
+import { TeamError } from "../src/services/teamService.js";
+import { localDb } from "../src/utils/localdb.js";
+
+describe("Team Service Tests", () => {
+    beforeAll(() => {
+        // back the services with the in-memory local DB
+        mock.module("../src/utils/dynamodb.js", () => ({
+            putItem: (table, item) => localDb.putItem(table, item),
+            getItem: (table, key) => localDb.getItem(table, key),
+            queryItems: (table, keyConditionExpression, expressionValues, indexName, expressionNames) =>
+                localDb.queryItems(table, keyConditionExpression, expressionValues, expressionNames),
+            scanItems: (table) => localDb.scanItems(table),
+            batchGetItems: async (table, keys) =>
+                (await Promise.all(keys.map(key => localDb.getItem(table, key)))).filter(Boolean),
+            deleteItem: (table, key) => localDb.deleteItem(table, key),
+            updateFields: (table, key, fields) => localDb.updateItem(table, key, fields),
+            PLACES_TABLE: "workbru-places"
+        }));
+        // the session tests swap uuid for a fixed string for the rest of the run, and teams are keyed by it
+        mock.module("uuid", () => ({ v4: () => crypto.randomUUID() }));
+    });
+
+    beforeEach(async () => {
+        await localDb.clearAll();
+    });
+
+    // sets up a team with an owner, an admin and a member
+    async function createTeam() {
+        const team = await teamService.createTeam("owner-1", { name: "Remote Crew" });
+        for (const [userId, role] of [["admin-1", "admin"], ["member-1", "member"]] as const) {
+            const invite = await teamService.createInvite(team.id, "owner-1", { role });
+            await teamService.acceptInvite(invite.token, userId);
+        }
+        return team;
+    }
+
+    it("should rank owners above admins above members", async () => {
+        const team = await createTeam();
+        expect(team.role).toBe("owner");
+        expect((await teamService.getTeamMembers(team.id)).map(member => member.role).sort()).toEqual(["admin", "member", "owner"]);
+        expect((await teamService.getUserTeams("member-1")).map(t => [t.name, t.role])).toEqual([["Remote Crew", "member"]]);
+
+        // team permissions are granted on these, see permissionService
+        const hasRole = (userId: string, role: "owner" | "admin" | "member") => teamService.hasTeamRole(team.id, userId, role);
+        expect(await hasRole("member-1", "member")).toBe(true);
+        expect(await hasRole("member-1", "admin")).toBe(false);
+        expect(await hasRole("admin-1", "admin")).toBe(true);
+        expect(await hasRole("admin-1", "owner")).toBe(false);
+        expect(await hasRole("owner-1", "owner")).toBe(true);
+        expect(await hasRole("owner-1", "member")).toBe(true);
+        expect(await hasRole("someone-else", "member")).toBe(false);
+    });
+
+    it("should only let invites be used once, before they expire, by whoever they were sent to", async () => {
+        const team = await createTeam();
+
+        const first = await teamService.createInvite(team.id, "admin-1", { email: "sam@example.com", role: "member" });
+        const invite = await teamService.createInvite(team.id, "admin-1", { email: "sam@example.com", role: "admin" });
+        // inviting the same address again replaces the earlier invite
+        expect((await teamService.getTeamInvites(team.id)).map(i => i.id)).toEqual([invite.id]);
+        await expect(teamService.acceptInvite(first.token, "sam-1", "sam@example.com")).rejects.toThrow(TeamError);
+
+        await expect(teamService.acceptInvite(invite.token, "sam-1")).rejects.toThrow("different email address");
+        await expect(teamService.acceptInvite(invite.token, "sam-1", "alex@example.com")).rejects.toThrow(TeamError);
+        expect((await teamService.acceptInvite(invite.token, "sam-1", "Sam@Example.com")).role).toBe("admin");
+        await expect(teamService.acceptInvite(invite.token, "alex-1")).rejects.toThrow("Invite not found or expired");
+
+        const expired = await teamService.createInvite(team.id, "owner-1", { role: "member" });
+        await localDb.putItem("workbru-team-invites", { ...expired, expiresAt: Math.floor(Date.now() / 1000) - 1 });
+        expect(await teamService.getTeamInvites(team.id)).toHaveLength(0);
+        await expect(teamService.acceptInvite(expired.token, "alex-1")).rejects.toThrow("Invite not found or expired");
+
+        // accepting again doesn't change the role someone already has
+        const another = await teamService.createInvite(team.id, "owner-1", { role: "member" });
+        expect((await teamService.acceptInvite(another.token, "admin-1")).role).toBe("admin");
+    });
+
+    it("should leave ownership changes to owners and always keep an owner", async () => {
+        const team = await createTeam();
+
+        await expect(teamService.updateMemberRole(team.id, "admin-1", "member-1", "owner")).rejects.toThrow(TeamError);
+        await expect(teamService.removeMember(team.id, "admin-1", "owner-1")).rejects.toThrow("Only owners can remove an owner");
+        expect((await teamService.updateMemberRole(team.id, "admin-1", "member-1", "admin"))?.role).toBe("admin");
+
+        await expect(teamService.updateMemberRole(team.id, "owner-1", "owner-1", "admin")).rejects.toThrow("A team needs an owner");
+        await expect(teamService.removeMember(team.id, "owner-1", "owner-1")).rejects.toThrow("A team needs an owner");
+
+        await teamService.updateMemberRole(team.id, "owner-1", "admin-1", "owner");
+        expect(await teamService.removeMember(team.id, "owner-1", "owner-1")).toBe(true);
+        expect(await teamService.getMembership(team.id, "owner-1")).toBeNull();
+        expect(await teamService.updateMemberRole(team.id, "admin-1", "owner-1", "member")).toBeNull();
+    });
+
+    it("should share favourites and notes within the team and remove them with it", async () => {
+        const team = await createTeam();
+        const place = { id: crypto.randomUUID(), name: "Team Cafe", address: "1 Team St", location: { latitude: 51.5, longitude: -0.12 } };
+        await localDb.putItem("workbru-places", place);
+
+        const favorite = await teamPlaceService.addTeamFavorite(team.id, place.id, "member-1");
+        expect(await teamPlaceService.addTeamFavorite(team.id, place.id, "owner-1")).toEqual(favorite);
+        expect(await teamPlaceService.addTeamFavorite(team.id, crypto.randomUUID(), "member-1")).toBeNull();
+        expect((await teamPlaceService.getTeamFavorites(team.id)).places.map(p => p.name)).toEqual(["Team Cafe"]);
+
+        const note = await teamPlaceService.addTeamAnnotation(team.id, "member-1", { placeId: place.id, text: "Corporate discount at the till" });
+        expect(await teamPlaceService.getTeamAnnotations(team.id, place.id)).toEqual([note!]);
+        expect(await teamPlaceService.getTeamAnnotation(crypto.randomUUID(), note!.id)).toBeNull();
+
+        // notes stay with the team they were written for
+        const otherTeam = await teamService.createTeam("owner-2", { name: "Other Crew" });
+        expect(await teamPlaceService.updateTeamAnnotation(otherTeam.id, note!.id, { text: "Mine now" })).toBeNull();
+        expect(await teamPlaceService.deleteTeamAnnotation(otherTeam.id, note!.id)).toBe(false);
+        expect((await teamPlaceService.updateTeamAnnotation(team.id, note!.id, { text: "Discount ended" }))?.text).toBe("Discount ended");
+
+        expect(await teamService.deleteTeam(team.id)).toBe(true);
+        expect(await teamService.getTeam(team.id)).toBeNull();
+        expect(await teamService.getUserTeams("member-1")).toEqual([]);
+        expect(await teamPlaceService.getTeamAnnotations(team.id)).toEqual([]);
+        expect((await teamPlaceService.getTeamFavorites(team.id)).places).toEqual([]);
+    });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeAll, beforeEach, mock } from "bun:test";
+import {
+    submitWifiReport,
+    median,
+    DuplicateWifiReportError,
+    WifiOutlierError
+} from "../src/services/wifiService.js";
+import { getPlaceById, matchesFilters } from "../src/services/placeService.js";
+import { localDb } from "../src/utils/localdb.js";
+import { Place } from "../src/models/place.js";
+
+describe("Wi-Fi Service Tests", () => {
+    const placeId = "9f2d4b6c-8e0a-4c3b-9d5f-7a9b1c3d5e7f";
+    const place: Place = {
+        id: placeId,
+        name: "Wi-Fi Test Place",
+        address: "1 Router St",
+        location: { latitude: 39.24, longitude: -84.67 },
+        amenities: { wifi: true, coffee: true, outlets: true, seating: true, food: false, meetingRooms: false },
+        attributes: { noiseLevel: "quiet", parking: "none", openLate: false },
+        isPublic: true
+    };
+    const speeds = (downloadMbps: number) => ({ downloadMbps, uploadMbps: downloadMbps / 5, latencyMs: 20 });
+
+    beforeAll(() => {
+        // back the services with the in-memory local DB
+        mock.module("../src/utils/dynamodb.js", () => ({
+            putItem: (table, item) => localDb.putItem(table, item),
+            putNewItem: (table, item) => localDb.putNewItem(table, item),
+            getItem: (table, key) => localDb.getItem(table, key),
+            queryItems: (table, keyConditionExpression, expressionValues) =>
+                localDb.queryItems(table, keyConditionExpression, expressionValues),
+            scanItems: (table) => localDb.scanItems(table),
+            deleteItem: (table, key) => localDb.deleteItem(table, key),
+            updateFields: (table, key, fields) => localDb.updateItem(table, key, fields),
+            PLACES_TABLE: "workbru-places"
+        }));
+    });
+
+    beforeEach(async () => {
+        await localDb.clearAll();
+        await localDb.putItem("workbru-places", { ...place });
+    });
+
+    it("should take medians of the reports", async () => {
+        await submitWifiReport(placeId, "user-1", "session-1", speeds(50));
+        await submitWifiReport(placeId, "user-2", "session-2", speeds(100));
+        await submitWifiReport(placeId, "user-3", "session-3", speeds(80));
+
+        const updated = await getPlaceById(placeId);
+        expect(updated?.wifiSpeed).toMatchObject({ downloadMbps: 80, uploadMbps: 16, latencyMs: 20, reportCount: 3 });
+        expect(updated?.wifiSpeed?.measuredAt).toBeDefined();
+        expect(median([1, 2, 3, 4])).toBe(2.5);
+    });
+
+    it("should reject a second report from the same session", async () => {
+        await submitWifiReport(placeId, "user-1", "session-1", speeds(50));
+        await expect(submitWifiReport(placeId, "user-1", "session-1", speeds(60))).rejects.toThrow(DuplicateWifiReportError);
+        // a new session can report again
+        expect(await submitWifiReport(placeId, "user-1", "session-2", speeds(60))).not.toBeNull();
+
+        // even when both requests arrive at once
+        const results = await Promise.allSettled([
+            submitWifiReport(placeId, "user-1", "session-3", speeds(50)),
+            submitWifiReport(placeId, "user-1", "session-3", speeds(60)),
+        ]);
+        expect(results.filter(result => result.status === "fulfilled")).toHaveLength(1);
+    });
+
+    it("should reject outliers once there are enough reports", async () => {
+        for (let i = 0; i < 5; i++) {
+            await submitWifiReport(placeId, `user-${i}`, `session-${i}`, speeds(40 + i));
+        }
+
+        await expect(submitWifiReport(placeId, "user-9", "session-9", speeds(900))).rejects.toThrow(WifiOutlierError);
+        await expect(submitWifiReport(placeId, "user-9", "session-9", { downloadMbps: 42, uploadMbps: 8.4, latencyMs: 2000 }))
+            .rejects.toThrow(WifiOutlierError);
+        expect((await getPlaceById(placeId))?.wifiSpeed?.reportCount).toBe(5);
+    });
+
+    it("should validate measurements", async () => {
+        await expect(submitWifiReport(placeId, "user-1", "session-1", { downloadMbps: -1, uploadMbps: 1, latencyMs: 1 })).rejects.toThrow();
+        expect(await submitWifiReport("00000000-0000-4000-8000-000000000000", "user-1", "session-1", speeds(50))).toBeNull();
+    });
+
+    it("should filter on median download speed", async () => {
+        await submitWifiReport(placeId, "user-1", "session-1", speeds(50));
+        const tested = (await getPlaceById(placeId))!;
+
+        expect(matchesFilters(tested, { minDownloadMbps: 25 })).toBe(true);
+        expect(matchesFilters(tested, { minDownloadMbps: 100 })).toBe(false);
+        // untested places never qualify
+        expect(matchesFilters(place, { minDownloadMbps: 1 })).toBe(false);
+    });
+});